@@ -2,6 +2,7 @@
 // List and browse BSR modules by organization + curated popular list
 
 import { NextResponse } from 'next/server';
+import { proxyFetch } from '@/lib/grpc/http-proxy';
 import { errorMessage } from '@/lib/utils';
 
 export const runtime = 'nodejs';
@@ -41,7 +42,8 @@ export async function GET(req: Request) {
 			console.log(`[BSR] Listing modules for owner: ${owner}`);
 
 			// Use BSR's Connect-protocol API (JSON POST)
-			const response = await fetch('https://buf.build/buf.registry.module.v1.ModuleService/ListModules', {
+			// Browsing is not tied to a source, so only the server-level proxy applies
+			const response = await proxyFetch('https://buf.build/buf.registry.module.v1.ModuleService/ListModules', {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
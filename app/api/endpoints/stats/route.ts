@@ -0,0 +1,58 @@
+// app/api/endpoints/stats/route.ts
+// Server-side endpoint health: success/failure stats, latency and blacklist state
+
+import { NextResponse } from 'next/server';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { errorMessage } from '@/lib/utils';
+import type { EndpointStatsAction } from '@/lib/types/grpc';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: EndpointStatsAction[] = ['unblacklist', 'reset'];
+
+/**
+ * GET /api/endpoints/stats - Every endpoint this server process has called
+ */
+export async function GET() {
+  // Expired blacklist entries are otherwise never lifted
+  endpointManager.clearExpiredBlacklist();
+  return NextResponse.json({
+    endpoints: endpointManager.getSnapshot(),
+    blacklistThreshold: endpointManager.BLACKLIST_THRESHOLD,
+    blacklistDurationMs: endpointManager.BLACKLIST_DURATION,
+  });
+}
+
+/**
+ * POST /api/endpoints/stats - Un-blacklist an endpoint or reset its stats
+ */
+export async function POST(req: Request) {
+  try {
+    const { action, address } = await req.json();
+
+    if (typeof address !== 'string' || !address.trim() || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Missing required parameters: address, action (${ACTIONS.join(' | ')})` },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = address.trim();
+    const known = (action as EndpointStatsAction) === 'reset'
+      ? endpointManager.resetStats(endpoint)
+      : endpointManager.unblacklist(endpoint);
+    if (!known) {
+      return NextResponse.json({ error: `No stats recorded for ${endpoint}` }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      action,
+      endpoint: endpointManager.getSnapshot().find((entry) => entry.address === endpoint) ?? null,
+    });
+  } catch (err: unknown) {
+    console.error('[EndpointStats] Error:', err);
+    return NextResponse.json({ success: false, error: errorMessage(err) }, { status: 400 });
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadServiceDescriptor } from '@/lib/grpc/reflection-utils';
 import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { authorizeCall } from '@/lib/grpc/call-auth';
 
 export async function POST(request: NextRequest) {
   try {
-    const { endpoint, tlsEnabled, serviceName, timeoutMs } = await request.json();
+    const { endpoint, tlsEnabled, serviceName, timeoutMs, transport, authConfig, proxy } = await request.json();
     const requestTimeoutMs = normalizeRequestTimeoutMs(timeoutMs);
 
     if (!endpoint || typeof tlsEnabled !== 'boolean' || !serviceName) {
@@ -16,8 +19,16 @@ export async function POST(request: NextRequest) {
 
     console.log(`[API] Loading descriptor for ${serviceName} from ${endpoint}`);
 
+    const reflectionProxy = normalizeProxyConfig(proxy);
     const service = await loadServiceDescriptor(
-      { endpoint, tls: tlsEnabled, timeout: requestTimeoutMs },
+      {
+        endpoint,
+        tls: tlsEnabled,
+        timeout: requestTimeoutMs,
+        transport: normalizeTransport(transport),
+        proxy: reflectionProxy,
+        ...await authorizeCall(undefined, authConfig, reflectionProxy),
+      },
       serviceName
     );
 
@@ -2,11 +2,28 @@
 // gRPC method execution via reflection service
 
 import { NextResponse } from 'next/server';
-import { ReflectionClient } from '@/lib/grpc/reflection-client';
+import { acquirePooledClient } from '@/lib/grpc/client-pool';
+import { authorizeCall, callCredentialKey } from '@/lib/grpc/call-auth';
+import { GrpcCallError } from '@/lib/grpc/call-status';
+import { resolveExecutionAttempts } from '@/lib/grpc/method-connection';
 import { errorMessage } from '@/lib/utils';
+import { DEFAULT_HEDGED_ATTEMPTS, normalizeCallOptions, resolveRetryPolicy } from '@/lib/utils/call-options';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
 import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
-import { EndpointFailoverError, executeWithEndpointFailover, type ExecutionEndpoint } from '@/lib/utils/execution-endpoints';
+import {
+  EndpointFailoverError,
+  ExecutionCancelledError,
+  executeWithEndpointFailover,
+  executeWithHedging,
+  isReadOnlyMethod,
+  isSafeToRetry,
+  retryBackoffMs,
+  type ExecutionEndpoint,
+} from '@/lib/utils/execution-endpoints';
+import { withDefaultPort } from '@/lib/utils/endpoint-address';
 import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { normalizeTransport } from '@/lib/utils/transport';
+import type { IdempotencyLevel } from '@/lib/types/grpc';
 
 const MAX_ROUTE_EXECUTION_WINDOW_MS = 85_000;
 const REFLECTION_ATTEMPT_TIMEOUT_MS = 8_000;
@@ -16,9 +33,11 @@ export const maxDuration = 90; // 90 seconds to allow for 60s method timeout + o
 
 export async function POST(req: Request) {
   const startTime = Date.now();
+  // Aborted when the browser cancels the fetch
+  const { signal } = req;
 
   try {
-    const { endpoint, endpointAttempts, service, method, params, tlsEnabled, metadata, authConfig, timeoutMs } = await req.json();
+    const { endpoint, endpointAttempts, endpointStrategy, service, method, params, tlsEnabled, metadata, authConfig, timeoutMs, transport, callOptions, proxy } = await req.json();
     const requestTimeoutMs = normalizeRequestTimeoutMs(timeoutMs, 60000);
     const deadlineAt = startTime + Math.min(MAX_ROUTE_EXECUTION_WINDOW_MS, requestTimeoutMs + 15_000);
 
@@ -40,73 +59,73 @@ export async function POST(req: Request) {
       );
     }
 
-    const configuredAttempts: ExecutionEndpoint[] = Array.isArray(endpointAttempts)
-      ? endpointAttempts
-        .filter((attempt): attempt is ExecutionEndpoint =>
-          typeof attempt?.address === 'string' && typeof attempt?.tlsEnabled === 'boolean'
-        )
-      : [];
-    const attempts = configuredAttempts.length > 0
-      ? configuredAttempts
-      : [{ address: endpoint, tlsEnabled: tlsEnabled !== false }];
-
-    // Build enriched metadata from auth config
-    const enrichedMetadata: Record<string, string> = { ...(metadata || {}) };
-    let clientCert: string | undefined;
-    let clientKey: string | undefined;
-
-    if (authConfig) {
-      if (authConfig.type === 'bearer' && authConfig.bearerToken) {
-        enrichedMetadata['authorization'] = `Bearer ${authConfig.bearerToken}`;
-      } else if (authConfig.type === 'api-key' && authConfig.apiKeyHeader && authConfig.apiKeyValue) {
-        enrichedMetadata[authConfig.apiKeyHeader] = authConfig.apiKeyValue;
-      } else if (authConfig.type === 'mtls') {
-        clientCert = authConfig.clientCert;
-        clientKey = authConfig.clientKey;
-      }
-    }
+    const attempts = resolveExecutionAttempts(endpoint, endpointAttempts, tlsEnabled, endpointStrategy);
 
-    const execution = await executeWithEndpointFailover(attempts, async (attempt) => {
+    // Build enriched metadata from auth config, fetching an OAuth2 token if needed
+    const callProxy = normalizeProxyConfig(proxy);
+    const { metadata: enrichedMetadata, clientCert, clientKey, tlsOptions } = await authorizeCall(metadata, authConfig, callProxy);
+    // Pooled descriptors are split per caller, not per refreshed token
+    const credentialKey = callCredentialKey(metadata, authConfig);
+    const normalizedCallOptions = normalizeCallOptions(callOptions);
+    const retryPolicy = resolveRetryPolicy(normalizedCallOptions?.retry);
+    // Read from the method descriptor once reflection has loaded it
+    let idempotencyLevel: IdempotencyLevel | undefined;
+
+    const runAttempt = async (attempt: ExecutionEndpoint, attemptSignal: AbortSignal = signal) => {
       const remainingMs = deadlineAt - Date.now();
       if (remainingMs <= 0) throw new Error('Execution deadline exhausted before endpoint attempt');
-      let endpointWithPort = attempt.address;
-      if (!endpointWithPort.includes(':')) {
-        endpointWithPort = attempt.tlsEnabled ? `${endpointWithPort}:443` : `${endpointWithPort}:9090`;
-      }
+      const endpointWithPort = withDefaultPort(attempt.address, attempt.tlsEnabled);
+      // Latency stats cover this endpoint only, not earlier failed or hedged attempts
+      const attemptStart = Date.now();
 
       console.log(`[Execute] Invoking ${service}.${method} on ${endpointWithPort} (TLS: ${attempt.tlsEnabled})`);
       const invoke = async (usedTls: boolean) => {
         const invokeRemainingMs = deadlineAt - Date.now();
         if (invokeRemainingMs <= 0) throw new Error('Execution deadline exhausted before reflection initialization');
-        const client = new ReflectionClient({
-          endpoint: endpointWithPort,
-          tls: usedTls,
-          timeout: Math.min(REFLECTION_ATTEMPT_TIMEOUT_MS, invokeRemainingMs),
-          clientCert,
-          clientKey,
-        });
+        // Pooled per endpoint and credentials: repeat calls skip reflection and reuse the channel
+        let pooled: Awaited<ReturnType<typeof acquirePooledClient>>;
+        try {
+          pooled = await acquirePooledClient({
+            endpoint: endpointWithPort,
+            tls: usedTls,
+            timeout: Math.min(REFLECTION_ATTEMPT_TIMEOUT_MS, invokeRemainingMs),
+            clientCert,
+            clientKey,
+            tlsOptions,
+            metadata: enrichedMetadata,
+            credentialKey,
+            transport: normalizeTransport(transport),
+            callOptions: normalizedCallOptions,
+            proxy: callProxy,
+          }, service, method);
+        } catch (error) {
+          throw new Error(`Reflection initialization failed: ${errorMessage(error)}`);
+        }
+        const { client, reused, release } = pooled;
+        if (reused) console.log(`[Execute] Reusing pooled descriptors for ${service} on ${endpointWithPort}`);
+        idempotencyLevel = client.getMethodIdempotency(service, method) ?? idempotencyLevel;
 
         try {
           try {
-            await client.initializeForMethod(service);
-          } catch (error) {
-            throw new Error(`Reflection initialization failed: ${errorMessage(error)}`);
-          }
-          try {
-            return await client.invokeMethod(service, method, params || {}, Math.min(requestTimeoutMs, Math.max(1, deadlineAt - Date.now())), enrichedMetadata);
+            return await client.invokeMethodWithStatus(service, method, params || {}, Math.min(requestTimeoutMs, Math.max(1, deadlineAt - Date.now())), enrichedMetadata, attemptSignal);
           } catch (error) {
+            if (error instanceof ExecutionCancelledError) throw error;
+            if (error instanceof GrpcCallError) {
+              throw new GrpcCallError(error.status, `Method invocation failed: ${error.message}`);
+            }
             throw new Error(`Method invocation failed: ${errorMessage(error)}`);
           }
         } finally {
-          client.close();
+          release();
         }
       };
 
       try {
-        const result = await invoke(attempt.tlsEnabled);
-        endpointManager.recordSuccess(endpointWithPort, Date.now() - startTime);
-        return { result, endpoint: endpointWithPort, usedTls: attempt.tlsEnabled };
+        const { response: result, status } = await invoke(attempt.tlsEnabled);
+        endpointManager.recordSuccess(endpointWithPort, Date.now() - attemptStart);
+        return { result, status, endpoint: endpointWithPort, usedTls: attempt.tlsEnabled };
       } catch (err: unknown) {
+        if (attemptSignal.aborted) throw err;
         const msg = errorMessage(err);
         const isTLSError = msg.includes('wrong version number') ||
                           msg.includes('SSL routines') ||
@@ -115,9 +134,9 @@ export async function POST(req: Request) {
         if (attempt.tlsEnabled && isTLSError) {
           console.log(`[Execute] TLS error detected, retrying ${endpointWithPort} without TLS...`);
           try {
-            const result = await invoke(false);
-            endpointManager.recordSuccess(endpointWithPort, Date.now() - startTime);
-            return { result, endpoint: endpointWithPort, usedTls: false };
+            const { response: result, status } = await invoke(false);
+            endpointManager.recordSuccess(endpointWithPort, Date.now() - attemptStart);
+            return { result, status, endpoint: endpointWithPort, usedTls: false };
           } catch (retryErr: unknown) {
             const retryMessage = errorMessage(retryErr);
             endpointManager.recordFailure(endpointWithPort, retryMessage.includes('timeout') || retryMessage.includes('ETIMEDOUT'));
@@ -128,12 +147,50 @@ export async function POST(req: Request) {
         endpointManager.recordFailure(endpointWithPort, msg.includes('timeout') || msg.includes('ETIMEDOUT'));
         throw err;
       }
-    }, {
-      deadlineAt,
-      // Retrying a completed method invocation can duplicate stateful RPCs.
-      // Only reflection setup is safe to replay at another provider.
-      shouldFailover: (error) => errorMessage(error).includes('Reflection initialization failed:'),
-    });
+    };
+
+    // Retrying a completed method invocation can duplicate stateful RPCs, so
+    // reflection setup is always replayed at another provider but calls are
+    // only retried when the method is declared safe to repeat.
+    const isReflectionFailure = (error: unknown) => errorMessage(error).includes('Reflection initialization failed:');
+    const isRetryable = (error: unknown) => error instanceof GrpcCallError &&
+      isSafeToRetry(service, idempotencyLevel) &&
+      retryPolicy.retryableStatusCodes.includes(error.status.codeName);
+    const hedging = normalizedCallOptions?.hedging;
+    // Endpoints called in parallel, when a hedge was sent
+    let hedgedEndpoints: string[] | undefined;
+
+    const execution = hedging?.delayMs && attempts.length > 1
+      ? await executeWithHedging(attempts, runAttempt, {
+        delayMs: hedging.delayMs,
+        maxAttempts: hedging.maxAttempts ?? DEFAULT_HEDGED_ATTEMPTS,
+        // The idempotency level is known once the first attempt has the descriptors
+        shouldHedge: () => {
+          const hedge = isReadOnlyMethod(service, idempotencyLevel);
+          if (hedge) console.log(`[Execute] Hedging ${service}.${method}: no answer after ${hedging.delayMs}ms`);
+          return hedge;
+        },
+        shouldFailover: (error) => isReflectionFailure(error) || isRetryable(error),
+        deadlineAt,
+        signal,
+      }).then((hedged) => {
+        if (hedged.attempted.length > 1) hedgedEndpoints = hedged.attempted.map(({ address }) => address);
+        return hedged;
+      })
+      : await executeWithEndpointFailover(attempts, runAttempt, {
+        deadlineAt,
+        signal,
+        shouldFailover: isReflectionFailure,
+        retry: {
+          maxAttempts: retryPolicy.maxAttempts,
+          shouldRetry: isRetryable,
+          backoffMs: (retry) => {
+            const delay = retryBackoffMs(retryPolicy, retry);
+            console.log(`[Execute] Retry ${retry} of ${service}.${method} in ${delay}ms (${idempotencyLevel ?? 'Cosmos Query'})`);
+            return delay;
+          },
+        },
+      });
 
     const executionTime = Date.now() - startTime;
     console.log(`[Execute] ${service}.${method} completed in ${executionTime}ms`);
@@ -141,26 +198,36 @@ export async function POST(req: Request) {
     return NextResponse.json({
       success: true,
       result: execution.value.result,
+      status: execution.value.status,
       executionTime,
       service,
       method,
       endpoint: execution.value.endpoint,
       tls: execution.value.usedTls,
       failedEndpoints: execution.failures,
+      ...(hedgedEndpoints ? { hedge: { attempted: hedgedEndpoints, winner: execution.endpoint.address } } : {}),
     });
 
   } catch (err: unknown) {
     const executionTime = Date.now() - startTime;
 
+    if (err instanceof ExecutionCancelledError) {
+      console.log(`[Execute] Cancelled by client after ${executionTime}ms`);
+      // 499: client closed request. The browser has usually stopped listening by now.
+      return NextResponse.json({ success: false, cancelled: true, error: err.message, executionTime }, { status: 499 });
+    }
+
     console.error('[Execute] Error:', err);
 
     const failedEndpoints = err instanceof EndpointFailoverError ? err.failures : undefined;
+    const callError = err instanceof EndpointFailoverError ? err.lastError : err;
     return NextResponse.json({
       success: false,
       error: errorMessage(err),
       executionTime,
       details: err instanceof Error ? err.stack : undefined,
       failedEndpoints,
+      status: callError instanceof GrpcCallError ? callError.status : undefined,
     }, { status: failedEndpoints ? 502 : 500 });
   }
 }
@@ -0,0 +1,61 @@
+// Export everything reflection returns as a FileDescriptorSet (.protoset) for offline use
+import { NextResponse } from 'next/server';
+import { fetchFileDescriptorSet } from '@/lib/grpc/reflection-utils';
+import { errorMessage } from '@/lib/utils';
+import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { authorizeCall } from '@/lib/grpc/call-auth';
+
+export const runtime = 'nodejs';
+
+/** File name for the download, derived from the endpoint address */
+function protosetFilename(endpoint: string): string {
+  const base = endpoint.replace(/^[a-z]+:\/\//i, '').replace(/[^a-zA-Z0-9.-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${base || 'descriptors'}.protoset`;
+}
+
+export async function POST(req: Request) {
+  try {
+    const { endpoint, tlsEnabled, timeoutMs, transport, authConfig, proxy } = await req.json();
+
+    if (!endpoint || typeof tlsEnabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required fields: endpoint, tlsEnabled' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Protoset] Exporting descriptors from ${endpoint}`);
+
+    const reflectionProxy = normalizeProxyConfig(proxy);
+    const result = await fetchFileDescriptorSet({
+      endpoint,
+      tls: tlsEnabled,
+      timeout: normalizeRequestTimeoutMs(timeoutMs),
+      transport: normalizeTransport(transport),
+      proxy: reflectionProxy,
+      ...await authorizeCall(undefined, authConfig, reflectionProxy),
+    });
+
+    console.log(`[Protoset] Exported ${result.files.length} files (${result.serviceCount} services) from ${endpoint}`);
+    if (result.missingDependencies.length > 0) {
+      console.warn(`[Protoset] Server did not return: ${result.missingDependencies.join(', ')}`);
+    }
+
+    return new NextResponse(new Uint8Array(result.data), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${protosetFilename(endpoint)}"`,
+        'X-Protoset-Files': String(result.files.length),
+        'X-Protoset-Missing': result.missingDependencies.join(','),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('[Protoset] Export error:', err);
+    return NextResponse.json(
+      { error: errorMessage(err) },
+      { status: 500 }
+    );
+  }
+}
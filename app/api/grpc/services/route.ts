@@ -6,6 +6,10 @@ import { endpointManager } from '@/lib/utils/endpoint-manager';
 import { errorMessage } from '@/lib/utils';
 import { fetchChainApis } from '@/lib/services/chainRegistry';
 import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { authorizeCall } from '@/lib/grpc/call-auth';
+import { invalidateClientPool } from '@/lib/grpc/client-pool';
 
 export const runtime = 'nodejs';
 
@@ -15,6 +19,10 @@ export async function POST(req: Request) {
     const { endpoint, tlsEnabled: tls, forceRefresh, mode, timeoutMs }: { endpoint: string; tlsEnabled: boolean; forceRefresh: boolean; mode?: string; timeoutMs?: unknown } = body;
     const isGenericMode = mode === 'generic';
     const requestTimeoutMs = normalizeRequestTimeoutMs(timeoutMs);
+    const transport = normalizeTransport(body.transport);
+    // Auth headers, client certs and TLS settings, for servers that guard reflection
+    const proxy = normalizeProxyConfig(body.proxy);
+    const reflectionAuth = await authorizeCall(undefined, body.authConfig, proxy);
 
     if (!endpoint) {
       return NextResponse.json({ error: 'Endpoint is required' }, { status: 400 });
@@ -32,7 +40,7 @@ export async function POST(req: Request) {
 
       // Fetch endpoints from chain registry using the chainRegistry service
       try {
-        const chainApis = await fetchChainApis(chainName);
+        const chainApis = await fetchChainApis(chainName, proxy);
         if (chainApis && chainApis.grpc && chainApis.grpc.length > 0) {
           // Use endpoint manager to normalize and detect TLS
           endpoints = chainApis.grpc.map((ep) =>
@@ -54,6 +62,12 @@ export async function POST(req: Request) {
       endpoints = [{ address: normalized.address, tls }];
     }
 
+    if (forceRefresh) {
+      // A refresh means the schema may have changed; executions must re-resolve it too
+      const dropped = endpoints.reduce((count, ep) => count + invalidateClientPool(ep.address), 0);
+      if (dropped > 0) console.log(`[Services] Dropped ${dropped} pooled execution client(s)`);
+    }
+
     // Try endpoints sequentially (prioritized) until one succeeds
     // Note: Concurrent fetching doesn't work well with reflection - causes partial data
     let services: GrpcService[] = [];
@@ -90,6 +104,9 @@ export async function POST(req: Request) {
             tls: tlsEnabled,
             timeout: requestTimeoutMs,
             additionalEndpoints,
+            transport,
+            proxy,
+            ...reflectionAuth,
           });
         } else {
           services = await fetchServicesWithCosmosOptimization({
@@ -97,6 +114,9 @@ export async function POST(req: Request) {
             tls: tlsEnabled,
             timeout: requestTimeoutMs,
             additionalEndpoints,
+            transport,
+            proxy,
+            ...reflectionAuth,
           });
         }
         const responseTime = Date.now() - startTime;
@@ -140,6 +160,9 @@ export async function POST(req: Request) {
                 tls: false,
                 timeout: requestTimeoutMs,
                 additionalEndpoints: retryAdditionalEndpoints,
+                transport,
+                proxy,
+                ...reflectionAuth,
               });
             } else {
               services = await fetchServicesWithCosmosOptimization({
@@ -147,6 +170,9 @@ export async function POST(req: Request) {
                 tls: false,
                 timeout: requestTimeoutMs,
                 additionalEndpoints: retryAdditionalEndpoints,
+                transport,
+                proxy,
+                ...reflectionAuth,
               });
             }
             const retryResponseTime = Date.now() - retryStartTime;
@@ -212,6 +238,7 @@ export async function POST(req: Request) {
           endpoint: successfulEndpoint!,
           tls: tlsUsed!,
           timeout: 5000,
+          proxy,
         });
 
         try {
@@ -240,6 +267,7 @@ export async function POST(req: Request) {
             endpoint: successfulEndpoint!,
             tls: tlsUsed!,
             timeout: 5000,
+            proxy,
           });
 
           try {
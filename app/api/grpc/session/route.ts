@@ -0,0 +1,171 @@
+// app/api/grpc/session/route.ts
+// Opens an interactive client-streaming or bidi session and relays responses as NDJSON events.
+// Requests are written through /api/grpc/session/send while this response stays open.
+
+import { NextResponse } from 'next/server';
+import { authorizeCall, type ResolvedCallAuth } from '@/lib/grpc/call-auth';
+import { GrpcCallError } from '@/lib/grpc/call-status';
+import { connectForMethod, resolveExecutionAttempts } from '@/lib/grpc/method-connection';
+import type { StreamingCall } from '@/lib/grpc/reflection-client';
+import { streamSessions } from '@/lib/grpc/stream-sessions';
+import { errorMessage } from '@/lib/utils';
+import { normalizeCallOptions } from '@/lib/utils/call-options';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { EndpointFailoverError } from '@/lib/utils/execution-endpoints';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { encodeStreamEvent, STREAM_CONTENT_TYPE, type StreamEvent } from '@/lib/utils/stream-events';
+
+// Interactive sessions outlive the per-request timeout; bound them by the route window.
+const SESSION_WINDOW_MS = 290_000;
+const CONNECT_WINDOW_MS = 30_000;
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes for an interactive session
+
+export async function POST(req: Request) {
+  const startTime = Date.now();
+
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { endpoint, endpointAttempts, endpointStrategy, service, method, tlsEnabled, metadata, authConfig, transport, callOptions, proxy } = payload ?? {};
+
+  if (!endpoint || !service || !method) {
+    return NextResponse.json(
+      { error: 'Missing required parameters: endpoint, service, method' },
+      { status: 400 }
+    );
+  }
+
+  if (endpoint.startsWith('chain:')) {
+    return NextResponse.json(
+      {
+        error: 'Invalid endpoint format',
+        details: 'Chain marker was not resolved to actual endpoint. This is a bug - please refresh the network.'
+      },
+      { status: 400 }
+    );
+  }
+
+  // gRPC-Web and Connect over HTTP/1.1 cannot carry an interactive request stream
+  if (normalizeTransport(transport) !== 'grpc') {
+    return NextResponse.json(
+      { error: `Client-streaming and bidi methods need the native gRPC transport; this source uses ${transport}` },
+      { status: 400 }
+    );
+  }
+
+  const attempts = resolveExecutionAttempts(endpoint, endpointAttempts, tlsEnabled, endpointStrategy);
+  const callProxy = normalizeProxyConfig(proxy);
+  let auth: ResolvedCallAuth;
+  try {
+    auth = await authorizeCall(metadata, authConfig, callProxy);
+  } catch (err: unknown) {
+    // No call was attempted; usually the OAuth2 token endpoint refused or was unreachable
+    console.error('[Session] Auth error:', err);
+    return NextResponse.json({ error: errorMessage(err) }, { status: 502 });
+  }
+  const { metadata: enrichedMetadata, clientCert, clientKey, tlsOptions } = auth;
+  let sessionId: string | undefined;
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let count = 0;
+      const send = (event: StreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (sessionId) streamSessions.remove(sessionId);
+        controller.close();
+      };
+      const fail = (err: unknown) => {
+        console.error('[Session] Error:', err);
+        send({
+          type: 'error',
+          error: errorMessage(err),
+          count,
+          executionTime: Date.now() - startTime,
+          failedEndpoints: err instanceof EndpointFailoverError ? err.failures : undefined,
+          status: err instanceof GrpcCallError ? err.status : undefined,
+        });
+        close();
+      };
+
+      try {
+        const { client, endpoint: usedEndpoint, usedTls, failures } = await connectForMethod(attempts, {
+          service,
+          deadlineAt: startTime + CONNECT_WINDOW_MS,
+          clientCert,
+          clientKey,
+          tlsOptions,
+          metadata: enrichedMetadata,
+          callOptions: normalizeCallOptions(callOptions),
+          proxy: callProxy,
+          logTag: 'Session',
+          signal: req.signal,
+        });
+
+        // The browser went away while the channel was connecting; don't open a call nobody reads
+        if (closed || req.signal.aborted) {
+          client.close();
+          console.log(`[Session] Client disconnected before ${service}.${method} opened`);
+          return;
+        }
+
+        let call: StreamingCall;
+        try {
+          call = client.openStreamingCall(service, method, {
+            onMessage: (data, receivedAt) => send({ type: 'message', index: count++, timestamp: receivedAt, data }),
+            onEnd: (status) => {
+              client.close();
+              endpointManager.recordSuccess(usedEndpoint, Date.now() - startTime);
+              const executionTime = Date.now() - startTime;
+              console.log(`[Session] ${service}.${method} completed with ${count} message(s) in ${executionTime}ms`);
+              send({ type: 'end', count, executionTime, status });
+              close();
+            },
+            onError: (error) => {
+              client.close();
+              const message = `Method invocation failed: ${error.message}`;
+              fail(error instanceof GrpcCallError ? new GrpcCallError(error.status, message) : new Error(message));
+            },
+          }, SESSION_WINDOW_MS - (Date.now() - startTime), enrichedMetadata);
+        } catch (error) {
+          client.close();
+          throw error;
+        }
+
+        sessionId = streamSessions.register(service, method, call).id;
+        console.log(`[Session] Opened ${sessionId} for ${service}.${method} on ${usedEndpoint} (TLS: ${usedTls})`);
+        send({ type: 'open', endpoint: usedEndpoint, tls: usedTls, failedEndpoints: failures, sessionId });
+      } catch (err: unknown) {
+        fail(err);
+      }
+    },
+    cancel() {
+      // The browser went away; nothing can read further responses.
+      closed = true;
+      const session = sessionId ? streamSessions.get(sessionId) : undefined;
+      if (session) {
+        console.log(`[Session] Client disconnected, cancelling ${session.id}`);
+        session.call.cancel();
+        streamSessions.remove(session.id);
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
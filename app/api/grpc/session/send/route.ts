@@ -0,0 +1,49 @@
+// app/api/grpc/session/send/route.ts
+// Write to, half-close or cancel a session opened by /api/grpc/session
+
+import { NextResponse } from 'next/server';
+import { streamSessions } from '@/lib/grpc/stream-sessions';
+import { errorMessage } from '@/lib/utils';
+import type { StreamSessionAction } from '@/lib/types/grpc';
+
+export const runtime = 'nodejs';
+
+const ACTIONS: StreamSessionAction[] = ['send', 'half-close', 'cancel'];
+
+export async function POST(req: Request) {
+  try {
+    const { sessionId, action, message } = await req.json();
+
+    if (!sessionId || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Missing required parameters: sessionId, action (${ACTIONS.join(' | ')})` },
+        { status: 400 }
+      );
+    }
+
+    const session = streamSessions.get(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found or already closed' },
+        { status: 404 }
+      );
+    }
+
+    switch (action as StreamSessionAction) {
+      case 'send':
+        session.call.send(message || {});
+        break;
+      case 'half-close':
+        session.call.halfClose();
+        break;
+      case 'cancel':
+        session.call.cancel();
+        break;
+    }
+
+    return NextResponse.json({ success: true, sessionId, action });
+  } catch (err: unknown) {
+    console.error('[Session] Send error:', err);
+    return NextResponse.json({ success: false, error: errorMessage(err) }, { status: 400 });
+  }
+}
@@ -0,0 +1,159 @@
+// app/api/grpc/stream/route.ts
+// Server-streaming gRPC execution, relayed to the browser as NDJSON events
+
+import { NextResponse } from 'next/server';
+import { authorizeCall, type ResolvedCallAuth } from '@/lib/grpc/call-auth';
+import { GrpcCallError } from '@/lib/grpc/call-status';
+import { connectForMethod, resolveExecutionAttempts } from '@/lib/grpc/method-connection';
+import { errorMessage } from '@/lib/utils';
+import { normalizeCallOptions } from '@/lib/utils/call-options';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+import { EndpointFailoverError, ExecutionCancelledError } from '@/lib/utils/execution-endpoints';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { encodeStreamEvent, STREAM_CONTENT_TYPE, type StreamEvent } from '@/lib/utils/stream-events';
+import type { GrpcCallStatus } from '@/lib/types/grpc';
+
+const MAX_ROUTE_EXECUTION_WINDOW_MS = 85_000;
+
+export const runtime = 'nodejs';
+export const maxDuration = 90; // Matches /api/grpc/execute: 60s stream deadline + overhead
+
+export async function POST(req: Request) {
+  const startTime = Date.now();
+
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { endpoint, endpointAttempts, endpointStrategy, service, method, params, tlsEnabled, metadata, authConfig, timeoutMs, transport, callOptions, proxy } = payload ?? {};
+  const requestTimeoutMs = normalizeRequestTimeoutMs(timeoutMs, 60000);
+  const deadlineAt = startTime + Math.min(MAX_ROUTE_EXECUTION_WINDOW_MS, requestTimeoutMs + 15_000);
+
+  if (!endpoint || !service || !method) {
+    return NextResponse.json(
+      { error: 'Missing required parameters: endpoint, service, method' },
+      { status: 400 }
+    );
+  }
+
+  if (endpoint.startsWith('chain:')) {
+    return NextResponse.json(
+      {
+        error: 'Invalid endpoint format',
+        details: 'Chain marker was not resolved to actual endpoint. This is a bug - please refresh the network.'
+      },
+      { status: 400 }
+    );
+  }
+
+  const attempts = resolveExecutionAttempts(endpoint, endpointAttempts, tlsEnabled, endpointStrategy);
+  const callProxy = normalizeProxyConfig(proxy);
+  let auth: ResolvedCallAuth;
+  try {
+    auth = await authorizeCall(metadata, authConfig, callProxy);
+  } catch (err: unknown) {
+    // No call was attempted; usually the OAuth2 token endpoint refused or was unreachable
+    console.error('[Stream] Auth error:', err);
+    return NextResponse.json({ error: errorMessage(err) }, { status: 502 });
+  }
+  const { metadata: enrichedMetadata, clientCert, clientKey, tlsOptions } = auth;
+
+  // The browser cancels either by aborting the request or by cancelling the body stream
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort(), { once: true });
+  const { signal } = abort;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (event: StreamEvent) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+      };
+      let count = 0;
+
+      try {
+        // Only reflection setup fails over; once the stream is open, messages
+        // have been delivered and replaying the call elsewhere would duplicate them.
+        const { client, endpoint: usedEndpoint, usedTls, failures } = await connectForMethod(attempts, {
+          service,
+          deadlineAt,
+          clientCert,
+          clientKey,
+          tlsOptions,
+          metadata: enrichedMetadata,
+          transport: normalizeTransport(transport),
+          callOptions: normalizeCallOptions(callOptions),
+          proxy: callProxy,
+          logTag: 'Stream',
+          signal,
+        });
+        send({ type: 'open', endpoint: usedEndpoint, tls: usedTls, failedEndpoints: failures });
+        console.log(`[Stream] Streaming ${service}.${method} from ${usedEndpoint} (TLS: ${usedTls})`);
+
+        let status: GrpcCallStatus | undefined;
+        // Latency stats cover the call up to its first message, not reflection setup or the stream's lifetime
+        const callStart = Date.now();
+        let firstMessageMs: number | undefined;
+        try {
+          ({ status } = await client.invokeServerStream(
+            service,
+            method,
+            params || {},
+            (data, receivedAt) => {
+              firstMessageMs ??= Date.now() - callStart;
+              send({ type: 'message', index: count++, timestamp: receivedAt, data });
+            },
+            Math.min(requestTimeoutMs, Math.max(1, deadlineAt - Date.now())),
+            enrichedMetadata,
+            signal
+          ));
+          endpointManager.recordSuccess(usedEndpoint, firstMessageMs ?? Date.now() - callStart);
+        } catch (error) {
+          if (error instanceof ExecutionCancelledError) throw error;
+          const msg = errorMessage(error);
+          endpointManager.recordFailure(usedEndpoint, msg.includes('timeout') || msg.includes('ETIMEDOUT'));
+          if (error instanceof GrpcCallError) {
+            throw new GrpcCallError(error.status, `Method invocation failed: ${error.message}`);
+          }
+          throw new Error(`Method invocation failed: ${errorMessage(error)}`);
+        } finally {
+          client.close();
+        }
+
+        const executionTime = Date.now() - startTime;
+        console.log(`[Stream] ${service}.${method} completed with ${count} message(s) in ${executionTime}ms`);
+        send({ type: 'end', count, executionTime, status });
+      } catch (err: unknown) {
+        if (err instanceof ExecutionCancelledError) {
+          console.log(`[Stream] ${service}.${method} cancelled by client after ${count} message(s)`);
+          return;
+        }
+        console.error('[Stream] Error:', err);
+        send({
+          type: 'error',
+          error: errorMessage(err),
+          count,
+          executionTime: Date.now() - startTime,
+          failedEndpoints: err instanceof EndpointFailoverError ? err.failures : undefined,
+          status: err instanceof GrpcCallError ? err.status : undefined,
+        });
+      } finally {
+        try { controller.close(); } catch { /* body already cancelled by the client */ }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -4,6 +4,7 @@
 import { NextResponse } from 'next/server';
 import { ReflectionClient } from '@/lib/grpc/reflection-client';
 import { errorMessage } from '@/lib/utils';
+import { withDefaultPort } from '@/lib/utils/endpoint-address';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for comprehensive testing
@@ -30,10 +31,7 @@ export async function POST(req: Request) {
       );
     }
 
-    let endpointWithPort = endpoint;
-    if (!endpoint.includes(':')) {
-      endpointWithPort = tlsEnabled !== false ? `${endpoint}:443` : `${endpoint}:9090`;
-    }
+    const endpointWithPort = withDefaultPort(endpoint, tlsEnabled !== false);
 
     console.log(`[TestCompatibility] Testing ${endpointWithPort} (TLS: ${tlsEnabled !== false})`);
 
@@ -4,6 +4,11 @@ import { promisify } from 'util';
 import { ReflectionClient } from '@/lib/grpc/reflection-client';
 import { errorMessage } from '@/lib/utils';
 import { classifyReflectionFailure } from '@/lib/utils/reflection-probe';
+import { authorizeCall, type ResolvedCallAuth } from '@/lib/grpc/call-auth';
+import { endpointLookupHost, endpointPort, isTargetEndpoint } from '@/lib/utils/endpoint-address';
+import { resolveProxy } from '@/lib/grpc/http-proxy';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import type { GrpcAuthConfig, GrpcProxyConfig } from '@/lib/types/grpc';
 
 const dnsLookup = promisify(dns.lookup);
 const MAX_QUALIFIED_ENDPOINTS = 30;
@@ -23,51 +28,41 @@ interface EndpointInput {
 	tlsEnabled?: boolean;
 }
 
-/**
- * Extracts hostname from an endpoint address
- * Handles formats like: host:port, https://host:port, host
- */
-function extractHostname(address: string): string {
-	let normalized = address.trim();
-
-	// Remove protocol prefixes
-	normalized = normalized
-		.replace(/^https?:\/\//, '')
-		.replace(/^grpcs?:\/\//, '');
-
-	// Extract hostname (before port)
-	const hostPart = normalized.split(':')[0];
-	return hostPart;
-}
-
 /**
  * Validates a single endpoint by attempting DNS resolution
  * Uses a fast 1 second timeout to quickly identify unreachable endpoints
  */
-async function validateEndpoint(input: EndpointInput, timeoutMs: number = 1000): Promise<EndpointValidation> {
+async function validateEndpoint(input: EndpointInput, timeoutMs: number = 1000, auth?: ResolvedCallAuth, proxy?: GrpcProxyConfig): Promise<EndpointValidation> {
 	const { address } = input;
-	const hostname = extractHostname(address);
+	// Handles host:port, [v6]:port and https://host:port; sockets and literal
+	// ipv4:/ipv6: lists have nothing to resolve
+	const hostname = endpointLookupHost(address);
 
-	if (!hostname) {
+	if (!hostname && !isTargetEndpoint(address)) {
 		return { address, reachable: false, error: 'Invalid hostname' };
 	}
 
 	try {
-		// Create a promise that rejects after timeout
-		const timeoutPromise = new Promise<never>((_, reject) => {
-			setTimeout(() => reject(new Error('DNS lookup timeout')), timeoutMs);
-		});
-
-		// Race between DNS lookup and timeout
-		await Promise.race([
-			dnsLookup(hostname),
-			timeoutPromise
-		]);
+		// Behind a proxy the proxy resolves the name; local DNS may not see it
+		if (hostname && !resolveProxy(hostname, proxy)) {
+			// Create a promise that rejects after timeout
+			const timeoutPromise = new Promise<never>((_, reject) => {
+				setTimeout(() => reject(new Error('DNS lookup timeout')), timeoutMs);
+			});
+
+			// Race between DNS lookup and timeout
+			await Promise.race([
+				dnsLookup(hostname),
+				timeoutPromise
+			]);
+		}
 
 		const client = new ReflectionClient({
 			endpoint: address,
-			tls: input.tlsEnabled ?? address.endsWith(':443'),
+			tls: input.tlsEnabled ?? endpointPort(address) === '443',
 			timeout: 3000,
+			proxy,
+			...auth,
 		});
 		try {
 			await client.probeReflection();
@@ -94,13 +89,16 @@ async function validateEndpoint(input: EndpointInput, timeoutMs: number = 1000):
  * Checks DNS first, then performs a bounded reflection handshake. DNS success
  * alone is not enough to select a provider for Cosmos execution.
  *
- * Request body: { endpoints: string[] }
+ * Request body: { endpoints: Array<string | { address, tlsEnabled }>, authConfig?, proxy? }
+ * `authConfig` and `proxy` apply to the reflection handshake on every endpoint.
  * Response: { results: EndpointValidation[] }
  */
 export async function POST(request: Request) {
 	try {
 		const body = await request.json();
-		const { endpoints } = body as { endpoints: Array<string | EndpointInput> };
+		const { endpoints, authConfig } = body as { endpoints: Array<string | EndpointInput>; authConfig?: GrpcAuthConfig };
+		const proxy = normalizeProxyConfig(body.proxy);
+		const auth = await authorizeCall(undefined, authConfig, proxy);
 
 		if (!endpoints || !Array.isArray(endpoints)) {
 			return NextResponse.json(
@@ -116,7 +114,7 @@ export async function POST(request: Request) {
 		const skippedEndpoints = normalized.slice(MAX_QUALIFIED_ENDPOINTS);
 		const results: EndpointValidation[] = [];
 		for (let index = 0; index < endpointsToQualify.length; index += 3) {
-			results.push(...await Promise.all(endpointsToQualify.slice(index, index + 3).map((endpoint) => validateEndpoint(endpoint, 1000))));
+			results.push(...await Promise.all(endpointsToQualify.slice(index, index + 3).map((endpoint) => validateEndpoint(endpoint, 1000, auth, proxy))));
 		}
 		results.push(...skippedEndpoints.map(({ address }) => ({
 			address,
@@ -0,0 +1,124 @@
+// app/api/protos/descriptor/route.ts
+// Parse uploaded .proto files (or zip archives of them) and protosets into services
+
+import { NextResponse } from 'next/server';
+import { DescriptorParser } from '@/lib/grpc/descriptor-parser';
+import { parseProtoFiles, type ProtoSourceFile } from '@/lib/grpc/proto-files';
+import { isZipArchive, readZipEntries } from '@/lib/grpc/zip-archive';
+import { errorMessage } from '@/lib/utils';
+
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const MAX_EXTRACTED_BYTES = 50 * 1024 * 1024;
+const MAX_PROTO_FILES = 5000;
+/** Binary FileDescriptorSet extensions (protoc --descriptor_set_out, buf build -o) */
+const PROTOSET_EXTENSIONS = ['.protoset', '.pb', '.desc', '.binpb'];
+
+interface UploadedSchema {
+	sources: ProtoSourceFile[];
+	protosets: Array<{ name: string; data: Buffer }>;
+}
+
+function isProtoset(name: string): boolean {
+	const lower = name.toLowerCase();
+	return PROTOSET_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/** .proto sources and protosets from the uploaded files; zip archives contribute every .proto entry */
+async function readUploads(uploads: File[]): Promise<UploadedSchema> {
+	const totalBytes = uploads.reduce((sum, upload) => sum + upload.size, 0);
+	if (totalBytes > MAX_UPLOAD_BYTES) {
+		throw new Error(`Upload too large: ${totalBytes} bytes (limit ${MAX_UPLOAD_BYTES})`);
+	}
+
+	const sources: ProtoSourceFile[] = [];
+	const protosets: UploadedSchema['protosets'] = [];
+	for (const upload of uploads) {
+		const data = Buffer.from(await upload.arrayBuffer());
+		if (isZipArchive(data)) {
+			const entries = readZipEntries(data, {
+				filter: (name) => name.endsWith('.proto') && !name.startsWith('__MACOSX/'),
+				maxTotalBytes: MAX_EXTRACTED_BYTES,
+			});
+			if (entries.length === 0) throw new Error(`${upload.name} contains no .proto files`);
+			sources.push(...entries.map((entry) => ({ name: entry.name, content: entry.data.toString('utf8') })));
+		} else if (upload.name.endsWith('.proto')) {
+			sources.push({ name: upload.name, content: data.toString('utf8') });
+		} else if (isProtoset(upload.name)) {
+			protosets.push({ name: upload.name, data });
+		} else {
+			throw new Error(`Unsupported file: ${upload.name}. Upload .proto files, a .zip of them or a .protoset.`);
+		}
+	}
+
+	if (sources.length > MAX_PROTO_FILES) {
+		throw new Error(`Too many .proto files: ${sources.length} (limit ${MAX_PROTO_FILES})`);
+	}
+	return { sources, protosets };
+}
+
+/**
+ * POST /api/protos/descriptor - multipart form with one or more `files`.
+ * Protosets must be self-contained (`--include_imports`); .proto uploads are
+ * resolved among themselves and cannot import files from a protoset.
+ */
+export async function POST(req: Request) {
+	try {
+		const form = await req.formData();
+		const uploads = form.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+
+		if (uploads.length === 0) {
+			return NextResponse.json({ error: 'Upload at least one .proto file, .zip archive or .protoset' }, { status: 400 });
+		}
+
+		const parser = new DescriptorParser();
+		let files: string[] = [];
+		let missingImports: string[] = [];
+		try {
+			const { sources, protosets } = await readUploads(uploads);
+			for (const protoset of protosets) {
+				try {
+					parser.loadFileDescriptorSet(protoset.data);
+				} catch (err: unknown) {
+					throw new Error(`Failed to read ${protoset.name} as a FileDescriptorSet: ${errorMessage(err)}`);
+				}
+			}
+			if (protosets.length > 0) {
+				// Every binary descriptor loaded so far came from a protoset
+				const loaded = parser.toFileDescriptorSet();
+				files = loaded.files;
+				missingImports = loaded.missingDependencies;
+			}
+
+			if (sources.length > 0) {
+				const parsed = parseProtoFiles(sources);
+				parser.loadFileDescriptors(parsed.fileDescriptors);
+				files = [...files, ...parsed.files.filter((file) => !files.includes(file))];
+				missingImports = [...missingImports, ...parsed.missingImports.filter((file) => !missingImports.includes(file))];
+			}
+		} catch (err: unknown) {
+			// Malformed uploads are the caller's to fix
+			return NextResponse.json({ error: errorMessage(err) }, { status: 400 });
+		}
+
+		const services = parser.getServices();
+		console.log(`[Protos] Parsed ${services.length} services from ${files.length} files`);
+		if (missingImports.length > 0) {
+			console.log(`[Protos] Missing imports: ${missingImports.join(', ')}`);
+		}
+
+		return NextResponse.json({
+			services,
+			files,
+			missingImports,
+			serviceCount: services.length,
+		});
+	} catch (err: unknown) {
+		console.error('[Protos] Error:', err);
+		return NextResponse.json(
+			{ error: errorMessage(err) },
+			{ status: 500 }
+		);
+	}
+}
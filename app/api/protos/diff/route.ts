@@ -0,0 +1,44 @@
+// app/api/protos/diff/route.ts
+// Breaking-change report between two schema sources: servers, BSR versions or saved snapshots
+
+import { NextResponse } from 'next/server';
+import { BsrError } from '@/lib/grpc/bsr-client';
+import { invalidSchemaSource, loadSchemaDescriptorSet } from '@/lib/grpc/schema-sources';
+import { diffFileDescriptorSets } from '@/lib/grpc/schema-diff';
+import { errorMessage } from '@/lib/utils';
+import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/protos/diff - `{ before, after, timeoutMs }` where each side is a
+ * SchemaDiffSource (reflection, BSR module or base64 `.protoset`). Responds
+ * with a SchemaDiffReport.
+ */
+export async function POST(req: Request) {
+	try {
+		const body = await req.json();
+		for (const side of ['before', 'after'] as const) {
+			const invalid = invalidSchemaSource(body?.[side]);
+			if (invalid) {
+				return NextResponse.json({ error: `${side}: ${invalid}` }, { status: 400 });
+			}
+		}
+
+		const timeoutMs = normalizeRequestTimeoutMs(body.timeoutMs);
+		const before = await loadSchemaDescriptorSet(body.before, timeoutMs);
+		const after = await loadSchemaDescriptorSet(body.after, timeoutMs);
+		const report = diffFileDescriptorSets(before.data, after.data, { before: before.label, after: after.label });
+		console.log(`[Protos] Diffed ${before.label} -> ${after.label}: ${report.changes.length} changes`);
+		return NextResponse.json(report);
+	} catch (err: unknown) {
+		if (err instanceof BsrError) {
+			return NextResponse.json({ error: err.message }, { status: err.status });
+		}
+		console.error('[Protos] Diff error:', err);
+		return NextResponse.json(
+			{ error: errorMessage(err) },
+			{ status: 500 }
+		);
+	}
+}
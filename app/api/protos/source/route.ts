@@ -0,0 +1,41 @@
+// app/api/protos/source/route.ts
+// Rebuild .proto source files from a server's reflection descriptors or a BSR module
+
+import { NextResponse } from 'next/server';
+import { BsrError } from '@/lib/grpc/bsr-client';
+import { invalidSchemaSource, loadSchemaDescriptorSet } from '@/lib/grpc/schema-sources';
+import { printFileDescriptorSet } from '@/lib/grpc/proto-printer';
+import { errorMessage } from '@/lib/utils';
+import { normalizeRequestTimeoutMs } from '@/lib/utils/client-cache';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/protos/source - a ProtoSchemaSource (`kind: 'reflection'` with the
+ * connection settings, or `kind: 'bsr'` with the module) plus `timeoutMs`.
+ * A `kind: 'protoset'` snapshot is read as well. Responds with
+ * `{ files: ReconstructedProtoFile[] }`.
+ */
+export async function POST(req: Request) {
+	try {
+		const body = await req.json();
+		const invalid = invalidSchemaSource(body);
+		if (invalid) {
+			return NextResponse.json({ error: invalid }, { status: 400 });
+		}
+
+		const { data, label } = await loadSchemaDescriptorSet(body, normalizeRequestTimeoutMs(body.timeoutMs));
+		const files = printFileDescriptorSet(data);
+		console.log(`[Protos] Rebuilt ${files.length} .proto files from ${label}`);
+		return NextResponse.json({ files });
+	} catch (err: unknown) {
+		if (err instanceof BsrError) {
+			return NextResponse.json({ error: err.message }, { status: err.status });
+		}
+		console.error('[Protos] Source error:', err);
+		return NextResponse.json(
+			{ error: errorMessage(err) },
+			{ status: 500 }
+		);
+	}
+}
@@ -13,12 +13,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { ChevronRight, ChevronDown, Search, Loader2, History, Database, Globe, Link, AlertTriangle, Lock, Package } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { ChevronRight, ChevronDown, Search, Loader2, History, Database, Globe, Link, AlertTriangle, Lock, Package, Route, ShieldCheck, SlidersHorizontal, FileCode } from 'lucide-react';
+import { cn, errorMessage } from '@/lib/utils';
 import { debug } from '@/lib/utils/debug';
 import { listCachedChains, type CachedChainInfo } from '@/lib/utils/client-cache';
 import EndpointSelector, { createEndpointConfigs } from './EndpointSelector';
-import { EndpointConfig, ExplorerMode, GrpcAuthConfig, BufBsrSource } from '@/lib/types/grpc';
+import CallOptionsFields, { countCallOptions } from './CallOptionsFields';
+import { GRPC_TRANSPORTS } from '@/lib/utils/transport';
+import { endpointPort, isSocketEndpoint } from '@/lib/utils/endpoint-address';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import { parseJwtClaims } from '@/lib/utils/auth-config';
+import { EndpointConfig, ExplorerMode, GrpcAuthConfig, GrpcCallOptions, GrpcProxyConfig, GrpcTransport, BufBsrSource, LocalProtoSchema } from '@/lib/types/grpc';
 
 interface AddNetworkDialogProps {
 	onAdd: (
@@ -27,7 +32,11 @@ interface AddNetworkDialogProps {
 		endpointConfigs?: EndpointConfig[],
 		mode?: ExplorerMode,
 		bsrSource?: BufBsrSource,
-		authConfig?: GrpcAuthConfig
+		authConfig?: GrpcAuthConfig,
+		transport?: GrpcTransport,
+		callOptions?: GrpcCallOptions,
+		proxy?: GrpcProxyConfig,
+		localProtos?: LocalProtoSchema
 	) => void;
 	onClose: () => void;
 	defaultMode?: ExplorerMode | undefined;
@@ -69,7 +78,7 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 	}, [defaultMode]);
 
 	// Generic mode: BSR state
-	const [genericSourceTab, setGenericSourceTab] = useState<'endpoint' | 'bsr'>('endpoint');
+	const [genericSourceTab, setGenericSourceTab] = useState<'endpoint' | 'bsr' | 'protos'>('endpoint');
 	const [bsrModule, setBsrModule] = useState('');
 	const [bsrVersion, setBsrVersion] = useState('main');
 	const [bsrAuthToken, setBsrAuthToken] = useState('');
@@ -80,13 +89,53 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 	const [bsrPopularModules, setBsrPopularModules] = useState<BsrModule[]>([]);
 	const [loadingBsrModules, setLoadingBsrModules] = useState(false);
 
+	// Generic mode: local .proto upload state
+	const [protoSchema, setProtoSchema] = useState<LocalProtoSchema | null>(null);
+	const [protoUploading, setProtoUploading] = useState(false);
+	const [protoError, setProtoError] = useState<string | null>(null);
+	const [protoEndpoint, setProtoEndpoint] = useState('');
+	const [protoTlsEnabled, setProtoTlsEnabled] = useState(true);
+
 	// Generic mode: auth state
-	const [authType, setAuthType] = useState<'none' | 'bearer' | 'api-key' | 'mtls'>('none');
+	const [authType, setAuthType] = useState<GrpcAuthConfig['type']>('none');
 	const [bearerToken, setBearerToken] = useState('');
 	const [apiKeyHeader, setApiKeyHeader] = useState('');
 	const [apiKeyValue, setApiKeyValue] = useState('');
 	const [clientCert, setClientCert] = useState('');
 	const [clientKey, setClientKey] = useState('');
+	const [oauth2TokenUrl, setOauth2TokenUrl] = useState('');
+	const [oauth2ClientId, setOauth2ClientId] = useState('');
+	const [oauth2ClientSecret, setOauth2ClientSecret] = useState('');
+	const [oauth2Scopes, setOauth2Scopes] = useState('');
+	const [oauth2Audience, setOauth2Audience] = useState('');
+	const [jwtPrivateKey, setJwtPrivateKey] = useState('');
+	const [jwtKeyId, setJwtKeyId] = useState('');
+	const [jwtIssuer, setJwtIssuer] = useState('');
+	const [jwtAudience, setJwtAudience] = useState('');
+	const [jwtClaims, setJwtClaims] = useState('');
+	const [jwtTtlSeconds, setJwtTtlSeconds] = useState('');
+	const [basicUsername, setBasicUsername] = useState('');
+	const [basicPassword, setBasicPassword] = useState('');
+
+	// TLS verification settings (both modes)
+	const [tlsSettingsExpanded, setTlsSettingsExpanded] = useState(false);
+	const [caCert, setCaCert] = useState('');
+	const [serverName, setServerName] = useState('');
+	const [insecureSkipVerify, setInsecureSkipVerify] = useState(false);
+
+	// Generic mode: wire protocol for the endpoint and the BSR or local proto target
+	const [transport, setTransport] = useState<GrpcTransport>('grpc');
+
+	// Default call options for methods opened from this source
+	const [callOptionsExpanded, setCallOptionsExpanded] = useState(false);
+	const [callOptions, setCallOptions] = useState<GrpcCallOptions | undefined>(undefined);
+
+	// HTTP CONNECT proxy for this source (both modes); empty uses the server's proxy
+	const [proxyExpanded, setProxyExpanded] = useState(false);
+	const [proxyUrl, setProxyUrl] = useState('');
+	const [proxyUsername, setProxyUsername] = useState('');
+	const [proxyPassword, setProxyPassword] = useState('');
+	const [noProxy, setNoProxy] = useState('');
 
 	// Detect potential TLS configuration mismatch
 	const tlsWarning = useMemo(() => {
@@ -94,11 +143,14 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 		if (endpoint.startsWith('chain:')) return null;
 		if (!endpoint.trim()) return null;
 
-		// Extract port from endpoint
-		const portMatch = endpoint.match(/:(\d+)$/);
-		if (!portMatch) return null;
+		if (isSocketEndpoint(endpoint)) {
+			return tlsEnabled ? 'Unix sockets typically use plaintext (TLS off)' : null;
+		}
+		// Other gRPC targets (dns:, ipv4:, ipv6:) are not checked
 
-		const port = portMatch[1];
+		// Extract port from endpoint ([v6]:port for IPv6 literals)
+		const port = endpointPort(endpoint);
+		if (!port) return null;
 
 		// Port 443 but TLS OFF - likely misconfigured
 		if (port === '443' && !tlsEnabled) {
@@ -144,13 +196,50 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 		}
 	};
 
-	/** Build auth config from current state */
+	/** Build auth config from current state; Cosmos sources only carry TLS settings */
+	const buildProxyConfig = (): GrpcProxyConfig | undefined => normalizeProxyConfig({
+		url: proxyUrl,
+		username: proxyUsername,
+		password: proxyPassword,
+		noProxy,
+	});
+
+	const resetProxy = () => {
+		setProxyUrl('');
+		setProxyUsername('');
+		setProxyPassword('');
+		setNoProxy('');
+	};
+
 	const buildAuthConfig = (): GrpcAuthConfig | undefined => {
-		if (mode !== 'generic' || authType === 'none') return undefined;
-		const config: GrpcAuthConfig = { type: authType };
+		const tlsSettings: Partial<GrpcAuthConfig> = {
+			...(caCert.trim() ? { caCert } : {}),
+			...(serverName.trim() ? { serverName: serverName.trim() } : {}),
+			...(insecureSkipVerify ? { insecureSkipVerify: true } : {}),
+		};
+		const effectiveAuthType = mode === 'generic' ? authType : 'none';
+		if (effectiveAuthType === 'none' && Object.keys(tlsSettings).length === 0) return undefined;
+		const config: GrpcAuthConfig = { type: effectiveAuthType, ...tlsSettings };
 		if (authType === 'bearer') config.bearerToken = bearerToken;
 		if (authType === 'api-key') { config.apiKeyHeader = apiKeyHeader; config.apiKeyValue = apiKeyValue; }
 		if (authType === 'mtls') { config.clientCert = clientCert; config.clientKey = clientKey; }
+		if (authType === 'oauth2') {
+			config.oauth2TokenUrl = oauth2TokenUrl.trim();
+			config.oauth2ClientId = oauth2ClientId.trim();
+			config.oauth2ClientSecret = oauth2ClientSecret;
+			config.oauth2Scopes = oauth2Scopes.split(/[\s,]+/).filter(Boolean);
+			if (oauth2Audience.trim()) config.oauth2Audience = oauth2Audience.trim();
+		}
+		if (authType === 'jwt') {
+			config.jwtPrivateKey = jwtPrivateKey;
+			if (jwtKeyId.trim()) config.jwtKeyId = jwtKeyId.trim();
+			if (jwtIssuer.trim()) config.jwtIssuer = jwtIssuer.trim();
+			if (jwtAudience.trim()) config.jwtAudience = jwtAudience.trim();
+			const claims = parseJwtClaims(jwtClaims);
+			if (claims) config.jwtClaims = claims;
+			if (Number(jwtTtlSeconds) > 0) config.jwtTtlSeconds = Number(jwtTtlSeconds);
+		}
+		if (authType === 'basic') { config.basicUsername = basicUsername; config.basicPassword = basicPassword; }
 		return config;
 	};
 
@@ -217,10 +306,13 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 	};
 
 	// Add network with the current settings
-	const addNetwork = (finalEndpoint: string, tls: boolean, configs?: EndpointConfig[], bsrSource?: BufBsrSource) => {
-		onAdd(finalEndpoint, tls, configs, mode, bsrSource, buildAuthConfig());
+	const addNetwork = (finalEndpoint: string, tls: boolean, configs?: EndpointConfig[], bsrSource?: BufBsrSource, localProtos?: LocalProtoSchema) => {
+		onAdd(finalEndpoint, tls, configs, mode, bsrSource, buildAuthConfig(), mode === 'generic' && transport !== 'grpc' ? transport : undefined, callOptions, buildProxyConfig(), localProtos);
 		setEndpoint('');
 		setTlsEnabled(true);
+		setTransport('grpc');
+		setCallOptions(undefined);
+		resetProxy();
 		setShowDropdown(false);
 		setShowCachedChains(false);
 		setSelectedChainDetails(null);
@@ -247,6 +339,9 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 	const handleCancel = () => {
 		setEndpoint('');
 		setTlsEnabled(true);
+		setTransport('grpc');
+		setCallOptions(undefined);
+		resetProxy();
 		setShowDropdown(false);
 		setShowCachedChains(false);
 		setSelectedChainDetails(null);
@@ -273,7 +368,11 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 			const response = await fetch('/api/grpc/validate-endpoints', {
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ endpoints: configs.map(({ address, tlsEnabled }) => ({ address, tlsEnabled })) })
+				body: JSON.stringify({
+					endpoints: configs.map(({ address, tlsEnabled }) => ({ address, tlsEnabled })),
+					authConfig: buildAuthConfig(),
+					proxy: buildProxyConfig(),
+				})
 			});
 
 			if (!response.ok) {
@@ -379,7 +478,7 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 	const dialogTitle = isCosmosMode ? 'Add Network' : 'Connect Source';
 	const dialogDescription = isCosmosMode
 		? 'Select a Cosmos SDK chain or enter a gRPC endpoint directly'
-		: 'Connect to a gRPC server or browse buf.build schemas';
+		: 'Connect to a gRPC server, browse buf.build schemas or upload .proto and .protoset files';
 	const primarySubmitLabel = isCosmosMode ? 'Add Network' : 'Connect Server';
 
 	const handleModeChange = (nextMode: ExplorerMode) => {
@@ -410,6 +509,42 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 		addNetwork(bsrEndpoint.trim() || '', bsrTlsEnabled, undefined, bsrSource);
 	};
 
+	/** Parse the chosen .proto files, zip archives or protosets on the server */
+	const handleProtoFiles = async (fileList: FileList | null) => {
+		const files = Array.from(fileList ?? []);
+		setProtoSchema(null);
+		setProtoError(null);
+		if (files.length === 0) return;
+
+		setProtoUploading(true);
+		try {
+			const form = new FormData();
+			for (const file of files) form.append('files', file);
+			const response = await fetch('/api/protos/descriptor', { method: 'POST', body: form });
+			const data = await response.json();
+			if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+			setProtoSchema({
+				source: {
+					name: files.length === 1 ? files[0].name : `${files[0].name} +${files.length - 1}`,
+					files: data.files || [],
+					...(data.missingImports?.length ? { missingImports: data.missingImports } : {}),
+					uploadedAt: Date.now(),
+				},
+				services: data.services || [],
+			});
+		} catch (err: unknown) {
+			setProtoError(errorMessage(err));
+		} finally {
+			setProtoUploading(false);
+		}
+	};
+
+	/** Handle local proto add */
+	const handleProtoAdd = () => {
+		if (!protoSchema) return;
+		addNetwork(protoEndpoint.trim(), protoTlsEnabled, undefined, undefined, protoSchema);
+	};
+
 	return (
 		<Dialog open={true} onOpenChange={(open) => !open && onClose()}>
 			<DialogContent className="sm:max-w-[525px]">
@@ -478,6 +613,18 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 								>
 									buf.build (BSR)
 								</button>
+								<button
+									type="button"
+									onClick={() => setGenericSourceTab('protos')}
+									className={cn(
+										"flex-1 px-3 py-1.5 text-xs font-medium rounded transition-colors",
+										genericSourceTab === 'protos'
+											? "bg-background text-foreground shadow-sm"
+											: "text-muted-foreground hover:text-foreground"
+									)}
+								>
+									Local protos
+								</button>
 							</div>
 
 							{genericSourceTab === 'endpoint' ? (
@@ -511,6 +658,91 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 												</div>
 											)}
 										</div>
+										<div className="flex items-center gap-2">
+											<Label htmlFor="transport-generic" className="text-sm">Protocol</Label>
+											<select
+												id="transport-generic"
+												value={transport}
+												onChange={e => setTransport(e.target.value as GrpcTransport)}
+												title={GRPC_TRANSPORTS[transport].description}
+												className="px-2 py-1.5 text-xs rounded border border-input bg-background focus:outline-none focus:ring-1 focus:ring-ring"
+											>
+												{(Object.keys(GRPC_TRANSPORTS) as GrpcTransport[]).map(key => (
+													<option key={key} value={key}>{GRPC_TRANSPORTS[key].label}</option>
+												))}
+											</select>
+										</div>
+									</div>
+								</div>
+							) : genericSourceTab === 'protos' ? (
+								/* Local protos tab */
+								<div className="grid gap-3">
+									<div className="grid gap-2">
+										<Label htmlFor="proto-files">
+											<span className="flex items-center gap-1.5">
+												<FileCode className="h-3.5 w-3.5" />
+												Proto or Protoset Files
+											</span>
+										</Label>
+										<input
+											id="proto-files"
+											type="file"
+											multiple
+											accept=".proto,.zip,.protoset,.pb,.desc,.binpb"
+											onChange={(e) => handleProtoFiles(e.target.files)}
+											className="text-xs text-muted-foreground file:mr-3 file:px-2 file:py-1 file:rounded file:border file:border-input file:bg-background file:text-xs file:text-foreground"
+										/>
+										<p className="text-xs text-muted-foreground">
+											One or more .proto files, a .zip that keeps its import root, or a .protoset built with --include_imports. google/protobuf imports are bundled.
+										</p>
+										{protoUploading && (
+											<div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+												<Loader2 className="h-3 w-3 animate-spin" />
+												Parsing protos...
+											</div>
+										)}
+										{protoError && (
+											<div className="text-xs text-destructive bg-destructive/10 rounded p-2">{protoError}</div>
+										)}
+										{protoSchema && (
+											<div className="text-xs text-muted-foreground">
+												{protoSchema.services.length} service{protoSchema.services.length !== 1 ? 's' : ''} from {protoSchema.source.files.length} file{protoSchema.source.files.length !== 1 ? 's' : ''}
+												{protoSchema.source.missingImports && (
+													<div className="flex items-start gap-1.5 mt-1 text-amber-500">
+														<AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+														<span>Not uploaded: {protoSchema.source.missingImports.join(', ')}. Options they define are kept as written.</span>
+													</div>
+												)}
+											</div>
+										)}
+									</div>
+
+									{/* Optional target endpoint for execution */}
+									<div className="grid gap-2 pt-2 border-t border-border">
+										<Label className="text-xs text-muted-foreground">Target Endpoint (optional, for execution)</Label>
+										<div className="flex gap-2 items-center">
+											<Input
+												placeholder="host:port"
+												value={protoEndpoint}
+												onChange={(e) => setProtoEndpoint(e.target.value)}
+												className="flex-1"
+											/>
+											<div className="flex items-center gap-2 shrink-0">
+												<Switch id="proto-tls" checked={protoTlsEnabled} onCheckedChange={setProtoTlsEnabled} />
+												<Label htmlFor="proto-tls" className="text-xs cursor-pointer">TLS</Label>
+											</div>
+											<select
+												aria-label="Protocol"
+												value={transport}
+												onChange={e => setTransport(e.target.value as GrpcTransport)}
+												title={GRPC_TRANSPORTS[transport].description}
+												className="shrink-0 px-2 py-1.5 text-xs rounded border border-input bg-background focus:outline-none focus:ring-1 focus:ring-ring"
+											>
+												{(Object.keys(GRPC_TRANSPORTS) as GrpcTransport[]).map(key => (
+													<option key={key} value={key}>{GRPC_TRANSPORTS[key].label}</option>
+												))}
+											</select>
+										</div>
 									</div>
 								</div>
 							) : (
@@ -565,6 +797,17 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 												<Switch id="bsr-tls" checked={bsrTlsEnabled} onCheckedChange={setBsrTlsEnabled} />
 												<Label htmlFor="bsr-tls" className="text-xs cursor-pointer">TLS</Label>
 											</div>
+											<select
+												aria-label="Protocol"
+												value={transport}
+												onChange={e => setTransport(e.target.value as GrpcTransport)}
+												title={GRPC_TRANSPORTS[transport].description}
+												className="shrink-0 px-2 py-1.5 text-xs rounded border border-input bg-background focus:outline-none focus:ring-1 focus:ring-ring"
+											>
+												{(Object.keys(GRPC_TRANSPORTS) as GrpcTransport[]).map(key => (
+													<option key={key} value={key}>{GRPC_TRANSPORTS[key].label}</option>
+												))}
+											</select>
 										</div>
 									</div>
 
@@ -649,6 +892,9 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 											<option value="bearer">Bearer Token</option>
 											<option value="api-key">API Key</option>
 											<option value="mtls">mTLS</option>
+											<option value="oauth2">OAuth2 Client Credentials</option>
+											<option value="jwt">Self-signed JWT</option>
+											<option value="basic">Basic Auth</option>
 										</select>
 
 										{authType === 'bearer' && (
@@ -685,6 +931,63 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 												/>
 											</div>
 										)}
+
+										{authType === 'oauth2' && (
+											<div className="space-y-2">
+												<Input placeholder="Token URL (https://auth.example.com/oauth/token)" value={oauth2TokenUrl} onChange={e => setOauth2TokenUrl(e.target.value)} />
+												<div className="flex gap-2">
+													<Input placeholder="Client ID" value={oauth2ClientId} onChange={e => setOauth2ClientId(e.target.value)} className="flex-1" />
+													<Input type="password" placeholder="Client secret" value={oauth2ClientSecret} onChange={e => setOauth2ClientSecret(e.target.value)} className="flex-1" />
+												</div>
+												<div className="flex gap-2">
+													<Input placeholder="Scopes (space-separated)" value={oauth2Scopes} onChange={e => setOauth2Scopes(e.target.value)} className="flex-1" />
+													<Input placeholder="Audience (optional)" value={oauth2Audience} onChange={e => setOauth2Audience(e.target.value)} className="flex-1" />
+												</div>
+												<p className="text-[11px] text-muted-foreground">
+													The explorer&apos;s server requests the access token and refreshes it before it expires.
+												</p>
+											</div>
+										)}
+
+										{authType === 'jwt' && (
+											<div className="space-y-2">
+												<textarea
+													placeholder="PEM private key (RSA, EC or Ed25519)"
+													value={jwtPrivateKey}
+													onChange={e => setJwtPrivateKey(e.target.value)}
+													rows={3}
+													className="w-full px-2 py-1.5 text-xs rounded border border-input bg-background font-mono resize-none focus:outline-none focus:ring-1 focus:ring-ring"
+												/>
+												<div className="flex gap-2">
+													<Input placeholder="Issuer (iss)" value={jwtIssuer} onChange={e => setJwtIssuer(e.target.value)} className="flex-1" />
+													<Input placeholder="Audience (aud)" value={jwtAudience} onChange={e => setJwtAudience(e.target.value)} className="flex-1" />
+												</div>
+												<div className="flex gap-2">
+													<Input placeholder="Key ID (kid, optional)" value={jwtKeyId} onChange={e => setJwtKeyId(e.target.value)} className="flex-1" />
+													<Input type="number" min={1} placeholder="TTL seconds (3600)" value={jwtTtlSeconds} onChange={e => setJwtTtlSeconds(e.target.value)} className="flex-1" />
+												</div>
+												<textarea
+													placeholder={'Extra claims as JSON, e.g. {"sub": "svc-explorer"}'}
+													value={jwtClaims}
+													onChange={e => setJwtClaims(e.target.value)}
+													rows={2}
+													className="w-full px-2 py-1.5 text-xs rounded border border-input bg-background font-mono resize-none focus:outline-none focus:ring-1 focus:ring-ring"
+												/>
+												{parseJwtClaims(jwtClaims) === null && (
+													<p className="text-[11px] text-destructive">Claims must be a JSON object; they are ignored until fixed.</p>
+												)}
+												<p className="text-[11px] text-muted-foreground">
+													Signed on the explorer&apos;s server (algorithm from the key type) and re-signed before it expires.
+												</p>
+											</div>
+										)}
+
+										{authType === 'basic' && (
+											<div className="flex gap-2">
+												<Input placeholder="Username" value={basicUsername} onChange={e => setBasicUsername(e.target.value)} className="flex-1" />
+												<Input type="password" placeholder="Password" value={basicPassword} onChange={e => setBasicPassword(e.target.value)} className="flex-1" />
+											</div>
+										)}
 									</div>
 								)}
 							</div>
@@ -895,6 +1198,126 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 						</>
 					)}
 
+					{/* TLS verification settings (both modes) */}
+					<div className="grid gap-2 pt-2 border-t border-border">
+						<button
+							type="button"
+							onClick={() => setTlsSettingsExpanded(v => !v)}
+							className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+						>
+							<ShieldCheck className="h-3 w-3" />
+							TLS Settings
+							{(caCert.trim() || serverName.trim()) && (
+								<span className="ml-1 px-1.5 py-0.5 rounded-full bg-primary/15 text-primary text-[10px] font-semibold">
+									custom
+								</span>
+							)}
+							{insecureSkipVerify && (
+								<span className="ml-1 px-1.5 py-0.5 rounded-full bg-amber-500/15 text-amber-500 text-[10px] font-semibold">
+									insecure
+								</span>
+							)}
+						</button>
+
+						{tlsSettingsExpanded && (
+							<div className="space-y-2">
+								<textarea
+									placeholder="PEM CA bundle (replaces system roots)"
+									value={caCert}
+									onChange={e => setCaCert(e.target.value)}
+									rows={3}
+									className="w-full px-2 py-1.5 text-xs rounded border border-input bg-background font-mono resize-none focus:outline-none focus:ring-1 focus:ring-ring"
+								/>
+								<Input
+									placeholder="Server name / authority override (optional)"
+									value={serverName}
+									onChange={e => setServerName(e.target.value)}
+								/>
+								<div className="flex items-center gap-3">
+									<Switch id="tls-skip-verify" checked={insecureSkipVerify} onCheckedChange={setInsecureSkipVerify} />
+									<Label htmlFor="tls-skip-verify" className="cursor-pointer text-xs">Skip certificate verification</Label>
+								</div>
+								{insecureSkipVerify && (
+									<div className="flex items-center gap-1.5 text-xs text-amber-500">
+										<AlertTriangle className="h-3 w-3 shrink-0" />
+										<span>Any certificate is accepted. Use only for self-signed development clusters.</span>
+									</div>
+								)}
+							</div>
+						)}
+					</div>
+
+					{/* Call option defaults (both modes) */}
+					<div className="grid gap-2 pt-2 border-t border-border">
+						<button
+							type="button"
+							onClick={() => setCallOptionsExpanded(v => !v)}
+							className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+						>
+							<SlidersHorizontal className="h-3 w-3" />
+							Call Options
+							{countCallOptions(callOptions) > 0 && (
+								<span className="ml-1 px-1.5 py-0.5 rounded-full bg-primary/15 text-primary text-[10px] font-semibold">
+									{countCallOptions(callOptions)}
+								</span>
+							)}
+						</button>
+
+						{callOptionsExpanded && (
+							<CallOptionsFields value={callOptions} onChange={setCallOptions} />
+						)}
+					</div>
+
+					{/* HTTP CONNECT proxy (both modes) */}
+					<div className="grid gap-2 pt-2 border-t border-border">
+						<button
+							type="button"
+							onClick={() => setProxyExpanded(v => !v)}
+							className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+						>
+							<Route className="h-3 w-3" />
+							Proxy
+							{proxyUrl.trim() && (
+								<span className="ml-1 px-1.5 py-0.5 rounded-full bg-primary/15 text-primary text-[10px] font-semibold">
+									custom
+								</span>
+							)}
+						</button>
+
+						{proxyExpanded && (
+							<div className="space-y-2">
+								<Input
+									placeholder="Proxy URL, e.g. http://proxy.corp:3128"
+									value={proxyUrl}
+									onChange={e => setProxyUrl(e.target.value)}
+								/>
+								<div className="grid grid-cols-2 gap-2">
+									<Input
+										placeholder="Username (optional)"
+										value={proxyUsername}
+										onChange={e => setProxyUsername(e.target.value)}
+										autoComplete="off"
+									/>
+									<Input
+										type="password"
+										placeholder="Password (optional)"
+										value={proxyPassword}
+										onChange={e => setProxyPassword(e.target.value)}
+										autoComplete="new-password"
+									/>
+								</div>
+								<Input
+									placeholder="No proxy: .corp.internal, 10.0.0.0/8, localhost"
+									value={noProxy}
+									onChange={e => setNoProxy(e.target.value)}
+								/>
+								<p className="text-[11px] text-muted-foreground">
+									Discovery and calls for this source go through this proxy. Leave the URL empty to use the server&apos;s proxy (GRPC_EXPLORER_PROXY or HTTPS_PROXY).
+								</p>
+							</div>
+						)}
+					</div>
+
 					</div>
 					<DialogFooter>
 						<Button type="button" variant="outline" onClick={handleCancel}>
@@ -908,6 +1331,14 @@ const AddNetworkDialog: React.FC<AddNetworkDialogProps> = ({ onAdd, onClose, def
 							>
 								{bsrEndpoint.trim() ? 'Connect with Schema' : 'Browse Schema'}
 							</Button>
+						) : mode === 'generic' && genericSourceTab === 'protos' ? (
+							<Button
+								type="button"
+								onClick={handleProtoAdd}
+								disabled={!protoSchema || protoUploading}
+							>
+								{protoEndpoint.trim() ? 'Connect with Schema' : 'Browse Schema'}
+							</Button>
 						) : mode === 'cosmos' && selectedChainDetails && endpointConfigs.length > 0 ? (
 							<Button
 								type="button"
@@ -0,0 +1,192 @@
+'use client';
+
+import React from 'react';
+import { GrpcCallOptions, GrpcCompression, GrpcRetryPolicy } from '@/lib/types/grpc';
+import {
+	DEFAULT_HEDGED_ATTEMPTS,
+	DEFAULT_RETRY_POLICY,
+	GRPC_STATUS_NAMES,
+	MAX_RETRY_ATTEMPTS,
+	normalizeCallOptions,
+} from '@/lib/utils/call-options';
+
+interface CallOptionsFieldsProps {
+	value: GrpcCallOptions | undefined;
+	onChange: (options: GrpcCallOptions | undefined) => void;
+}
+
+const RESPONSE_ENCODINGS: Array<Exclude<GrpcCompression, 'identity'>> = ['gzip', 'deflate'];
+
+const fieldClassName = "w-full min-w-0 px-2 py-1 text-xs rounded border border-input bg-background font-mono focus:outline-none focus:ring-1 focus:ring-ring";
+
+/** Number of call options that differ from the defaults, for collapsed-section badges */
+export function countCallOptions(options: GrpcCallOptions | undefined): number {
+	return Object.keys(normalizeCallOptions(options) ?? {}).length;
+}
+
+/**
+ * Compression, message size, wait-for-ready, keepalive, retry and hedging fields. Used for
+ * per-method options and for source defaults in the connection dialog.
+ */
+export default function CallOptionsFields({ value, onChange }: CallOptionsFieldsProps) {
+	const options = value ?? {};
+	const update = (patch: Partial<Record<keyof GrpcCallOptions, unknown>>) => {
+		onChange(normalizeCallOptions({ ...options, ...patch }));
+	};
+	const numberField = (key: 'maxSendMessageBytes' | 'maxReceiveMessageBytes' | 'keepaliveTimeMs' | 'keepaliveTimeoutMs', label: string, placeholder: string) => (
+		<label className="grid gap-1 text-[11px] text-muted-foreground">
+			{label}
+			<input
+				type="number"
+				min={1}
+				value={options[key] ?? ''}
+				onChange={e => update({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+				placeholder={placeholder}
+				className={fieldClassName}
+				onClick={e => e.stopPropagation()}
+			/>
+		</label>
+	);
+
+	const retry = options.retry ?? {};
+	const updateRetry = (patch: Partial<Record<keyof GrpcRetryPolicy, unknown>>) => {
+		update({ retry: { ...retry, ...patch } });
+	};
+	const retryField = (key: 'maxAttempts' | 'initialBackoffMs' | 'maxBackoffMs' | 'backoffMultiplier', label: string) => (
+		<label className="grid gap-1 text-[11px] text-muted-foreground">
+			{label}
+			<input
+				type="number"
+				min={key === 'backoffMultiplier' ? 0.1 : 1}
+				max={key === 'maxAttempts' ? MAX_RETRY_ATTEMPTS : undefined}
+				step={key === 'backoffMultiplier' ? 0.1 : 1}
+				value={retry[key] ?? ''}
+				onChange={e => updateRetry({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+				placeholder={String(DEFAULT_RETRY_POLICY[key])}
+				className={fieldClassName}
+				onClick={e => e.stopPropagation()}
+			/>
+		</label>
+	);
+	const retryableCodes = retry.retryableStatusCodes ?? DEFAULT_RETRY_POLICY.retryableStatusCodes;
+	const toggleRetryableCode = (code: string, retryable: boolean) => {
+		const next = GRPC_STATUS_NAMES.filter(c => c === code ? retryable : retryableCodes.includes(c));
+		const isDefault = next.length === DEFAULT_RETRY_POLICY.retryableStatusCodes.length &&
+			next.every(c => DEFAULT_RETRY_POLICY.retryableStatusCodes.includes(c));
+		updateRetry({ retryableStatusCodes: isDefault ? undefined : next });
+	};
+
+	const hedging = options.hedging ?? {};
+	const hedgingField = (key: 'delayMs' | 'maxAttempts', label: string, placeholder: string) => (
+		<label className="grid gap-1 text-[11px] text-muted-foreground">
+			{label}
+			<input
+				type="number"
+				min={1}
+				max={key === 'maxAttempts' ? MAX_RETRY_ATTEMPTS : undefined}
+				value={hedging[key] ?? ''}
+				onChange={e => update({ hedging: { ...hedging, [key]: e.target.value === '' ? undefined : Number(e.target.value) } })}
+				placeholder={placeholder}
+				disabled={key === 'maxAttempts' && !hedging.delayMs}
+				className={`${fieldClassName} disabled:opacity-50`}
+				onClick={e => e.stopPropagation()}
+			/>
+		</label>
+	);
+
+	const acceptEncodings = options.acceptEncodings ?? RESPONSE_ENCODINGS;
+	const toggleAcceptEncoding = (encoding: Exclude<GrpcCompression, 'identity'>, accepted: boolean) => {
+		const next = RESPONSE_ENCODINGS.filter(e => e === encoding ? accepted : acceptEncodings.includes(e));
+		// Accepting everything is the default, so it is not stored
+		update({ acceptEncodings: next.length === RESPONSE_ENCODINGS.length ? undefined : next });
+	};
+
+	return (
+		<div className="space-y-2" onClick={e => e.stopPropagation()}>
+			<div className="grid grid-cols-2 gap-2">
+				<label className="grid gap-1 text-[11px] text-muted-foreground">
+					Request compression
+					<select
+						value={options.compression ?? 'identity'}
+						onChange={e => update({ compression: e.target.value })}
+						className={fieldClassName}
+					>
+						<option value="identity">None</option>
+						<option value="gzip">gzip</option>
+						<option value="deflate">deflate</option>
+					</select>
+				</label>
+				<div className="grid gap-1 text-[11px] text-muted-foreground">
+					Accepted response encodings
+					<div className="flex items-center gap-3 py-1">
+						{RESPONSE_ENCODINGS.map(encoding => (
+							<label key={encoding} className="flex items-center gap-1.5 cursor-pointer text-xs">
+								<input
+									type="checkbox"
+									checked={acceptEncodings.includes(encoding)}
+									onChange={e => toggleAcceptEncoding(encoding, e.target.checked)}
+									className="w-3.5 h-3.5 rounded border-border text-primary focus:ring-primary"
+								/>
+								{encoding}
+							</label>
+						))}
+					</div>
+				</div>
+				{numberField('maxSendMessageBytes', 'Max send size (bytes)', 'Unlimited')}
+				{numberField('maxReceiveMessageBytes', 'Max receive size (bytes)', 'Unlimited')}
+				{numberField('keepaliveTimeMs', 'Keepalive interval (ms)', 'Off')}
+				{numberField('keepaliveTimeoutMs', 'Keepalive timeout (ms)', '20000')}
+			</div>
+			<label className="flex items-center gap-2 cursor-pointer text-xs text-muted-foreground">
+				<input
+					type="checkbox"
+					checked={options.waitForReady ?? false}
+					onChange={e => update({ waitForReady: e.target.checked })}
+					className="w-3.5 h-3.5 rounded border-border text-primary focus:ring-primary"
+				/>
+				Wait for ready (queue the call until the channel connects)
+			</label>
+			<p className="text-[11px] text-muted-foreground">
+				Keepalive and wait-for-ready apply to native gRPC. Native gRPC always accepts gzip and deflate responses.
+			</p>
+			<div className="space-y-2 pt-1 border-t border-border">
+				<div className="pt-1 text-xs font-medium">Retry</div>
+				<div className="text-[11px] text-muted-foreground">
+					Retries apply to unary methods marked NO_SIDE_EFFECTS or IDEMPOTENT and to Cosmos Query services. Each retry waits a random backoff and moves to the next endpoint.
+				</div>
+				<div className="grid grid-cols-2 gap-2">
+					{retryField('maxAttempts', `Max attempts (1 disables, up to ${MAX_RETRY_ATTEMPTS})`)}
+					{retryField('backoffMultiplier', 'Backoff multiplier')}
+					{retryField('initialBackoffMs', 'Initial backoff (ms)')}
+					{retryField('maxBackoffMs', 'Max backoff (ms)')}
+				</div>
+				<div className="grid gap-1 text-[11px] text-muted-foreground">
+					Retryable status codes
+					<div className="flex flex-wrap gap-x-3 gap-y-1 py-1">
+						{GRPC_STATUS_NAMES.map(code => (
+							<label key={code} className="flex items-center gap-1.5 cursor-pointer text-[11px] font-mono">
+								<input
+									type="checkbox"
+									checked={retryableCodes.includes(code)}
+									onChange={e => toggleRetryableCode(code, e.target.checked)}
+									className="w-3 h-3 rounded border-border text-primary focus:ring-primary"
+								/>
+								{code}
+							</label>
+						))}
+					</div>
+				</div>
+			</div>
+			<div className="space-y-2 pt-1 border-t border-border">
+				<div className="pt-1 text-xs font-medium">Hedging</div>
+				<div className="text-[11px] text-muted-foreground">
+					For read-only methods (NO_SIDE_EFFECTS or Cosmos Query) on sources with several endpoints: if no endpoint has answered within the delay, the next one is called as well. The first answer wins and the other calls are cancelled.
+				</div>
+				<div className="grid grid-cols-2 gap-2">
+					{hedgingField('delayMs', 'Hedge delay (ms)', 'Off')}
+					{hedgingField('maxAttempts', `Max parallel attempts (up to ${MAX_RETRY_ATTEMPTS})`, String(DEFAULT_HEDGED_ATTEMPTS))}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Activity, Loader2, RefreshCw, RotateCcw, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, errorMessage } from '@/lib/utils';
+import { buildEndpointHealthRows, type EndpointHealthRow } from '@/lib/utils/endpoint-health';
+import type { EndpointStatsAction, EndpointStatsSnapshot, GrpcNetwork } from '@/lib/types/grpc';
+
+interface EndpointHealthDialogProps {
+	open: boolean;
+	onClose: () => void;
+	networks: GrpcNetwork[];
+	/** Clear the networks' client-side health for an endpoint after a server action */
+	onClearClientHealth: (address: string, scope: 'cooldown' | 'all') => void;
+}
+
+interface StatsResponse {
+	endpoints: EndpointStatsSnapshot[];
+	blacklistThreshold: number;
+	blacklistDurationMs: number;
+}
+
+function formatTime(timestamp: number): string {
+	return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function EndpointStatus({ row }: { row: EndpointHealthRow }) {
+	if (row.server?.blacklisted) {
+		return (
+			<span className="text-destructive">
+				Blacklisted{row.server.blacklistExpiresAt ? ` until ${formatTime(row.server.blacklistExpiresAt)}` : ''}
+			</span>
+		);
+	}
+	if (row.cooldownUntil) {
+		return <span className="text-amber-500">Cooldown until {formatTime(row.cooldownUntil)}</span>;
+	}
+	if (!row.server && !row.lastSuccess) {
+		return <span className="text-muted-foreground">Not called yet</span>;
+	}
+	return <span className="text-green-500">Healthy</span>;
+}
+
+/**
+ * Every endpoint the server has called or a network is configured with:
+ * server-side success/failure stats and blacklist state alongside the
+ * client-side cooldowns recorded per network.
+ */
+const EndpointHealthDialog: React.FC<EndpointHealthDialogProps> = ({
+	open,
+	onClose,
+	networks,
+	onClearClientHealth,
+}) => {
+	const [stats, setStats] = useState<StatsResponse | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [pending, setPending] = useState<string | null>(null);
+
+	const loadStats = useCallback(async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const response = await fetch('/api/endpoints/stats', { cache: 'no-store' });
+			const data = await response.json();
+			if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+			setStats(data);
+		} catch (err: unknown) {
+			setError(errorMessage(err));
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		if (open) loadStats();
+	}, [open, loadStats]);
+
+	const rows = useMemo(
+		() => buildEndpointHealthRows(stats?.endpoints ?? [], networks),
+		[stats, networks]
+	);
+
+	const runAction = async (row: EndpointHealthRow, action: EndpointStatsAction) => {
+		setPending(`${action}:${row.address}`);
+		try {
+			if (row.server) {
+				const response = await fetch('/api/endpoints/stats', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ action, address: row.address }),
+				});
+				const data = await response.json();
+				// 404: the server has no stats for it any more, so only client state is left
+				if (!response.ok && response.status !== 404) throw new Error(data.error || `HTTP ${response.status}`);
+			}
+			onClearClientHealth(row.address, action === 'reset' ? 'all' : 'cooldown');
+			await loadStats();
+		} catch (err: unknown) {
+			toast.error(`Could not ${action === 'reset' ? 'reset' : 'un-blacklist'} ${row.address}`, {
+				description: errorMessage(err),
+			});
+		} finally {
+			setPending(null);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-[900px]">
+				<DialogHeader>
+					<div className="flex items-center gap-2">
+						<Activity className="h-5 w-5" />
+						<DialogTitle>Endpoint Health</DialogTitle>
+						<button
+							type="button"
+							onClick={loadStats}
+							disabled={loading}
+							className="icon-btn text-muted-foreground ml-auto mr-6"
+							title="Refresh"
+						>
+							<RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+						</button>
+					</div>
+					<DialogDescription>
+						Server-side call stats and blacklist, with the cooldowns each network applies after failures.
+						{stats && ` Endpoints are blacklisted after ${stats.blacklistThreshold} failures for ${Math.round(stats.blacklistDurationMs / 60000)} minutes.`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{error && (
+					<div className="text-sm text-destructive bg-destructive/10 rounded p-2">{error}</div>
+				)}
+
+				<div className="max-h-[60vh] overflow-auto -mx-2">
+					{loading && !stats ? (
+						<div className="flex items-center justify-center py-8 text-muted-foreground">
+							<Loader2 className="h-5 w-5 animate-spin mr-2" />
+							<span className="text-sm">Loading endpoint stats...</span>
+						</div>
+					) : rows.length === 0 ? (
+						<div className="text-sm text-muted-foreground text-center py-8">
+							No endpoints yet. Connect a source or run a method to collect stats.
+						</div>
+					) : (
+						<table className="w-full text-xs">
+							<thead className="text-muted-foreground text-left">
+								<tr className="border-b border-border">
+									<th className="px-2 py-1.5 font-medium">Endpoint</th>
+									<th className="px-2 py-1.5 font-medium text-right">Success</th>
+									<th className="px-2 py-1.5 font-medium text-right">Failures</th>
+									<th className="px-2 py-1.5 font-medium text-right">Timeouts</th>
+									<th className="px-2 py-1.5 font-medium text-right">Avg latency</th>
+									<th className="px-2 py-1.5 font-medium">Status</th>
+									<th className="px-2 py-1.5 font-medium">Last error</th>
+									<th className="px-2 py-1.5" />
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map(row => (
+									<tr key={row.address} className="border-b border-border/50 align-top">
+										<td className="px-2 py-1.5 max-w-[260px]">
+											<div className="font-mono truncate" title={row.address}>{row.address}</div>
+											{row.networks.length > 0 && (
+												<div className="text-muted-foreground truncate">{row.networks.join(', ')}</div>
+											)}
+										</td>
+										<td className="px-2 py-1.5 text-right tabular-nums">
+											{row.server?.successCount ?? '—'}
+											{row.hedgeWins ? <div className="text-muted-foreground" title="Hedged calls this endpoint answered first">{row.hedgeWins} hedge wins</div> : null}
+										</td>
+										<td className="px-2 py-1.5 text-right tabular-nums">{row.server?.failures ?? '—'}</td>
+										<td className="px-2 py-1.5 text-right tabular-nums">{row.server?.timeouts ?? '—'}</td>
+										<td className="px-2 py-1.5 text-right tabular-nums">
+											{row.server?.averageResponseTime !== undefined ? `${row.server.averageResponseTime}ms` : '—'}
+										</td>
+										<td className="px-2 py-1.5"><EndpointStatus row={row} /></td>
+										<td className="px-2 py-1.5 text-muted-foreground">
+											{row.lastErrorKind ?? '—'}
+											{row.server?.lastFailure && (
+												<div>{formatTime(row.server.lastFailure)}</div>
+											)}
+										</td>
+										<td className="px-2 py-1.5">
+											<div className="flex items-center justify-end gap-1">
+												{(row.server?.blacklisted || row.cooldownUntil) && (
+													<button
+														type="button"
+														onClick={() => runAction(row, 'unblacklist')}
+														disabled={pending !== null}
+														className="icon-btn text-muted-foreground"
+														title="Un-blacklist and lift the cooldown"
+													>
+														{pending === `unblacklist:${row.address}`
+															? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+															: <ShieldCheck className="h-3.5 w-3.5" />}
+													</button>
+												)}
+												{(row.server || row.cooldownUntil || row.lastSuccess || row.lastErrorKind) && (
+													<button
+														type="button"
+														onClick={() => runAction(row, 'reset')}
+														disabled={pending !== null}
+														className="icon-btn text-muted-foreground"
+														title="Reset stats"
+													>
+														{pending === `reset:${row.address}`
+															? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+															: <RotateCcw className="h-3.5 w-3.5" />}
+													</button>
+												)}
+											</div>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default EndpointHealthDialog;
@@ -5,6 +5,7 @@ import { Switch } from '@/components/ui/switch';
 import { Check, Minus, Lock, Unlock, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { EndpointConfig } from '@/lib/types/grpc';
+import { endpointPort, isSocketEndpoint, stripEndpointScheme, withDefaultPort } from '@/lib/utils/endpoint-address';
 
 interface EndpointSelectorProps {
 	endpoints: EndpointConfig[];
@@ -27,10 +28,14 @@ function detectTlsFromAddress(address: string): boolean {
 		return false;
 	}
 
-	// Extract port
-	const portMatch = normalized.match(/:(\d+)$/);
-	if (portMatch) {
-		const port = portMatch[1];
+	// Local sockets are plaintext
+	if (isSocketEndpoint(normalized)) {
+		return false;
+	}
+
+	// Extract port (IPv6 literals are bracketed: [2001:db8::1]:9090)
+	const port = endpointPort(normalized);
+	if (port) {
 		// Standard TLS ports
 		if (port === '443' || port === '9091') {
 			return true;
@@ -49,25 +54,8 @@ function detectTlsFromAddress(address: string): boolean {
  * Normalizes an endpoint address by removing protocol prefixes and adding default port
  */
 function normalizeAddress(address: string): string {
-	let normalized = address.trim();
-
-	// Remove protocol prefixes
-	if (normalized.startsWith('https://')) {
-		normalized = normalized.replace('https://', '');
-	} else if (normalized.startsWith('http://')) {
-		normalized = normalized.replace('http://', '');
-	} else if (normalized.startsWith('grpcs://')) {
-		normalized = normalized.replace('grpcs://', '');
-	} else if (normalized.startsWith('grpc://')) {
-		normalized = normalized.replace('grpc://', '');
-	}
-
-	// Add default port if missing
-	if (!normalized.includes(':')) {
-		normalized = `${normalized}:443`;
-	}
-
-	return normalized;
+	// Remove protocol prefixes, then add the default port if missing
+	return withDefaultPort(stripEndpointScheme(address), true);
 }
 
 /**
@@ -10,15 +10,22 @@ import AddNetworkDialog from './AddNetworkDialog';
 import MenuBar from './MenuBar';
 import HelpDialog from './HelpDialog';
 import SettingsDialog from './SettingsDialog';
+import EndpointHealthDialog from './EndpointHealthDialog';
+import SchemaDiffDialog, { type SchemaDiffNetworkOption } from './SchemaDiffDialog';
+import SchemaOverlayDialog from './SchemaOverlayDialog';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { getFromCache, saveToCache, getServicesCacheKey, getCacheTTL, getRequestTimeoutMs } from '@/lib/utils/client-cache';
 import { useKeyboardShortcuts } from '@/lib/hooks/useKeyboardShortcuts';
 import { debug } from '@/lib/utils/debug';
-import { GrpcNetwork, GrpcService, GrpcMethod, MethodInstance, ExecutionResult, EndpointConfig, ExplorerMode, BufBsrSource, GrpcAuthConfig } from '@/lib/types/grpc';
+import { GrpcNetwork, GrpcService, GrpcMethod, MethodInstance, ExecutionResult, EndpointConfig, ExplorerMode, BufBsrSource, GrpcAuthConfig, GrpcCallOptions, GrpcProxyConfig, GrpcTransport, StreamMessage, StreamSessionAction, StreamSessionStatus, EndpointSelectionStrategy, LocalProtoSchema, ProtoSchemaSource, SchemaOverlay } from '@/lib/types/grpc';
 import { descriptorLoader } from '@/lib/utils/descriptor-loader';
 import { isServiceDescriptorReady, servicesNeedingDescriptors } from '@/lib/utils/descriptor-readiness';
-import { getExecutionEndpoints } from '@/lib/utils/execution-endpoints';
+import { endpointDisplayName } from '@/lib/utils/endpoint-address';
+import { executionRequestEndpoints, getExecutionEndpoints, normalizeEndpointStrategy } from '@/lib/utils/execution-endpoints';
+import { clearEndpointHealth } from '@/lib/utils/endpoint-health';
 import { classifyReflectionFailure } from '@/lib/utils/reflection-probe';
+import { readStreamEvents } from '@/lib/utils/stream-events';
+import { applySchemaOverlay, applySchemaOverlayToMethod, applySchemaOverlayToService, removeSchemaOverlay, removeSchemaOverlayFromMethod, schemaOverlayCoverage } from '@/lib/utils/schema-overlay';
 import { toast } from 'sonner';
 
 // Color palette for networks
@@ -37,12 +44,15 @@ const NETWORK_COLORS = [
 const NETWORK_CACHE_VERSION = '2.1.0';
 const INCOMPATIBLE_ENDPOINT_COOLDOWN_MS = 60 * 60 * 1000;
 const TRANSIENT_ENDPOINT_COOLDOWN_MS = 60 * 1000;
+// Server-streaming results keep only the most recent messages in memory.
+const MAX_STREAM_MESSAGES = 500;
 
 function updateExecutionHealth(
   network: GrpcNetwork,
   successfulEndpoint: string | undefined,
   failures: Array<{ endpoint: string; error: string }>,
-  now: number
+  now: number,
+  hedgeWinner?: string
 ): GrpcNetwork {
   const endpointHealth = { ...network.endpointHealth };
 
@@ -57,12 +67,64 @@ function updateExecutionHealth(
   }
 
   if (successfulEndpoint) {
-    endpointHealth[successfulEndpoint] = { lastSuccess: now };
+    // A success clears the cooldown but keeps the hedge record
+    const { hedgeWins, lastHedgeWin } = endpointHealth[successfulEndpoint] ?? {};
+    endpointHealth[successfulEndpoint] = {
+      lastSuccess: now,
+      ...(hedgeWins ? { hedgeWins } : {}),
+      ...(lastHedgeWin ? { lastHedgeWin } : {}),
+    };
+  }
+
+  if (hedgeWinner) {
+    const previous = endpointHealth[hedgeWinner];
+    endpointHealth[hedgeWinner] = { ...previous, hedgeWins: (previous?.hedgeWins ?? 0) + 1, lastHedgeWin: now };
   }
 
   return { ...network, endpointHealth };
 }
 
+/** Append a message to a streaming result's timeline, keeping the most recent MAX_STREAM_MESSAGES */
+function appendStreamMessage(result: ExecutionResult, message: Omit<StreamMessage, 'index'>): ExecutionResult {
+  const index = result.messageCount ?? 0;
+  return {
+    ...result,
+    messages: [...(result.messages || []), { ...message, index }].slice(-MAX_STREAM_MESSAGES),
+    messageCount: index + 1,
+  };
+}
+
+/** Streaming results are updated in place, identified by method instance and start time */
+function updateStreamResult(
+  results: ExecutionResult[],
+  methodId: string,
+  startedAt: number,
+  update: (result: ExecutionResult) => ExecutionResult
+): ExecutionResult[] {
+  return results.map(result =>
+    result.methodId === methodId && result.timestamp === startedAt ? update(result) : result
+  );
+}
+
+/**
+ * Where the Proto tab can rebuild full .proto files from: the BSR module, or
+ * reflection on the source's endpoint. Uploaded protos and chain-registry
+ * sources have none.
+ */
+function protoSchemaSource(network: GrpcNetwork): ProtoSchemaSource | undefined {
+  const proxy = network.proxy ? { proxy: network.proxy } : {};
+  if (network.bsrSource) return { kind: 'bsr', bsrSource: network.bsrSource, ...proxy };
+  if (network.localProtoSource || !network.endpoint || network.endpoint.startsWith('chain:')) return undefined;
+  return {
+    kind: 'reflection',
+    endpoint: network.endpoint,
+    tlsEnabled: network.tlsEnabled,
+    ...(network.transport ? { transport: network.transport } : {}),
+    ...(network.authConfig ? { authConfig: network.authConfig } : {}),
+    ...proxy,
+  };
+}
+
 export default function GrpcExplorerApp() {
   const [networks, setNetworks] = useState<GrpcNetwork[]>([]);
   const [methodInstances, setMethodInstances] = useState<MethodInstance[]>([]);
@@ -72,6 +134,9 @@ export default function GrpcExplorerApp() {
   const [isExecuting, setIsExecuting] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showEndpointHealth, setShowEndpointHealth] = useState(false);
+  const [showSchemaDiff, setShowSchemaDiff] = useState(false);
+  const [schemaOverlayNetworkId, setSchemaOverlayNetworkId] = useState<string | null>(null);
   const [leftPanelCollapsed, setLeftPanelCollapsed] = useState(
     typeof window !== 'undefined' ? window.innerWidth < 1024 : false
   );
@@ -81,9 +146,13 @@ export default function GrpcExplorerApp() {
   const [userCollapsedPanel, setUserCollapsedPanel] = useState(false);
   const [defaultMode, setDefaultMode] = useState<ExplorerMode>('generic');
   const [requestTimeoutMs, setRequestTimeoutMs] = useState(10000);
+  // Open client-streaming/bidi sessions keyed by method instance id
+  const [streamSessions, setStreamSessions] = useState<Record<string, { sessionId?: string; status: StreamSessionStatus; startedAt: number }>>({});
 
   // Round-robin endpoint index tracker per network (for load distribution)
   const endpointIndexRef = useRef<Map<string, number>>(new Map());
+  // Aborts the in-flight execute/stream fetch; the route then cancels the gRPC call
+  const executionAbortRef = useRef<AbortController | null>(null);
   const leftPanelCollapsedRef = useRef(leftPanelCollapsed);
   const isOverlayModeRef = useRef(isOverlayMode);
   const userCollapsedPanelRef = useRef(userCollapsedPanel);
@@ -106,6 +175,12 @@ export default function GrpcExplorerApp() {
     return methodInstances.find(m => m.id === selectedMethodId) || null;
   }, [selectedMethodId, methodInstances]);
 
+  // Sources the schema diff can load descriptors from (reflection or BSR)
+  const schemaDiffNetworks = useMemo(() => networks.flatMap((network): SchemaDiffNetworkOption[] => {
+    const source = protoSchemaSource(network);
+    return source ? [{ id: network.id, label: network.chainId || network.endpoint || network.name, source }] : [];
+  }), [networks]);
+
   // Load defaultMode from localStorage on mount
   useEffect(() => {
     try {
@@ -175,7 +250,7 @@ export default function GrpcExplorerApp() {
           const updatedServices = network.services.map((service) => {
             if (service.fullName !== result.serviceName) return service;
 
-            return { ...result.service, descriptorStatus: 'loaded' as const };
+            return applySchemaOverlayToService({ ...result.service, descriptorStatus: 'loaded' as const }, network.schemaOverlay);
           });
 
           return { ...network, services: updatedServices };
@@ -285,6 +360,18 @@ export default function GrpcExplorerApp() {
       },
       description: 'Execute method'
     },
+    {
+      key: '.',
+      ctrl: true,
+      handler: () => {
+        if (isExecuting) {
+          handleCancelExecution();
+        } else if (selectedMethod && streamSessions[selectedMethod.id]) {
+          handleSessionAction(selectedMethod, 'cancel');
+        }
+      },
+      description: 'Cancel running execution'
+    },
     {
       key: '?',
       ctrl: true,
@@ -308,10 +395,45 @@ export default function GrpcExplorerApp() {
     endpointConfigs?: EndpointConfig[],
     mode?: ExplorerMode,
     bsrSource?: BufBsrSource,
-    authConfig?: GrpcAuthConfig
+    authConfig?: GrpcAuthConfig,
+    transport?: GrpcTransport,
+    callOptions?: GrpcCallOptions,
+    proxy?: GrpcProxyConfig,
+    localProtos?: LocalProtoSchema
   ) => {
     const networkMode = mode || defaultMode;
 
+    // Local protos: services were already parsed from the uploaded files
+    if (localProtos) {
+      const newNetwork: GrpcNetwork = {
+        id: generateId(),
+        name: localProtos.source.name,
+        endpoint: endpoint || '',
+        tlsEnabled,
+        services: localProtos.services.map(service => ({
+          ...service,
+          descriptorStatus: 'loaded' as const,
+        })),
+        color: getNextColor(),
+        expanded: true,
+        mode: networkMode,
+        localProtoSource: localProtos.source,
+        ...(authConfig ? { authConfig } : {}),
+        ...(transport ? { transport } : {}),
+        ...(callOptions ? { callOptions } : {}),
+        ...(proxy ? { proxy } : {}),
+      };
+      debug.log(`Loaded ${localProtos.services.length} services from ${localProtos.source.files.length} local proto files`);
+
+      setNetworks(prev => {
+        if (autoCollapseEnabled) {
+          return [...prev.map(n => ({ ...n, expanded: false })), newNetwork];
+        }
+        return [...prev, newNetwork];
+      });
+      return;
+    }
+
     // BSR source: fetch services from BSR route
     if (bsrSource) {
       const id = generateId();
@@ -330,6 +452,9 @@ export default function GrpcExplorerApp() {
         mode: networkMode,
         bsrSource,
         ...(authConfig ? { authConfig } : {}),
+        ...(transport ? { transport } : {}),
+        ...(callOptions ? { callOptions } : {}),
+        ...(proxy ? { proxy } : {}),
       };
 
       setNetworks(prev => {
@@ -348,6 +473,7 @@ export default function GrpcExplorerApp() {
             version: bsrSource.version,
             symbols: bsrSource.symbols,
             authToken: bsrSource.authToken,
+            proxy,
           })
         });
 
@@ -383,7 +509,7 @@ export default function GrpcExplorerApp() {
     }
 
     // Check client-side cache first to get chain-id for deduplication
-    const cacheKey = getServicesCacheKey(endpoint, tlsEnabled);
+    const cacheKey = getServicesCacheKey(endpoint, tlsEnabled, transport);
     const cached = getFromCache<any>(cacheKey);
     const cachedChainId = cached?.chainId || cached?.status?.chainId;
 
@@ -416,7 +542,7 @@ export default function GrpcExplorerApp() {
       // New chain with cached data - add immediately
       const id = generateId();
       const color = getNextColor();
-      const name = actualEndpoint.split('//').pop()?.split(':')[0] || actualEndpoint;
+      const name = endpointDisplayName(actualEndpoint);
 
       // Get cached endpoints for round-robin distribution
       const cachedEndpoints = cached.availableEndpoints?.map((ep: any) => ep.address || ep) || [];
@@ -442,6 +568,9 @@ export default function GrpcExplorerApp() {
         expanded: true,
         mode: networkMode,
         ...(authConfig ? { authConfig } : {}),
+        ...(transport ? { transport } : {}),
+        ...(callOptions ? { callOptions } : {}),
+        ...(proxy ? { proxy } : {}),
       };
 
       setNetworks(prev => {
@@ -458,7 +587,7 @@ export default function GrpcExplorerApp() {
 
     const id = generateId();
     const color = getNextColor();
-    const name = endpoint.split('//').pop()?.split(':')[0] || endpoint;
+    const name = endpointDisplayName(endpoint);
 
     const newNetwork: GrpcNetwork = {
       id,
@@ -475,6 +604,9 @@ export default function GrpcExplorerApp() {
       expanded: true,
       mode: networkMode,
       ...(authConfig ? { authConfig } : {}),
+      ...(transport ? { transport } : {}),
+      ...(callOptions ? { callOptions } : {}),
+      ...(proxy ? { proxy } : {}),
     };
 
     // Add network to UI immediately with loading state
@@ -490,7 +622,7 @@ export default function GrpcExplorerApp() {
       const response = await fetch('/api/grpc/services', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ endpoint, tlsEnabled, mode: networkMode, timeoutMs: requestTimeoutMs })
+        body: JSON.stringify({ endpoint, tlsEnabled, mode: networkMode, timeoutMs: requestTimeoutMs, transport, authConfig, proxy })
       });
 
       if (!response.ok) throw new Error('Failed to fetch services');
@@ -578,6 +710,9 @@ export default function GrpcExplorerApp() {
         networkId: network.id,
         endpoint: network.endpoint,
         tlsEnabled: network.tlsEnabled,
+        transport: network.transport,
+        authConfig: network.authConfig,
+        proxy: network.proxy,
         serviceName: service.fullName,
         timeoutMs: requestTimeoutMs,
         priority: 'normal' as const,
@@ -605,10 +740,11 @@ export default function GrpcExplorerApp() {
   // Refresh network (force fetch from server, bypass cache)
   const handleRefreshNetwork = useCallback(async (networkId: string) => {
     const network = networks.find(n => n.id === networkId);
-    if (!network) return;
+    // Uploaded protos have nothing to re-fetch; re-upload to update them
+    if (!network || network.localProtoSource) return;
 
     // Clear cache for this endpoint
-    const cacheKey = getServicesCacheKey(network.endpoint, network.tlsEnabled);
+    const cacheKey = getServicesCacheKey(network.endpoint, network.tlsEnabled, network.transport);
     const { removeFromCache } = await import('@/lib/utils/client-cache');
     removeFromCache(cacheKey);
 
@@ -632,7 +768,10 @@ export default function GrpcExplorerApp() {
           endpoint: network.endpoint,
           tlsEnabled: network.tlsEnabled,
           forceRefresh: true,
-          timeoutMs: requestTimeoutMs
+          timeoutMs: requestTimeoutMs,
+          transport: network.transport,
+          authConfig: network.authConfig,
+          proxy: network.proxy
         })
       });
 
@@ -654,7 +793,7 @@ export default function GrpcExplorerApp() {
           const { error, ...rest } = n;
           return {
             ...rest,
-            services: data.services || [],
+            services: applySchemaOverlay(data.services || [], n.schemaOverlay),
             endpoint: actualEndpoint,
             chainId,
             endpointHealth: { ...n.endpointHealth, [actualEndpoint]: { lastSuccess: now } },
@@ -679,6 +818,93 @@ export default function GrpcExplorerApp() {
     }
   }, [networks, requestTimeoutMs]);
 
+  // Save what reflection returns as a .protoset for offline use (grpcurl -protoset, or re-upload here)
+  const handleDownloadDescriptors = useCallback(async (networkId: string) => {
+    const network = networks.find(n => n.id === networkId);
+    if (!network || network.bsrSource || network.localProtoSource) return;
+
+    try {
+      const response = await fetch('/api/grpc/protoset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          endpoint: network.endpoint,
+          tlsEnabled: network.tlsEnabled,
+          timeoutMs: requestTimeoutMs,
+          transport: network.transport,
+          authConfig: network.authConfig,
+          proxy: network.proxy
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'descriptors.protoset';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      const missing = response.headers.get('X-Protoset-Missing');
+      if (missing) {
+        toast.warning(`${filename} is missing imports the server did not return`, {
+          description: missing.split(',').join(', '),
+          duration: 6000,
+        });
+      }
+    } catch (err) {
+      console.error(`[UI] Descriptor download failed for ${network.endpoint}:`, err);
+      toast.error(`Could not download descriptors from ${network.endpoint}`, {
+        description: errorMessage(err),
+        duration: 6000,
+      });
+    }
+  }, [networks, requestTimeoutMs]);
+
+  // Attach, replace or detach a network's schema overlay. Open method tabs are
+  // updated too, since they hold their own copies of the method.
+  const handleSchemaOverlayChange = useCallback((networkId: string, overlay: SchemaOverlay | null) => {
+    setNetworks(prev => prev.map(n => {
+      if (n.id !== networkId) return n;
+      const { schemaOverlay: _previous, ...rest } = n;
+      const services = removeSchemaOverlay(n.services);
+      return overlay
+        ? { ...rest, schemaOverlay: overlay, services: applySchemaOverlay(services, overlay) }
+        : { ...rest, services };
+    }));
+    setMethodInstances(prev => prev.map(instance => {
+      if (instance.networkId !== networkId) return instance;
+      const method = removeSchemaOverlayFromMethod(instance.method);
+      return { ...instance, method: overlay ? applySchemaOverlayToMethod(instance.service.fullName, method, overlay) : method };
+    }));
+
+    const network = networks.find(n => n.id === networkId);
+    if (overlay && network) {
+      const { matched, total } = schemaOverlayCoverage(network.services, overlay);
+      toast.success(`Schema overlay ${overlay.label} attached`, {
+        description: `Covers ${matched} of ${total} methods`,
+      });
+    }
+    setSchemaOverlayNetworkId(null);
+  }, [networks]);
+
+  // Round-robin is the default, so it is not stored
+  const handleEndpointStrategyChange = useCallback((networkId: string, strategy: EndpointSelectionStrategy) => {
+    setNetworks(prev => prev.map(n => {
+      if (n.id !== networkId) return n;
+      const { endpointStrategy: _previous, ...rest } = n;
+      return strategy === 'round-robin' ? rest : { ...rest, endpointStrategy: strategy };
+    }));
+  }, []);
+
   // Toggle network expansion
   const toggleNetworkExpanded = useCallback((networkId: string) => {
     setNetworks(prev => {
@@ -696,6 +922,9 @@ export default function GrpcExplorerApp() {
             networkId: targetNetwork.id,
             endpoint: targetNetwork.endpoint,
             tlsEnabled: targetNetwork.tlsEnabled,
+            transport: targetNetwork.transport,
+            authConfig: targetNetwork.authConfig,
+            proxy: targetNetwork.proxy,
             serviceName: service.fullName,
             timeoutMs: requestTimeoutMs,
             priority: 'high',
@@ -769,7 +998,10 @@ export default function GrpcExplorerApp() {
                   endpoint: network.endpoint,
                   tlsEnabled: network.tlsEnabled,
                   serviceName: service.fullName,
-                  timeoutMs: requestTimeoutMs
+                  timeoutMs: requestTimeoutMs,
+                  transport: network.transport,
+                  authConfig: network.authConfig,
+                  proxy: network.proxy
                 })
               });
 
@@ -783,10 +1015,11 @@ export default function GrpcExplorerApp() {
 
               const data = await response.json();
               if (data.service) {
-                const enrichedMethodData = data.service.methods.find((m: GrpcMethod) => m.name === method.name);
+                const loadedService = applySchemaOverlayToService({ ...data.service, descriptorStatus: 'loaded' }, network.schemaOverlay);
+                const enrichedMethodData = loadedService.methods.find((m: GrpcMethod) => m.name === method.name);
                 if (enrichedMethodData) {
                   enrichedMethod = enrichedMethodData;
-                  enrichedService = { ...data.service, descriptorStatus: 'loaded' };
+                  enrichedService = loadedService;
                   debug.log(`[UI] Loaded field definitions for ${service.fullName}.${method.name}`);
                   descriptorLoader.markLoaded(network.id, service.fullName);
 
@@ -796,8 +1029,8 @@ export default function GrpcExplorerApp() {
                     return {
                       ...n,
                       services: n.services.map(s =>
-                        s.fullName === data.service.fullName
-                          ? { ...data.service, descriptorStatus: 'loaded' }
+                        s.fullName === loadedService.fullName
+                          ? applySchemaOverlayToService({ ...data.service, descriptorStatus: 'loaded' }, n.schemaOverlay)
                           : s
                       )
                     };
@@ -928,12 +1161,187 @@ export default function GrpcExplorerApp() {
     ));
   }, []);
 
+  // Open an interactive client-streaming/bidi session. Responses arrive on the
+  // long-lived /api/grpc/session response; requests go through handleSessionAction.
+  const handleOpenSession = useCallback(async (instance: MethodInstance) => {
+    setSelectedMethodId(instance.id);
+
+    const startTime = Date.now();
+    const network = networks.find(n => n.id === instance.networkId);
+    if (!network) {
+      toast.error('Network not found');
+      return;
+    }
+
+    const executionEndpoints = getExecutionEndpoints(network, endpointIndexRef.current.get(network.id) || 0);
+    const selectedEndpoint = executionEndpoints[0].address;
+    const updateResult = (update: (result: ExecutionResult) => ExecutionResult) => {
+      setExecutionResults(prev => updateStreamResult(prev, instance.id, startTime, update));
+    };
+    const failSession = (error: string) => updateResult(result => ({
+      ...result,
+      success: false,
+      error,
+      streamStatus: 'error',
+      duration: Date.now() - startTime,
+    }));
+
+    setStreamSessions(prev => ({ ...prev, [instance.id]: { status: 'connecting', startedAt: startTime } }));
+    setExecutionResults(prev => [{
+      methodId: instance.id,
+      success: true,
+      timestamp: startTime,
+      endpoint: selectedEndpoint,
+      streaming: true,
+      streamStatus: 'streaming' as const,
+      messages: [],
+      messageCount: 0,
+    }, ...prev].slice(0, 50));
+
+    let usedEndpoint: string | undefined;
+    let failedEndpoints: Array<{ endpoint: string; error: string }> = [];
+    let sessionError: string | undefined;
+    let finished = false;
+
+    try {
+      const response = await fetch('/api/grpc/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...executionRequestEndpoints(network, executionEndpoints),
+          service: instance.service.fullName,
+          method: instance.method.name,
+          metadata: instance.metadata || {},
+          ...(instance.authConfig ? { authConfig: instance.authConfig } : {}),
+          ...(network.transport ? { transport: network.transport } : {}),
+          ...(instance.callOptions ? { callOptions: instance.callOptions } : {}),
+          ...(network.proxy ? { proxy: network.proxy } : {}),
+        })
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Session request failed with HTTP ${response.status}`);
+      }
+
+      await readStreamEvents(response.body, (event) => {
+        switch (event.type) {
+          case 'open':
+            usedEndpoint = event.endpoint;
+            failedEndpoints = event.failedEndpoints;
+            setStreamSessions(prev => ({
+              ...prev,
+              [instance.id]: { status: 'open', startedAt: startTime, ...(event.sessionId ? { sessionId: event.sessionId } : {}) },
+            }));
+            updateResult(result => ({ ...result, endpoint: event.endpoint }));
+            break;
+          case 'message':
+            updateResult(result => appendStreamMessage(result, { timestamp: event.timestamp, data: event.data, direction: 'received' }));
+            break;
+          case 'end':
+            finished = true;
+            updateResult(result => ({
+              ...result,
+              streamStatus: 'completed',
+              duration: event.executionTime,
+              ...(event.status ? { status: event.status } : {}),
+            }));
+            break;
+          case 'error':
+            finished = true;
+            sessionError = event.error;
+            failedEndpoints = event.failedEndpoints ?? failedEndpoints;
+            failSession(event.error);
+            const { status } = event;
+            if (status) updateResult(result => ({ ...result, status }));
+            break;
+        }
+      });
+      if (!finished) {
+        sessionError = 'Session closed before the server reported a final status';
+        failSession(sessionError);
+      }
+    } catch (error) {
+      sessionError = errorMessage(error);
+      failSession(sessionError);
+    } finally {
+      setStreamSessions(prev => {
+        const { [instance.id]: _closed, ...rest } = prev;
+        return rest;
+      });
+    }
+
+    setNetworks(prev => prev.map(network =>
+      network.id === instance.networkId
+        ? updateExecutionHealth(network, sessionError ? undefined : usedEndpoint, failedEndpoints, Date.now())
+        : network
+    ));
+
+    if (sessionError) {
+      toast.error(`Stream session failed on ${usedEndpoint || selectedEndpoint}`, {
+        description: sessionError.length > 100 ? sessionError.substring(0, 100) + '...' : sessionError,
+        duration: 5000
+      });
+    }
+  }, [networks]);
+
+  // Send the current form as one request message, half-close, or cancel an open session
+  const handleSessionAction = useCallback(async (instance: MethodInstance, action: StreamSessionAction) => {
+    const session = streamSessions[instance.id];
+    if (!session?.sessionId) return;
+    const sentAt = Date.now();
+
+    try {
+      const response = await fetch('/api/grpc/session/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: session.sessionId,
+          action,
+          ...(action === 'send' ? { message: instance.params || {} } : {}),
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Session ${action} failed with HTTP ${response.status}`);
+
+      if (action === 'send') {
+        const message = instance.params || {};
+        setExecutionResults(prev => updateStreamResult(prev, instance.id, session.startedAt, result =>
+          appendStreamMessage(result, { timestamp: sentAt, data: message, direction: 'sent' })
+        ));
+      } else if (action === 'half-close') {
+        setStreamSessions(prev => prev[instance.id]
+          ? { ...prev, [instance.id]: { ...prev[instance.id], status: 'half-closed' } }
+          : prev
+        );
+      }
+    } catch (error) {
+      toast.error(`Could not ${action === 'send' ? 'send message' : action} on stream`, {
+        description: errorMessage(error),
+        duration: 5000
+      });
+    }
+  }, [streamSessions]);
+
   // Execute method with optional round-robin endpoint distribution
   const handleExecuteMethod = useCallback(async (instance: MethodInstance) => {
+    // Client-streaming and bidi methods run as interactive sessions; executing
+    // again while a session is open sends the current form as the next message.
+    if (instance.method.requestStreaming) {
+      const session = streamSessions[instance.id];
+      if (!session) {
+        handleOpenSession(instance);
+      } else if (session.status === 'open') {
+        handleSessionAction(instance, 'send');
+      }
+      return;
+    }
+
     setIsExecuting(true);
     setSelectedMethodId(instance.id);
 
     const startTime = Date.now();
+    const abortController = new AbortController();
+    executionAbortRef.current = abortController;
 
     let selectedEndpoint: string = '';
     let selectedTls: boolean = true;
@@ -950,37 +1358,147 @@ export default function GrpcExplorerApp() {
       selectedEndpoint = primaryExecutionEndpoint.address;
       selectedTls = primaryExecutionEndpoint.tlsEnabled;
 
-      if (network.mode === 'cosmos' && selectedConfigs.length > 1) {
+      const strategy = normalizeEndpointStrategy(network.endpointStrategy);
+      if (network.mode === 'cosmos' && selectedConfigs.length > 1 && strategy === 'round-robin') {
         endpointIndexRef.current.set(network.id, (currentIndex + 1) % selectedConfigs.length);
         debug.log(`[RoundRobin] Starting at endpoint ${currentIndex % selectedConfigs.length + 1}/${selectedConfigs.length}: ${selectedEndpoint} (TLS: ${selectedTls})`);
+      } else if (network.mode === 'cosmos' && selectedConfigs.length > 1) {
+        debug.log(`[Endpoint] ${strategy}: the server orders ${executionEndpoints.length} endpoints`);
       } else {
         debug.log(`[Endpoint] Using primary endpoint: ${selectedEndpoint}`);
       }
 
+      const requestBody = JSON.stringify({
+        ...executionRequestEndpoints(network, executionEndpoints),
+        service: instance.service.fullName,
+        method: instance.method.name,
+        params: instance.params,
+        metadata: instance.metadata || {},
+        ...(instance.authConfig ? { authConfig: instance.authConfig } : {}),
+        ...(network.transport ? { transport: network.transport } : {}),
+        ...(instance.callOptions ? { callOptions: instance.callOptions } : {}),
+        ...(network.proxy ? { proxy: network.proxy } : {}),
+        timeoutMs: requestTimeoutMs,
+      });
+
+      if (instance.method.responseStreaming && !instance.method.requestStreaming) {
+        const response = await fetch('/api/grpc/stream', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: requestBody,
+          signal: abortController.signal
+        });
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `Stream request failed with HTTP ${response.status}`);
+        }
+
+        // The streaming result is inserted up front and updated in place as events arrive.
+        const updateResult = (update: (result: ExecutionResult) => ExecutionResult) => {
+          setExecutionResults(prev => updateStreamResult(prev, instance.id, startTime, update));
+        };
+        const failStream = (error: string) => updateResult(result => ({
+          ...result,
+          success: false,
+          error,
+          streamStatus: 'error',
+          duration: Date.now() - startTime,
+        }));
+
+        setExecutionResults(prev => [{
+          methodId: instance.id,
+          success: true,
+          timestamp: startTime,
+          endpoint: selectedEndpoint,
+          streaming: true,
+          streamStatus: 'streaming' as const,
+          messages: [],
+          messageCount: 0,
+        }, ...prev].slice(0, 50));
+
+        let usedEndpoint: string | undefined;
+        let failedEndpoints: Array<{ endpoint: string; error: string }> = [];
+        let streamError: string | undefined;
+        let finished = false;
+
+        try {
+          await readStreamEvents(response.body, (event) => {
+            switch (event.type) {
+              case 'open':
+                usedEndpoint = event.endpoint;
+                failedEndpoints = event.failedEndpoints;
+                updateResult(result => ({ ...result, endpoint: event.endpoint }));
+                break;
+              case 'message':
+                updateResult(result => appendStreamMessage(result, { timestamp: event.timestamp, data: event.data }));
+                break;
+              case 'end':
+                finished = true;
+                updateResult(result => ({
+                  ...result,
+                  streamStatus: 'completed',
+                  duration: event.executionTime,
+                  ...(event.status ? { status: event.status } : {}),
+                }));
+                break;
+              case 'error':
+                finished = true;
+                streamError = event.error;
+                failedEndpoints = event.failedEndpoints ?? failedEndpoints;
+                failStream(event.error);
+                const { status } = event;
+                if (status) updateResult(result => ({ ...result, status }));
+                break;
+            }
+          });
+          if (!finished) {
+            streamError = 'Stream closed before the server reported a final status';
+            failStream(streamError);
+          }
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            // Keep the messages received so far; a cancel says nothing about endpoint health
+            failStream('Execution cancelled');
+            return;
+          }
+          streamError = errorMessage(error);
+          failStream(streamError);
+        }
+
+        setNetworks(prev => prev.map(network =>
+          network.id === instance.networkId
+            ? updateExecutionHealth(network, streamError ? undefined : usedEndpoint, failedEndpoints, Date.now())
+            : network
+        ));
+
+        if (streamError) {
+          toast.error(`Stream failed on ${usedEndpoint || selectedEndpoint}`, {
+            description: streamError.length > 100 ? streamError.substring(0, 100) + '...' : streamError,
+            duration: 5000
+          });
+        }
+        return;
+      }
+
       const response = await fetch('/api/grpc/execute', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          endpoint: selectedEndpoint,
-          tlsEnabled: selectedTls,
-          endpointAttempts: executionEndpoints,
-          service: instance.service.fullName,
-          method: instance.method.name,
-          params: instance.params,
-          metadata: instance.metadata || {},
-          ...(instance.authConfig ? { authConfig: instance.authConfig } : {}),
-          timeoutMs: requestTimeoutMs,
-        })
+        body: requestBody,
+        signal: abortController.signal
       });
 
       const data = await response.json();
       const duration = Date.now() - startTime;
       const failedEndpoints = Array.isArray(data.failedEndpoints) ? data.failedEndpoints : [];
       const usedEndpoint = typeof data.endpoint === 'string' ? data.endpoint : undefined;
+      const hedgeWinner = response.ok && typeof data.hedge?.winner === 'string' ? data.hedge.winner : undefined;
+      if (hedgeWinner) {
+        debug.log(`[Hedge] ${hedgeWinner} answered first of ${data.hedge.attempted.join(', ')}`);
+      }
 
       setNetworks(prev => prev.map(network =>
         network.id === instance.networkId
-          ? updateExecutionHealth(network, response.ok ? usedEndpoint : undefined, failedEndpoints, Date.now())
+          ? updateExecutionHealth(network, response.ok ? usedEndpoint : undefined, failedEndpoints, Date.now(), hedgeWinner)
           : network
       ));
 
@@ -991,7 +1509,8 @@ export default function GrpcExplorerApp() {
         error: data.error,
         timestamp: Date.now(),
         duration,
-        endpoint: usedEndpoint || selectedEndpoint
+        endpoint: usedEndpoint || selectedEndpoint,
+        ...(data.status ? { status: data.status } : {})
       };
 
       // Show every failed endpoint when a network-aware execution exhausts its fallbacks.
@@ -1009,6 +1528,18 @@ export default function GrpcExplorerApp() {
 
       setExecutionResults(prev => [result, ...prev].slice(0, 50)); // Keep last 50 results
     } catch (error) {
+      if (abortController.signal.aborted) {
+        setExecutionResults(prev => [{
+          methodId: instance.id,
+          success: false,
+          error: 'Execution cancelled',
+          timestamp: Date.now(),
+          duration: Date.now() - startTime,
+          ...(selectedEndpoint ? { endpoint: selectedEndpoint } : {})
+        }, ...prev].slice(0, 50));
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       const result: ExecutionResult = {
@@ -1031,9 +1562,14 @@ export default function GrpcExplorerApp() {
 
       setExecutionResults(prev => [result, ...prev].slice(0, 50));
     } finally {
+      if (executionAbortRef.current === abortController) executionAbortRef.current = null;
       setIsExecuting(false);
     }
-  }, [networks, requestTimeoutMs]);
+  }, [networks, requestTimeoutMs, streamSessions, handleOpenSession, handleSessionAction]);
+
+  const handleCancelExecution = useCallback(() => {
+    executionAbortRef.current?.abort();
+  }, []);
 
   // Get latest result for selected method
   const currentResult = useMemo(() => {
@@ -1117,7 +1653,10 @@ export default function GrpcExplorerApp() {
                   onToggle={() => toggleNetworkExpanded(network.id)}
                   onRemove={() => handleRemoveNetwork(network.id)}
                   onRefresh={() => handleRefreshNetwork(network.id)}
+                  onDownloadDescriptors={() => handleDownloadDescriptors(network.id)}
+                  onEditSchemaOverlay={() => setSchemaOverlayNetworkId(network.id)}
                   onSelectMethod={(service, method) => handleSelectMethod(network, service, method)}
+                  onEndpointStrategyChange={(strategy) => handleEndpointStrategyChange(network.id, strategy)}
                 />
               ))
             )}
@@ -1141,6 +1680,8 @@ export default function GrpcExplorerApp() {
           onPrimaryAction={() => setShowAddNetwork(true)}
           onShowHelp={() => setShowHelp(true)}
           onShowSettings={() => setShowSettings(true)}
+          onShowEndpointHealth={() => setShowEndpointHealth(true)}
+          onShowSchemaDiff={() => setShowSchemaDiff(true)}
         />
 
         {/* Method Instances (left) + Detail Panel (right) */}
@@ -1199,13 +1740,24 @@ export default function GrpcExplorerApp() {
                           onExecute={() => handleExecuteMethod(instance)}
                           onTogglePin={() => toggleMethodPin(instance.id)}
                           isExecuting={isExecuting && selectedMethod?.id === instance.id}
+                          onCancel={handleCancelExecution}
                           mode={network?.mode}
                           networkAuthConfig={network?.authConfig}
+                          networkCallOptions={network?.callOptions}
+                          sessionStatus={streamSessions[instance.id]?.status}
+                          onSessionAction={(action) => handleSessionAction(instance, action)}
                           onUpdateAuth={(auth) => {
                             setMethodInstances(prev => prev.map(m =>
                               m.id === instance.id ? { ...m, authConfig: auth } : m
                             ));
                           }}
+                          onUpdateCallOptions={(callOptions) => {
+                            setMethodInstances(prev => prev.map(m => {
+                              if (m.id !== instance.id) return m;
+                              const { callOptions: _previous, ...rest } = m;
+                              return callOptions ? { ...rest, callOptions } : rest;
+                            }));
+                          }}
                         />
                       );
                     })
@@ -1242,11 +1794,14 @@ export default function GrpcExplorerApp() {
                     params={selectedMethod.params || {}}
                     metadata={selectedMethod.metadata || {}}
                     authConfig={selectedMethod.authConfig}
+                    callOptions={selectedMethod.callOptions}
                     result={currentResult || null}
                     isExecuting={isExecuting}
                     {...(network?.endpoint ? { endpoint: network.endpoint } : {})}
                     {...(network?.tlsEnabled !== undefined ? { tlsEnabled: network.tlsEnabled } : {})}
                     mode={network?.mode}
+                    schemaSource={network ? protoSchemaSource(network) : undefined}
+                    requestTimeoutMs={requestTimeoutMs}
                   />
                 );
               })() : (
@@ -1266,11 +1821,39 @@ export default function GrpcExplorerApp() {
         />
       )}
 
+      {(() => {
+        const network = schemaOverlayNetworkId ? networks.find(n => n.id === schemaOverlayNetworkId) : undefined;
+        return network ? (
+          <SchemaOverlayDialog
+            network={network}
+            onAttach={(overlay) => handleSchemaOverlayChange(network.id, overlay)}
+            onDetach={() => handleSchemaOverlayChange(network.id, null)}
+            onClose={() => setSchemaOverlayNetworkId(null)}
+          />
+        ) : null;
+      })()}
+
       <HelpDialog
         open={showHelp}
         onClose={() => setShowHelp(false)}
       />
 
+      <EndpointHealthDialog
+        open={showEndpointHealth}
+        onClose={() => setShowEndpointHealth(false)}
+        networks={networks}
+        onClearClientHealth={(address, scope) => {
+          setNetworks(prev => prev.map(network => clearEndpointHealth(network, address, scope)));
+        }}
+      />
+
+      <SchemaDiffDialog
+        open={showSchemaDiff}
+        onClose={() => setShowSchemaDiff(false)}
+        networks={schemaDiffNetworks}
+        timeoutMs={requestTimeoutMs}
+      />
+
       <SettingsDialog
         open={showSettings}
         onClose={() => setShowSettings(false)}
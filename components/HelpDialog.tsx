@@ -220,7 +220,7 @@ const HelpDialog: React.FC<HelpDialogProps> = ({ open, onClose }) => {
 
             <div className="space-y-4">
               {[
-                { category: 'Actions', shortcuts: [SHORTCUTS.ADD_NETWORK, SHORTCUTS.CLOSE_TAB, SHORTCUTS.EXECUTE] },
+                { category: 'Actions', shortcuts: [SHORTCUTS.ADD_NETWORK, SHORTCUTS.CLOSE_TAB, SHORTCUTS.EXECUTE, SHORTCUTS.CANCEL] },
                 { category: 'Help', shortcuts: [SHORTCUTS.SHOW_SHORTCUTS] },
               ].map(({ category, shortcuts }) => (
                 <div key={category}>
@@ -2,7 +2,7 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Settings, Trash2, Database, HelpCircle, Plus, Plug } from 'lucide-react';
+import { Settings, Trash2, Database, HelpCircle, Plus, Plug, Activity, GitCompare } from 'lucide-react';
 import { getCacheStats, clearAllCache } from '@/lib/utils/client-cache';
 import type { ExplorerMode } from '@/lib/types/grpc';
 
@@ -12,6 +12,8 @@ interface MenuBarProps {
   onShowSettings?: () => void;
   onShowKeyboardShortcuts?: () => void;
   onShowHelp?: () => void;
+  onShowEndpointHealth?: () => void;
+  onShowSchemaDiff?: () => void;
 }
 
 export default function MenuBar({
@@ -19,7 +21,9 @@ export default function MenuBar({
   onPrimaryAction,
   onShowSettings,
   onShowKeyboardShortcuts,
-  onShowHelp
+  onShowHelp,
+  onShowEndpointHealth,
+  onShowSchemaDiff
 }: MenuBarProps) {
   const [cacheStats, setCacheStats] = useState({ count: 0, sizeKB: 0 });
   const [showCacheMenu, setShowCacheMenu] = useState(false);
@@ -120,6 +124,16 @@ export default function MenuBar({
         {/* Divider */}
         <div className="h-4 w-px bg-border mx-1" />
 
+        {/* Endpoint health */}
+        <button onClick={onShowEndpointHealth} className="icon-btn text-muted-foreground" title="Endpoint health">
+          <Activity className="h-4 w-4" />
+        </button>
+
+        {/* Schema diff */}
+        <button onClick={onShowSchemaDiff} className="icon-btn text-muted-foreground" title="Schema diff">
+          <GitCompare className="h-4 w-4" />
+        </button>
+
         {/* Help */}
         <button
           onClick={onShowHelp || onShowKeyboardShortcuts}
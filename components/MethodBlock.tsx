@@ -1,11 +1,13 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Play, Code, AlertCircle, Loader2, Pin, Plus, X, ChevronDown, ChevronRight, Lock } from 'lucide-react';
+import { Play, Code, AlertCircle, Loader2, Pin, Plus, X, ChevronDown, ChevronRight, Lock, Send, Square, SlidersHorizontal } from 'lucide-react';
 import { ExpandableBlock } from './ExpandableBlock';
 import { cn } from '@/lib/utils';
 import ProtobufFormGenerator from './ProtobufFormGenerator';
-import { GrpcMethod, GrpcService, MethodInstance, GrpcAuthConfig, ExplorerMode } from '@/lib/types/grpc';
+import CallOptionsFields, { countCallOptions } from './CallOptionsFields';
+import { parseJwtClaims } from '@/lib/utils/auth-config';
+import { GrpcMethod, GrpcService, MethodInstance, GrpcAuthConfig, GrpcCallOptions, ExplorerMode, StreamSessionAction, StreamSessionStatus } from '@/lib/types/grpc';
 
 interface MethodBlockProps {
   instance: MethodInstance;
@@ -16,11 +18,19 @@ interface MethodBlockProps {
   onUpdateParams: (params: Record<string, any>) => void;
   onUpdateMetadata: (metadata: Record<string, string>) => void;
   onUpdateAuth?: ((auth: GrpcAuthConfig) => void) | undefined;
+  onUpdateCallOptions?: ((options: GrpcCallOptions | undefined) => void) | undefined;
   onExecute: () => void;
   onTogglePin: () => void;
   isExecuting: boolean;
+  /** Aborts the running execution; shown while `isExecuting` */
+  onCancel?: (() => void) | undefined;
   mode?: ExplorerMode | undefined;
   networkAuthConfig?: GrpcAuthConfig | undefined;
+  /** Source defaults used until the method has its own call options */
+  networkCallOptions?: GrpcCallOptions | undefined;
+  /** Set while a client-streaming/bidi session is open for this instance */
+  sessionStatus?: StreamSessionStatus | undefined;
+  onSessionAction?: ((action: StreamSessionAction) => void) | undefined;
 }
 
 /** A single editable metadata header row */
@@ -38,11 +48,16 @@ const MethodBlock = React.memo(function MethodBlock({
   onUpdateParams,
   onUpdateMetadata,
   onUpdateAuth,
+  onUpdateCallOptions,
   onExecute,
   onTogglePin,
   isExecuting,
+  onCancel,
   mode,
-  networkAuthConfig
+  networkAuthConfig,
+  networkCallOptions,
+  sessionStatus,
+  onSessionAction
 }: MethodBlockProps) {
   const [params, setParams] = useState<Record<string, any>>(instance.params || {});
 
@@ -58,7 +73,7 @@ const MethodBlock = React.memo(function MethodBlock({
 
   // Authentication state
   const [authExpanded, setAuthExpanded] = useState(false);
-  const [authType, setAuthType] = useState<'none' | 'bearer' | 'api-key' | 'mtls'>(
+  const [authType, setAuthType] = useState<GrpcAuthConfig['type']>(
     instance.authConfig?.type || networkAuthConfig?.type || 'none'
   );
   const [bearerToken, setBearerToken] = useState(
@@ -76,6 +91,62 @@ const MethodBlock = React.memo(function MethodBlock({
   const [clientKey, setClientKey] = useState(
     instance.authConfig?.clientKey || networkAuthConfig?.clientKey || ''
   );
+  const [oauth2TokenUrl, setOauth2TokenUrl] = useState(
+    instance.authConfig?.oauth2TokenUrl || networkAuthConfig?.oauth2TokenUrl || ''
+  );
+  const [oauth2ClientId, setOauth2ClientId] = useState(
+    instance.authConfig?.oauth2ClientId || networkAuthConfig?.oauth2ClientId || ''
+  );
+  const [oauth2ClientSecret, setOauth2ClientSecret] = useState(
+    instance.authConfig?.oauth2ClientSecret || networkAuthConfig?.oauth2ClientSecret || ''
+  );
+  const [oauth2Scopes, setOauth2Scopes] = useState(
+    (instance.authConfig?.oauth2Scopes ?? networkAuthConfig?.oauth2Scopes ?? []).join(' ')
+  );
+  const [oauth2Audience, setOauth2Audience] = useState(
+    instance.authConfig?.oauth2Audience || networkAuthConfig?.oauth2Audience || ''
+  );
+  const [jwtPrivateKey, setJwtPrivateKey] = useState(
+    instance.authConfig?.jwtPrivateKey || networkAuthConfig?.jwtPrivateKey || ''
+  );
+  const [jwtKeyId, setJwtKeyId] = useState(
+    instance.authConfig?.jwtKeyId || networkAuthConfig?.jwtKeyId || ''
+  );
+  const [jwtIssuer, setJwtIssuer] = useState(
+    instance.authConfig?.jwtIssuer || networkAuthConfig?.jwtIssuer || ''
+  );
+  const [jwtAudience, setJwtAudience] = useState(
+    instance.authConfig?.jwtAudience || networkAuthConfig?.jwtAudience || ''
+  );
+  const [jwtClaims, setJwtClaims] = useState(() => {
+    const claims = instance.authConfig?.jwtClaims ?? networkAuthConfig?.jwtClaims;
+    return claims ? JSON.stringify(claims, null, 2) : '';
+  });
+  const [jwtTtlSeconds, setJwtTtlSeconds] = useState(
+    String(instance.authConfig?.jwtTtlSeconds ?? networkAuthConfig?.jwtTtlSeconds ?? '')
+  );
+  const [basicUsername, setBasicUsername] = useState(
+    instance.authConfig?.basicUsername || networkAuthConfig?.basicUsername || ''
+  );
+  const [basicPassword, setBasicPassword] = useState(
+    instance.authConfig?.basicPassword || networkAuthConfig?.basicPassword || ''
+  );
+  const parsedJwtClaims = useMemo(() => parseJwtClaims(jwtClaims), [jwtClaims]);
+  const [caCert, setCaCert] = useState(
+    instance.authConfig?.caCert || networkAuthConfig?.caCert || ''
+  );
+  const [serverName, setServerName] = useState(
+    instance.authConfig?.serverName || networkAuthConfig?.serverName || ''
+  );
+  const [insecureSkipVerify, setInsecureSkipVerify] = useState(
+    instance.authConfig?.insecureSkipVerify ?? networkAuthConfig?.insecureSkipVerify ?? false
+  );
+
+  // Advanced call options (compression, size limits, wait-for-ready, keepalive)
+  const [advancedExpanded, setAdvancedExpanded] = useState(false);
+  const [callOptions, setCallOptions] = useState<GrpcCallOptions | undefined>(
+    instance.callOptions ?? networkCallOptions
+  );
 
   // Update parent when params change
   useEffect(() => {
@@ -103,9 +174,38 @@ const MethodBlock = React.memo(function MethodBlock({
       ...(authType === 'bearer' ? { bearerToken } : {}),
       ...(authType === 'api-key' ? { apiKeyHeader, apiKeyValue } : {}),
       ...(authType === 'mtls' ? { clientCert, clientKey } : {}),
+      ...(authType === 'oauth2'
+        ? {
+            oauth2TokenUrl: oauth2TokenUrl.trim(),
+            oauth2ClientId: oauth2ClientId.trim(),
+            oauth2ClientSecret,
+            oauth2Scopes: oauth2Scopes.split(/[\s,]+/).filter(Boolean),
+            ...(oauth2Audience.trim() ? { oauth2Audience: oauth2Audience.trim() } : {}),
+          }
+        : {}),
+      ...(authType === 'jwt'
+        ? {
+            jwtPrivateKey,
+            ...(jwtKeyId.trim() ? { jwtKeyId: jwtKeyId.trim() } : {}),
+            ...(jwtIssuer.trim() ? { jwtIssuer: jwtIssuer.trim() } : {}),
+            ...(jwtAudience.trim() ? { jwtAudience: jwtAudience.trim() } : {}),
+            ...(parsedJwtClaims ? { jwtClaims: parsedJwtClaims } : {}),
+            ...(Number(jwtTtlSeconds) > 0 ? { jwtTtlSeconds: Number(jwtTtlSeconds) } : {}),
+          }
+        : {}),
+      ...(authType === 'basic' ? { basicUsername, basicPassword } : {}),
+      ...(caCert.trim() ? { caCert } : {}),
+      ...(serverName.trim() ? { serverName: serverName.trim() } : {}),
+      ...(insecureSkipVerify ? { insecureSkipVerify: true } : {}),
     });
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authType, bearerToken, apiKeyHeader, apiKeyValue, clientCert, clientKey]);
+  }, [authType, bearerToken, apiKeyHeader, apiKeyValue, clientCert, clientKey, oauth2TokenUrl, oauth2ClientId, oauth2ClientSecret, oauth2Scopes, oauth2Audience, jwtPrivateKey, jwtKeyId, jwtIssuer, jwtAudience, parsedJwtClaims, jwtTtlSeconds, basicUsername, basicPassword, caCert, serverName, insecureSkipVerify]);
+
+  // Update parent when call options change
+  useEffect(() => {
+    onUpdateCallOptions?.(callOptions);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [callOptions]);
 
   const handleParamsChange = (newParams: Record<string, any>) => {
     setParams(newParams);
@@ -158,6 +258,7 @@ const MethodBlock = React.memo(function MethodBlock({
   }, [instance.method.requestTypeDefinition, params]);
 
   const activeMetadataCount = metadataRows.filter(r => r.key.trim()).length;
+  const activeCallOptionCount = countCallOptions(callOptions);
 
   const inputClassName = "flex-1 min-w-0 px-2 py-1 text-xs rounded border border-input bg-background font-mono focus:outline-none focus:ring-1 focus:ring-ring";
   const textareaClassName = "w-full px-2 py-1 text-xs rounded border border-input bg-background font-mono focus:outline-none focus:ring-1 focus:ring-ring resize-none";
@@ -222,13 +323,18 @@ const MethodBlock = React.memo(function MethodBlock({
                     {authType}
                   </span>
                 )}
+                {insecureSkipVerify && (
+                  <span className="ml-1 px-1.5 py-0.5 rounded-full bg-amber-500/15 text-amber-500 text-[10px] font-semibold">
+                    insecure
+                  </span>
+                )}
               </button>
 
               {authExpanded && (
                 <div className="space-y-2" onClick={e => e.stopPropagation()}>
                   <select
                     value={authType}
-                    onChange={e => setAuthType(e.target.value as 'none' | 'bearer' | 'api-key' | 'mtls')}
+                    onChange={e => setAuthType(e.target.value as GrpcAuthConfig['type'])}
                     className="w-full px-2 py-1 text-xs rounded border border-input bg-background font-mono focus:outline-none focus:ring-1 focus:ring-ring"
                     onClick={e => e.stopPropagation()}
                   >
@@ -236,6 +342,9 @@ const MethodBlock = React.memo(function MethodBlock({
                     <option value="bearer">Bearer Token</option>
                     <option value="api-key">API Key</option>
                     <option value="mtls">mTLS</option>
+                    <option value="oauth2">OAuth2 Client Credentials</option>
+                    <option value="jwt">Self-signed JWT</option>
+                    <option value="basic">Basic Auth</option>
                   </select>
 
                   {authType === 'bearer' && (
@@ -290,6 +399,164 @@ const MethodBlock = React.memo(function MethodBlock({
                       />
                     </>
                   )}
+
+                  {authType === 'oauth2' && (
+                    <>
+                      <input
+                        type="text"
+                        value={oauth2TokenUrl}
+                        onChange={e => setOauth2TokenUrl(e.target.value)}
+                        placeholder="Token URL (https://auth.example.com/oauth/token)"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <input
+                        type="text"
+                        value={oauth2ClientId}
+                        onChange={e => setOauth2ClientId(e.target.value)}
+                        placeholder="Client ID"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <input
+                        type="password"
+                        value={oauth2ClientSecret}
+                        onChange={e => setOauth2ClientSecret(e.target.value)}
+                        placeholder="Client secret"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <input
+                        type="text"
+                        value={oauth2Scopes}
+                        onChange={e => setOauth2Scopes(e.target.value)}
+                        placeholder="Scopes (space-separated, optional)"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <input
+                        type="text"
+                        value={oauth2Audience}
+                        onChange={e => setOauth2Audience(e.target.value)}
+                        placeholder="Audience (optional)"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <p className="text-[11px] text-muted-foreground">
+                        The server fetches the access token, caches it and refreshes it before expiry.
+                      </p>
+                    </>
+                  )}
+
+                  {authType === 'jwt' && (
+                    <>
+                      <textarea
+                        value={jwtPrivateKey}
+                        onChange={e => setJwtPrivateKey(e.target.value)}
+                        placeholder="PEM private key (RSA, EC or Ed25519)"
+                        rows={3}
+                        className={textareaClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={jwtIssuer}
+                          onChange={e => setJwtIssuer(e.target.value)}
+                          placeholder="Issuer (iss)"
+                          className={inputClassName}
+                          onClick={e => e.stopPropagation()}
+                        />
+                        <input
+                          type="text"
+                          value={jwtAudience}
+                          onChange={e => setJwtAudience(e.target.value)}
+                          placeholder="Audience (aud)"
+                          className={inputClassName}
+                          onClick={e => e.stopPropagation()}
+                        />
+                        <input
+                          type="text"
+                          value={jwtKeyId}
+                          onChange={e => setJwtKeyId(e.target.value)}
+                          placeholder="Key ID (kid, optional)"
+                          className={inputClassName}
+                          onClick={e => e.stopPropagation()}
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          value={jwtTtlSeconds}
+                          onChange={e => setJwtTtlSeconds(e.target.value)}
+                          placeholder="TTL seconds (3600)"
+                          className={inputClassName}
+                          onClick={e => e.stopPropagation()}
+                        />
+                      </div>
+                      <textarea
+                        value={jwtClaims}
+                        onChange={e => setJwtClaims(e.target.value)}
+                        placeholder={'Extra claims as JSON, e.g. {"sub": "svc-explorer"}'}
+                        rows={2}
+                        className={textareaClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      {parsedJwtClaims === null && (
+                        <p className="text-[11px] text-destructive">Claims must be a JSON object; they are ignored until fixed.</p>
+                      )}
+                    </>
+                  )}
+
+                  {authType === 'basic' && (
+                    <>
+                      <input
+                        type="text"
+                        value={basicUsername}
+                        onChange={e => setBasicUsername(e.target.value)}
+                        placeholder="Username"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                      <input
+                        type="password"
+                        value={basicPassword}
+                        onChange={e => setBasicPassword(e.target.value)}
+                        placeholder="Password"
+                        className={inputClassName}
+                        onClick={e => e.stopPropagation()}
+                      />
+                    </>
+                  )}
+
+                  {/* TLS verification (applies with any auth type) */}
+                  <div className="space-y-2 pt-2 border-t border-border">
+                    <span className="text-xs font-medium text-muted-foreground">TLS</span>
+                    <textarea
+                      value={caCert}
+                      onChange={e => setCaCert(e.target.value)}
+                      placeholder="PEM CA bundle (replaces system roots)"
+                      rows={3}
+                      className={textareaClassName}
+                      onClick={e => e.stopPropagation()}
+                    />
+                    <input
+                      type="text"
+                      value={serverName}
+                      onChange={e => setServerName(e.target.value)}
+                      placeholder="Server name / authority override"
+                      className={inputClassName}
+                      onClick={e => e.stopPropagation()}
+                    />
+                    <label className="flex items-center gap-2 cursor-pointer text-xs text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={insecureSkipVerify}
+                        onChange={e => setInsecureSkipVerify(e.target.checked)}
+                        className="w-3.5 h-3.5 rounded border-border text-primary focus:ring-primary"
+                      />
+                      Skip certificate verification
+                    </label>
+                  </div>
                 </div>
               )}
             </div>
@@ -371,32 +638,125 @@ const MethodBlock = React.memo(function MethodBlock({
             )}
           </div>
 
-          {/* Execute button */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onExecute();
-            }}
-            disabled={!isValid || isExecuting}
-            className={cn(
-              "w-full flex-center justify-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors",
-              isValid && !isExecuting
-                ? "btn-primary"
-                : "bg-muted text-muted-foreground cursor-not-allowed"
-            )}
-          >
-            {isExecuting ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Executing...
-              </>
-            ) : (
-              <>
-                <Play className="h-4 w-4" />
-                Execute Method
-              </>
+          {/* Advanced call options */}
+          <div className="space-y-2">
+            <button
+              onClick={(e) => { e.stopPropagation(); setAdvancedExpanded(v => !v); }}
+              className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {advancedExpanded
+                ? <ChevronDown className="h-3.5 w-3.5" />
+                : <ChevronRight className="h-3.5 w-3.5" />
+              }
+              <SlidersHorizontal className="h-3 w-3" />
+              Advanced
+              {activeCallOptionCount > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 rounded-full bg-primary/15 text-primary text-[10px] font-semibold">
+                  {activeCallOptionCount}
+                </span>
+              )}
+            </button>
+
+            {advancedExpanded && (
+              <CallOptionsFields value={callOptions} onChange={setCallOptions} />
             )}
-          </button>
+          </div>
+
+          {/* Execute button (opens a session for client-streaming/bidi methods) */}
+          {instance.method.requestStreaming && sessionStatus ? (
+            <div className="space-y-2">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onExecute();
+                }}
+                disabled={!isValid || sessionStatus !== 'open'}
+                className={cn(
+                  "w-full flex-center justify-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors",
+                  isValid && sessionStatus === 'open'
+                    ? "btn-primary"
+                    : "bg-muted text-muted-foreground cursor-not-allowed"
+                )}
+              >
+                {sessionStatus === 'open' ? (
+                  <>
+                    <Send className="h-4 w-4" />
+                    Send Message
+                  </>
+                ) : (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {sessionStatus === 'connecting' ? 'Opening stream...' : 'Waiting for server...'}
+                  </>
+                )}
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSessionAction?.('half-close');
+                  }}
+                  disabled={sessionStatus !== 'open'}
+                  className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-muted text-foreground hover:bg-muted/70 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Finish sending; the server may still respond"
+                >
+                  Half-close
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSessionAction?.('cancel');
+                  }}
+                  disabled={sessionStatus === 'connecting'}
+                  className="flex-1 flex-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-destructive bg-destructive/10 hover:bg-destructive/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Square className="h-3 w-3" />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onExecute();
+                }}
+                disabled={!isValid || isExecuting}
+                className={cn(
+                  "flex-1 flex-center justify-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors",
+                  isValid && !isExecuting
+                    ? "btn-primary"
+                    : "bg-muted text-muted-foreground cursor-not-allowed"
+                )}
+              >
+                {isExecuting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Executing...
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-4 w-4" />
+                    {instance.method.requestStreaming ? 'Open Stream' : 'Execute Method'}
+                  </>
+                )}
+              </button>
+              {isExecuting && onCancel && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel();
+                  }}
+                  className="flex-center justify-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium text-destructive bg-destructive/10 hover:bg-destructive/20 transition-colors"
+                  title="Cancel execution (Cmd/Ctrl+.)"
+                >
+                  <Square className="h-3.5 w-3.5" />
+                  Cancel
+                </button>
+              )}
+            </div>
+          )}
 
           {!isValid && hasRequiredFields && (
             <div className="flex-center-2 text-xs text-amber-600 dark:text-amber-400">
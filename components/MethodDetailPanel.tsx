@@ -6,7 +6,10 @@ import {
 	CheckCircle, XCircle, Clock, Loader2, ChevronDown, ChevronRight, Save, Network, Binary
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { GrpcMethod, GrpcService, GrpcAuthConfig, ExplorerMode } from '@/lib/types/grpc';
+import RichErrorDetails from './RichErrorDetails';
+import ProtoSourceView from './ProtoSourceView';
+import { SchemaOverlayMarker } from './SchemaOverlayMarker';
+import { GrpcMethod, GrpcService, GrpcAuthConfig, GrpcCallOptions, ExplorerMode, StreamMessage, GrpcCallStatus, ProtoSchemaSource } from '@/lib/types/grpc';
 import { generateRestUrl } from '@/lib/utils/rest-path-mapper';
 import { decodeBinaryValuesForDisplay, isDecodedBinaryValue, type DecodedBinaryValue } from '@/lib/utils/response-decoder';
 import {
@@ -33,6 +36,11 @@ interface ExecutionResult {
 	timestamp: number;
 	duration?: number;
 	endpoint?: string;
+	streaming?: boolean;
+	streamStatus?: 'streaming' | 'completed' | 'error';
+	messages?: StreamMessage[];
+	messageCount?: number;
+	status?: GrpcCallStatus;
 }
 
 interface MethodDetailPanelProps {
@@ -44,8 +52,11 @@ interface MethodDetailPanelProps {
 	params?: Record<string, any>;
 	metadata?: Record<string, string>;
 	authConfig?: GrpcAuthConfig | undefined;
+	callOptions?: GrpcCallOptions | undefined;
 	restEndpoint?: string;
 	mode?: ExplorerMode | undefined;
+	schemaSource?: ProtoSchemaSource | undefined; // Where the full .proto files can be rebuilt from
+	requestTimeoutMs?: number;
 	result: ExecutionResult | null;
 	isExecuting: boolean;
 }
@@ -226,8 +237,11 @@ export default function MethodDetailPanel({
 	params = {},
 	metadata = {},
 	authConfig,
+	callOptions,
 	restEndpoint,
 	mode,
+	schemaSource,
+	requestTimeoutMs = 10000,
 	result,
 	isExecuting,
 }: MethodDetailPanelProps) {
@@ -293,6 +307,17 @@ export default function MethodDetailPanel({
 
 	// ── Proto definition ────────────────────────────────────────────────
 
+	const httpBindings = useMemo(() => {
+		const bindings: Array<{ verb: string; path: string }> = [];
+		for (const rule of method.httpRule ? [method.httpRule, ...(method.httpRule.additionalBindings || [])] : []) {
+			for (const verb of ['get', 'post', 'put', 'delete', 'patch'] as const) {
+				const path = rule[verb];
+				if (path) bindings.push({ verb: verb.toUpperCase(), path });
+			}
+		}
+		return bindings;
+	}, [method.httpRule]);
+
 	const protoDefinition = `rpc ${method.name}(${method.requestStreaming ? 'stream ' : ''}${method.requestType}) returns (${method.responseStreaming ? 'stream ' : ''}${method.responseType});`;
 
 	// ── Code generation context ─────────────────────────────────────────
@@ -324,10 +349,11 @@ export default function MethodDetailPanel({
 		params,
 		metadata,
 		...(authConfig ? { authConfig } : {}),
+		...(callOptions ? { callOptions } : {}),
 	}), [
 		service.fullName, method.name, method.requestType, method.responseType,
 		method.requestTypeDefinition, method.requestStreaming, method.responseStreaming,
-		endpoint, tlsEnabled, params, metadata, authConfig,
+		endpoint, tlsEnabled, params, metadata, authConfig, callOptions,
 	]);
 
 	const activeCode = useMemo(() => {
@@ -346,6 +372,9 @@ export default function MethodDetailPanel({
 		if (!decodeBinaryValues || !result?.data) return result?.data;
 		return decodeBinaryValuesForDisplay(result.data);
 	}, [decodeBinaryValues, result?.data]);
+	const isStreamOpen = result?.streamStatus === 'streaming';
+	// Streaming results copy and save as the array of received message payloads
+	const resultPayload = result?.streaming ? result.messages?.map((message) => message.data) : result?.data;
 
 	const codeTabs: { key: CodeTab; label: string }[] = useMemo(() => {
 		const all: { key: CodeTab; label: string }[] = [
@@ -362,16 +391,16 @@ export default function MethodDetailPanel({
 	// ── Results helpers ─────────────────────────────────────────────────
 
 	const handleCopyResult = () => {
-		if (result?.data) {
-			navigator.clipboard.writeText(JSON.stringify(result.data, null, 2));
+		if (resultPayload) {
+			navigator.clipboard.writeText(JSON.stringify(resultPayload, null, 2));
 			setResultCopied(true);
 			setTimeout(() => setResultCopied(false), 2000);
 		}
 	};
 
 	const handleSaveAsJSON = () => {
-		if (!result?.data) return;
-		const jsonString = JSON.stringify(result.data, null, 2);
+		if (!resultPayload) return;
+		const jsonString = JSON.stringify(resultPayload, null, 2);
 		const blob = new Blob([jsonString], { type: 'application/json' });
 		const url = URL.createObjectURL(blob);
 		const link = document.createElement('a');
@@ -429,6 +458,16 @@ export default function MethodDetailPanel({
 						{!method.requestStreaming && !method.responseStreaming && (
 							<span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/20 text-primary border border-primary/30">Unary</span>
 						)}
+						{method.idempotencyLevel && (
+							<span
+								className="text-xs font-medium px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-400 border border-blue-500/30"
+								title={method.overlaySources?.idempotencyLevel
+									? `Declared by schema overlay ${method.overlaySources.idempotencyLevel}; retries follow the server's own descriptors`
+									: 'Safe to retry: failed calls are retried with backoff and fail over to other endpoints'}
+							>
+								{method.idempotencyLevel === 'NO_SIDE_EFFECTS' ? 'No Side Effects' : 'Idempotent'}
+							</span>
+						)}
 					</div>
 				</div>
 				<div className="flex items-center gap-4 text-xs pl-5">
@@ -482,12 +521,35 @@ export default function MethodDetailPanel({
 								{copied === 'proto' ? <Check className="h-3.5 w-3.5 text-green-500" /> : <Copy className="h-3.5 w-3.5 text-muted-foreground hover:text-foreground transition-colors" />}
 							</button>
 						</div>
+						{method.description && (
+							<p className="text-xs text-muted-foreground whitespace-pre-wrap">
+								{method.description}
+								{method.overlaySources?.description && <SchemaOverlayMarker label={method.overlaySources.description} className="ml-1.5" />}
+							</p>
+						)}
 						<div className="p-4 bg-muted/50 rounded-lg border border-primary/20 shadow-lg">
 							<pre className="text-sm text-blue-100 dark:text-blue-50 font-mono whitespace-pre-wrap leading-relaxed">
 								{protoDefinition}
 							</pre>
 						</div>
 
+						{httpBindings.length > 0 && (
+							<div className="space-y-2">
+								<h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+									HTTP Rule
+									{method.overlaySources?.httpRule && <SchemaOverlayMarker label={method.overlaySources.httpRule} className="normal-case tracking-normal" />}
+								</h4>
+								<div className="p-3 bg-muted/30 rounded-lg border border-border text-xs font-mono space-y-1">
+									{httpBindings.map(({ verb, path }, index) => (
+										<div key={index} className="flex items-center gap-2">
+											<span className="text-amber-400 w-12 shrink-0">{verb}</span>
+											<span className="text-foreground break-all">{path}</span>
+										</div>
+									))}
+								</div>
+							</div>
+						)}
+
 						{/* Show response type definition if available */}
 						{method.responseTypeDefinition?.fields && method.responseTypeDefinition.fields.length > 0 && (
 							<div className="space-y-2">
@@ -499,11 +561,19 @@ export default function MethodDetailPanel({
 											<span className="text-foreground">{f.name}</span>
 											{f.rule === 'repeated' && <span className="text-amber-400 text-[10px]">repeated</span>}
 												{f.comment && <span className="text-muted-foreground ml-2">{'// '}{f.comment}</span>}
+												{f.commentSource && <SchemaOverlayMarker label={f.commentSource} />}
 										</div>
 									))}
 								</div>
 							</div>
 						)}
+
+						{schemaSource && (
+							<div className="space-y-2">
+								<h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Source Files</h4>
+								<ProtoSourceView source={schemaSource} serviceName={service.fullName} timeoutMs={requestTimeoutMs} />
+							</div>
+						)}
 					</div>
 				)}
 
@@ -584,6 +654,12 @@ export default function MethodDetailPanel({
 									<span>{restResult.warning || 'No REST endpoint for this method'}</span>
 								</div>
 							)}
+							{codeTab === 'curl' && restResult.supported && method.overlaySources?.httpRule && (
+								<div className="mt-2 flex items-center gap-1.5 text-[11px] text-muted-foreground">
+									<span>REST path from the google.api.http rule in</span>
+									<SchemaOverlayMarker label={method.overlaySources.httpRule} />
+								</div>
+							)}
 						</div>
 					</div>
 				)}
@@ -595,8 +671,16 @@ export default function MethodDetailPanel({
 						{result && (
 							<div className="shrink-0 flex flex-col gap-2 px-4 py-2 border-b border-border/50 sm:flex-row sm:items-center sm:justify-between">
 								<div className={cn(result.success ? "status-success" : "status-error", "min-w-0 flex-wrap px-2 py-1.5")}>
-									{result.success ? <CheckCircle className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
-									<span className="text-xs font-medium">{result.success ? 'Success' : 'Failed'}</span>
+									{isStreamOpen ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : result.success ? <CheckCircle className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+									<span className="text-xs font-medium">{isStreamOpen ? 'Streaming' : result.success ? 'Success' : 'Failed'}</span>
+									{result.status && (
+										<span className="font-mono text-[11px] ml-2" title={result.status.details || undefined}>
+											{result.status.codeName} ({result.status.code})
+										</span>
+									)}
+									{result.streaming && (
+										<span className="text-muted-foreground text-[11px] ml-2">{result.messageCount ?? 0} message{result.messageCount === 1 ? '' : 's'}</span>
+									)}
 									<span className="text-muted-foreground text-[11px] ml-2">{formatDuration(result.duration)}</span>
 									{result.endpoint && (
 										<span className="min-w-0 max-w-full truncate text-muted-foreground text-[11px] ml-2 font-mono sm:max-w-[12rem]">{result.endpoint}</span>
@@ -651,7 +735,7 @@ export default function MethodDetailPanel({
 						{/* Results content */}
 						<div className="flex-1 overflow-auto min-h-0 min-w-0 w-full">
 							<div className="p-4 w-full max-w-full overflow-hidden">
-								{isExecuting ? (
+								{isExecuting && !isStreamOpen ? (
 									<div className="h-full flex items-center justify-center py-12">
 										<div className="text-center">
 											<Loader2 className="h-8 w-8 animate-spin text-blue-500 mx-auto mb-3" />
@@ -670,11 +754,15 @@ export default function MethodDetailPanel({
 										</div>
 
 										{/* Error or Data */}
-										{result.error ? (
-											<div className="status-error">
-												<h3 className="section-header mb-2">Error</h3>
-												<pre className="text-xs whitespace-pre-wrap font-mono">{result.error}</pre>
-											</div>
+										{result.streaming ? (
+											<StreamMessageList
+												result={result}
+												viewMode={resultViewMode}
+												decodeBinaryValues={decodeBinaryValues}
+												formatDuration={formatDuration}
+											/>
+										) : result.error ? (
+											<ExecutionError error={result.error} status={result.status} />
 										) : result.data ? (
 											<div className="panel-section overflow-hidden">
 												<h3 className="section-header mb-2">Response Data</h3>
@@ -693,6 +781,8 @@ export default function MethodDetailPanel({
 												<p className="text-sm">No response data</p>
 											</div>
 										)}
+
+										{result.status && <CallMetadataSection status={result.status} />}
 									</div>
 								) : (
 									<div className="flex items-center justify-center py-12 text-muted-foreground">
@@ -714,6 +804,147 @@ export default function MethodDetailPanel({
 	);
 }
 
+// ── Execution error with decoded google.rpc.Status details ─────────────
+
+function ExecutionError({ error, status }: { error: string; status?: GrpcCallStatus | undefined }) {
+	return (
+		<div className="space-y-3">
+			<div className="status-error">
+				<h3 className="section-header mb-2">Error</h3>
+				<pre className="text-xs whitespace-pre-wrap font-mono">{error}</pre>
+			</div>
+			{status?.rpcStatus && <RichErrorDetails rpcStatus={status.rpcStatus} />}
+		</div>
+	);
+}
+
+// ── Response headers and trailers ──────────────────────────────────────
+
+function MetadataTable({ title, entries }: { title: string; entries: [string, string][] }) {
+	return (
+		<div>
+			<h4 className="text-muted-sm mb-1">{title} ({entries.length})</h4>
+			{entries.length === 0 ? (
+				<p className="text-muted-sm italic">None</p>
+			) : (
+				<table className="w-full text-xs font-mono">
+					<tbody>
+						{entries.map(([key, value]) => (
+							<tr key={key} className="border-b border-border/40 last:border-0 align-top">
+								<td className="py-1 pr-3 text-muted-foreground whitespace-nowrap">{key}</td>
+								<td className="py-1 break-all select-text">{value}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</div>
+	);
+}
+
+function CallMetadataSection({ status }: { status: GrpcCallStatus }) {
+	const [expanded, setExpanded] = useState(true);
+	const headers = Object.entries(status.headers);
+	const trailers = Object.entries(status.trailers);
+
+	return (
+		<div className="panel-section overflow-hidden">
+			<button
+				onClick={() => setExpanded((open) => !open)}
+				className="w-full flex items-center justify-between"
+			>
+				<span className="section-header flex-center-1">
+					{expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+					Headers / Trailers
+				</span>
+				<span className="font-mono text-muted-sm">
+					{status.codeName} ({status.code})
+				</span>
+			</button>
+			{expanded && (
+				<div className="mt-3 space-y-3">
+					{status.details && (
+						<div>
+							<h4 className="text-muted-sm mb-1">Status details</h4>
+							<p className="text-xs font-mono break-all select-text">{status.details}</p>
+						</div>
+					)}
+					<MetadataTable title="Response headers" entries={headers} />
+					<MetadataTable title="Trailers" entries={trailers} />
+				</div>
+			)}
+		</div>
+	);
+}
+
+// ── Server-streaming message list ──────────────────────────────────────
+
+function StreamMessageList({
+	result,
+	viewMode,
+	decodeBinaryValues,
+	formatDuration,
+}: {
+	result: ExecutionResult;
+	viewMode: 'formatted' | 'raw';
+	decodeBinaryValues: boolean;
+	formatDuration: (ms?: number) => string;
+}) {
+	const messages = result.messages || [];
+	const total = result.messageCount ?? messages.length;
+	const dropped = total - messages.length;
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-between text-muted-sm">
+				<span>
+					{total} message{total === 1 ? '' : 's'} received
+					{dropped > 0 && ` (showing last ${messages.length})`}
+				</span>
+				<span>
+					{result.streamStatus === 'streaming' && 'Stream open'}
+					{result.streamStatus === 'completed' && 'Stream completed (OK)'}
+					{result.streamStatus === 'error' && 'Stream ended with error'}
+				</span>
+			</div>
+
+			{messages.map((message) => (
+				<div
+					key={message.index}
+					className={cn("panel-section overflow-hidden", message.direction === 'sent' && "ml-6 border-l-2 border-l-primary")}
+				>
+					<div className="flex items-center justify-between mb-2">
+						<h3 className="section-header">
+							{message.direction === 'sent' ? 'Sent' : message.direction === 'received' ? 'Received' : 'Message'} #{message.index + 1}
+						</h3>
+						<span className="text-muted-sm font-mono">
+							{new Date(message.timestamp).toLocaleTimeString()} (+{message.timestamp > result.timestamp ? formatDuration(message.timestamp - result.timestamp) : '0ms'})
+						</span>
+					</div>
+					{viewMode === 'formatted' ? (
+						<div className="text-xs font-mono overflow-x-auto min-w-0 w-full">
+							<JsonViewer data={decodeBinaryValues ? decodeBinaryValuesForDisplay(message.data) : message.data} />
+						</div>
+					) : (
+						<pre className="text-xs text-foreground whitespace-pre font-mono bg-muted/50 p-3 rounded overflow-x-auto min-w-0">
+							{JSON.stringify(message.data, null, 2)}
+						</pre>
+					)}
+				</div>
+			))}
+
+			{result.streamStatus === 'streaming' && (
+				<div className="flex-center-1 text-muted-sm">
+					<Loader2 className="h-3 w-3 animate-spin" />
+					<span>Waiting for messages...</span>
+				</div>
+			)}
+
+			{result.error && <ExecutionError error={result.error} status={result.status} />}
+		</div>
+	);
+}
+
 // ── Empty state placeholder (no method selected) ───────────────────────
 
 export function MethodDetailPanelEmpty() {
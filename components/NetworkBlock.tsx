@@ -1,17 +1,24 @@
 'use client';
 
 import React, { useMemo, useState } from 'react';
-import { ChevronRight, Search, Loader2, AlertCircle, Server, RefreshCw } from 'lucide-react';
+import { ChevronRight, Search, Loader2, AlertCircle, Server, RefreshCw, Download, Layers } from 'lucide-react';
 import { ExpandableBlock } from './ExpandableBlock';
 import { cn } from '@/lib/utils';
-import { GrpcNetwork, GrpcService, GrpcMethod } from '@/lib/types/grpc';
+import { GrpcNetwork, GrpcService, GrpcMethod, EndpointSelectionStrategy } from '@/lib/types/grpc';
+import { ENDPOINT_SELECTION_STRATEGIES, normalizeEndpointStrategy } from '@/lib/utils/execution-endpoints';
+import { schemaOverlayCoverage } from '@/lib/utils/schema-overlay';
 
 interface NetworkBlockProps {
   network: GrpcNetwork;
   onToggle: () => void;
   onRemove: () => void;
   onRefresh: () => void;
+  /** Save the reflected descriptors as a .protoset */
+  onDownloadDescriptors: () => Promise<void>;
+  /** Open the schema overlay dialog */
+  onEditSchemaOverlay: () => void;
   onSelectMethod: (service: GrpcService, method: GrpcMethod) => void;
+  onEndpointStrategyChange: (strategy: EndpointSelectionStrategy) => void;
 }
 
 interface NamespaceGroup {
@@ -83,10 +90,14 @@ const NetworkBlock = React.memo(function NetworkBlock({
   onToggle,
   onRemove,
   onRefresh,
-  onSelectMethod
+  onDownloadDescriptors,
+  onEditSchemaOverlay,
+  onSelectMethod,
+  onEndpointStrategyChange
 }: NetworkBlockProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedNamespaces, setExpandedNamespaces] = useState<Set<string>>(new Set());
+  const [downloading, setDownloading] = useState(false);
 
   // Group services by namespace
   const namespaceGroups = useMemo(() =>
@@ -139,38 +150,96 @@ const NetworkBlock = React.memo(function NetworkBlock({
     setExpandedNamespaces(newExpanded);
   };
 
+  const selectedEndpointCount = network.endpointConfigs?.filter(ep => ep.selected).length ?? 0;
+  const endpointStrategy = normalizeEndpointStrategy(network.endpointStrategy);
+
+  // Only reflection sources have server descriptors to capture
+  const canDownloadDescriptors = !network.bsrSource && !network.localProtoSource
+    && !network.endpoint.startsWith('chain:') && network.services.length > 0;
+
+  // Reflected sources, chain-registry ones included, can borrow a schema's comments and HTTP rules
+  const canOverlaySchema = !network.bsrSource && !network.localProtoSource && network.services.length > 0;
+  const overlayCoverage = useMemo(
+    () => network.schemaOverlay ? schemaOverlayCoverage(network.services, network.schemaOverlay) : null,
+    [network.services, network.schemaOverlay]
+  );
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await onDownloadDescriptors();
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   const modeLabel = network.mode === 'cosmos' ? '[Cosmos] ' : network.mode === 'generic' ? '[gRPC] ' : '';
   const subtitle = modeLabel + (network.chainId
     ? `${network.endpoint}${network.endpoints && network.endpoints.length > 0 ? ` (+${network.endpoints.length} fallback${network.endpoints.length > 1 ? 's' : ''})` : ''}`
-    : network.endpoint);
+    : network.endpoint || (network.localProtoSource ? `${network.localProtoSource.files.length} local proto files` : ''));
 
   return (
     <ExpandableBlock
-      title={network.chainId || network.endpoint}
+      title={network.chainId || network.endpoint || network.name}
       subtitle={subtitle}
       isExpanded={network.expanded || false}
       onToggle={onToggle}
       color={network.color}
       icon={<Server className="h-4 w-4" style={{ color: network.color }} />}
       onRemove={onRemove}
-      actions={
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            onRefresh();
-          }}
-          disabled={network.loading}
-          className={cn(
-            "p-1.5 rounded-md transition-colors",
-            network.loading
-              ? "text-muted-foreground cursor-not-allowed"
-              : "text-muted-foreground hover:text-foreground hover:bg-muted"
+      actions={network.localProtoSource ? undefined : (
+        <>
+          {canOverlaySchema && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onEditSchemaOverlay();
+              }}
+              className={cn(
+                "p-1.5 rounded-md transition-colors hover:bg-muted",
+                network.schemaOverlay ? "text-primary" : "text-muted-foreground hover:text-foreground"
+              )}
+              title={network.schemaOverlay ? `Schema overlay: ${network.schemaOverlay.label}` : 'Attach a schema overlay (BSR or local protos)'}
+            >
+              <Layers className="h-3.5 w-3.5" />
+            </button>
           )}
-          title="Refresh services (clear cache)"
-        >
-          <RefreshCw className={cn("h-3.5 w-3.5", network.loading && "animate-spin")} />
-        </button>
-      }
+          {canDownloadDescriptors && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDownload();
+              }}
+              disabled={downloading || network.loading}
+              className={cn(
+                "p-1.5 rounded-md transition-colors",
+                downloading || network.loading
+                  ? "text-muted-foreground cursor-not-allowed"
+                  : "text-muted-foreground hover:text-foreground hover:bg-muted"
+              )}
+              title="Download descriptors (.protoset)"
+            >
+              {downloading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+            </button>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRefresh();
+            }}
+            disabled={network.loading}
+            className={cn(
+              "p-1.5 rounded-md transition-colors",
+              network.loading
+                ? "text-muted-foreground cursor-not-allowed"
+                : "text-muted-foreground hover:text-foreground hover:bg-muted"
+            )}
+            title="Refresh services (clear cache)"
+          >
+            <RefreshCw className={cn("h-3.5 w-3.5", network.loading && "animate-spin")} />
+          </button>
+        </>
+      )}
       className="shadow-sm"
     >
       {network.loading ? (
@@ -185,6 +254,37 @@ const NetworkBlock = React.memo(function NetworkBlock({
         </div>
       ) : (
         <div className="flex flex-col h-full max-h-[calc(100vh-200px)]">
+          {/* Endpoint selection strategy, for Cosmos networks with several selected endpoints */}
+          {network.mode === 'cosmos' && selectedEndpointCount > 1 && (
+            <label className="flex items-center gap-2 pb-2 text-xs text-muted-foreground">
+              Endpoint selection
+              <select
+                value={endpointStrategy}
+                onChange={(e) => onEndpointStrategyChange(e.target.value as EndpointSelectionStrategy)}
+                title={ENDPOINT_SELECTION_STRATEGIES.find(s => s.value === endpointStrategy)?.description}
+                className="px-2 py-1 text-xs rounded border border-input bg-background focus:outline-none focus:ring-1 focus:ring-ring"
+              >
+                {ENDPOINT_SELECTION_STRATEGIES.map(strategy => (
+                  <option key={strategy.value} value={strategy.value} title={strategy.description}>
+                    {strategy.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {network.schemaOverlay && overlayCoverage && (
+            <button
+              onClick={onEditSchemaOverlay}
+              className="flex items-center gap-1.5 pb-2 text-xs text-muted-foreground hover:text-foreground text-left"
+              title="Comments, HTTP rules and idempotency levels missing from reflection come from this schema"
+            >
+              <Layers className="h-3 w-3 shrink-0 text-primary" />
+              <span className="truncate">
+                Overlay <span className="font-medium text-foreground">{network.schemaOverlay.label}</span>
+                {' '}· {overlayCoverage.matched}/{overlayCoverage.total} methods
+              </span>
+            </button>
+          )}
           {/* Search - sticky at top */}
           {network.services.length > 0 && (
             <div className="sticky top-0 z-10 bg-background pb-3 -mx-4 px-4 pt-1 border-b border-border mb-3">
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Copy, Download, FileArchive, FileCode, Loader2, Search } from 'lucide-react';
+import { cn, errorMessage } from '@/lib/utils';
+import type { ProtoSchemaSource, ReconstructedProtoFile } from '@/lib/types/grpc';
+import { tokenizeProtoLine, type ProtoTokenKind } from '@/lib/utils/proto-highlight';
+import { createZipArchive } from '@/lib/utils/zip-writer';
+
+// Full .proto files rebuilt by /api/protos/source, with per-file navigation
+// and downloads. Results are kept per source for the session, since a
+// reflection walk of a large chain takes a while.
+
+const sourceCache = new Map<string, ReconstructedProtoFile[]>();
+
+const TOKEN_CLASSES: Record<ProtoTokenKind, string> = {
+	keyword: 'text-purple-400',
+	type: 'text-cyan-400',
+	name: 'text-yellow-300',
+	option: 'text-amber-400',
+	string: 'text-green-400',
+	number: 'text-orange-400',
+	comment: 'text-muted-foreground italic',
+	text: 'text-foreground',
+};
+
+const IMPORT_LINE = /^import\s+(?:public\s+|weak\s+)?"([^"]+)";/;
+
+interface ProtoSourceViewProps {
+	source: ProtoSchemaSource;
+	serviceName: string; // Fully qualified; its file is opened first
+	timeoutMs: number;
+}
+
+/** File name stem for downloads: the BSR module and version, or the endpoint */
+function archiveName(source: ProtoSchemaSource): string {
+	const label = source.kind === 'bsr'
+		? `${source.bsrSource.module}${source.bsrSource.version ? `@${source.bsrSource.version}` : ''}`
+		: source.endpoint.replace(/^[a-z]+:\/\//i, '');
+	return label.replace(/[^a-zA-Z0-9.@-]+/g, '_').replace(/^_+|_+$/g, '') || 'protos';
+}
+
+function saveFile(data: BlobPart, filename: string, type: string) {
+	const url = URL.createObjectURL(new Blob([data], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
+
+export default function ProtoSourceView({ source, serviceName, timeoutMs }: ProtoSourceViewProps) {
+	const cacheKey = JSON.stringify(source);
+	const [files, setFiles] = useState<ReconstructedProtoFile[] | null>(() => sourceCache.get(cacheKey) || null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [selectedName, setSelectedName] = useState<string | null>(null);
+	const [filter, setFilter] = useState('');
+	const [copied, setCopied] = useState(false);
+	const codeRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		setFiles(sourceCache.get(cacheKey) || null);
+		setError(null);
+	}, [cacheKey]);
+
+	const serviceFile = useMemo(
+		() => files?.find(file => file.services.includes(serviceName))?.name ?? null,
+		[files, serviceName]
+	);
+
+	// Open the service's file whenever the method's service changes
+	useEffect(() => {
+		setSelectedName(serviceFile ?? files?.[0]?.name ?? null);
+	}, [serviceFile, files]);
+
+	const selected = files?.find(file => file.name === selectedName) ?? null;
+	const lines = useMemo(() => (selected ? selected.content.replace(/\n$/, '').split('\n') : []), [selected]);
+	const serviceLine = useMemo(() => {
+		if (!selected || selected.name !== serviceFile) return -1;
+		const declaration = `service ${serviceName.split('.').pop()} {`;
+		return lines.findIndex(line => line.startsWith(declaration));
+	}, [selected, serviceFile, serviceName, lines]);
+
+	useEffect(() => {
+		const container = codeRef.current;
+		if (!container) return;
+		const target = serviceLine >= 0 ? container.querySelector(`[data-line="${serviceLine}"]`) : null;
+		if (target) target.scrollIntoView({ block: 'start' });
+		else container.scrollTop = 0;
+	}, [selected, serviceLine]);
+
+	const visibleFiles = useMemo(() => {
+		const query = filter.trim().toLowerCase();
+		return (files || []).filter(file => !query || file.name.toLowerCase().includes(query));
+	}, [files, filter]);
+
+	const handleLoad = async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const response = await fetch('/api/protos/source', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ...source, timeoutMs }),
+			});
+			const data = await response.json().catch(() => ({}));
+			if (!response.ok) {
+				throw new Error(data.error || `HTTP ${response.status}`);
+			}
+			sourceCache.set(cacheKey, data.files);
+			setFiles(data.files);
+		} catch (err) {
+			console.error(`[UI] Rebuilding .proto source failed for ${archiveName(source)}:`, err);
+			setError(errorMessage(err));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleCopy = () => {
+		if (!selected) return;
+		navigator.clipboard.writeText(selected.content);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
+
+	const handleDownloadZip = () => {
+		if (!files) return;
+		const zip = createZipArchive(files.map(file => ({ name: file.name, data: file.content })));
+		saveFile(zip, `${archiveName(source)}-protos.zip`, 'application/zip');
+	};
+
+	if (!files) {
+		return (
+			<div className="p-3 bg-muted/30 rounded-lg border border-border space-y-2">
+				<p className="text-xs text-muted-foreground">
+					Rebuild the full .proto files {source.kind === 'bsr' ? `of ${source.bsrSource.module}` : 'from server reflection'}, with imports, options and HTTP annotations.
+				</p>
+				<button
+					onClick={handleLoad}
+					disabled={loading}
+					className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-60 transition-colors"
+				>
+					{loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileCode className="h-3.5 w-3.5" />}
+					{loading ? 'Loading source…' : 'Load .proto source'}
+				</button>
+				{error && <p className="text-xs text-destructive break-all">{error}</p>}
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex h-[32rem] rounded-lg border border-border overflow-hidden">
+			{/* File list */}
+			<div className="w-60 shrink-0 flex flex-col border-r border-border bg-muted/30">
+				<div className="shrink-0 p-2 border-b border-border">
+					<div className="flex items-center gap-1.5 px-2 py-1 rounded bg-background border border-border">
+						<Search className="h-3 w-3 text-muted-foreground shrink-0" />
+						<input
+							value={filter}
+							onChange={e => setFilter(e.target.value)}
+							placeholder={`Filter ${files.length} files`}
+							className="w-full bg-transparent text-xs outline-none"
+						/>
+					</div>
+				</div>
+				<div className="flex-1 overflow-auto py-1">
+					{visibleFiles.map(file => (
+						<button
+							key={file.name}
+							onClick={() => setSelectedName(file.name)}
+							title={file.name}
+							className={cn(
+								"w-full text-left px-3 py-1 text-xs font-mono truncate transition-colors",
+								file.name === selectedName
+									? "bg-primary/20 text-foreground"
+									: "text-muted-foreground hover:text-foreground hover:bg-muted",
+								file.services.length > 0 && "font-semibold"
+							)}
+						>
+							{file.name}
+						</button>
+					))}
+				</div>
+				<div className="shrink-0 p-2 border-t border-border">
+					<button
+						onClick={handleDownloadZip}
+						className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-semibold rounded hover:bg-muted transition-colors"
+					>
+						<FileArchive className="h-3.5 w-3.5" />
+						Download all (.zip)
+					</button>
+				</div>
+			</div>
+
+			{/* Source */}
+			<div className="flex-1 min-w-0 flex flex-col">
+				<div className="shrink-0 flex items-center gap-2 px-3 py-1.5 border-b border-border">
+					<code className="flex-1 min-w-0 truncate text-xs font-mono text-foreground">{selected?.name}</code>
+					<button onClick={handleCopy} className="p-1 hover:bg-muted rounded transition-colors" title="Copy file">
+						{copied ? <Check className="h-3.5 w-3.5 text-green-500" /> : <Copy className="h-3.5 w-3.5 text-muted-foreground" />}
+					</button>
+					<button
+						onClick={() => selected && saveFile(selected.content, selected.name.split('/').pop() || 'file.proto', 'text/plain')}
+						className="p-1 hover:bg-muted rounded transition-colors"
+						title="Download file"
+					>
+						<Download className="h-3.5 w-3.5 text-muted-foreground" />
+					</button>
+				</div>
+				<div ref={codeRef} className="flex-1 overflow-auto bg-muted/20 py-2 text-xs font-mono leading-relaxed">
+					{lines.map((line, index) => {
+						const imported = line.match(IMPORT_LINE)?.[1];
+						const linked = imported && files.some(file => file.name === imported) ? imported : null;
+						return (
+							<div key={index} data-line={index} className={cn("flex", index === serviceLine && "bg-primary/10")}>
+								<span className="w-10 shrink-0 pr-3 text-right text-muted-foreground/60 select-none">{index + 1}</span>
+								<span className="whitespace-pre pr-4">
+									{tokenizeProtoLine(line).map((token, i) => (
+										linked && token.kind === 'string' ? (
+											<button
+												key={i}
+												onClick={() => setSelectedName(linked)}
+												className={cn(TOKEN_CLASSES.string, "underline decoration-dotted hover:decoration-solid")}
+												title={`Open ${linked}`}
+											>
+												{token.text}
+											</button>
+										) : (
+											<span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+										)
+									))}
+								</span>
+							</div>
+						);
+					})}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { AlertCircle, ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { SchemaOverlayMarker } from './SchemaOverlayMarker';
 
 export interface MessageField {
   name: string;
@@ -10,6 +11,7 @@ export interface MessageField {
   rule?: 'optional' | 'required' | 'repeated';
   defaultValue?: any;
   comment?: string;
+  commentSource?: string; // Schema overlay label when the comment came from it
   nested?: boolean;
   enumValues?: string[];
   nestedFields?: MessageField[]; // Recursively populated for nested message types
@@ -154,7 +156,10 @@ const FieldInput: React.FC<FieldInputProps> = ({
           )}
         </div>
         {field.comment && (
-          <p className="text-xs text-muted-foreground mb-2">{field.comment}</p>
+          <p className="text-xs text-muted-foreground mb-2">
+            {field.comment}
+            {field.commentSource && <SchemaOverlayMarker label={field.commentSource} className="ml-1.5" />}
+          </p>
         )}
         {expanded && (
           <div className="space-y-2 mt-2 max-h-96 overflow-y-auto">
@@ -221,7 +226,10 @@ const FieldInput: React.FC<FieldInputProps> = ({
             </div>
           </div>
           {field.comment && (
-            <p className="text-xs text-muted-foreground mb-2">{field.comment}</p>
+            <p className="text-xs text-muted-foreground mb-2">
+              {field.comment}
+              {field.commentSource && <SchemaOverlayMarker label={field.commentSource} className="ml-1.5" />}
+            </p>
           )}
           {expanded && (
             <div className="space-y-3 mt-2 pl-4 border-l-2 border-border">
@@ -256,7 +264,10 @@ const FieldInput: React.FC<FieldInputProps> = ({
           </span>
         </label>
         {field.comment && (
-          <p className="text-xs text-muted-foreground mb-2">{field.comment}</p>
+          <p className="text-xs text-muted-foreground mb-2">
+            {field.comment}
+            {field.commentSource && <SchemaOverlayMarker label={field.commentSource} className="ml-1.5" />}
+          </p>
         )}
         <div className="text-xs text-muted-foreground italic py-2">
           Nested message - use JSON editor for complex types
@@ -298,7 +309,10 @@ const FieldInput: React.FC<FieldInputProps> = ({
         </span>
       </label>
       {field.comment && (
-        <p className="text-xs text-muted-foreground mb-1.5">{field.comment}</p>
+        <p className="text-xs text-muted-foreground mb-1.5">
+          {field.comment}
+          {field.commentSource && <SchemaOverlayMarker label={field.commentSource} className="ml-1.5" />}
+        </p>
       )}
       <PrimitiveInput
         type={field.type}
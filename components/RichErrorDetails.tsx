@@ -0,0 +1,162 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Bug, Clock, FileWarning, Gauge, Info, Link2, ListX } from 'lucide-react';
+import type { RpcStatus } from '@/lib/types/grpc';
+
+// Rendering for google.rpc.Status details decoded from grpc-status-details-bin.
+// Field names follow protobufjs camelCase output.
+
+type Detail = Record<string, any>;
+
+function formatProtoDuration(duration: { seconds?: string | number; nanos?: number } | undefined): string {
+	if (!duration) return 'unspecified';
+	const seconds = Number(duration.seconds || 0) + (duration.nanos || 0) / 1e9;
+	return seconds < 1 ? `${Math.round(seconds * 1000)}ms` : `${Number(seconds.toFixed(3))}s`;
+}
+
+function DetailCard({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) {
+	return (
+		<div className="rounded border border-destructive/30 bg-destructive/5 p-3 space-y-2">
+			<div className="flex-center-1 text-xs font-semibold text-destructive">
+				{icon}
+				<span>{title}</span>
+			</div>
+			<div className="text-xs space-y-1">{children}</div>
+		</div>
+	);
+}
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+	if (value === undefined || value === null || value === '') return null;
+	return (
+		<div className="flex gap-2">
+			<span className="shrink-0 text-muted-foreground">{label}:</span>
+			<span className="font-mono break-all select-text">{value}</span>
+		</div>
+	);
+}
+
+function ViolationList({ items }: { items: Array<{ primary?: string; secondary?: string; description?: string }> }) {
+	if (items.length === 0) return <p className="text-muted-foreground italic">No violations listed</p>;
+	return (
+		<ul className="space-y-1">
+			{items.map((item, i) => (
+				<li key={i} className="border-l-2 border-destructive/40 pl-2">
+					{item.primary && <span className="font-mono font-medium">{item.primary}</span>}
+					{item.secondary && <span className="text-muted-foreground ml-2">({item.secondary})</span>}
+					{item.description && <p className="text-foreground">{item.description}</p>}
+				</li>
+			))}
+		</ul>
+	);
+}
+
+function RichErrorDetail({ detail }: { detail: Detail }) {
+	const type = detail['@type'] as string | undefined;
+
+	switch (type) {
+		case 'google.rpc.ErrorInfo':
+			return (
+				<DetailCard icon={<AlertTriangle className="h-3.5 w-3.5" />} title="Error info">
+					<Field label="Reason" value={detail.reason} />
+					<Field label="Domain" value={detail.domain} />
+					{Object.entries(detail.metadata || {}).map(([key, value]) => (
+						<Field key={key} label={key} value={String(value)} />
+					))}
+				</DetailCard>
+			);
+		case 'google.rpc.BadRequest':
+			return (
+				<DetailCard icon={<ListX className="h-3.5 w-3.5" />} title="Bad request">
+					<ViolationList
+						items={(detail.fieldViolations || []).map((v: Detail) => ({ primary: v.field, secondary: v.reason, description: v.description }))}
+					/>
+				</DetailCard>
+			);
+		case 'google.rpc.RetryInfo':
+			return (
+				<DetailCard icon={<Clock className="h-3.5 w-3.5" />} title="Retry info">
+					<Field label="Retry after" value={formatProtoDuration(detail.retryDelay)} />
+				</DetailCard>
+			);
+		case 'google.rpc.QuotaFailure':
+			return (
+				<DetailCard icon={<Gauge className="h-3.5 w-3.5" />} title="Quota failure">
+					<ViolationList
+						items={(detail.violations || []).map((v: Detail) => ({ primary: v.subject, description: v.description }))}
+					/>
+				</DetailCard>
+			);
+		case 'google.rpc.PreconditionFailure':
+			return (
+				<DetailCard icon={<FileWarning className="h-3.5 w-3.5" />} title="Precondition failure">
+					<ViolationList
+						items={(detail.violations || []).map((v: Detail) => ({ primary: v.subject, secondary: v.type, description: v.description }))}
+					/>
+				</DetailCard>
+			);
+		case 'google.rpc.DebugInfo':
+			return (
+				<DetailCard icon={<Bug className="h-3.5 w-3.5" />} title="Debug info">
+					<Field label="Detail" value={detail.detail} />
+					{(detail.stackEntries || []).length > 0 && (
+						<pre className="font-mono whitespace-pre-wrap break-all bg-muted/50 p-2 rounded max-h-48 overflow-auto">
+							{(detail.stackEntries as string[]).join('\n')}
+						</pre>
+					)}
+				</DetailCard>
+			);
+		case 'google.rpc.RequestInfo':
+			return (
+				<DetailCard icon={<Info className="h-3.5 w-3.5" />} title="Request info">
+					<Field label="Request ID" value={detail.requestId} />
+					<Field label="Serving data" value={detail.servingData} />
+				</DetailCard>
+			);
+		case 'google.rpc.ResourceInfo':
+			return (
+				<DetailCard icon={<Info className="h-3.5 w-3.5" />} title="Resource info">
+					<Field label="Type" value={detail.resourceType} />
+					<Field label="Name" value={detail.resourceName} />
+					<Field label="Owner" value={detail.owner} />
+					<Field label="Description" value={detail.description} />
+				</DetailCard>
+			);
+		case 'google.rpc.Help':
+			return (
+				<DetailCard icon={<Link2 className="h-3.5 w-3.5" />} title="Help">
+					{(detail.links || []).map((link: Detail, i: number) => (
+						<Field key={i} label={link.description || 'Link'} value={link.url} />
+					))}
+				</DetailCard>
+			);
+		case 'google.rpc.LocalizedMessage':
+			return (
+				<DetailCard icon={<Info className="h-3.5 w-3.5" />} title={`Message (${detail.locale || 'unknown locale'})`}>
+					<p>{detail.message}</p>
+				</DetailCard>
+			);
+		default:
+			return (
+				<DetailCard icon={<Info className="h-3.5 w-3.5" />} title={type || detail.typeUrl || 'Unknown detail'}>
+					<pre className="font-mono whitespace-pre-wrap break-all">{JSON.stringify(detail, null, 2)}</pre>
+				</DetailCard>
+			);
+	}
+}
+
+/** Structured cards for each detail in a decoded google.rpc.Status */
+export default function RichErrorDetails({ rpcStatus }: { rpcStatus: RpcStatus }) {
+	if (rpcStatus.details.length === 0) return null;
+
+	return (
+		<div className="space-y-2">
+			<h3 className="section-header">Error details ({rpcStatus.details.length})</h3>
+			{rpcStatus.message && <p className="text-xs text-foreground">{rpcStatus.message}</p>}
+			{rpcStatus.details.map((detail, i) => (
+				<RichErrorDetail key={i} detail={detail} />
+			))}
+		</div>
+	);
+}
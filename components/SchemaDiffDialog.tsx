@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowRight, Download, GitCompare, Loader2 } from 'lucide-react';
+import { cn, errorMessage } from '@/lib/utils';
+import { formatSchemaDiffMarkdown } from '@/lib/utils/schema-diff-report';
+import type { ProtoSchemaSource, ProtosetSnapshot, SchemaDiffReport, SchemaDiffSource } from '@/lib/types/grpc';
+
+/** A connected source the diff can load descriptors from */
+export interface SchemaDiffNetworkOption {
+	id: string;
+	label: string;
+	source: ProtoSchemaSource;
+}
+
+interface SchemaDiffDialogProps {
+	open: boolean;
+	onClose: () => void;
+	networks: SchemaDiffNetworkOption[];
+	timeoutMs: number;
+}
+
+type SideMode = 'network' | 'bsr' | 'snapshot';
+
+interface SideState {
+	mode: SideMode;
+	networkId: string;
+	bsrModule: string;
+	bsrVersion: string;
+	snapshot: ProtosetSnapshot | null;
+}
+
+const EMPTY_SIDE: SideState = { mode: 'network', networkId: '', bsrModule: '', bsrVersion: 'main', snapshot: null };
+
+const MODE_LABELS: Record<SideMode, string> = {
+	network: 'Source',
+	bsr: 'BSR version',
+	snapshot: 'Snapshot',
+};
+
+function sideSource(side: SideState, networks: SchemaDiffNetworkOption[]): SchemaDiffSource | null {
+	if (side.mode === 'network') return networks.find(n => n.id === side.networkId)?.source ?? null;
+	if (side.mode === 'snapshot') return side.snapshot;
+	const moduleName = side.bsrModule.trim().replace(/^https?:\/\//, '').replace(/^buf\.build\//, '');
+	if (!moduleName) return null;
+	return {
+		kind: 'bsr',
+		bsrSource: { module: moduleName, ...(side.bsrVersion && side.bsrVersion !== 'main' ? { version: side.bsrVersion } : {}) },
+	};
+}
+
+async function readSnapshot(file: File): Promise<ProtosetSnapshot> {
+	const bytes = new Uint8Array(await file.arrayBuffer());
+	return { kind: 'protoset', name: file.name, data: btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')) };
+}
+
+function saveFile(data: BlobPart, filename: string, type: string) {
+	const url = URL.createObjectURL(new Blob([data], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
+
+function SidePicker({
+	title,
+	side,
+	networks,
+	onChange,
+}: {
+	title: string;
+	side: SideState;
+	networks: SchemaDiffNetworkOption[];
+	onChange: (side: SideState) => void;
+}) {
+	return (
+		<div className="grid gap-2 flex-1 min-w-0">
+			<Label>{title}</Label>
+			<div className="flex gap-1 p-1 bg-muted rounded-lg">
+				{(Object.keys(MODE_LABELS) as SideMode[]).map(mode => (
+					<button
+						key={mode}
+						type="button"
+						onClick={() => onChange({ ...side, mode })}
+						className={cn(
+							"flex-1 px-2 py-1 text-xs font-medium rounded transition-colors",
+							side.mode === mode ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+						)}
+					>
+						{MODE_LABELS[mode]}
+					</button>
+				))}
+			</div>
+
+			{side.mode === 'network' && (
+				<select
+					value={side.networkId}
+					onChange={(e) => onChange({ ...side, networkId: e.target.value })}
+					className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+				>
+					<option value="">{networks.length ? 'Choose a source' : 'No reflection or BSR sources'}</option>
+					{networks.map(network => (
+						<option key={network.id} value={network.id}>{network.label}</option>
+					))}
+				</select>
+			)}
+
+			{side.mode === 'bsr' && (
+				<div className="grid grid-cols-[1fr_100px] gap-2">
+					<Input
+						placeholder="owner/repository"
+						value={side.bsrModule}
+						onChange={(e) => onChange({ ...side, bsrModule: e.target.value })}
+					/>
+					<Input
+						placeholder="main"
+						value={side.bsrVersion}
+						onChange={(e) => onChange({ ...side, bsrVersion: e.target.value })}
+						title="Label, tag or commit"
+					/>
+				</div>
+			)}
+
+			{side.mode === 'snapshot' && (
+				<input
+					type="file"
+					accept=".protoset,.pb,.desc,.binpb"
+					onChange={async (e) => {
+						const file = e.target.files?.[0];
+						onChange({ ...side, snapshot: file ? await readSnapshot(file) : null });
+					}}
+					className="text-xs text-muted-foreground file:mr-3 file:px-2 file:py-1 file:rounded file:border file:border-input file:bg-background file:text-xs file:text-foreground"
+				/>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Compare the descriptors of two sources, two BSR versions or a source and a
+ * saved .protoset snapshot, and list what changed with breaking and
+ * wire-incompatible changes called out.
+ */
+const SchemaDiffDialog: React.FC<SchemaDiffDialogProps> = ({ open, onClose, networks, timeoutMs }) => {
+	const [before, setBefore] = useState<SideState>(EMPTY_SIDE);
+	const [after, setAfter] = useState<SideState>(EMPTY_SIDE);
+	const [report, setReport] = useState<SchemaDiffReport | null>(null);
+	const [breakingOnly, setBreakingOnly] = useState(false);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Drop picks for sources that were removed while the dialog was closed
+	useEffect(() => {
+		const exists = (id: string) => networks.some(n => n.id === id);
+		setBefore(side => (side.networkId && !exists(side.networkId) ? { ...side, networkId: '' } : side));
+		setAfter(side => (side.networkId && !exists(side.networkId) ? { ...side, networkId: '' } : side));
+	}, [networks]);
+
+	const beforeSource = sideSource(before, networks);
+	const afterSource = sideSource(after, networks);
+
+	const handleCompare = async () => {
+		if (!beforeSource || !afterSource) return;
+		setLoading(true);
+		setError(null);
+		try {
+			const response = await fetch('/api/protos/diff', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ before: beforeSource, after: afterSource, timeoutMs }),
+			});
+			const data = await response.json();
+			if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+			setReport(data as SchemaDiffReport);
+		} catch (err: unknown) {
+			setError(errorMessage(err));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleExport = (format: 'md' | 'json') => {
+		if (!report) return;
+		const filename = `schema-diff-${report.before}-${report.after}`.replace(/[^a-zA-Z0-9.@-]+/g, '_');
+		if (format === 'md') {
+			saveFile(formatSchemaDiffMarkdown(report), `${filename}.md`, 'text/markdown');
+		} else {
+			saveFile(JSON.stringify(report, null, 2), `${filename}.json`, 'application/json');
+		}
+	};
+
+	const changes = report ? report.changes.filter(change => !breakingOnly || change.breaking) : [];
+
+	return (
+		<Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-[900px]">
+				<DialogHeader>
+					<div className="flex items-center gap-2">
+						<GitCompare className="h-5 w-5" />
+						<DialogTitle>Schema Diff</DialogTitle>
+					</div>
+					<DialogDescription>
+						Compare two descriptor sets and see which changes break existing clients. Snapshots are .protoset files, such as those saved from a source&apos;s download button.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+					<SidePicker title="Before" side={before} networks={networks} onChange={setBefore} />
+					<ArrowRight className="h-4 w-4 text-muted-foreground shrink-0 hidden sm:block mb-2.5" />
+					<SidePicker title="After" side={after} networks={networks} onChange={setAfter} />
+					<Button type="button" onClick={handleCompare} disabled={!beforeSource || !afterSource || loading}>
+						{loading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+						Compare
+					</Button>
+				</div>
+
+				{error && (
+					<div className="text-sm text-destructive bg-destructive/10 rounded p-2">{error}</div>
+				)}
+
+				{report && (
+					<>
+						<div className="flex flex-wrap items-center gap-3 text-xs">
+							<span className="font-mono truncate max-w-[320px]" title={`${report.before} → ${report.after}`}>
+								{report.before} → {report.after}
+							</span>
+							<span className="text-destructive font-medium">{report.summary.breaking} breaking</span>
+							<span className="text-amber-500">{report.summary.wireIncompatible} wire-incompatible</span>
+							<span className="text-muted-foreground">{report.summary.nonBreaking} non-breaking</span>
+							<label className="flex items-center gap-1.5 ml-auto text-muted-foreground">
+								<input type="checkbox" checked={breakingOnly} onChange={(e) => setBreakingOnly(e.target.checked)} />
+								Breaking only
+							</label>
+							<Button type="button" variant="outline" size="sm" onClick={() => handleExport('md')}>
+								<Download className="h-3.5 w-3.5 mr-1.5" />
+								Markdown
+							</Button>
+							<Button type="button" variant="outline" size="sm" onClick={() => handleExport('json')}>
+								<Download className="h-3.5 w-3.5 mr-1.5" />
+								JSON
+							</Button>
+						</div>
+
+						<div className="max-h-[50vh] overflow-auto -mx-2">
+							{changes.length === 0 ? (
+								<div className="text-sm text-muted-foreground text-center py-8">
+									{report.changes.length === 0 ? 'No differences.' : 'No breaking changes.'}
+								</div>
+							) : (
+								<table className="w-full text-xs">
+									<thead className="text-muted-foreground text-left">
+										<tr className="border-b border-border">
+											<th className="px-2 py-1.5 font-medium">Impact</th>
+											<th className="px-2 py-1.5 font-medium">Change</th>
+											<th className="px-2 py-1.5 font-medium">Element</th>
+											<th className="px-2 py-1.5 font-medium">Details</th>
+										</tr>
+									</thead>
+									<tbody>
+										{changes.map((change, index) => (
+											<tr key={`${change.kind}-${change.element}-${index}`} className="border-b border-border/50 align-top">
+												<td className="px-2 py-1.5 whitespace-nowrap">
+													<span className={cn(
+														"px-1.5 py-0.5 rounded text-[10px] font-medium",
+														change.breaking ? "bg-destructive/10 text-destructive" : "bg-green-500/10 text-green-600"
+													)}>
+														{change.breaking ? 'Breaking' : 'Safe'}
+													</span>
+													{change.wireIncompatible && (
+														<span className="ml-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-500" title="Old and new peers misread each other's binary messages">
+															Wire
+														</span>
+													)}
+												</td>
+												<td className="px-2 py-1.5 text-muted-foreground whitespace-nowrap">{change.kind}</td>
+												<td className="px-2 py-1.5 font-mono max-w-[280px] truncate" title={change.file ? `${change.element} (${change.file})` : change.element}>
+													{change.element}
+												</td>
+												<td className="px-2 py-1.5 break-words">{change.description}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							)}
+						</div>
+					</>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default SchemaDiffDialog;
@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Layers, Loader2 } from 'lucide-react';
+import { cn, errorMessage } from '@/lib/utils';
+import { buildSchemaOverlay, schemaOverlayCoverage } from '@/lib/utils/schema-overlay';
+import type { BufBsrSource, GrpcNetwork, GrpcService, SchemaOverlay } from '@/lib/types/grpc';
+
+interface SchemaOverlayDialogProps {
+	network: GrpcNetwork;
+	onAttach: (overlay: SchemaOverlay) => void;
+	onDetach: () => void;
+	onClose: () => void;
+}
+
+/**
+ * Attach a BSR module or uploaded protos to a reflected source. Their
+ * comments, HTTP rules and idempotency levels fill in what reflection left
+ * out on methods with the same service and method names.
+ */
+const SchemaOverlayDialog: React.FC<SchemaOverlayDialogProps> = ({ network, onAttach, onDetach, onClose }) => {
+	const [sourceTab, setSourceTab] = useState<'bsr' | 'protos'>(network.schemaOverlay?.localProtoSource ? 'protos' : 'bsr');
+	const [bsrModule, setBsrModule] = useState(network.schemaOverlay?.bsrSource?.module || '');
+	const [bsrVersion, setBsrVersion] = useState(network.schemaOverlay?.bsrSource?.version || 'main');
+	const [bsrAuthToken, setBsrAuthToken] = useState(network.schemaOverlay?.bsrSource?.authToken || '');
+	const [files, setFiles] = useState<File[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const coverage = useMemo(
+		() => network.schemaOverlay ? schemaOverlayCoverage(network.services, network.schemaOverlay) : null,
+		[network.services, network.schemaOverlay]
+	);
+
+	const loadBsr = async (): Promise<SchemaOverlay> => {
+		const bsrSource: BufBsrSource = {
+			module: bsrModule.trim().replace(/^https?:\/\//, '').replace(/^buf\.build\//, ''),
+			...(bsrVersion && bsrVersion !== 'main' ? { version: bsrVersion } : {}),
+			...(bsrAuthToken ? { authToken: bsrAuthToken } : {}),
+		};
+		const response = await fetch('/api/bsr/descriptor', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ ...bsrSource, proxy: network.proxy }),
+		});
+		const data = await response.json();
+		if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+		return buildSchemaOverlay(data.services || [], {
+			label: `${bsrSource.module}${bsrSource.version ? `@${bsrSource.version}` : ''}`,
+			bsrSource,
+		});
+	};
+
+	const loadProtos = async (): Promise<SchemaOverlay> => {
+		const form = new FormData();
+		for (const file of files) form.append('files', file);
+		const response = await fetch('/api/protos/descriptor', { method: 'POST', body: form });
+		const data = await response.json();
+		if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+		const name = files.length === 1 ? files[0].name : `${files[0].name} +${files.length - 1}`;
+		return buildSchemaOverlay((data.services || []) as GrpcService[], {
+			label: name,
+			localProtoSource: {
+				name,
+				files: data.files || [],
+				...(data.missingImports?.length ? { missingImports: data.missingImports } : {}),
+				uploadedAt: Date.now(),
+			},
+		});
+	};
+
+	const handleAttach = async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const overlay = sourceTab === 'bsr' ? await loadBsr() : await loadProtos();
+			const { matched } = schemaOverlayCoverage(network.services, overlay);
+			if (matched === 0) {
+				throw new Error(`${overlay.label} has no comments, HTTP rules or options for this source's methods`);
+			}
+			onAttach(overlay);
+		} catch (err: unknown) {
+			setError(errorMessage(err));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const canAttach = sourceTab === 'bsr' ? bsrModule.trim().length > 0 : files.length > 0;
+
+	return (
+		<Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-[525px]">
+				<DialogHeader>
+					<div className="flex items-center gap-2">
+						<Layers className="h-5 w-5" />
+						<DialogTitle>Schema Overlay</DialogTitle>
+					</div>
+					<DialogDescription>
+						Fill in comments, HTTP rules and idempotency levels that reflection on {network.chainId || network.endpoint} left out, from a BSR module or uploaded protos.
+					</DialogDescription>
+				</DialogHeader>
+
+				{network.schemaOverlay && coverage && (
+					<div className="flex items-center gap-2 text-xs bg-muted/50 rounded p-2">
+						<span className="flex-1 min-w-0">
+							<span className="font-medium">{network.schemaOverlay.label}</span>
+							<span className="text-muted-foreground"> covers {coverage.matched} of {coverage.total} methods</span>
+						</span>
+						<Button type="button" variant="outline" size="sm" onClick={onDetach}>
+							Detach
+						</Button>
+					</div>
+				)}
+
+				<div className="flex gap-1 p-1 bg-muted rounded-lg">
+					{(['bsr', 'protos'] as const).map(tab => (
+						<button
+							key={tab}
+							type="button"
+							onClick={() => setSourceTab(tab)}
+							className={cn(
+								"flex-1 px-3 py-1.5 text-xs font-medium rounded transition-colors",
+								sourceTab === tab ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+							)}
+						>
+							{tab === 'bsr' ? 'buf.build (BSR)' : 'Local protos'}
+						</button>
+					))}
+				</div>
+
+				{sourceTab === 'bsr' ? (
+					<div className="grid gap-3">
+						<div className="grid gap-2">
+							<Label>Module</Label>
+							<Input
+								placeholder="owner/repository (e.g., cosmos/cosmos-sdk)"
+								value={bsrModule}
+								onChange={(e) => setBsrModule(e.target.value)}
+								autoFocus
+							/>
+						</div>
+						<div className="grid grid-cols-2 gap-2">
+							<div>
+								<Label className="text-xs">Version</Label>
+								<Input placeholder="main" value={bsrVersion} onChange={(e) => setBsrVersion(e.target.value)} className="mt-1" />
+							</div>
+							<div>
+								<Label className="text-xs">Auth Token (optional)</Label>
+								<Input
+									type="password"
+									placeholder="For private modules"
+									value={bsrAuthToken}
+									onChange={(e) => setBsrAuthToken(e.target.value)}
+									className="mt-1"
+								/>
+							</div>
+						</div>
+					</div>
+				) : (
+					<div className="grid gap-2">
+						<Label htmlFor="overlay-proto-files">Proto or Protoset Files</Label>
+						<input
+							id="overlay-proto-files"
+							type="file"
+							multiple
+							accept=".proto,.zip,.protoset,.pb,.desc,.binpb"
+							onChange={(e) => setFiles(Array.from(e.target.files || []))}
+							className="text-xs text-muted-foreground file:mr-3 file:px-2 file:py-1 file:rounded file:border file:border-input file:bg-background file:text-xs file:text-foreground"
+						/>
+						<p className="text-xs text-muted-foreground">
+							Only comments, HTTP rules and idempotency levels are kept; re-attach after changing the files.
+						</p>
+					</div>
+				)}
+
+				<div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+					<AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+					<span>Methods are matched by service and method name. Anything reflection returned is kept as is.</span>
+				</div>
+
+				{error && (
+					<div className="text-xs text-destructive bg-destructive/10 rounded p-2">{error}</div>
+				)}
+
+				<DialogFooter>
+					<Button type="button" variant="outline" onClick={onClose}>
+						Cancel
+					</Button>
+					<Button type="button" onClick={handleAttach} disabled={!canAttach || loading}>
+						{loading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+						{network.schemaOverlay ? 'Replace Overlay' : 'Attach Overlay'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default SchemaOverlayDialog;
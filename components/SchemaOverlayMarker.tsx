@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/** Tags a comment, HTTP rule or option that came from the source's schema overlay */
+export function SchemaOverlayMarker({ label, className }: { label: string; className?: string }) {
+	return (
+		<span
+			className={cn(
+				"inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-primary/10 text-primary border border-primary/20 align-middle",
+				className
+			)}
+			title={`From schema overlay ${label}; reflection did not return it`}
+		>
+			<Layers className="h-2.5 w-2.5" />
+			{label}
+		</span>
+	);
+}
@@ -0,0 +1,78 @@
+// lib/grpc/bsr-client.ts
+// Fetch module FileDescriptorSets from the buf.build Schema Registry
+
+import { proxyFetch } from '@/lib/grpc/http-proxy';
+import type { GrpcProxyConfig } from '@/lib/types/grpc';
+
+/** A BSR request that failed; `status` is the HTTP status routes should answer with */
+export class BsrError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BsrError';
+  }
+}
+
+export interface BsrDescriptorSet {
+  /** Binary FileDescriptorSet including imports */
+  data: Buffer;
+  /** Normalized `owner/repository` */
+  module: string;
+  version: string;
+}
+
+/**
+ * Normalize a module reference: strips the protocol and `buf.build/` prefix and
+ * checks for the `owner/repository` form.
+ */
+export function normalizeBsrModule(module: string): string {
+  const normalized = module
+    .replace(/^https?:\/\//, '')
+    .replace(/^buf\.build\//, '');
+
+  const parts = normalized.split('/');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    throw new BsrError('Invalid module format. Expected "owner/repository".', 400);
+  }
+  return normalized;
+}
+
+/**
+ * Download a module's FileDescriptorSet (with imports) at `version`, `main` by default.
+ */
+export async function fetchBsrDescriptorSet(
+  source: { module: string; version?: string | undefined; authToken?: string | undefined },
+  proxy?: GrpcProxyConfig
+): Promise<BsrDescriptorSet> {
+  const moduleName = normalizeBsrModule(source.module);
+  const ref = source.version || 'main';
+
+  const url = `https://buf.build/${moduleName}/descriptor/${ref}?imports=true`;
+  console.log(`[BSR] Fetching descriptor: ${url}`);
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/x-protobuf',
+  };
+
+  if (source.authToken) {
+    headers['Authorization'] = `Bearer ${source.authToken}`;
+  }
+
+  const response = await proxyFetch(url, { headers }, proxy);
+
+  if (!response.ok) {
+    const statusText = response.statusText || 'Unknown error';
+    console.error(`[BSR] Fetch failed: ${response.status} ${statusText}`);
+
+    if (response.status === 404) {
+      throw new BsrError(`Module not found: ${source.module}@${ref}`, 404);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new BsrError('Authentication required for this module. Provide a BSR auth token.', 401);
+    }
+    throw new BsrError(`BSR returned ${response.status}: ${statusText}`, 502);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  console.log(`[BSR] Got FileDescriptorSet: ${data.length} bytes`);
+  return { data, module: moduleName, version: ref };
+}
@@ -0,0 +1,97 @@
+// lib/grpc/call-auth.ts
+// Resolve a GrpcAuthConfig into call metadata and channel credentials
+
+import { createHash } from 'crypto';
+import type { GrpcAuthConfig, GrpcProxyConfig } from '@/lib/types/grpc';
+import { basicAuthorization } from '@/lib/utils/auth-config';
+import { signServiceJwt } from './jwt-auth';
+import { getOAuth2Token, oauth2Credentials } from './oauth2';
+
+/** How the server certificate is verified on TLS connections */
+export interface TlsOptions {
+  /** PEM root CA bundle used instead of the system trust store */
+  caCert?: string | undefined;
+  /** Overrides the TLS server name (SNI) and the :authority header */
+  serverName?: string | undefined;
+  /** Skip certificate verification entirely */
+  insecureSkipVerify?: boolean | undefined;
+}
+
+export interface ResolvedCallAuth {
+  /** User metadata merged with any auth headers */
+  metadata: Record<string, string>;
+  /** PEM-encoded client certificate for mTLS */
+  clientCert?: string | undefined;
+  /** PEM-encoded client private key for mTLS */
+  clientKey?: string | undefined;
+  tlsOptions?: TlsOptions | undefined;
+}
+
+/** The TLS settings carried by `authConfig`, or undefined when all are unset */
+export function resolveTlsOptions(authConfig?: GrpcAuthConfig | undefined): TlsOptions | undefined {
+  if (!authConfig) return undefined;
+  const tlsOptions: TlsOptions = {};
+  if (authConfig.caCert?.trim()) tlsOptions.caCert = authConfig.caCert;
+  if (authConfig.serverName?.trim()) tlsOptions.serverName = authConfig.serverName.trim();
+  if (authConfig.insecureSkipVerify) tlsOptions.insecureSkipVerify = true;
+  return Object.keys(tlsOptions).length > 0 ? tlsOptions : undefined;
+}
+
+/**
+ * Identify the caller behind `metadata` and `authConfig` without the tokens
+ * derived from them, so refreshed OAuth2 tokens and re-signed JWTs keep the
+ * same identity while a different credential gets a different one.
+ */
+export function callCredentialKey(
+  metadata: Record<string, string> | undefined,
+  authConfig?: GrpcAuthConfig | undefined
+): string {
+  const headers = Object.entries(metadata ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify([headers, authConfig ?? null])).digest('hex');
+}
+
+/**
+ * Merge auth headers into the user-supplied metadata and pull out mTLS
+ * material. Auth headers override user metadata with the same key.
+ */
+export function resolveCallAuth(
+  metadata: Record<string, string> | undefined,
+  authConfig?: GrpcAuthConfig | undefined
+): ResolvedCallAuth {
+  const resolved: ResolvedCallAuth = { metadata: { ...(metadata || {}) } };
+  if (!authConfig) return resolved;
+  resolved.tlsOptions = resolveTlsOptions(authConfig);
+
+  if (authConfig.type === 'bearer' && authConfig.bearerToken) {
+    resolved.metadata['authorization'] = `Bearer ${authConfig.bearerToken}`;
+  } else if (authConfig.type === 'api-key' && authConfig.apiKeyHeader && authConfig.apiKeyValue) {
+    resolved.metadata[authConfig.apiKeyHeader] = authConfig.apiKeyValue;
+  } else if (authConfig.type === 'basic' && authConfig.basicUsername) {
+    resolved.metadata['authorization'] = basicAuthorization(authConfig.basicUsername, authConfig.basicPassword);
+  } else if (authConfig.type === 'jwt') {
+    resolved.metadata['authorization'] = `Bearer ${signServiceJwt(authConfig)}`;
+  } else if (authConfig.type === 'mtls') {
+    resolved.clientCert = authConfig.clientCert;
+    resolved.clientKey = authConfig.clientKey;
+  }
+
+  return resolved;
+}
+
+/**
+ * resolveCallAuth plus credentials that need a network round trip: for
+ * `oauth2` sources a client-credentials access token is fetched (or taken
+ * from the cache) and sent as the bearer token.
+ */
+export async function authorizeCall(
+  metadata: Record<string, string> | undefined,
+  authConfig?: GrpcAuthConfig | undefined,
+  proxy?: GrpcProxyConfig | undefined
+): Promise<ResolvedCallAuth> {
+  const resolved = resolveCallAuth(metadata, authConfig);
+  const credentials = oauth2Credentials(authConfig);
+  if (credentials) {
+    resolved.metadata['authorization'] = `Bearer ${await getOAuth2Token(credentials, proxy)}`;
+  }
+  return resolved;
+}
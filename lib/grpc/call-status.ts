@@ -0,0 +1,60 @@
+// lib/grpc/call-status.ts
+// Final gRPC status and response metadata captured from grpc-js calls
+
+import * as grpc from '@grpc/grpc-js';
+import type { GrpcCallStatus } from '@/lib/types/grpc';
+
+/** Symbolic name for a numeric gRPC status code, e.g. 5 -> 'NOT_FOUND' */
+export function grpcStatusName(code: number): string {
+  return grpc.status[code] ?? `UNKNOWN_STATUS_${code}`;
+}
+
+/**
+ * Flatten grpc-js metadata to plain strings. Repeated keys are joined with
+ * ', ' and binary (`-bin`) values are base64-encoded.
+ */
+export function metadataToRecord(metadata: grpc.Metadata | null | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!metadata) return record;
+
+  for (const key of Object.keys(metadata.getMap())) {
+    record[key] = metadata
+      .get(key)
+      .map((value) => (Buffer.isBuffer(value) ? value.toString('base64') : String(value)))
+      .join(', ');
+  }
+  return record;
+}
+
+export function buildCallStatus(
+  code: number,
+  details: string | undefined,
+  headers: Record<string, string>,
+  trailers: grpc.Metadata | null | undefined
+): GrpcCallStatus {
+  return {
+    code,
+    codeName: grpcStatusName(code),
+    details: details ?? '',
+    headers,
+    trailers: metadataToRecord(trailers),
+  };
+}
+
+/**
+ * A call that completed with a non-OK status. The message keeps the
+ * `gRPC Error (code N): ...` form callers already match on.
+ */
+export class GrpcCallError extends Error {
+  constructor(public readonly status: GrpcCallStatus, message?: string) {
+    super(message ?? `gRPC Error (code ${status.code}): ${status.code} ${status.codeName}: ${status.details}`);
+    this.name = 'GrpcCallError';
+  }
+
+  static fromServiceError(error: grpc.ServiceError, headers: Record<string, string>): GrpcCallError {
+    return new GrpcCallError(
+      buildCallStatus(error.code, error.details, headers, error.metadata),
+      `gRPC Error (code ${error.code}): ${error.message}`
+    );
+  }
+}
@@ -0,0 +1,156 @@
+// lib/grpc/client-pool.ts
+// Server-side pool of reflection clients reused across executions. Each entry
+// keeps one channel open and the descriptors it has already resolved.
+
+import { createHash } from 'crypto';
+import { LRUCache } from 'lru-cache';
+import { ReflectionClient, type ReflectionOptions } from './reflection-client';
+
+const POOL_MAX_ENTRIES = 50;
+/** Descriptors older than this are re-resolved through reflection */
+export const POOL_TTL_MS = 10 * 60 * 1000;
+
+interface PoolEntry {
+  endpoint: string;
+  client: ReflectionClient;
+  /** Descriptor loads per service, resolved once the service is in the root */
+  services: Map<string, Promise<void>>;
+  /** Loads run one at a time; reflection stub setup is not re-entrant */
+  queue: Promise<void>;
+  leases: number;
+  retired: boolean;
+}
+
+export interface PooledClientOptions extends ReflectionOptions {
+  /** Caller identity from callCredentialKey; defaults to a hash of `metadata` */
+  credentialKey?: string | undefined;
+}
+
+export interface PooledClient {
+  client: ReflectionClient;
+  /** True when the service descriptor was already resolved by an earlier call */
+  reused: boolean;
+  /** Hand the client back to the pool; never call client.close() directly */
+  release: () => void;
+}
+
+/** Close now, or once the last lease is released */
+function retire(entry: PoolEntry): void {
+  entry.retired = true;
+  if (entry.leases === 0) entry.client.close();
+}
+
+const pool = new LRUCache<string, PoolEntry>({
+  max: POOL_MAX_ENTRIES,
+  ttl: POOL_TTL_MS,
+  ttlAutopurge: true,
+  dispose: (entry) => retire(entry),
+});
+
+/**
+ * Endpoint, TLS, transport, credentials, proxy and channel-level call options
+ * identify a channel. The caller's credentials split it too: descriptors
+ * loaded with one token are never handed to a caller with another.
+ */
+function poolKey(options: PooledClientOptions): string {
+  // Retries and hedging happen above the channel, so they do not split the pool
+  const { retry: _retry, hedging: _hedging, ...callOptions } = options.callOptions ?? {};
+  const metadata = Object.entries(options.metadata ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256')
+    .update(JSON.stringify([
+      options.endpoint,
+      options.tls,
+      options.transport ?? 'grpc',
+      options.clientCert ?? '',
+      options.clientKey ?? '',
+      options.tlsOptions ?? {},
+      callOptions,
+      options.proxy ?? {},
+      options.credentialKey ?? metadata,
+    ]))
+    .digest('hex');
+}
+
+/** Reflection for the load carries the requesting caller's headers, e.g. a refreshed token */
+function loadService(entry: PoolEntry, serviceName: string, metadata?: Record<string, string>): Promise<void> {
+  const loading = entry.queue.then(() => entry.client.initializeForMethod(serviceName, metadata));
+  entry.queue = loading.catch(() => undefined);
+  entry.services.set(serviceName, loading);
+  // A failed load is retried by the next caller
+  loading.catch(() => {
+    if (entry.services.get(serviceName) === loading) entry.services.delete(serviceName);
+  });
+  return loading;
+}
+
+/**
+ * Lease a client with `serviceName` resolved, reusing the channel and
+ * descriptors of an earlier call with the same options and credentials. If
+ * the cached schema lacks `methodName`, the entry is dropped and reflection
+ * runs again.
+ */
+export async function acquirePooledClient(
+  options: PooledClientOptions,
+  serviceName: string,
+  methodName?: string
+): Promise<PooledClient> {
+  const key = poolKey(options);
+  let entry = pool.get(key);
+  if (!entry) {
+    const { credentialKey: _credentialKey, ...clientOptions } = options;
+    entry = {
+      endpoint: options.endpoint,
+      client: new ReflectionClient({ ...clientOptions, reuseCallChannel: true }),
+      services: new Map(),
+      queue: Promise.resolve(),
+      leases: 0,
+      retired: false,
+    };
+    pool.set(key, entry);
+  }
+
+  const leased = entry;
+  leased.leases++;
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    leased.leases--;
+    if (leased.retired && leased.leases === 0) leased.client.close();
+  };
+
+  const existing = leased.services.get(serviceName);
+  try {
+    await (existing ?? loadService(leased, serviceName, options.metadata));
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  if (existing && methodName && !leased.client.findMethod(serviceName, methodName)) {
+    console.log(`[ClientPool] ${serviceName}.${methodName} missing from cached schema; reloading`);
+    release();
+    if (pool.peek(key) === leased) pool.delete(key);
+    return acquirePooledClient(options, serviceName);
+  }
+
+  return { client: leased.client, reused: !!existing, release };
+}
+
+/**
+ * Drop pooled clients for `endpoint` (all endpoints when omitted) so the next
+ * call re-resolves descriptors, e.g. after the server's schema changed.
+ * In-flight calls finish on the old channel. Returns the number dropped.
+ */
+export function invalidateClientPool(endpoint?: string): number {
+  const keys: string[] = [];
+  pool.forEach((entry, key) => {
+    if (!endpoint || entry.endpoint === endpoint) keys.push(key);
+  });
+  keys.forEach((key) => pool.delete(key));
+  return keys.length;
+}
+
+export function clientPoolSize(): number {
+  return pool.size;
+}
@@ -3,6 +3,7 @@
 
 import * as protobuf from 'protobufjs';
 import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+import type { IdempotencyLevel } from '@/lib/types/grpc';
 
 export interface MessageField {
 	name: string;
@@ -41,6 +42,7 @@ export interface GrpcMethod {
 	responseStreaming: boolean;
 	description?: string;
 	httpRule?: HttpRule;
+	idempotencyLevel?: IdempotencyLevel;
 	requestTypeDefinition: MessageTypeDefinition;
 	responseTypeDefinition: MessageTypeDefinition;
 }
@@ -51,6 +53,24 @@ export interface GrpcService {
 	methods: GrpcMethod[];
 }
 
+/**
+ * Raw `file` entries (field 1) of a binary FileDescriptorSet, each still in its
+ * original encoding so it can be re-exported or decoded again without loss.
+ */
+export function splitFileDescriptorSet(data: Uint8Array): Uint8Array[] {
+	const reader = protobuf.Reader.create(data);
+	const files: Uint8Array[] = [];
+	while (reader.pos < reader.len) {
+		const tag = reader.uint32();
+		if (tag >>> 3 === 1 && (tag & 7) === 2) {
+			files.push(reader.bytes());
+		} else {
+			reader.skipType(tag & 7);
+		}
+	}
+	return files;
+}
+
 /**
  * Parses protobuf FileDescriptorSet data into a protobufjs Root,
  * then extracts GrpcService/GrpcMethod definitions.
@@ -62,22 +82,33 @@ export class DescriptorParser {
 	private descriptorRoot: protobuf.Root;
 	private seenFiles = new Set<string>();
 	private methodOptions: Map<string, any> = new Map();
+	private methodComments: Map<string, string> = new Map();
+	/** Serialized FileDescriptorProtos as received, for re-export without decode/encode loss */
+	private rawFiles: Map<string, { bytes: Uint8Array; dependency: string[] }> = new Map();
 
 	constructor() {
 		this.root = new protobuf.Root();
 		this.descriptorRoot = protobuf.Root.fromJSON(descriptorJson);
 	}
 
-	/** Parse a binary FileDescriptorSet (e.g. from BSR) and load all file descriptors */
+	/** Parse a binary FileDescriptorSet (e.g. from BSR or a .protoset file) and load all file descriptors */
 	loadFileDescriptorSet(data: Buffer): void {
-		const FileDescriptorSet = this.descriptorRoot.lookupType('google.protobuf.FileDescriptorSet');
-		const fds = FileDescriptorSet.decode(new Uint8Array(data)) as any;
-
-		if (!fds.file || fds.file.length === 0) {
+		const files = splitFileDescriptorSet(data);
+		if (files.length === 0) {
 			throw new Error('FileDescriptorSet contains no file descriptors');
 		}
 
-		for (const fileDescriptor of fds.file) {
+		for (const fdBytes of files) {
+			this.processFileDescriptor(Buffer.from(fdBytes));
+		}
+	}
+
+	/**
+	 * Load already-decoded FileDescriptorProto objects (e.g. built from uploaded .proto files).
+	 * These have no original bytes, so they are not part of toFileDescriptorSet().
+	 */
+	loadFileDescriptors(fileDescriptors: any[]): void {
+		for (const fileDescriptor of fileDescriptors) {
 			const filename = fileDescriptor.name || 'unknown';
 			if (this.seenFiles.has(filename)) continue;
 			this.seenFiles.add(filename);
@@ -93,9 +124,41 @@ export class DescriptorParser {
 
 		if (this.seenFiles.has(filename)) return;
 		this.seenFiles.add(filename);
+		this.rawFiles.set(filename, { bytes: new Uint8Array(fdBytes), dependency: descriptor.dependency || [] });
 		this.addDescriptorToRoot(descriptor);
 	}
 
+	/**
+	 * Serialize every binary file descriptor loaded so far into a FileDescriptorSet
+	 * (the `.protoset` format of `protoc --descriptor_set_out` and `grpcurl -protoset`).
+	 * Files are ordered so each follows its dependencies; dependencies that were
+	 * never loaded are listed in `missingDependencies`.
+	 */
+	toFileDescriptorSet(): { data: Buffer; files: string[]; missingDependencies: string[] } {
+		const files: string[] = [];
+		const missing = new Set<string>();
+		const visited = new Set<string>();
+
+		const visit = (filename: string): void => {
+			if (visited.has(filename)) return;
+			visited.add(filename);
+			const file = this.rawFiles.get(filename);
+			if (!file) {
+				missing.add(filename);
+				return;
+			}
+			for (const dependency of file.dependency) visit(dependency);
+			files.push(filename);
+		};
+		for (const filename of Array.from(this.rawFiles.keys())) visit(filename);
+
+		const writer = protobuf.Writer.create();
+		for (const filename of files) {
+			writer.uint32(10).bytes(this.rawFiles.get(filename)!.bytes);
+		}
+		return { data: Buffer.from(writer.finish()), files, missingDependencies: Array.from(missing) };
+	}
+
 	/** Get all discovered services with full method + type definitions */
 	getServices(): GrpcService[] {
 		const services: GrpcService[] = [];
@@ -119,6 +182,7 @@ export class DescriptorParser {
 							const responseTypeDefinition = this.extractMessageTypeDefinition(m.responseType);
 							const methodKey = `${fullPath}.${methodName}`;
 							const httpRule = this.extractHttpRule(methodKey);
+							const idempotencyLevel = this.getIdempotencyLevel(methodKey);
 
 							const methodObj: GrpcMethod = {
 								name: methodName,
@@ -135,6 +199,13 @@ export class DescriptorParser {
 							if (httpRule) {
 								methodObj.httpRule = httpRule;
 							}
+							const description = this.methodComments.get(methodKey);
+							if (description) {
+								methodObj.description = description;
+							}
+							if (idempotencyLevel) {
+								methodObj.idempotencyLevel = idempotencyLevel;
+							}
 
 							methods.push(methodObj);
 						} catch (err) {
@@ -174,6 +245,7 @@ export class DescriptorParser {
 
 	private addDescriptorToRoot(descriptor: any): void {
 		const pkg = descriptor.package || '';
+		const comments = this.leadingComments(descriptor);
 
 		let namespace: protobuf.Namespace = this.root;
 		if (pkg) {
@@ -201,9 +273,9 @@ export class DescriptorParser {
 		}
 
 		if (descriptor.messageType) {
-			for (const msgType of descriptor.messageType) {
+			for (const [index, msgType] of descriptor.messageType.entries()) {
 				try {
-					this.addMessageType(namespace, msgType);
+					this.addMessageType(namespace, msgType, comments, `4,${index}`);
 				} catch (err) {
 					if (!(err as Error).message.includes('duplicate')) {
 						console.warn(`Failed to add message ${msgType.name}:`, err);
@@ -213,9 +285,9 @@ export class DescriptorParser {
 		}
 
 		if (descriptor.service) {
-			for (const svcType of descriptor.service) {
+			for (const [index, svcType] of descriptor.service.entries()) {
 				try {
-					this.addServiceType(namespace, svcType, pkg);
+					this.addServiceType(namespace, svcType, pkg, comments, `6,${index}`);
 				} catch (err) {
 					if (!(err as Error).message.includes('duplicate')) {
 						console.warn(`Failed to add service ${svcType.name}:`, err);
@@ -225,22 +297,25 @@ export class DescriptorParser {
 		}
 	}
 
-	private addMessageType(namespace: protobuf.Namespace, msgType: any): void {
+	private addMessageType(namespace: protobuf.Namespace, msgType: any, comments: Map<string, string>, path: string): void {
 		const fields: any = {};
 
 		if (msgType.field) {
-			for (const field of msgType.field) {
+			for (const [index, field] of msgType.field.entries()) {
 				fields[field.name] = {
 					type: this.getFieldType(field),
 					id: field.number,
 					rule: field.label === 3 ? 'repeated' : undefined,
+					comment: comments.get(`${path},2,${index}`),
 				};
 			}
 		}
 
 		const message = new protobuf.Type(msgType.name);
 		for (const [name, fieldDef] of Object.entries(fields)) {
-			message.add(new protobuf.Field(name, (fieldDef as any).id, (fieldDef as any).type, (fieldDef as any).rule));
+			const field = new protobuf.Field(name, (fieldDef as any).id, (fieldDef as any).type, (fieldDef as any).rule);
+			if ((fieldDef as any).comment) field.comment = (fieldDef as any).comment;
+			message.add(field);
 		}
 
 		namespace.add(message);
@@ -252,8 +327,8 @@ export class DescriptorParser {
 		}
 
 		if (msgType.nestedType) {
-			for (const nested of msgType.nestedType) {
-				this.addMessageType(message, nested);
+			for (const [index, nested] of msgType.nestedType.entries()) {
+				this.addMessageType(message, nested, comments, `${path},3,${index}`);
 			}
 		}
 	}
@@ -271,12 +346,12 @@ export class DescriptorParser {
 		namespace.add(enumObj);
 	}
 
-	private addServiceType(namespace: protobuf.Namespace, svcType: any, packagePath: string): void {
+	private addServiceType(namespace: protobuf.Namespace, svcType: any, packagePath: string, comments: Map<string, string>, path: string): void {
 		const service = new protobuf.Service(svcType.name);
 		const serviceFullName = packagePath ? `${packagePath}.${svcType.name}` : svcType.name;
 
 		if (svcType.method) {
-			for (const method of svcType.method) {
+			for (const [index, method] of svcType.method.entries()) {
 				const protoMethod = new protobuf.Method(
 					method.name,
 					'rpc',
@@ -287,16 +362,44 @@ export class DescriptorParser {
 				);
 				service.add(protoMethod);
 
+				const methodKey = `${serviceFullName}.${method.name}`;
 				if (method.options) {
-					const methodKey = `${serviceFullName}.${method.name}`;
 					this.methodOptions.set(methodKey, method.options);
 				}
+				const comment = comments.get(`${path},2,${index}`);
+				if (comment) {
+					this.methodComments.set(methodKey, comment);
+				}
 			}
 		}
 
 		namespace.add(service);
 	}
 
+	/**
+	 * Leading comments from a file's SourceCodeInfo, keyed by location path
+	 * (e.g. `4,0,2,1` for the second field of the first message).
+	 */
+	private leadingComments(descriptor: any): Map<string, string> {
+		const comments = new Map<string, string>();
+		for (const location of descriptor.sourceCodeInfo?.location ?? []) {
+			const comment = location.leadingComments?.trim();
+			if (comment && location.path?.length) comments.set(location.path.join(','), comment);
+		}
+		return comments;
+	}
+
+	/**
+	 * `idempotency_level` of a method (`package.Service.Method`). Decoded
+	 * descriptors carry the enum number; JSON-shaped options carry the name.
+	 */
+	getIdempotencyLevel(methodKey: string): IdempotencyLevel | undefined {
+		const level = this.methodOptions.get(methodKey)?.idempotencyLevel ?? this.methodOptions.get(methodKey)?.idempotency_level;
+		if (level === 1 || level === 'NO_SIDE_EFFECTS') return 'NO_SIDE_EFFECTS';
+		if (level === 2 || level === 'IDEMPOTENT') return 'IDEMPOTENT';
+		return undefined;
+	}
+
 	private extractHttpRule(methodKey: string): HttpRule | undefined {
 		const options = this.methodOptions.get(methodKey);
 		if (!options) return undefined;
@@ -0,0 +1,260 @@
+// lib/grpc/http-proxy.ts
+// HTTP CONNECT proxy support for outbound gRPC channels, gRPC-Web/Connect
+// requests and registry fetches. A source's own proxy overrides the
+// server-level one from GRPC_EXPLORER_PROXY or HTTPS_PROXY.
+
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP, type Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import type { GrpcProxyConfig } from '@/lib/types/grpc';
+import { joinHostPort, parseEndpointTarget, splitHostPort } from '@/lib/utils/endpoint-address';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+
+const DEFAULT_TUNNEL_TIMEOUT_MS = 10000;
+const DEFAULT_RESPONSE_TIMEOUT_MS = 30000;
+
+/** A proxy chosen for one destination */
+export interface ProxyRoute {
+  host: string;
+  port: number;
+  /** `user:password` for Proxy-Authorization: Basic */
+  credentials?: string;
+}
+
+/**
+ * Server-level proxy. GRPC_EXPLORER_PROXY / GRPC_EXPLORER_NO_PROXY take
+ * precedence over the conventional HTTPS_PROXY / NO_PROXY variables.
+ */
+export function serverProxyConfig(env: Record<string, string | undefined> = process.env): GrpcProxyConfig | undefined {
+  return normalizeProxyConfig({
+    url: env.GRPC_EXPLORER_PROXY || env.HTTPS_PROXY || env.https_proxy,
+    noProxy: env.GRPC_EXPLORER_NO_PROXY ?? env.NO_PROXY ?? env.no_proxy,
+  });
+}
+
+/**
+ * NO_PROXY matching: `*` matches everything, `example.com` and `.example.com`
+ * match the domain and its subdomains, IPs match exactly and CIDR ranges
+ * match the addresses they contain. Ports in entries are ignored.
+ */
+export function matchesNoProxy(host: string, noProxy: string[]): boolean {
+  const hostname = splitHostPort(host).host.toLowerCase();
+  const hostIpFamily = isIP(hostname);
+  return noProxy.some((rawEntry) => {
+    const entry = rawEntry.trim().toLowerCase();
+    if (entry === '*') return true;
+
+    const slash = entry.indexOf('/');
+    if (slash !== -1) {
+      const network = entry.slice(0, slash);
+      const prefix = Number(entry.slice(slash + 1));
+      const family = isIP(network);
+      if (!hostIpFamily || family !== hostIpFamily || !Number.isInteger(prefix)) return false;
+      const range = new BlockList();
+      try {
+        range.addSubnet(network, prefix, family === 6 ? 'ipv6' : 'ipv4');
+      } catch {
+        return false;
+      }
+      return range.check(hostname, hostIpFamily === 6 ? 'ipv6' : 'ipv4');
+    }
+
+    const domain = splitHostPort(entry).host.replace(/^\*?\./, '');
+    if (!domain) return false;
+    return hostname === domain || (!hostIpFamily && hostname.endsWith(`.${domain}`));
+  });
+}
+
+/**
+ * The proxy to use for `host`, or null when no proxy is configured or the
+ * host is in the no-proxy list. `config` replaces the server-level proxy.
+ */
+export function resolveProxy(host: string, config?: GrpcProxyConfig): ProxyRoute | null {
+  const proxy = config ?? serverProxyConfig();
+  if (!proxy || matchesNoProxy(host, proxy.noProxy ?? [])) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy.url) ? proxy.url : `http://${proxy.url}`);
+  } catch {
+    throw new Error(`Proxy: invalid proxy URL "${proxy.url}"`);
+  }
+  if (url.protocol !== 'http:') {
+    throw new Error(`Proxy: unsupported proxy scheme ${url.protocol} (only http:// CONNECT proxies are supported)`);
+  }
+
+  const username = proxy.username ?? decodeURIComponent(url.username);
+  const password = proxy.password ?? decodeURIComponent(url.password);
+  return {
+    host: splitHostPort(url.host).host,
+    port: Number(url.port) || 80,
+    ...(username ? { credentials: `${username}:${password}` } : {}),
+  };
+}
+
+function describeRoute(route: ProxyRoute): string {
+  return joinHostPort(route.host, route.port);
+}
+
+/**
+ * `host:port` a proxy should CONNECT to for `address`. Unix sockets and
+ * literal ipv4:/ipv6: address lists are always reached directly.
+ */
+export function proxyAuthority(address: string): string | null {
+  const target = parseEndpointTarget(address);
+  if (!target) return address;
+  return target.scheme === 'dns' ? target.addresses[0] ?? null : null;
+}
+
+/**
+ * Open a tunnel to `authority` (`host:port`) through the proxy. The socket
+ * carries raw bytes; TLS, when needed, is layered on by the caller.
+ */
+export function openProxyTunnel(route: ProxyRoute, authority: string, timeoutMs = DEFAULT_TUNNEL_TIMEOUT_MS): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      host: route.host,
+      port: route.port,
+      method: 'CONNECT',
+      path: authority,
+      agent: false,
+      headers: {
+        host: authority,
+        ...(route.credentials ? { 'proxy-authorization': `Basic ${Buffer.from(route.credentials).toString('base64')}` } : {}),
+      },
+    });
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error(`Proxy: CONNECT to ${authority} via ${describeRoute(route)} timed out after ${timeoutMs}ms`));
+    });
+    request.once('connect', (response, socket, head) => {
+      socket.setTimeout(0);
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`Proxy: CONNECT to ${authority} via ${describeRoute(route)} failed with HTTP ${response.statusCode}`));
+        return;
+      }
+      // Bytes the proxy sent after its response belong to the tunnelled connection
+      if (head.length > 0) socket.unshift(head);
+      resolve(socket);
+    });
+    request.once('error', (error) => {
+      reject(error.message.startsWith('Proxy:') ? error : new Error(`Proxy: cannot reach ${describeRoute(route)}: ${error.message}`));
+    });
+    request.end();
+  });
+}
+
+/**
+ * grpc-js channel target and options that tunnel `address` through the
+ * proxy, or null for a direct connection. grpc-js sends the CONNECT itself
+ * and still verifies TLS against the real host.
+ */
+export function proxyChannelTarget(
+  address: string,
+  config?: GrpcProxyConfig
+): { target: string; options: Record<string, string> } | null {
+  const authority = proxyAuthority(address);
+  if (!authority) return null;
+  const route = resolveProxy(splitHostPort(authority).host, config);
+  if (!route) return null;
+  return {
+    target: `dns:${describeRoute(route)}`,
+    options: {
+      'grpc.http_connect_target': `dns:${authority}`,
+      'grpc.default_authority': authority,
+      ...(route.credentials ? { 'grpc.http_connect_creds': route.credentials } : {}),
+    },
+  };
+}
+
+/** Request bodies a tunnelled request can send; streams, blobs and forms are refused */
+function tunnelRequestBody(body: RequestInit['body']): string | Uint8Array | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  throw new Error(`Proxy: cannot send a ${body.constructor?.name ?? typeof body} request body through a proxy`);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('The operation was aborted');
+}
+
+/**
+ * `fetch` that honours the proxy settings. Direct requests use the global
+ * fetch unchanged; proxied ones run over a CONNECT tunnel and buffer the body.
+ * A proxied request stops on `init.signal` or after `responseTimeoutMs`
+ * without data from the server.
+ */
+export async function proxyFetch(
+  url: string,
+  init: RequestInit = {},
+  config?: GrpcProxyConfig,
+  responseTimeoutMs = DEFAULT_RESPONSE_TIMEOUT_MS
+): Promise<Response> {
+  const target = new URL(url);
+  const { host } = splitHostPort(target.host);
+  const route = resolveProxy(host, config);
+  if (!route) return fetch(url, init);
+
+  const body = tunnelRequestBody(init.body);
+  const headers = new Headers(init.headers);
+  if (init.body instanceof URLSearchParams && !headers.has('content-type')) {
+    headers.set('content-type', 'application/x-www-form-urlencoded;charset=UTF-8');
+  }
+  const { signal } = init;
+  if (signal?.aborted) throw abortReason(signal);
+
+  const secure = target.protocol === 'https:';
+  const port = Number(target.port) || (secure ? 443 : 80);
+  const socket = await openProxyTunnel(route, joinHostPort(host, port));
+  if (signal?.aborted) {
+    socket.destroy();
+    throw abortReason(signal);
+  }
+
+  return new Promise<Response>((resolve, reject) => {
+    const request = (secure ? https : http).request({
+      method: init.method ?? 'GET',
+      host,
+      port,
+      path: `${target.pathname}${target.search}`,
+      headers: Object.fromEntries(headers.entries()),
+      createConnection: () => (secure ? tlsConnect({ socket, host, ...(isIP(host) ? {} : { servername: host }) }) : socket),
+    });
+    const fail = (error: unknown) => {
+      signal?.removeEventListener('abort', onAbort);
+      request.destroy();
+      socket.destroy();
+      reject(error);
+    };
+    const onAbort = () => fail(abortReason(signal!));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    request.setTimeout(responseTimeoutMs, () => {
+      fail(new Error(`Proxy: no response from ${joinHostPort(host, port)} via ${describeRoute(route)} within ${responseTimeoutMs}ms`));
+    });
+    request.on('response', (response) => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('error', fail);
+      response.on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        // The body is buffered and the tunnel is not reused
+        socket.destroy();
+        const status = response.statusCode ?? 502;
+        const headers = new Headers();
+        Object.entries(response.headers).forEach(([key, value]) => {
+          (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach((item) => headers.append(key, item));
+        });
+        // Null-body statuses must not be given a body
+        const body = status === 204 || status === 304 ? null : Buffer.concat(chunks);
+        resolve(new Response(body, { status, statusText: response.statusMessage ?? '', headers }));
+      });
+    });
+    request.on('error', fail);
+    request.end(body);
+  });
+}
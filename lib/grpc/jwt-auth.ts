@@ -0,0 +1,88 @@
+// lib/grpc/jwt-auth.ts
+// Self-signed JWTs for sources with `jwt` auth. The signing algorithm follows
+// the private key type; a fresh token is signed for every call, so changed
+// claims apply immediately and iat/exp reflect the call.
+
+import { constants, createPrivateKey, sign, type KeyObject } from 'crypto';
+import type { GrpcAuthConfig } from '@/lib/types/grpc';
+
+export type JwtAlgorithm = 'RS256' | 'PS256' | 'ES256' | 'ES384' | 'ES512' | 'EdDSA';
+
+export const DEFAULT_JWT_TTL_SECONDS = 3600;
+
+const EC_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  prime256v1: 'ES256',
+  secp384r1: 'ES384',
+  secp521r1: 'ES512',
+};
+
+/** JWS algorithm for a private key: RSA, RSA-PSS, P-256/384/521 or Ed25519 */
+export function jwtAlgorithm(key: KeyObject): JwtAlgorithm {
+  const type = key.asymmetricKeyType;
+  if (type === 'rsa') return 'RS256';
+  if (type === 'rsa-pss') return 'PS256';
+  if (type === 'ed25519') return 'EdDSA';
+  if (type === 'ec') {
+    const curve = key.asymmetricKeyDetails?.namedCurve ?? '';
+    const algorithm = EC_ALGORITHMS[curve];
+    if (algorithm) return algorithm;
+    throw new Error(`JWT: unsupported EC curve ${curve || 'unknown'}`);
+  }
+  throw new Error(`JWT: unsupported private key type ${type ?? 'unknown'}`);
+}
+
+function ttlSeconds(authConfig: GrpcAuthConfig): number {
+  const ttl = authConfig.jwtTtlSeconds;
+  return ttl && ttl > 0 ? Math.floor(ttl) : DEFAULT_JWT_TTL_SECONDS;
+}
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function signWith(algorithm: JwtAlgorithm, key: KeyObject, input: string): Buffer {
+  switch (algorithm) {
+    case 'EdDSA':
+      return sign(null, Buffer.from(input), key);
+    case 'PS256':
+      return sign('sha256', Buffer.from(input), { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 });
+    case 'ES256':
+    case 'ES384':
+    case 'ES512':
+      // JWS wants the raw r||s signature, not DER
+      return sign(`sha${algorithm.slice(2)}`, Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' });
+    default:
+      return sign('sha256', Buffer.from(input), key);
+  }
+}
+
+/**
+ * Sign a JWT from the `jwt` settings in `authConfig`: custom claims, then
+ * iss, aud, iat and exp (which take precedence over custom claims).
+ */
+export function signServiceJwt(authConfig: GrpcAuthConfig, nowMs = Date.now()): string {
+  if (!authConfig.jwtPrivateKey?.trim()) throw new Error('JWT: a private key is required');
+  let key: KeyObject;
+  try {
+    key = createPrivateKey(authConfig.jwtPrivateKey);
+  } catch (error) {
+    throw new Error(`JWT: invalid private key: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const algorithm = jwtAlgorithm(key);
+  const iat = Math.floor(nowMs / 1000);
+
+  const header = {
+    alg: algorithm,
+    typ: 'JWT',
+    ...(authConfig.jwtKeyId?.trim() ? { kid: authConfig.jwtKeyId.trim() } : {}),
+  };
+  const payload = {
+    ...(authConfig.jwtClaims ?? {}),
+    ...(authConfig.jwtIssuer?.trim() ? { iss: authConfig.jwtIssuer.trim() } : {}),
+    ...(authConfig.jwtAudience?.trim() ? { aud: authConfig.jwtAudience.trim() } : {}),
+    iat,
+    exp: iat + ttlSeconds(authConfig),
+  };
+  const input = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  return `${input}.${base64url(signWith(algorithm, key, input))}`;
+}
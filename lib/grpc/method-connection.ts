@@ -0,0 +1,125 @@
+// lib/grpc/method-connection.ts
+// Open a reflection-initialized client for a service, with endpoint failover
+
+import { ReflectionClient } from './reflection-client';
+import { errorMessage } from '@/lib/utils';
+import {
+  executeWithEndpointFailover,
+  normalizeEndpointStrategy,
+  orderExecutionEndpoints,
+  type EndpointExecutionFailure,
+  type ExecutionEndpoint,
+} from '@/lib/utils/execution-endpoints';
+import { withDefaultPort } from '@/lib/utils/endpoint-address';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import type { GrpcCallOptions, GrpcProxyConfig, GrpcTransport } from '@/lib/types/grpc';
+import type { TlsOptions } from './call-auth';
+
+const REFLECTION_ATTEMPT_TIMEOUT_MS = 8_000;
+
+export interface MethodConnectionOptions {
+  service: string;
+  deadlineAt: number;
+  clientCert?: string | undefined;
+  clientKey?: string | undefined;
+  tlsOptions?: TlsOptions | undefined;
+  /** Auth and user headers, also sent on the reflection requests */
+  metadata?: Record<string, string> | undefined;
+  transport?: GrpcTransport | undefined;
+  callOptions?: GrpcCallOptions | undefined;
+  proxy?: GrpcProxyConfig | undefined;
+  /** Log prefix, e.g. 'Stream' */
+  logTag: string;
+  /** Stops endpoint failover when the browser cancels the request */
+  signal?: AbortSignal | undefined;
+}
+
+export interface MethodConnection {
+  client: ReflectionClient;
+  endpoint: string;
+  usedTls: boolean;
+  failures: EndpointExecutionFailure[];
+}
+
+/**
+ * Use the caller's endpoint attempts when valid, else the single primary
+ * endpoint, ordered by the network's selection strategy using the stats
+ * recorded for each endpoint.
+ */
+export function resolveExecutionAttempts(
+  endpoint: string,
+  endpointAttempts: unknown,
+  tlsEnabled: boolean | undefined,
+  endpointStrategy?: unknown
+): ExecutionEndpoint[] {
+  const configuredAttempts: ExecutionEndpoint[] = Array.isArray(endpointAttempts)
+    ? endpointAttempts
+      .filter((attempt): attempt is ExecutionEndpoint =>
+        typeof attempt?.address === 'string' && typeof attempt?.tlsEnabled === 'boolean'
+      )
+    : [];
+  if (configuredAttempts.length === 0) return [{ address: endpoint, tlsEnabled: tlsEnabled !== false }];
+  // Stats are recorded per endpoint with its default port
+  return orderExecutionEndpoints(configuredAttempts, normalizeEndpointStrategy(endpointStrategy), (attempt) =>
+    endpointManager.getSelectionStats(withDefaultPort(attempt.address, attempt.tlsEnabled))
+  );
+}
+
+/**
+ * Initialize reflection for `service` on the first endpoint that accepts it,
+ * retrying without TLS on TLS handshake errors. The caller owns the returned
+ * client and must close it.
+ */
+export async function connectForMethod(
+  attempts: ExecutionEndpoint[],
+  options: MethodConnectionOptions
+): Promise<MethodConnection> {
+  const { service, deadlineAt, clientCert, clientKey, tlsOptions, metadata, transport, callOptions, proxy, logTag, signal } = options;
+
+  const connect = async (endpointWithPort: string, usedTls: boolean) => {
+    const remainingMs = deadlineAt - Date.now();
+    if (remainingMs <= 0) throw new Error('Execution deadline exhausted before reflection initialization');
+    const client = new ReflectionClient({
+      endpoint: endpointWithPort,
+      tls: usedTls,
+      timeout: Math.min(REFLECTION_ATTEMPT_TIMEOUT_MS, remainingMs),
+      clientCert,
+      clientKey,
+      tlsOptions,
+      metadata,
+      transport,
+      callOptions,
+      proxy,
+    });
+    try {
+      await client.initializeForMethod(service);
+      return client;
+    } catch (error) {
+      client.close();
+      throw new Error(`Reflection initialization failed: ${errorMessage(error)}`);
+    }
+  };
+
+  const opened = await executeWithEndpointFailover(attempts, async (attempt) => {
+    const endpointWithPort = withDefaultPort(attempt.address, attempt.tlsEnabled);
+
+    try {
+      return { client: await connect(endpointWithPort, attempt.tlsEnabled), endpoint: endpointWithPort, usedTls: attempt.tlsEnabled };
+    } catch (err: unknown) {
+      const msg = errorMessage(err);
+      const isTLSError = msg.includes('wrong version number') ||
+                        msg.includes('SSL routines') ||
+                        msg.includes('EPROTO');
+      if (attempt.tlsEnabled && isTLSError) {
+        console.log(`[${logTag}] TLS error detected, retrying ${endpointWithPort} without TLS...`);
+        return { client: await connect(endpointWithPort, false), endpoint: endpointWithPort, usedTls: false };
+      }
+      if (!signal?.aborted) {
+        endpointManager.recordFailure(endpointWithPort, msg.includes('timeout') || msg.includes('ETIMEDOUT'));
+      }
+      throw err;
+    }
+  }, { deadlineAt, signal });
+
+  return { ...opened.value, failures: opened.failures };
+}
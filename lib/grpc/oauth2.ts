@@ -0,0 +1,158 @@
+// lib/grpc/oauth2.ts
+// OAuth2 client-credentials tokens for sources with `oauth2` auth. Tokens are
+// cached per client and refreshed shortly before they expire.
+
+import { createHash } from 'crypto';
+import type { GrpcAuthConfig, GrpcProxyConfig } from '@/lib/types/grpc';
+import { proxyFetch } from './http-proxy';
+
+/** Refresh this long before expiry, or at half the lifetime for short-lived tokens */
+const REFRESH_SKEW_MS = 60 * 1000;
+/** Assumed lifetime when the token response has no expires_in */
+const DEFAULT_TOKEN_LIFETIME_S = 300;
+const TOKEN_REQUEST_TIMEOUT_MS = 10000;
+const MAX_CACHED_TOKENS = 100;
+
+export interface OAuth2Credentials {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  audience?: string | undefined;
+}
+
+interface CachedToken {
+  accessToken: string;
+  /** When the cached token should be replaced (before its real expiry) */
+  refreshAt: number;
+}
+
+const tokens = new Map<string, CachedToken>();
+const pending = new Map<string, Promise<string>>();
+
+/** The client-credentials settings in `authConfig`, or null when incomplete */
+export function oauth2Credentials(authConfig?: GrpcAuthConfig | undefined): OAuth2Credentials | null {
+  if (authConfig?.type !== 'oauth2') return null;
+  const tokenUrl = authConfig.oauth2TokenUrl?.trim();
+  const clientId = authConfig.oauth2ClientId?.trim();
+  if (!tokenUrl || !clientId) return null;
+  const audience = authConfig.oauth2Audience?.trim();
+  return {
+    tokenUrl,
+    clientId,
+    clientSecret: authConfig.oauth2ClientSecret ?? '',
+    scopes: (authConfig.oauth2Scopes ?? []).map((scope) => scope.trim()).filter(Boolean),
+    ...(audience ? { audience } : {}),
+  };
+}
+
+function cacheKey(credentials: OAuth2Credentials): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      credentials.tokenUrl,
+      credentials.clientId,
+      credentials.clientSecret,
+      [...credentials.scopes].sort(),
+      credentials.audience ?? '',
+    ]))
+    .digest('hex');
+}
+
+/** Cache `token`, dropping tokens due for refresh and then the oldest once the cache is full */
+function cacheToken(key: string, token: CachedToken): void {
+  tokens.delete(key);
+  if (tokens.size >= MAX_CACHED_TOKENS) {
+    const now = Date.now();
+    tokens.forEach((cached, cachedKey) => {
+      if (now >= cached.refreshAt) tokens.delete(cachedKey);
+    });
+  }
+  if (tokens.size >= MAX_CACHED_TOKENS) tokens.delete(tokens.keys().next().value!);
+  tokens.set(key, token);
+}
+
+/** RFC 6749 form encoding for client_secret_basic */
+function formEncode(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+async function requestToken(credentials: OAuth2Credentials, proxy?: GrpcProxyConfig): Promise<CachedToken> {
+  const form = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (credentials.scopes.length > 0) form.set('scope', credentials.scopes.join(' '));
+  if (credentials.audience) form.set('audience', credentials.audience);
+
+  const basic = Buffer.from(`${formEncode(credentials.clientId)}:${formEncode(credentials.clientSecret)}`).toString('base64');
+  const requestedAt = Date.now();
+  let response: Response;
+  try {
+    response = await proxyFetch(credentials.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json',
+        authorization: `Basic ${basic}`,
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+    }, proxy);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`OAuth2: token request to ${credentials.tokenUrl} failed: ${message}`);
+  }
+
+  const text = await response.text();
+  let payload: Record<string, unknown> = {};
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Reported below with the status
+  }
+
+  if (!response.ok) {
+    const reason = [payload.error, payload.error_description].filter((part) => typeof part === 'string').join(': ');
+    throw new Error(`OAuth2: token request to ${credentials.tokenUrl} failed with HTTP ${response.status}${reason ? ` (${reason})` : ''}`);
+  }
+  if (typeof payload.access_token !== 'string' || !payload.access_token) {
+    throw new Error(`OAuth2: token response from ${credentials.tokenUrl} has no access_token`);
+  }
+
+  const expiresIn = Number(payload.expires_in);
+  const lifetimeMs = (Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : DEFAULT_TOKEN_LIFETIME_S) * 1000;
+  return {
+    accessToken: payload.access_token,
+    refreshAt: requestedAt + lifetimeMs - Math.min(REFRESH_SKEW_MS, lifetimeMs / 2),
+  };
+}
+
+/**
+ * A current access token for `credentials`. Cached tokens are reused until
+ * they near expiry; concurrent callers share one token request.
+ */
+export function getOAuth2Token(credentials: OAuth2Credentials, proxy?: GrpcProxyConfig): Promise<string> {
+  const key = cacheKey(credentials);
+  const cached = tokens.get(key);
+  if (cached && Date.now() < cached.refreshAt) return Promise.resolve(cached.accessToken);
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const request = requestToken(credentials, proxy)
+    .then((token) => {
+      cacheToken(key, token);
+      console.log(`[OAuth2] Fetched token for ${credentials.clientId} from ${credentials.tokenUrl}`);
+      return token.accessToken;
+    })
+    .finally(() => pending.delete(key));
+  pending.set(key, request);
+  return request;
+}
+
+/** Forget cached tokens, e.g. after the server rejected one. Returns the number dropped. */
+export function clearOAuth2Tokens(credentials?: OAuth2Credentials): number {
+  if (!credentials) {
+    const count = tokens.size;
+    tokens.clear();
+    return count;
+  }
+  return tokens.delete(cacheKey(credentials)) ? 1 : 0;
+}
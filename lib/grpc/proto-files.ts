@@ -0,0 +1,459 @@
+// lib/grpc/proto-files.ts
+// Parse uploaded .proto sources with protobufjs and convert them to
+// FileDescriptorProto objects for DescriptorParser. Imports resolve against
+// the other uploaded files (any import root) and the bundled well-known types.
+
+import { posix } from 'path';
+import * as protobuf from 'protobufjs';
+import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+
+/** FileDescriptorProto in the shape protobufjs decodes it (camelCase, numeric enums) */
+export type FileDescriptorObject = Record<string, any>;
+
+export interface ProtoSourceFile {
+  /** Path as uploaded, e.g. `proto/cosmos/bank/v1beta1/query.proto` */
+  name: string;
+  content: string;
+}
+
+export interface ParsedProtoFiles {
+  /** Uploaded and bundled files, each after the files it imports */
+  fileDescriptors: FileDescriptorObject[];
+  /** Uploaded files by the name they are imported as */
+  files: string[];
+  /** Imports that were neither uploaded nor bundled; options they define are kept as written */
+  missingImports: string[];
+}
+
+const PARSE_OPTIONS: protobuf.IParseOptions = { keepCase: true, alternateCommentMode: true };
+
+// FieldDescriptorProto.Type
+const SCALAR_TYPES: Record<string, number> = {
+  double: 1, float: 2, int64: 3, uint64: 4, int32: 5, fixed64: 6, fixed32: 7,
+  bool: 8, string: 9, bytes: 12, uint32: 13, sfixed32: 15, sfixed64: 16, sint32: 17, sint64: 18,
+};
+const TYPE_MESSAGE = 11;
+const TYPE_ENUM = 14;
+const LABEL_OPTIONAL = 1;
+const LABEL_REQUIRED = 2;
+const LABEL_REPEATED = 3;
+
+// Field numbers used in SourceCodeInfo location paths
+const FILE_MESSAGE_TYPE = 4;
+const FILE_ENUM_TYPE = 5;
+const FILE_SERVICE = 6;
+const MESSAGE_FIELD = 2;
+const MESSAGE_NESTED_TYPE = 3;
+const MESSAGE_ENUM_TYPE = 4;
+const ENUM_VALUE = 2;
+const SERVICE_METHOD = 2;
+
+// protobufjs writes `max` in reserved and extension ranges as these (inclusive) values
+const MESSAGE_MAX_FIELD_NUMBER = 0x1fffffff;
+
+/** Bundled definitions for imports that are not uploaded */
+function wellKnownProto(name: string): protobuf.INamespace | undefined {
+  if (name === 'google/protobuf/descriptor.proto') return descriptorJson as protobuf.INamespace;
+  return protobuf.common.get(name) ?? undefined;
+}
+
+/** Parse one file into `root`; protobufjs tags definitions and errors with `parse.filename` */
+function parseProto(filename: string, content: string, root: protobuf.Root): protobuf.IParserResult {
+  (protobuf.parse as unknown as { filename: string | null }).filename = filename;
+  return protobuf.parse(content, root, PARSE_OPTIONS);
+}
+
+function normalizeProtoPath(name: string): string {
+  return posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+}
+
+/** Option keys as protobufjs decodes descriptors: standard options camelCased, extensions kept as `(name)` */
+function camelCaseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(camelCaseKeys);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+    key.startsWith('(') ? key : protobuf.util.camelCase(key),
+    camelCaseKeys(entry),
+  ]));
+}
+
+/**
+ * Options as written in the source. `parsedOptions` keeps aggregate values
+ * such as `(google.api.http)` whole, where `options` flattens them.
+ */
+function optionsOf(object: protobuf.ReflectionObject, exclude: string[] = []): Record<string, unknown> | undefined {
+  const merged: Record<string, unknown> = {};
+  const parsed = (object.parsedOptions ?? []) as unknown as Array<Record<string, unknown>>;
+  for (const option of parsed) {
+    for (const [key, value] of Object.entries(option)) {
+      if (exclude.includes(key) || key.startsWith('features.')) continue;
+      merged[key] = key in merged ? ([] as unknown[]).concat(merged[key], value) : value;
+    }
+  }
+  const options = camelCaseKeys(merged) as Record<string, any>;
+  // A single additional binding parses as an object; descriptors always carry a list
+  const http = options['(google.api.http)'];
+  if (http?.additionalBindings && !Array.isArray(http.additionalBindings)) {
+    http.additionalBindings = [http.additionalBindings];
+  }
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/** protoc's map entry name: `label_values` -> `LabelValuesEntry` */
+function mapEntryName(fieldName: string): string {
+  const camel = fieldName.replace(/_+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+  return `${camel.charAt(0).toUpperCase()}${camel.slice(1)}Entry`;
+}
+
+function typeReference(type: string, resolvedType: protobuf.Type | protobuf.Enum | null): { type: number; typeName?: string } {
+  if (type in SCALAR_TYPES) return { type: SCALAR_TYPES[type] };
+  if (resolvedType instanceof protobuf.Enum) return { type: TYPE_ENUM, typeName: resolvedType.fullName };
+  if (resolvedType) return { type: TYPE_MESSAGE, typeName: resolvedType.fullName };
+  return { type: TYPE_MESSAGE, typeName: type.startsWith('.') ? type : `.${type}` };
+}
+
+class FileDescriptorBuilder {
+  private locations: FileDescriptorObject[] = [];
+
+  constructor(private readonly fileName: string) {}
+
+  private comment(path: number[], object: { comment?: string | null }): void {
+    if (!object.comment) return;
+    // protobufjs does not track source positions, so spans are left empty
+    this.locations.push({ path, span: [0, 0, 0], leadingComments: ` ${object.comment}\n` });
+  }
+
+  build(root: protobuf.Root, meta: { package?: string; dependency: string[]; syntax?: string; options?: Record<string, unknown> }): FileDescriptorObject {
+    const messages: protobuf.Type[] = [];
+    const enums: protobuf.Enum[] = [];
+    const services: protobuf.Service[] = [];
+    const extensions: protobuf.Field[] = [];
+
+    const collect = (namespace: protobuf.NamespaceBase): void => {
+      for (const object of namespace.nestedArray) {
+        if (object instanceof protobuf.Type) {
+          if (object.filename === this.fileName) messages.push(object);
+        } else if (object instanceof protobuf.Enum) {
+          if (object.filename === this.fileName) enums.push(object);
+        } else if (object instanceof protobuf.Service) {
+          if (object.filename === this.fileName) services.push(object);
+        } else if (object instanceof protobuf.Field) {
+          if (object.filename === this.fileName && object.extend) extensions.push(object);
+        } else if (object instanceof protobuf.Namespace) {
+          collect(object);
+        }
+      }
+    };
+    collect(root);
+
+    const descriptor: FileDescriptorObject = {
+      name: this.fileName,
+      ...(meta.package ? { package: meta.package } : {}),
+      dependency: meta.dependency,
+      messageType: messages.map((message, i) => this.message(message, [FILE_MESSAGE_TYPE, i])),
+      enumType: enums.map((enumType, i) => this.enumType(enumType, [FILE_ENUM_TYPE, i])),
+      service: services.map((service, i) => this.service(service, [FILE_SERVICE, i])),
+      extension: extensions.map((field) => this.field(field)),
+      ...(meta.options ? { options: meta.options } : {}),
+      ...(meta.syntax ? { syntax: meta.syntax } : {}),
+    };
+    if (this.locations.length > 0) descriptor.sourceCodeInfo = { location: this.locations };
+    return descriptor;
+  }
+
+  private field(field: protobuf.Field, oneofIndex?: number): FileDescriptorObject {
+    const options = optionsOf(field, ['default', 'json_name', 'proto3_optional']);
+    const defaultValue = field.options?.default;
+    return {
+      name: field.name,
+      number: field.id,
+      label: field.repeated ? LABEL_REPEATED : field.required ? LABEL_REQUIRED : LABEL_OPTIONAL,
+      ...typeReference(field.type, field.resolvedType),
+      ...(field.extend ? { extendee: field.extensionField?.parent?.fullName ?? `.${field.extend.replace(/^\./, '')}` } : {}),
+      ...(defaultValue !== undefined ? { defaultValue: String(defaultValue) } : {}),
+      ...(field.options?.json_name ? { jsonName: field.options.json_name } : {}),
+      ...(oneofIndex !== undefined ? { oneofIndex } : {}),
+      ...(options ? { options } : {}),
+      ...(field.options?.proto3_optional ? { proto3Optional: true } : {}),
+    };
+  }
+
+  private message(message: protobuf.Type, path: number[]): FileDescriptorObject {
+    this.comment(path, message);
+
+    // Synthetic oneofs for proto3 `optional` fields follow the real ones
+    const isSynthetic = (oneof: protobuf.OneOf) => oneof.fieldsArray.length === 1 && Boolean(oneof.fieldsArray[0].options?.proto3_optional);
+    const oneofs = [...message.oneofsArray.filter((oneof) => !isSynthetic(oneof)), ...message.oneofsArray.filter(isSynthetic)];
+
+    const nestedMessages = message.nestedArray.filter((object): object is protobuf.Type => object instanceof protobuf.Type);
+    const nestedEnums = message.nestedArray.filter((object): object is protobuf.Enum => object instanceof protobuf.Enum);
+    const nestedExtensions = message.nestedArray.filter((object): object is protobuf.Field => object instanceof protobuf.Field && Boolean(object.extend));
+    const nestedType = nestedMessages.map((nested, i) => this.message(nested, [...path, MESSAGE_NESTED_TYPE, i]));
+
+    // Extension fields added to this message by `extend` blocks belong to the extending file
+    const fields = message.fieldsArray.filter((field) => !field.declaringField);
+    const field = fields.map((entry, i) => {
+      this.comment([...path, MESSAGE_FIELD, i], entry);
+      const oneofIndex = entry.partOf ? oneofs.indexOf(entry.partOf) : -1;
+      if (!(entry instanceof protobuf.MapField)) return this.field(entry, oneofIndex >= 0 ? oneofIndex : undefined);
+
+      const entryName = mapEntryName(entry.name);
+      nestedType.push({
+        name: entryName,
+        field: [
+          { name: 'key', number: 1, label: LABEL_OPTIONAL, type: SCALAR_TYPES[entry.keyType] },
+          { name: 'value', number: 2, label: LABEL_OPTIONAL, ...typeReference(entry.type, entry.resolvedType) },
+        ],
+        options: { mapEntry: true },
+      });
+      const options = optionsOf(entry, ['json_name']);
+      return {
+        name: entry.name,
+        number: entry.id,
+        label: LABEL_REPEATED,
+        type: TYPE_MESSAGE,
+        typeName: `${message.fullName}.${entryName}`,
+        ...(entry.options?.json_name ? { jsonName: entry.options.json_name } : {}),
+        ...(options ? { options } : {}),
+      };
+    });
+
+    const ranges = (message.reserved ?? []).filter((entry): entry is number[] => Array.isArray(entry));
+    const names = (message.reserved ?? []).filter((entry): entry is string => typeof entry === 'string');
+    const options = optionsOf(message);
+
+    return {
+      name: message.name,
+      field,
+      nestedType,
+      enumType: nestedEnums.map((nested, i) => this.enumType(nested, [...path, MESSAGE_ENUM_TYPE, i])),
+      extension: nestedExtensions.map((extension) => this.field(extension)),
+      // Descriptor range ends are exclusive; protobufjs stores them inclusive
+      extensionRange: (message.extensions ?? []).map(([start, end]) => ({ start, end: Math.min(end, MESSAGE_MAX_FIELD_NUMBER) + 1 })),
+      oneofDecl: oneofs.map((oneof) => ({ name: oneof.name })),
+      ...(options ? { options } : {}),
+      reservedRange: ranges.map(([start, end]) => ({ start, end: Math.min(end, MESSAGE_MAX_FIELD_NUMBER) + 1 })),
+      reservedName: names,
+    };
+  }
+
+  private enumType(enumType: protobuf.Enum, path: number[]): FileDescriptorObject {
+    this.comment(path, enumType);
+    const options = optionsOf(enumType);
+    return {
+      name: enumType.name,
+      value: Object.entries(enumType.values).map(([name, number], i) => {
+        this.comment([...path, ENUM_VALUE, i], { comment: enumType.comments?.[name] ?? null });
+        const valueOptions = enumType.valuesOptions?.[name];
+        return { name, number, ...(valueOptions ? { options: camelCaseKeys(valueOptions) } : {}) };
+      }),
+      ...(options ? { options } : {}),
+      // Enum reserved range ends are inclusive, as in protobufjs
+      reservedRange: (enumType.reserved ?? [])
+        .filter((entry): entry is number[] => Array.isArray(entry))
+        .map(([start, end]) => ({ start, end })),
+      reservedName: (enumType.reserved ?? []).filter((entry): entry is string => typeof entry === 'string'),
+    };
+  }
+
+  private service(service: protobuf.Service, path: number[]): FileDescriptorObject {
+    this.comment(path, service);
+    const options = optionsOf(service);
+    return {
+      name: service.name,
+      method: service.methodsArray.map((method, i) => {
+        this.comment([...path, SERVICE_METHOD, i], method);
+        const methodOptions = optionsOf(method);
+        return {
+          name: method.name,
+          inputType: method.resolvedRequestType?.fullName ?? `.${method.requestType}`,
+          outputType: method.resolvedResponseType?.fullName ?? `.${method.responseType}`,
+          ...(method.requestStream ? { clientStreaming: true } : {}),
+          ...(method.responseStream ? { serverStreaming: true } : {}),
+          ...(methodOptions ? { options: methodOptions } : {}),
+        };
+      }),
+      ...(options ? { options } : {}),
+    };
+  }
+}
+
+interface ScannedFile {
+  path: string;
+  content: string;
+  package?: string;
+  imports: string[];
+  syntax?: string;
+  options?: Record<string, unknown>;
+}
+
+function scanProtoFile(file: ProtoSourceFile): ScannedFile {
+  const path = normalizeProtoPath(file.name);
+  const scratch = new protobuf.Root();
+  let parsed: protobuf.IParserResult;
+  try {
+    parsed = parseProto(path, file.content, scratch);
+  } catch (err: unknown) {
+    throw new Error(`Failed to parse ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  // File options are set on the package namespace (or the root before a package statement)
+  const fileOptions = {
+    ...optionsOf(scratch),
+    ...(parsed.package ? optionsOf(scratch.lookup(parsed.package) ?? scratch) : {}),
+  };
+  const syntax = /^\s*syntax\s*=\s*["'](proto[23])["']/m.exec(file.content)?.[1]
+    ?? (/^\s*edition\s*=/m.test(file.content) ? 'editions' : undefined);
+
+  return {
+    path,
+    content: file.content,
+    ...(parsed.package ? { package: parsed.package } : {}),
+    imports: [...(parsed.imports ?? []), ...(parsed.weakImports ?? [])],
+    ...(syntax ? { syntax } : {}),
+    ...(Object.keys(fileOptions).length > 0 ? { options: fileOptions } : {}),
+  };
+}
+
+/**
+ * Parse uploaded .proto files into FileDescriptorProtos. Imports resolve to an
+ * uploaded file with the same path or path suffix (so archives may keep their
+ * import root, e.g. `proto/`), then to the bundled google/protobuf types, then
+ * to a unique uploaded file with the same base name.
+ */
+export function parseProtoFiles(sources: ProtoSourceFile[]): ParsedProtoFiles {
+  if (sources.length === 0) throw new Error('No .proto files provided');
+
+  const scanned = sources.map(scanProtoFile);
+  const byPath = new Map<string, ScannedFile>();
+  for (const file of scanned) {
+    if (byPath.has(file.path)) throw new Error(`Duplicate file: ${file.path}`);
+    byPath.set(file.path, file);
+  }
+  const paths = Array.from(byPath.keys());
+
+  // Import name per uploaded path, and the import roots they reveal
+  const importNames = new Map<string, string>();
+  const importRoots = new Set<string>();
+  const wellKnown = new Set<string>();
+  const missing = new Set<string>();
+  const resolved = new Map<string, string>(); // import -> uploaded path or bundled name
+
+  const resolveImport = (target: string): string | undefined => {
+    const normalized = normalizeProtoPath(target);
+    if (resolved.has(normalized)) return resolved.get(normalized);
+
+    let match: string | undefined;
+    if (byPath.has(normalized)) {
+      match = normalized;
+    } else {
+      const suffixed = paths.filter((path) => path.endsWith(`/${normalized}`)).sort((a, b) => a.length - b.length);
+      if (suffixed.length > 0) {
+        match = suffixed[0];
+        importRoots.add(match.slice(0, match.length - normalized.length));
+      }
+    }
+    if (match) {
+      if (!importNames.has(match)) importNames.set(match, normalized);
+    } else if (wellKnownProto(normalized)) {
+      wellKnown.add(normalized);
+      resolved.set(normalized, normalized);
+      return normalized;
+    } else {
+      const sameName = paths.filter((path) => posix.basename(path) === posix.basename(normalized));
+      if (sameName.length === 1) {
+        match = sameName[0];
+        if (!importNames.has(match)) importNames.set(match, normalized);
+      }
+    }
+
+    if (match) resolved.set(normalized, match);
+    else missing.add(normalized);
+    return match;
+  };
+
+  for (const file of scanned) file.imports.forEach(resolveImport);
+
+  // Files nobody imports take their name relative to an import root seen elsewhere
+  const usedNames = new Set(importNames.values());
+  const fileName = (path: string): string => {
+    const imported = importNames.get(path);
+    if (imported) return imported;
+    const root = Array.from(importRoots).find((prefix) => path.startsWith(prefix));
+    const name = root ? path.slice(root.length) : path;
+    return usedNames.has(name) ? path : name;
+  };
+  const names = new Map(paths.map((path) => [path, fileName(path)]));
+  const dependencyName = (target: string): string => {
+    const normalized = normalizeProtoPath(target);
+    const match = resolved.get(normalized);
+    return match && names.has(match) ? names.get(match)! : normalized;
+  };
+
+  const root = new protobuf.Root();
+  for (const name of Array.from(wellKnown)) {
+    root.addJSON(wellKnownProto(name)!.nested ?? {});
+    // Bundled JSON carries no file names; claim the objects it just added
+    const claim = (namespace: protobuf.NamespaceBase): void => {
+      for (const object of namespace.nestedArray) {
+        const definition = object instanceof protobuf.Type || object instanceof protobuf.Enum || object instanceof protobuf.Service;
+        if (definition && !object.filename) object.filename = name;
+        else if (object instanceof protobuf.Namespace) claim(object);
+      }
+    };
+    claim(root);
+  }
+  for (const file of scanned) {
+    try {
+      parseProto(names.get(file.path)!, file.content, root);
+    } catch (err: unknown) {
+      throw new Error(`Failed to load ${file.path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  try {
+    root.resolveAll();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(missing.size > 0
+      ? `${message}. Missing imports: ${Array.from(missing).join(', ')}`
+      : message);
+  }
+
+  // Dependencies before the files that import them
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+  const dependencies = (path: string): string[] => byPath.get(path)?.imports
+    .map((target) => resolved.get(normalizeProtoPath(target)))
+    .filter((entry): entry is string => entry !== undefined && byPath.has(entry)) ?? [];
+  const visit = (path: string): void => {
+    if (visited.has(path)) return;
+    visited.add(path);
+    dependencies(path).forEach(visit);
+    ordered.push(path);
+  };
+  paths.forEach(visit);
+
+  const fileDescriptors = [
+    ...Array.from(wellKnown).map((name) => new FileDescriptorBuilder(name).build(root, {
+      package: 'google.protobuf',
+      dependency: [],
+      syntax: name === 'google/protobuf/descriptor.proto' ? 'proto2' : 'proto3',
+    })),
+    ...ordered.map((path) => {
+      const file = byPath.get(path)!;
+      return new FileDescriptorBuilder(names.get(path)!).build(root, {
+        ...(file.package ? { package: file.package } : {}),
+        dependency: file.imports.map(dependencyName),
+        ...(file.syntax ? { syntax: file.syntax } : {}),
+        ...(file.options ? { options: file.options } : {}),
+      });
+    }),
+  ];
+
+  return {
+    fileDescriptors,
+    files: ordered.map((path) => names.get(path)!),
+    missingImports: Array.from(missing).sort(),
+  };
+}
@@ -0,0 +1,559 @@
+// lib/grpc/proto-printer.ts
+// Rebuild .proto source text from binary FileDescriptorProtos. Custom options
+// declared by the loaded files (google.api.http, gogoproto, ...) are decoded
+// and printed by name; the original layout and ordering are not recoverable,
+// so definitions follow protoc's descriptor order.
+
+import * as protobuf from 'protobufjs';
+import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+import { splitFileDescriptorSet } from './descriptor-parser';
+import type { ReconstructedProtoFile } from '@/lib/types/grpc';
+
+type Descriptor = Record<string, any>;
+
+const DESCRIPTOR_PROTO = 'google/protobuf/descriptor.proto';
+
+// FieldDescriptorProto.Type names as decoded with `enums: String`
+export const SCALAR_TYPES: Record<string, string> = {
+  TYPE_DOUBLE: 'double', TYPE_FLOAT: 'float', TYPE_INT64: 'int64', TYPE_UINT64: 'uint64',
+  TYPE_INT32: 'int32', TYPE_FIXED64: 'fixed64', TYPE_FIXED32: 'fixed32', TYPE_BOOL: 'bool',
+  TYPE_STRING: 'string', TYPE_BYTES: 'bytes', TYPE_UINT32: 'uint32', TYPE_SFIXED32: 'sfixed32',
+  TYPE_SFIXED64: 'sfixed64', TYPE_SINT32: 'sint32', TYPE_SINT64: 'sint64',
+};
+
+// Field numbers used in SourceCodeInfo location paths
+const FILE_PACKAGE = 2;
+const FILE_MESSAGE_TYPE = 4;
+const FILE_ENUM_TYPE = 5;
+const FILE_SERVICE = 6;
+const FILE_EXTENSION = 7;
+const MESSAGE_FIELD = 2;
+const MESSAGE_NESTED_TYPE = 3;
+const MESSAGE_ENUM_TYPE = 4;
+const MESSAGE_EXTENSION = 6;
+const MESSAGE_ONEOF = 8;
+const ENUM_VALUE = 2;
+const SERVICE_METHOD = 2;
+
+// Largest field number; reserved and extension ranges ending past it print as `max`
+const MAX_FIELD_NUMBER = 0x1fffffff;
+const MAX_ENUM_NUMBER = 0x7fffffff;
+
+const TO_OBJECT: protobuf.IConversionOptions = { enums: String, longs: String, bytes: String, arrays: true };
+
+type DescriptorJson = { nested: { google: { nested: { protobuf: { nested: Record<string, unknown> } } } } };
+
+/** Types of descriptor.json, whose field names protobufjs camelCases */
+const DESCRIPTOR_TYPES = new Set(
+  Object.keys((descriptorJson as DescriptorJson).nested.google.nested.protobuf.nested).map((name) => `.google.protobuf.${name}`)
+);
+
+function fieldTypeJson(field: Descriptor): string {
+  return SCALAR_TYPES[field.type] ?? field.typeName;
+}
+
+/** protobufjs JSON for a message and its nested types, enough to decode option values */
+function messageJson(message: Descriptor, extensions: Array<{ scope: string; field: Descriptor }>, scope: string): protobuf.INamespace {
+  const fullName = `${scope}.${message.name}`;
+  const nested: Record<string, protobuf.AnyNestedObject> = {};
+  for (const type of message.nestedType ?? []) nested[type.name] = messageJson(type, extensions, fullName) as protobuf.AnyNestedObject;
+  for (const type of message.enumType ?? []) nested[type.name] = enumJson(type);
+  for (const field of message.extension ?? []) extensions.push({ scope: fullName, field });
+
+  const fields: Record<string, protobuf.IField> = {};
+  for (const field of message.field ?? []) {
+    fields[field.name] = {
+      type: fieldTypeJson(field),
+      id: field.number,
+      ...(field.label === 'LABEL_REPEATED' ? { rule: 'repeated' } : {}),
+    };
+  }
+  return { fields, ...(Object.keys(nested).length > 0 ? { nested } : {}) } as protobuf.INamespace;
+}
+
+function enumJson(enumType: Descriptor): protobuf.IEnum {
+  return { values: Object.fromEntries((enumType.value ?? []).map((value: Descriptor) => [value.name, value.number ?? 0])) };
+}
+
+/**
+ * descriptor.proto types plus every type and extension the files declare, so
+ * options decode with their extensions by name instead of being dropped.
+ */
+function buildOptionsRoot(files: Descriptor[]): protobuf.Root {
+  const root = protobuf.Root.fromJSON(descriptorJson);
+  const extensions: Array<{ scope: string; field: Descriptor }> = [];
+
+  for (const file of files) {
+    if (file.name === DESCRIPTOR_PROTO) continue;
+    const scope = file.package ? `.${file.package}` : '';
+    const nested: Record<string, protobuf.AnyNestedObject> = {};
+    for (const type of file.messageType ?? []) nested[type.name] = messageJson(type, extensions, scope) as protobuf.AnyNestedObject;
+    for (const type of file.enumType ?? []) nested[type.name] = enumJson(type);
+    for (const field of file.extension ?? []) extensions.push({ scope, field });
+
+    try {
+      const namespace = file.package ? root.define(file.package) : root;
+      namespace.addJSON(nested);
+    } catch {
+      // Duplicate definitions; the first file to declare a type wins
+    }
+  }
+
+  for (const { scope, field } of extensions) {
+    let extension: protobuf.Field | undefined;
+    try {
+      const parent = scope ? root.lookup(scope) as protobuf.Namespace | null : root;
+      if (!parent) continue;
+      extension = new protobuf.Field(
+        field.name,
+        field.number,
+        fieldTypeJson(field),
+        field.label === 'LABEL_REPEATED' ? 'repeated' : undefined,
+        field.extendee.replace(/^\./, '')
+      );
+      parent.add(extension);
+      extension.resolve();
+      if (extension.resolvedType instanceof protobuf.Type) extension.resolvedType.resolveAll();
+    } catch {
+      // Undecodable extension (missing types); leave it out rather than fail every file
+      try { extension?.parent?.remove(extension); } catch { /* not added */ }
+    }
+  }
+
+  return root;
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/** Bytes (base64 from toObject) as a proto string literal with octal escapes */
+function quoteBytes(base64: string): string {
+  let out = '';
+  for (const byte of Array.from(Buffer.from(base64, 'base64'))) {
+    if (byte >= 0x20 && byte < 0x7f && byte !== 0x22 && byte !== 0x5c) {
+      out += String.fromCharCode(byte);
+    } else {
+      out += `\\${byte.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return `"${out}"`;
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+}
+
+/** protoc's default json_name: underscores dropped, the next letter upper-cased */
+function defaultJsonName(name: string): string {
+  return name.replace(/_+([a-zA-Z0-9]?)/g, (_, char: string) => char.toUpperCase());
+}
+
+function rangeText(start: number, end: number, max: number): string {
+  if (end >= max) return `${start} to max`;
+  return start === end ? String(start) : `${start} to ${end}`;
+}
+
+function commentLines(text: string, indent: string): string[] {
+  return text.replace(/\n$/, '').split('\n').map((line) => `${indent}//${line.startsWith(' ') || !line ? '' : ' '}${line}`);
+}
+
+/**
+ * Fields set on a decoded message as [field, value] pairs in field-number order,
+ * as protoc prints text format; repeated fields give one pair per value.
+ */
+function setFields(type: protobuf.Type, value: Descriptor, exclude: string[]): Array<[protobuf.Field, unknown]> {
+  const pairs: Array<[protobuf.Field, unknown]> = [];
+  const fields = [...type.fieldsArray].sort((a, b) => a.id - b.id);
+  for (const field of fields) {
+    const entry = value[field.name];
+    if (exclude.includes(field.name) || entry === undefined || entry === null) continue;
+    for (const item of Array.isArray(entry) ? entry : [entry]) pairs.push([field, item]);
+  }
+  return pairs;
+}
+
+class ProtoFilePrinter {
+  private readonly lines: string[] = [];
+  private readonly comments = new Map<string, { leading?: string; trailing?: string }>();
+  private readonly pkg: string;
+  private readonly editions: boolean;
+  private readonly proto3: boolean;
+  readonly services: string[] = [];
+
+  /**
+   * @param symbols Full names (no leading dot) of every package and type in the set,
+   *   used to shorten type references without changing what they resolve to
+   */
+  constructor(private readonly file: Descriptor, private readonly root: protobuf.Root, private readonly symbols: Set<string>) {
+    this.pkg = file.package ?? '';
+    this.proto3 = file.syntax === 'proto3';
+    this.editions = file.syntax === 'editions';
+    for (const location of file.sourceCodeInfo?.location ?? []) {
+      if (!location.path?.length) continue;
+      this.comments.set(location.path.join(','), {
+        ...(location.leadingComments ? { leading: location.leadingComments } : {}),
+        ...(location.trailingComments ? { trailing: location.trailingComments.trim() } : {}),
+      });
+    }
+  }
+
+  print(): string {
+    const { file } = this;
+    if (this.editions) {
+      this.lines.push(`edition = "${String(file.edition ?? '').replace(/^EDITION_/, '')}";`);
+    } else {
+      this.lines.push(`syntax = "${this.proto3 ? 'proto3' : 'proto2'}";`);
+    }
+    if (this.pkg) {
+      this.blank();
+      this.leading([FILE_PACKAGE], '');
+      this.lines.push(`package ${this.pkg};`);
+    }
+
+    const dependencies: string[] = file.dependency ?? [];
+    if (dependencies.length > 0) {
+      this.blank();
+      dependencies.forEach((dependency, index) => {
+        const modifier = file.publicDependency?.includes(index) ? 'public ' : file.weakDependency?.includes(index) ? 'weak ' : '';
+        this.lines.push(`import ${modifier}"${dependency}";`);
+      });
+    }
+
+    const options = this.optionStatements('FileOptions', file.options, '');
+    if (options.length > 0) {
+      this.blank();
+      this.lines.push(...options);
+    }
+
+    (file.enumType ?? []).forEach((enumType: Descriptor, index: number) => {
+      this.blank();
+      this.printEnum(enumType, [FILE_ENUM_TYPE, index], '');
+    });
+    (file.messageType ?? []).forEach((message: Descriptor, index: number) => {
+      this.blank();
+      this.printMessage(message, [FILE_MESSAGE_TYPE, index], '', this.pkg);
+    });
+    (file.service ?? []).forEach((service: Descriptor, index: number) => {
+      this.blank();
+      this.printService(service, [FILE_SERVICE, index]);
+    });
+    this.printExtensions(file.extension ?? [], [FILE_EXTENSION], '', this.pkg);
+
+    return `${this.lines.join('\n')}\n`;
+  }
+
+  private blank(): void {
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') this.lines.push('');
+  }
+
+  private leading(path: number[], indent: string): void {
+    const comment = this.comments.get(path.join(','))?.leading;
+    if (comment) this.lines.push(...commentLines(comment, indent));
+  }
+
+  /** Emit `line`, preceded by its leading comment and followed by a one-line trailing comment */
+  private emit(path: number[], indent: string, line: string): void {
+    this.leading(path, indent);
+    const trailing = this.comments.get(path.join(','))?.trailing;
+    this.lines.push(trailing && !trailing.includes('\n') ? `${indent}${line} // ${trailing}` : `${indent}${line}`);
+  }
+
+  /**
+   * Reference to `typeName` relative to the innermost enclosing scope, down to
+   * this file's package, that protoc still resolves to the same type from `scope`.
+   */
+  private typeName(typeName: string, scope: string): string {
+    const target = typeName.replace(/^\./, '');
+    for (let current = scope; current && current.length >= this.pkg.length; current = current.slice(0, Math.max(current.lastIndexOf('.'), 0))) {
+      if (!target.startsWith(`${current}.`)) continue;
+      const candidate = target.slice(current.length + 1);
+      if (this.resolve(candidate, scope) === target) return candidate;
+    }
+    return target;
+  }
+
+  private resolve(reference: string, scope: string): string | undefined {
+    const first = reference.split('.')[0];
+    for (let current = scope; ; current = current.slice(0, Math.max(current.lastIndexOf('.'), 0))) {
+      const prefix = current ? `${current}.` : '';
+      if (this.symbols.has(`${prefix}${first}`)) return `${prefix}${reference}`;
+      if (!current) return undefined;
+    }
+  }
+
+  private fieldType(field: Descriptor, scope: string): string {
+    return SCALAR_TYPES[field.type] ?? this.typeName(field.typeName ?? '', scope);
+  }
+
+  private printMessage(message: Descriptor, path: number[], indent: string, scope: string): void {
+    const fullName = scope ? `${scope}.${message.name}` : message.name;
+    const inner = `${indent}  `;
+    const mapEntries = new Map<string, Descriptor>();
+    for (const nested of message.nestedType ?? []) {
+      if (nested.options?.mapEntry) mapEntries.set(`.${fullName}.${nested.name}`, nested);
+    }
+
+    this.emit(path, indent, `message ${message.name} {`);
+    const start = this.lines.length;
+    this.lines.push(...this.optionStatements('MessageOptions', message.options, inner, ['mapEntry']));
+
+    (message.nestedType ?? []).forEach((nested: Descriptor, index: number) => {
+      if (mapEntries.has(`.${fullName}.${nested.name}`)) return;
+      if (this.lines.length > start) this.blank();
+      this.printMessage(nested, [...path, MESSAGE_NESTED_TYPE, index], inner, fullName);
+    });
+    (message.enumType ?? []).forEach((enumType: Descriptor, index: number) => {
+      if (this.lines.length > start) this.blank();
+      this.printEnum(enumType, [...path, MESSAGE_ENUM_TYPE, index], inner);
+    });
+    if (this.lines.length > start && (message.field ?? []).length > 0) this.blank();
+
+    // Members of a real oneof print together at the first member; proto3 optional fields stand alone
+    const fields: Descriptor[] = message.field ?? [];
+    const oneofs: Descriptor[] = message.oneofDecl ?? [];
+    const printedOneofs = new Set<number>();
+    fields.forEach((field, index) => {
+      const oneofIndex = field.proto3Optional ? undefined : field.oneofIndex;
+      if (oneofIndex === undefined || oneofIndex === null) {
+        this.printField(field, [...path, MESSAGE_FIELD, index], inner, fullName, mapEntries);
+        return;
+      }
+      if (printedOneofs.has(oneofIndex)) return;
+      printedOneofs.add(oneofIndex);
+      this.emit([...path, MESSAGE_ONEOF, oneofIndex], inner, `oneof ${oneofs[oneofIndex]?.name ?? `oneof_${oneofIndex}`} {`);
+      this.lines.push(...this.optionStatements('OneofOptions', oneofs[oneofIndex]?.options, `${inner}  `));
+      fields.forEach((member, memberIndex) => {
+        if (member.oneofIndex === oneofIndex && !member.proto3Optional) {
+          this.printField(member, [...path, MESSAGE_FIELD, memberIndex], `${inner}  `, fullName, mapEntries, true);
+        }
+      });
+      this.lines.push(`${inner}}`);
+    });
+
+    for (const range of message.extensionRange ?? []) {
+      this.lines.push(`${inner}extensions ${rangeText(range.start, range.end - 1, MAX_FIELD_NUMBER)};`);
+    }
+    this.printExtensions(message.extension ?? [], [...path, MESSAGE_EXTENSION], inner, fullName);
+
+    const reserved = (message.reservedRange ?? []).map((range: Descriptor) => rangeText(range.start, range.end - 1, MAX_FIELD_NUMBER));
+    if (reserved.length > 0) this.lines.push(`${inner}reserved ${reserved.join(', ')};`);
+    this.printReservedNames(message.reservedName ?? [], inner);
+
+    this.lines.push(`${indent}}`);
+  }
+
+  private printField(field: Descriptor, path: number[], indent: string, scope: string, mapEntries: Map<string, Descriptor>, inOneof = false, extension = false): void {
+    const entry = field.label === 'LABEL_REPEATED' && field.typeName ? mapEntries.get(field.typeName) : undefined;
+    let declaration: string;
+    if (entry) {
+      const [key, value] = entry.field ?? [];
+      declaration = `map<${this.fieldType(key, scope)}, ${this.fieldType(value, scope)}> ${field.name} = ${field.number}`;
+    } else {
+      declaration = `${this.fieldLabel(field, inOneof)}${this.fieldType(field, scope)} ${field.name} = ${field.number}`;
+    }
+
+    const extras: string[] = [];
+    if (field.defaultValue !== undefined) {
+      const value = field.type === 'TYPE_STRING' ? quote(field.defaultValue) : field.type === 'TYPE_BYTES' ? `"${field.defaultValue}"` : field.defaultValue;
+      extras.push(`default = ${value}`);
+    }
+    if (field.jsonName && field.jsonName !== defaultJsonName(field.name) && !extension) {
+      extras.push(`json_name = ${quote(field.jsonName)}`);
+    }
+    extras.push(...this.inlineOptions('FieldOptions', field.options));
+
+    this.emit(path, indent, `${declaration}${extras.length > 0 ? ` [${extras.join(', ')}]` : ''};`);
+  }
+
+  private fieldLabel(field: Descriptor, inOneof: boolean): string {
+    if (field.label === 'LABEL_REPEATED') return 'repeated ';
+    if (inOneof || this.editions) return '';
+    if (field.label === 'LABEL_REQUIRED') return 'required ';
+    if (this.proto3) return field.proto3Optional ? 'optional ' : '';
+    return 'optional ';
+  }
+
+  private printEnum(enumType: Descriptor, path: number[], indent: string): void {
+    const inner = `${indent}  `;
+    this.emit(path, indent, `enum ${enumType.name} {`);
+    this.lines.push(...this.optionStatements('EnumOptions', enumType.options, inner));
+    (enumType.value ?? []).forEach((value: Descriptor, index: number) => {
+      const options = this.inlineOptions('EnumValueOptions', value.options);
+      this.emit([...path, ENUM_VALUE, index], inner, `${value.name} = ${value.number ?? 0}${options.length > 0 ? ` [${options.join(', ')}]` : ''};`);
+    });
+    const reserved = (enumType.reservedRange ?? []).map((range: Descriptor) => rangeText(range.start, range.end, MAX_ENUM_NUMBER));
+    if (reserved.length > 0) this.lines.push(`${inner}reserved ${reserved.join(', ')};`);
+    this.printReservedNames(enumType.reservedName ?? [], inner);
+    this.lines.push(`${indent}}`);
+  }
+
+  private printReservedNames(names: string[], indent: string): void {
+    if (names.length === 0) return;
+    this.lines.push(`${indent}reserved ${names.map((name) => this.editions ? name : quote(name)).join(', ')};`);
+  }
+
+  private printService(service: Descriptor, path: number[]): void {
+    this.services.push(this.pkg ? `${this.pkg}.${service.name}` : service.name);
+    this.emit(path, '', `service ${service.name} {`);
+    this.lines.push(...this.optionStatements('ServiceOptions', service.options, '  '));
+    (service.method ?? []).forEach((method: Descriptor, index: number) => {
+      const signature = `rpc ${method.name}(${method.clientStreaming ? 'stream ' : ''}${this.typeName(method.inputType, this.pkg)}) returns (${method.serverStreaming ? 'stream ' : ''}${this.typeName(method.outputType, this.pkg)})`;
+      const options = this.optionStatements('MethodOptions', method.options, '    ');
+      if (options.length === 0) {
+        this.emit([...path, SERVICE_METHOD, index], '  ', `${signature};`);
+      } else {
+        this.emit([...path, SERVICE_METHOD, index], '  ', `${signature} {`);
+        this.lines.push(...options, '  }');
+      }
+    });
+    this.lines.push('}');
+  }
+
+  /** `extend` blocks, one per extendee in declaration order */
+  private printExtensions(extensions: Descriptor[], path: number[], indent: string, scope: string): void {
+    const byExtendee = new Map<string, number[]>();
+    extensions.forEach((extension, index) => {
+      byExtendee.set(extension.extendee, [...(byExtendee.get(extension.extendee) ?? []), index]);
+    });
+    for (const [extendee, indexes] of Array.from(byExtendee)) {
+      this.blank();
+      this.lines.push(`${indent}extend ${this.typeName(extendee, scope)} {`);
+      for (const index of indexes) {
+        this.printField(extensions[index], [...path, index], `${indent}  `, scope, new Map(), false, true);
+      }
+      this.lines.push(`${indent}}`);
+    }
+  }
+
+  // -- Options --
+
+  private optionsType(name: string): protobuf.Type {
+    return this.root.lookupType(`google.protobuf.${name}`);
+  }
+
+  /** Set options as [field, value] pairs in field-number order; repeated options give one pair per value */
+  private optionPairs(typeName: string, options: Descriptor | undefined, exclude: string[]): Array<[protobuf.Field, unknown]> {
+    if (!options) return [];
+    return setFields(this.optionsType(typeName), options, ['uninterpretedOption', ...exclude]);
+  }
+
+  private optionStatements(typeName: string, options: Descriptor | undefined, indent: string, exclude: string[] = []): string[] {
+    const lines: string[] = [];
+    for (const [field, value] of this.optionPairs(typeName, options, exclude)) {
+      const name = this.optionName(field, false);
+      if (this.messageType(field)) {
+        lines.push(`${indent}option ${name} = {`, ...this.aggregateLines(field, value as Descriptor, `${indent}  `), `${indent}};`);
+      } else {
+        lines.push(`${indent}option ${name} = ${this.scalarText(field, value)};`);
+      }
+    }
+    return lines;
+  }
+
+  /** Options in `[...]` after a field or enum value, aggregates kept on one line */
+  private inlineOptions(typeName: string, options: Descriptor | undefined): string[] {
+    return this.optionPairs(typeName, options, []).map(([field, value]) => {
+      const name = this.optionName(field, false);
+      if (this.messageType(field)) {
+        return `${name} = { ${this.aggregateLines(field, value as Descriptor, '').join(' ')} }`;
+      }
+      return `${name} = ${this.scalarText(field, value)}`;
+    });
+  }
+
+  /** Text-format body of a message-valued option */
+  private aggregateLines(field: protobuf.Field, value: Descriptor, indent: string): string[] {
+    const lines: string[] = [];
+    for (const [member, item] of setFields(this.messageType(field)!, value, [])) {
+      const name = this.optionName(member, true);
+      if (this.messageType(member)) {
+        lines.push(`${indent}${name} {`, ...this.aggregateLines(member, item as Descriptor, `${indent}  `), `${indent}}`);
+      } else {
+        lines.push(`${indent}${name}: ${this.scalarText(member, item)}`);
+      }
+    }
+    return lines;
+  }
+
+  /** `(ext.name)` for extensions (`[ext.name]` inside aggregates), snake_case for descriptor.proto fields */
+  private optionName(field: protobuf.Field, inAggregate: boolean): string {
+    if (field.declaringField) {
+      const name = field.name.replace(/^\./, '');
+      return inAggregate ? `[${name}]` : `(${name})`;
+    }
+    return field.parent && DESCRIPTOR_TYPES.has(field.parent.fullName) ? snakeCase(field.name) : field.name;
+  }
+
+  private messageType(field: protobuf.Field): protobuf.Type | undefined {
+    try {
+      field.resolve();
+    } catch {
+      return undefined;
+    }
+    return field.resolvedType instanceof protobuf.Type ? field.resolvedType : undefined;
+  }
+
+  private scalarText(field: protobuf.Field, value: unknown): string {
+    if (field.resolvedType instanceof protobuf.Enum) return String(value);
+    if (field.type === 'string') return quote(String(value));
+    if (field.type === 'bytes') return quoteBytes(String(value));
+    return String(value);
+  }
+}
+
+/** Each file of a set decoded to plain objects, with custom options by name where possible */
+function decodeFiles(data: Uint8Array): { files: Array<{ descriptor: Descriptor; root: protobuf.Root }>; plainFiles: Descriptor[] } {
+  const baseRoot = protobuf.Root.fromJSON(descriptorJson);
+  const BaseFileDescriptorProto = baseRoot.lookupType('google.protobuf.FileDescriptorProto');
+  const rawFiles = splitFileDescriptorSet(data);
+  const plainFiles = rawFiles.map((bytes) => BaseFileDescriptorProto.toObject(BaseFileDescriptorProto.decode(bytes), TO_OBJECT));
+
+  const optionsRoot = buildOptionsRoot(plainFiles);
+  const FileDescriptorProto = optionsRoot.lookupType('google.protobuf.FileDescriptorProto');
+  const files = rawFiles.map((bytes, index) => {
+    try {
+      return { descriptor: FileDescriptorProto.toObject(FileDescriptorProto.decode(bytes), TO_OBJECT), root: optionsRoot };
+    } catch {
+      // An extension that could not be decoded; fall back to standard options only
+      return { descriptor: plainFiles[index], root: baseRoot };
+    }
+  });
+  return { files, plainFiles };
+}
+
+/**
+ * Decode a binary FileDescriptorSet to FileDescriptorProto objects (camelCase
+ * fields, enums as names). Extensions the set declares, such as
+ * google.api.http, are decoded under their `.full.name` keys.
+ */
+export function decodeFileDescriptorSet(data: Uint8Array): Descriptor[] {
+  return decodeFiles(data).files.map(({ descriptor }) => descriptor);
+}
+
+/**
+ * Print every file of a binary FileDescriptorSet as .proto source, in the
+ * set's order.
+ */
+export function printFileDescriptorSet(data: Uint8Array): ReconstructedProtoFile[] {
+  const { files, plainFiles } = decodeFiles(data);
+  const symbols = new Set<string>();
+  const addTypes = (scope: string, types: Descriptor[]): void => {
+    for (const type of types) {
+      const fullName = scope ? `${scope}.${type.name}` : type.name;
+      symbols.add(fullName);
+      addTypes(fullName, [...(type.nestedType ?? []), ...(type.enumType ?? [])]);
+    }
+  };
+  for (const file of plainFiles) {
+    const parts = (file.package ?? '').split('.').filter(Boolean);
+    parts.forEach((_: string, index: number) => symbols.add(parts.slice(0, index + 1).join('.')));
+    addTypes(file.package ?? '', [...(file.messageType ?? []), ...(file.enumType ?? []), ...(file.service ?? [])]);
+  }
+
+  return files.map(({ descriptor, root }, index) => {
+    const printer = new ProtoFilePrinter(descriptor, root, symbols);
+    const content = printer.print();
+    return { name: descriptor.name || `file_${index}.proto`, content, services: printer.services };
+  });
+}
@@ -5,7 +5,16 @@ import * as grpc from '@grpc/grpc-js';
 import * as protobuf from 'protobufjs';
 import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
 import { DescriptorParser } from './descriptor-parser';
+import { buildCallStatus, GrpcCallError, metadataToRecord } from './call-status';
+import { getRichErrorRoot, lookupRichErrorType, STATUS_DETAILS_TRAILER } from './rich-error-details';
+import { createWebServiceStub, WebTransportClient } from './web-transport';
+import { proxyChannelTarget } from './http-proxy';
+import type { TlsOptions } from './call-auth';
+import type { GrpcCallOptions, GrpcCallStatus, GrpcProxyConfig, GrpcTransport, IdempotencyLevel, RpcStatus } from '@/lib/types/grpc';
 import { errorMessage } from '@/lib/utils';
+import { COMPRESSION_ALGORITHM_IDS } from '@/lib/utils/call-options';
+import { toChannelTarget } from '@/lib/utils/endpoint-address';
+import { ExecutionCancelledError } from '@/lib/utils/execution-endpoints';
 
 // Inline reflection.proto definitions for both v1 and v1alpha
 const REFLECTION_PROTO_V1_SOURCE = `
@@ -173,6 +182,7 @@ export interface GrpcMethod {
   responseStreaming: boolean;
   description?: string;
   httpRule?: HttpRule; // REST API mapping from google.api.http annotation
+  idempotencyLevel?: IdempotencyLevel; // From the idempotency_level method option
   requestTypeDefinition: MessageTypeDefinition;
   responseTypeDefinition: MessageTypeDefinition;
 }
@@ -187,6 +197,34 @@ export interface ReflectionOptions {
   clientCert?: string | undefined;
   /** PEM-encoded client private key for mTLS */
   clientKey?: string | undefined;
+  /** Custom CA, server name override and verification mode for TLS */
+  tlsOptions?: TlsOptions | undefined;
+  /** Headers (e.g. auth) sent with every reflection request */
+  metadata?: Record<string, string> | undefined;
+  /** Compression, message size limits, wait-for-ready and keepalive for method calls */
+  callOptions?: GrpcCallOptions | undefined;
+  /** Run method calls on this client's own channel instead of one per call (pooled clients) */
+  reuseCallChannel?: boolean | undefined;
+  /** Wire protocol for reflection and calls; defaults to native gRPC */
+  transport?: GrpcTransport | undefined;
+  /** HTTP CONNECT proxy; the server-level proxy applies when unset */
+  proxy?: GrpcProxyConfig | undefined;
+}
+
+/** Callbacks for an interactive client-streaming or bidi call */
+export interface StreamingCallHandlers {
+  onMessage: (message: any, receivedAt: number) => void;
+  onEnd: (status: GrpcCallStatus) => void;
+  onError: (error: Error) => void; // A GrpcCallError when the server returned a non-OK status
+}
+
+/** Handle for writing to an open client-streaming or bidi call */
+export interface StreamingCall {
+  /** Encode and write one request message */
+  send: (params: any) => void;
+  /** Signal that no more requests will be sent */
+  halfClose: () => void;
+  cancel: () => void;
 }
 
 /**
@@ -207,10 +245,7 @@ export class ReflectionClient {
   constructor(private options: ReflectionOptions) {
     const credentials = this.buildCredentials(options.tls, options.clientCert, options.clientKey);
 
-    this.client = new grpc.Client(options.endpoint, credentials, {
-      'grpc.max_receive_message_length': -1,
-      'grpc.max_send_message_length': -1,
-    });
+    this.client = new grpc.Client(...this.channel(options.endpoint, credentials));
 
     this.parser = new DescriptorParser();
   }
@@ -222,17 +257,71 @@ export class ReflectionClient {
       : defaultMs;
   }
 
-  /** Build gRPC credentials, with optional mTLS support */
+  /** Build gRPC credentials, with optional mTLS, custom CA and skip-verify support */
   private buildCredentials(tls: boolean, clientCert?: string, clientKey?: string): grpc.ChannelCredentials {
     if (!tls) return grpc.credentials.createInsecure();
-    if (clientCert && clientKey) {
-      return grpc.credentials.createSsl(
-        null,
-        Buffer.from(clientKey),
-        Buffer.from(clientCert)
-      );
+    const { caCert, insecureSkipVerify } = this.options.tlsOptions ?? {};
+    return grpc.credentials.createSsl(
+      caCert ? Buffer.from(caCert) : null,
+      clientCert && clientKey ? Buffer.from(clientKey) : null,
+      clientCert && clientKey ? Buffer.from(clientCert) : null,
+      insecureSkipVerify ? { rejectUnauthorized: false } : {}
+    );
+  }
+
+  /**
+   * Channel options shared by every native channel: server name override,
+   * plus compression, size limits and keepalive from the call options.
+   * Message sizes are unlimited unless the call options cap them. grpc-js's
+   * own proxy environment handling is off; see channel().
+   */
+  private channelOptions(): grpc.ChannelOptions {
+    const serverName = this.options.tlsOptions?.serverName;
+    const { compression, maxSendMessageBytes, maxReceiveMessageBytes, keepaliveTimeMs, keepaliveTimeoutMs } = this.options.callOptions ?? {};
+    return {
+      'grpc.enable_http_proxy': 0,
+      'grpc.max_receive_message_length': maxReceiveMessageBytes ?? -1,
+      'grpc.max_send_message_length': maxSendMessageBytes ?? -1,
+      ...(serverName ? { 'grpc.ssl_target_name_override': serverName, 'grpc.default_authority': serverName } : {}),
+      ...(compression ? { 'grpc.default_compression_algorithm': COMPRESSION_ALGORITHM_IDS[compression] } : {}),
+      ...(keepaliveTimeMs ? { 'grpc.keepalive_time_ms': keepaliveTimeMs } : {}),
+      ...(keepaliveTimeoutMs ? { 'grpc.keepalive_timeout_ms': keepaliveTimeoutMs } : {}),
+    };
+  }
+
+  /**
+   * Constructor arguments for a native channel to `address`, tunnelled
+   * through the source's or the server's HTTP CONNECT proxy when one applies.
+   */
+  private channel(address: string, credentials: grpc.ChannelCredentials): [string, grpc.ChannelCredentials, grpc.ChannelOptions] {
+    const proxied = proxyChannelTarget(address, this.options.proxy);
+    if (!proxied) return [toChannelTarget(address), credentials, this.channelOptions()];
+    return [proxied.target, credentials, { ...proxied.options, ...this.channelOptions() }];
+  }
+
+  private get transport(): GrpcTransport {
+    return this.options.transport ?? 'grpc';
+  }
+
+  /**
+   * Instantiate a generated reflection client for `address`, or its
+   * half-duplex equivalent when the source speaks gRPC-Web or Connect.
+   */
+  private createReflectionStub(Constructor: grpc.ServiceClientConstructor, address: string, tls: boolean, withClientCert: boolean): any {
+    const clientCert = withClientCert ? this.options.clientCert : undefined;
+    const clientKey = withClientCert ? this.options.clientKey : undefined;
+    const { transport } = this;
+    if (transport === 'grpc') {
+      return new Constructor(...this.channel(address, this.buildCredentials(tls, clientCert, clientKey)));
     }
-    return grpc.credentials.createSsl();
+    return createWebServiceStub(Constructor.service, new WebTransportClient(address, {
+      transport,
+      tls,
+      clientCert,
+      clientKey,
+      tlsOptions: this.options.tlsOptions,
+      proxy: this.options.proxy,
+    }));
   }
 
   // Delegate to parser
@@ -244,13 +333,11 @@ export class ReflectionClient {
    * Initialize reflection stub (lightweight setup without loading all services)
    * Tries v1 first, falls back to v1alpha if v1 fails
    */
-  private async initializeReflectionStub(): Promise<void> {
+  private async initializeReflectionStub(metadata?: Record<string, string>): Promise<void> {
     if (this.reflectionStub) return; // Already initialized
 
     this.descriptorRoot = protobuf.Root.fromJSON(descriptorJson);
 
-    const credentials = this.buildCredentials(this.options.tls, this.options.clientCert, this.options.clientKey);
-
     // Try v1 first (newer, stable version)
     try {
       console.log('[ReflectionClient] Attempting to use grpc.reflection.v1...');
@@ -274,10 +361,10 @@ export class ReflectionClient {
         },
       }, 'ServerReflection', {});
 
-      this.reflectionStub = new ServerReflectionClientV1(this.options.endpoint, credentials);
+      this.reflectionStub = this.createReflectionStub(ServerReflectionClientV1, this.options.endpoint, this.options.tls, true);
 
       // Test if v1 works by attempting to list services
-      await this.testReflectionStub();
+      await this.testReflectionStub(metadata);
 
       this.reflectionVersion = 'v1';
       this.reflectionProtoRoot = reflectionRootV1;
@@ -311,10 +398,10 @@ export class ReflectionClient {
         },
       }, 'ServerReflection', {});
 
-      this.reflectionStub = new ServerReflectionClientV1Alpha(this.options.endpoint, credentials);
+      this.reflectionStub = this.createReflectionStub(ServerReflectionClientV1Alpha, this.options.endpoint, this.options.tls, true);
 
       // Test if v1alpha works
-      await this.testReflectionStub();
+      await this.testReflectionStub(metadata);
 
       this.reflectionVersion = 'v1alpha';
       this.reflectionProtoRoot = reflectionRootV1Alpha;
@@ -333,8 +420,6 @@ export class ReflectionClient {
       throw new Error('Cannot create stub before primary reflection stub is initialized');
     }
 
-    const credentials = this.buildCredentials(tls);
-
     const versionPrefix = this.reflectionVersion === 'v1'
       ? 'grpc.reflection.v1'
       : 'grpc.reflection.v1alpha';
@@ -359,7 +444,7 @@ export class ReflectionClient {
       },
     }, 'ServerReflection', {});
 
-    return new ReflectionClientConstructor(address, credentials);
+    return this.createReflectionStub(ReflectionClientConstructor, address, tls, false);
   }
 
   /**
@@ -449,9 +534,9 @@ export class ReflectionClient {
   /**
    * Test if the reflection stub works by attempting a simple list operation
    */
-  private async testReflectionStub(): Promise<void> {
+  private async testReflectionStub(metadata?: Record<string, string>): Promise<void> {
     return new Promise((resolve, reject) => {
-      const call = this.reflectionStub.ServerReflectionInfo();
+      const call = this.reflectionStub.ServerReflectionInfo(this.reflectionMetadata(metadata));
       let hasData = false;
 
       const timeout = setTimeout(() => {
@@ -592,15 +677,16 @@ export class ReflectionClient {
 
   /**
    * Initialize only the specific service needed for method invocation
-   * Much faster than initialize() when you only need one service
+   * Much faster than initialize() when you only need one service.
+   * `metadata` replaces the client's own headers for these reflection calls.
    */
-  async initializeForMethod(serviceName: string): Promise<void> {
+  async initializeForMethod(serviceName: string, metadata?: Record<string, string>): Promise<void> {
     console.log(`[ReflectionClient] Fast initialization for ${serviceName}`);
 
-    await this.initializeReflectionStub();
+    await this.initializeReflectionStub(metadata);
 
     try {
-      await this.loadServiceDescriptor(serviceName);
+      await this.loadServiceDescriptor(serviceName, metadata);
 
       // Verify the service was loaded
       const service = this.root.lookupService(serviceName);
@@ -630,7 +716,7 @@ export class ReflectionClient {
    */
   private async listServices(): Promise<string[]> {
     return new Promise((resolve, reject) => {
-      const call = this.reflectionStub.ServerReflectionInfo();
+      const call = this.reflectionStub.ServerReflectionInfo(this.reflectionMetadata());
       const services: string[] = [];
       let resolved = false;
       const timeoutMs = this.getTimeoutMs();
@@ -668,17 +754,22 @@ export class ReflectionClient {
   /**
    * Load service descriptor by symbol name
    */
-  private async loadServiceDescriptor(symbol: string): Promise<void> {
-    return this.loadServiceDescriptorViaStub(this.reflectionStub, symbol, this.getTimeoutMs());
+  private async loadServiceDescriptor(symbol: string, metadata?: Record<string, string>): Promise<void> {
+    return this.loadServiceDescriptorViaStub(this.reflectionStub, symbol, this.getTimeoutMs(), metadata);
   }
 
   /**
    * Core descriptor loading logic parameterized by stub.
    * All file descriptors merge into the shared protobuf Root.
    */
-  private async loadServiceDescriptorViaStub(stub: any, symbol: string, timeoutMs?: number): Promise<void> {
+  private async loadServiceDescriptorViaStub(
+    stub: any,
+    symbol: string,
+    timeoutMs?: number,
+    metadata?: Record<string, string>
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
-      const call = stub.ServerReflectionInfo();
+      const call = stub.ServerReflectionInfo(this.reflectionMetadata(metadata));
       let resolved = false;
       let timer: ReturnType<typeof setTimeout> | null = null;
 
@@ -818,9 +909,15 @@ export class ReflectionClient {
         try {
           msgType = this.root.lookupType(typeName);
         } catch {
-          console.log(`[ReflectionClient] Loading type for Any field: ${typeName}`);
-          await this.loadServiceDescriptor(typeName);
-          msgType = this.root.lookupType(typeName);
+          // Standard google.rpc error details are bundled; servers rarely expose them via reflection
+          const bundledType = lookupRichErrorType(typeName);
+          if (bundledType) {
+            msgType = bundledType;
+          } else {
+            console.log(`[ReflectionClient] Loading type for Any field: ${typeName}`);
+            await this.loadServiceDescriptor(typeName);
+            msgType = this.root.lookupType(typeName);
+          }
         }
 
         const valueBuffer = typeof obj.value === 'string'
@@ -857,6 +954,45 @@ export class ReflectionClient {
     return result;
   }
 
+  /**
+   * Decode the google.rpc.Status carried in the `grpc-status-details-bin`
+   * trailer, expanding each Any detail through decodeAnyFields.
+   * Returns undefined when the trailer is absent or cannot be decoded.
+   */
+  private async decodeStatusDetails(trailers: grpc.Metadata | null | undefined): Promise<RpcStatus | undefined> {
+    const raw = trailers?.get(STATUS_DETAILS_TRAILER)[0];
+    if (!raw) return undefined;
+
+    try {
+      const statusType = getRichErrorRoot().lookupType('google.rpc.Status');
+      const buffer = Buffer.isBuffer(raw) ? raw : Buffer.from(String(raw), 'base64');
+      const json = statusType.toObject(statusType.decode(new Uint8Array(buffer)), {
+        longs: String,
+        enums: String,
+        bytes: String,
+        defaults: true,
+        arrays: true,
+        objects: true,
+        oneofs: true,
+      });
+      // protobuf.common's Any keeps the proto field name `type_url`; decodeAnyFields expects `typeUrl`
+      const anyDetails = json.details.map((detail: any) => ({ typeUrl: detail.type_url ?? detail.typeUrl, value: detail.value }));
+      const details = await this.decodeAnyFields(anyDetails);
+      return { code: json.code, message: json.message, details };
+    } catch (err: unknown) {
+      console.warn(`[ReflectionClient] Failed to decode ${STATUS_DETAILS_TRAILER}: ${errorMessage(err)}`);
+      return undefined;
+    }
+  }
+
+  /** Convert a failed call into a GrpcCallError, attaching any rich status details */
+  private async toCallError(error: grpc.ServiceError, headers: Record<string, string>): Promise<GrpcCallError> {
+    const callError = GrpcCallError.fromServiceError(error, headers);
+    const rpcStatus = await this.decodeStatusDetails(error.metadata);
+    if (rpcStatus) callError.status.rpcStatus = rpcStatus;
+    return callError;
+  }
+
   /**
    * Recursively load all missing types until decode succeeds
    * Handles complex responses with multiple nested dependencies
@@ -954,6 +1090,13 @@ export class ReflectionClient {
     return this.parser.getServices();
   }
 
+  /**
+   * Serialize the file descriptors loaded so far as a FileDescriptorSet (delegates to DescriptorParser)
+   */
+  toFileDescriptorSet(): ReturnType<DescriptorParser['toFileDescriptorSet']> {
+    return this.parser.toFileDescriptorSet();
+  }
+
   /**
    * Find method descriptor
    */
@@ -977,6 +1120,109 @@ export class ReflectionClient {
     }
   }
 
+  /**
+   * `idempotency_level` declared for a method, once its descriptor is loaded
+   */
+  getMethodIdempotency(serviceName: string, methodName: string): IdempotencyLevel | undefined {
+    return this.parser.getIdempotencyLevel(`${serviceName}.${methodName}`);
+  }
+
+  /**
+   * Create a dedicated channel for a single method call, using the same
+   * credentials as the reflection client. Pooled clients share their channel.
+   */
+  private createCallClient(): grpc.Client {
+    const { transport } = this;
+    if (transport === 'grpc' && this.options.reuseCallChannel) return this.client;
+    if (transport !== 'grpc') {
+      // Implements the makeUnaryRequest/makeServerStreamRequest signatures used below
+      return new WebTransportClient(this.options.endpoint, {
+        transport,
+        tls: this.options.tls,
+        clientCert: this.options.clientCert,
+        clientKey: this.options.clientKey,
+        tlsOptions: this.options.tlsOptions,
+        callOptions: this.options.callOptions,
+        proxy: this.options.proxy,
+      }) as unknown as grpc.Client;
+    }
+    return new grpc.Client(...this.channel(this.options.endpoint,
+      this.buildCredentials(this.options.tls, this.options.clientCert, this.options.clientKey)
+    ));
+  }
+
+  /** Close a per-call channel; the shared channel stays open until close() */
+  private releaseCallClient(client: grpc.Client): void {
+    if (client === this.client) return;
+    try { client.close(); } catch { /* ignore */ }
+  }
+
+  /**
+   * Build gRPC metadata from the provided key/value map.
+   * All entries are forwarded unconditionally; the server decides validity.
+   */
+  private buildCallMetadata(metadata: Record<string, string>): grpc.Metadata {
+    const callMetadata = new grpc.Metadata();
+    for (const [key, value] of Object.entries(metadata)) {
+      if (key.trim()) {
+        callMetadata.add(key.trim(), value);
+      }
+    }
+    return callMetadata;
+  }
+
+  /** Metadata for a method call, flagged wait-for-ready when the call options ask for it */
+  private methodCallMetadata(metadata: Record<string, string>): grpc.Metadata {
+    const callMetadata = this.buildCallMetadata(metadata);
+    if (this.options.callOptions?.waitForReady) callMetadata.setOptions({ waitForReady: true });
+    return callMetadata;
+  }
+
+  /** Auth and user headers for a reflection call, built fresh for each call */
+  private reflectionMetadata(metadata: Record<string, string> | undefined = this.options.metadata): grpc.Metadata {
+    return this.buildCallMetadata(metadata ?? {});
+  }
+
+  /**
+   * Decode a raw response message to JSON, loading missing dependency types
+   * via reflection and expanding google.protobuf.Any fields.
+   */
+  private async decodeResponseMessage(responseType: protobuf.Type, response: Buffer): Promise<any> {
+    let json: any;
+    try {
+      const decoded = responseType.decode(new Uint8Array(response));
+      json = responseType.toObject(decoded, {
+        longs: String,
+        enums: String,
+        bytes: String,
+        defaults: true,
+        arrays: true,
+        objects: true,
+        oneofs: true,
+      });
+    } catch (decodeErr: unknown) {
+      // Check if this is a missing type error
+      const errorMsg = errorMessage(decodeErr);
+      if (!errorMsg.includes('no such Type or Enum')) {
+        throw new Error(`Failed to decode response: ${decodeErr}`);
+      }
+      console.warn(`[ReflectionClient] Missing type detected during decode, attempting recursive dependency loading...`);
+      try {
+        // Recursively load all missing types with retry limit
+        return await this.loadAllMissingTypes(responseType, response, 0);
+      } catch (loadErr: unknown) {
+        throw new Error(`Failed to load all missing types: ${errorMessage(loadErr)}`);
+      }
+    }
+
+    // Decode protobuf Any wrappers while preserving bytes as base64.
+    try {
+      return await this.decodeAnyFields(json);
+    } catch {
+      return json;
+    }
+  }
+
   /**
    * Invoke method with JSON parameters and optional gRPC metadata headers.
    * Invalid metadata keys/values are forwarded as-is; any error from the server
@@ -989,6 +1235,23 @@ export class ReflectionClient {
     timeout: number = 10000,
     metadata: Record<string, string> = {}
   ): Promise<any> {
+    const { response } = await this.invokeMethodWithStatus(serviceName, methodName, params, timeout, metadata);
+    return response;
+  }
+
+  /**
+   * Same as invokeMethod, but also returns the final gRPC status with the
+   * response headers and trailers. Non-OK statuses reject with GrpcCallError.
+   * Aborting `signal` cancels the call and rejects with ExecutionCancelledError.
+   */
+  async invokeMethodWithStatus(
+    serviceName: string,
+    methodName: string,
+    params: any,
+    timeout: number = 10000,
+    metadata: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<{ response: any; status: GrpcCallStatus }> {
     const methodInfo = this.findMethod(serviceName, methodName);
     if (!methodInfo) {
       throw new Error(`Method ${serviceName}.${methodName} not found`);
@@ -1009,21 +1272,20 @@ export class ReflectionClient {
 
     return new Promise((resolve, reject) => {
       const grpcCallStartTime = Date.now();
-      const client = new grpc.Client(this.options.endpoint,
-        this.buildCredentials(this.options.tls, this.options.clientCert, this.options.clientKey),
-        {
-          'grpc.max_receive_message_length': -1,
-          'grpc.max_send_message_length': -1,
-        }
-      );
+      const client = this.createCallClient();
       let settled = false;
       let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+      let responseHeaders: Record<string, string> = {};
+      let finalStatus: grpc.StatusObject | null = null;
+
+      let abortCall: (() => void) | null = null;
 
       const settle = (fn: () => void) => {
         if (settled) return;
         settled = true;
         if (timeoutHandle) clearTimeout(timeoutHandle);
-        try { client.close(); } catch { /* ignore */ }
+        if (abortCall) signal?.removeEventListener('abort', abortCall);
+        this.releaseCallClient(client);
         fn();
       };
 
@@ -1041,14 +1303,7 @@ export class ReflectionClient {
         }));
         console.log(`[ReflectionClient] Request buffer size: ${requestBuffer.length} bytes`);
 
-        // Build gRPC metadata from the provided key/value map.
-        // All entries are forwarded unconditionally; the server decides validity.
-        const callMetadata = new grpc.Metadata();
-        for (const [key, value] of Object.entries(metadata)) {
-          if (key.trim()) {
-            callMetadata.add(key.trim(), value);
-          }
-        }
+        const callMetadata = this.methodCallMetadata(metadata);
 
         // Make call with deadline and metadata
         const deadline = new Date(Date.now() + timeout);
@@ -1065,7 +1320,7 @@ export class ReflectionClient {
               console.error(`  Code: ${error.code}`);
               console.error(`  Message: ${error.message}`);
               console.error(`  Details: ${error.details || 'none'}`);
-              settle(() => reject(new Error(`gRPC Error (code ${error.code}): ${error.message}`)));
+              this.toCallError(error, responseHeaders).then((callError) => settle(() => reject(callError)));
               return;
             }
 
@@ -1077,54 +1332,270 @@ export class ReflectionClient {
             const grpcCallTime = Date.now() - grpcCallStartTime;
             console.log(`[ReflectionClient] ⏱️  gRPC call completed in ${grpcCallTime}ms, response size: ${response.length} bytes`);
 
-            try {
-              const decoded = responseType.decode(new Uint8Array(response));
-              const json = responseType.toObject(decoded, {
-                longs: String,
-                enums: String,
-                bytes: String,
-                defaults: true,
-                arrays: true,
-                objects: true,
-                oneofs: true,
-              });
-
-              // Decode protobuf Any wrappers while preserving bytes as base64.
-              this.decodeAnyFields(json).then(decoded => {
-                settle(() => resolve(decoded));
-              }).catch(() => {
-                settle(() => resolve(json));
-              });
-            } catch (decodeErr: unknown) {
-              // Check if this is a missing type error
-              const errorMsg = errorMessage(decodeErr);
-              if (errorMsg.includes('no such Type or Enum')) {
-                console.warn(`[ReflectionClient] Missing type detected during decode, attempting recursive dependency loading...`);
-                // Recursively load all missing types with retry limit
-                this.loadAllMissingTypes(responseType, response, 0)
-                  .then((json) => {
-                    settle(() => resolve(json));
-                  })
-                  .catch((loadErr) => {
-                    settle(() => reject(new Error(`Failed to load all missing types: ${loadErr.message}`)));
-                  });
-              } else {
-                settle(() => reject(new Error(`Failed to decode response: ${decodeErr}`)));
-              }
-            }
+            // grpc-js emits 'status' (with trailers) right after this callback,
+            // so it is available by the time the async decode finishes.
+            this.decodeResponseMessage(responseType, response).then(
+              (decoded) => settle(() => resolve({
+                response: decoded,
+                status: buildCallStatus(grpc.status.OK, finalStatus?.details, responseHeaders, finalStatus?.metadata),
+              })),
+              (decodeErr) => settle(() => reject(decodeErr))
+            );
           }
         );
+        call.on('metadata', (headers: grpc.Metadata) => { responseHeaders = metadataToRecord(headers); });
+        call.on('status', (status: grpc.StatusObject) => { finalStatus = status; });
+
+        timeoutHandle = setTimeout(() => {
+          try { call.cancel(); } catch { /* ignore */ }
+          settle(() => reject(new Error(`Timeout after ${timeout}ms`)));
+        }, timeout);
+
+        if (signal) {
+          abortCall = () => {
+            console.log(`[ReflectionClient] Cancelling ${methodPath}: aborted by caller`);
+            try { call.cancel(); } catch { /* ignore */ }
+            settle(() => reject(new ExecutionCancelledError()));
+          };
+          if (signal.aborted) abortCall();
+          else signal.addEventListener('abort', abortCall, { once: true });
+        }
+      } catch (err) {
+        settle(() => reject(err));
+      }
+    });
+  }
+
+  /**
+   * Invoke a server-streaming method. Each response message is decoded and
+   * handed to `onMessage` in arrival order; the promise resolves with the
+   * message count and final status once the server closes the stream with an
+   * OK status. The timeout is a deadline for the whole stream, not per message.
+   * Aborting `signal` cancels the stream and rejects with ExecutionCancelledError.
+   */
+  async invokeServerStream(
+    serviceName: string,
+    methodName: string,
+    params: any,
+    onMessage: (message: any, receivedAt: number) => void,
+    timeout: number = 10000,
+    metadata: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<{ count: number; status: GrpcCallStatus }> {
+    const methodInfo = this.findMethod(serviceName, methodName);
+    if (!methodInfo) {
+      throw new Error(`Method ${serviceName}.${methodName} not found`);
+    }
+
+    const { requestType, responseType } = methodInfo;
+    const methodPath = `/${serviceName}/${methodName}`;
+    console.log(`[ReflectionClient] Opening server stream: ${methodPath}`);
+
+    return new Promise((resolve, reject) => {
+      const streamStartTime = Date.now();
+      const client = this.createCallClient();
+      let settled = false;
+      let count = 0;
+      let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+      let responseHeaders: Record<string, string> = {};
+      // Decoding may need to load types via reflection; chain it so messages
+      // are delivered in the order the server sent them.
+      let pending: Promise<void> = Promise.resolve();
+
+      let abortCall: (() => void) | null = null;
+
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        if (timeoutHandle) clearTimeout(timeoutHandle);
+        if (abortCall) signal?.removeEventListener('abort', abortCall);
+        this.releaseCallClient(client);
+        fn();
+      };
+
+      try {
+        const requestMessage = requestType.fromObject(params || {});
+        const requestBuffer = Buffer.from(requestType.encode(requestMessage).finish());
+        const deadline = new Date(Date.now() + timeout);
+        const call = client.makeServerStreamRequest(
+          methodPath,
+          (buf: Buffer) => buf,
+          (buf: Buffer) => buf,
+          requestBuffer,
+          this.methodCallMetadata(metadata),
+          { deadline }
+        );
+
+        call.on('data', (response: Buffer) => {
+          const receivedAt = Date.now();
+          pending = pending.then(async () => {
+            if (settled) return;
+            const message = await this.decodeResponseMessage(responseType, response);
+            count++;
+            onMessage(message, receivedAt);
+          }).catch((decodeErr: unknown) => {
+            try { call.cancel(); } catch { /* ignore */ }
+            settle(() => reject(decodeErr));
+          });
+        });
+
+        call.on('metadata', (headers: grpc.Metadata) => { responseHeaders = metadataToRecord(headers); });
+
+        call.on('error', (error: grpc.ServiceError) => {
+          console.error(`[ReflectionClient] gRPC stream error for ${methodPath}: ${error.code} ${error.message}`);
+          pending
+            .then(() => this.toCallError(error, responseHeaders))
+            .then((callError) => settle(() => reject(callError)));
+        });
+
+        call.on('status', (status: grpc.StatusObject) => {
+          if (status.code !== grpc.status.OK) return; // Reported through 'error'
+          pending.then(() => {
+            console.log(`[ReflectionClient] ⏱️  Stream ${methodPath} completed with ${count} message(s) in ${Date.now() - streamStartTime}ms`);
+            settle(() => resolve({
+              count,
+              status: buildCallStatus(status.code, status.details, responseHeaders, status.metadata),
+            }));
+          });
+        });
 
         timeoutHandle = setTimeout(() => {
           try { call.cancel(); } catch { /* ignore */ }
           settle(() => reject(new Error(`Timeout after ${timeout}ms`)));
         }, timeout);
+
+        if (signal) {
+          abortCall = () => {
+            console.log(`[ReflectionClient] Cancelling ${methodPath}: aborted by caller`);
+            try { call.cancel(); } catch { /* ignore */ }
+            settle(() => reject(new ExecutionCancelledError()));
+          };
+          if (signal.aborted) abortCall();
+          else signal.addEventListener('abort', abortCall, { once: true });
+        }
       } catch (err) {
         settle(() => reject(err));
       }
     });
   }
 
+  /**
+   * Open a client-streaming or bidirectional call. Requests are written one
+   * at a time through the returned handle; responses are decoded and handed
+   * to `handlers.onMessage` in arrival order. Exactly one of `onEnd` (with
+   * the final status) or `onError` is called when the call finishes.
+   */
+  openStreamingCall(
+    serviceName: string,
+    methodName: string,
+    handlers: StreamingCallHandlers,
+    timeout: number = 10000,
+    metadata: Record<string, string> = {}
+  ): StreamingCall {
+    const methodInfo = this.findMethod(serviceName, methodName);
+    if (!methodInfo) {
+      throw new Error(`Method ${serviceName}.${methodName} not found`);
+    }
+
+    const { method, requestType, responseType } = methodInfo;
+    if (!method.requestStream) {
+      throw new Error(`Method ${serviceName}.${methodName} is not client-streaming`);
+    }
+    if (this.transport !== 'grpc') {
+      throw new Error(`Client-streaming and bidi methods need the native gRPC transport; this source uses ${this.transport}`);
+    }
+
+    const methodPath = `/${serviceName}/${methodName}`;
+    console.log(`[ReflectionClient] Opening ${method.responseStream ? 'bidi' : 'client'} stream: ${methodPath}`);
+
+    const client = this.createCallClient();
+    const callMetadata = this.methodCallMetadata(metadata);
+    const deadline = new Date(Date.now() + timeout);
+    let finished = false;
+    let pending: Promise<void> = Promise.resolve();
+    let responseHeaders: Record<string, string> = {};
+    let finalStatus: grpc.StatusObject | null = null;
+
+    const finish = (fn: () => void) => {
+      if (finished) return;
+      finished = true;
+      this.releaseCallClient(client);
+      fn();
+    };
+
+    let call: grpc.ClientWritableStream<Buffer> | grpc.ClientDuplexStream<Buffer, Buffer>;
+    const deliver = (response: Buffer) => {
+      const receivedAt = Date.now();
+      pending = pending.then(async () => {
+        if (finished) return;
+        handlers.onMessage(await this.decodeResponseMessage(responseType, response), receivedAt);
+      }).catch((decodeErr: unknown) => {
+        try { call.cancel(); } catch { /* ignore */ }
+        finish(() => handlers.onError(decodeErr instanceof Error ? decodeErr : new Error(errorMessage(decodeErr))));
+      });
+    };
+
+    if (method.responseStream) {
+      const duplex = client.makeBidiStreamRequest(
+        methodPath,
+        (buf: Buffer) => buf,
+        (buf: Buffer) => buf,
+        callMetadata,
+        { deadline }
+      );
+      duplex.on('data', deliver);
+      duplex.on('error', (error: grpc.ServiceError) => {
+        pending
+          .then(() => this.toCallError(error, responseHeaders))
+          .then((callError) => finish(() => handlers.onError(callError)));
+      });
+      duplex.on('status', (status: grpc.StatusObject) => {
+        if (status.code !== grpc.status.OK) return; // Reported through 'error'
+        pending.then(() => finish(() => handlers.onEnd(
+          buildCallStatus(status.code, status.details, responseHeaders, status.metadata)
+        )));
+      });
+      call = duplex;
+    } else {
+      call = client.makeClientStreamRequest(
+        methodPath,
+        (buf: Buffer) => buf,
+        (buf: Buffer) => buf,
+        callMetadata,
+        { deadline },
+        (error: grpc.ServiceError | null, response?: Buffer) => {
+          if (error) {
+            pending
+              .then(() => this.toCallError(error, responseHeaders))
+              .then((callError) => finish(() => handlers.onError(callError)));
+            return;
+          }
+          if (response) deliver(response);
+          // 'status' is emitted right after this callback; wait for it to read trailers.
+          setImmediate(() => pending.then(() => finish(() => handlers.onEnd(
+            buildCallStatus(grpc.status.OK, finalStatus?.details, responseHeaders, finalStatus?.metadata)
+          ))));
+        }
+      );
+      call.on('status', (status: grpc.StatusObject) => { finalStatus = status; });
+    }
+    call.on('metadata', (headers: grpc.Metadata) => { responseHeaders = metadataToRecord(headers); });
+
+    return {
+      send: (params: any) => {
+        if (finished) throw new Error('Stream is already closed');
+        const requestMessage = requestType.fromObject(params || {});
+        call.write(Buffer.from(requestType.encode(requestMessage).finish()));
+      },
+      halfClose: () => {
+        if (!finished) call.end();
+      },
+      cancel: () => {
+        try { call.cancel(); } catch { /* ignore */ }
+      },
+    };
+  }
+
   /**
    * Get query services using Cosmos v2alpha1 reflection (optimized for Cosmos chains)
    * This is more efficient than standard reflection as it returns all query services in one call
@@ -1141,7 +1612,8 @@ export class ReflectionClient {
         'cosmos.base.reflection.v2alpha1.ReflectionService',
         'GetQueryServicesDescriptor',
         {},
-        this.getTimeoutMs()
+        this.getTimeoutMs(),
+        this.options.metadata
       );
 
       console.log('[ReflectionClient] v2alpha1 response structure:', JSON.stringify(response).substring(0, 500));
@@ -1232,7 +1704,8 @@ export class ReflectionClient {
         'cosmos.base.reflection.v2alpha1.ReflectionService',
         'GetTxDescriptor',
         {},
-        this.getTimeoutMs()
+        this.getTimeoutMs(),
+        this.options.metadata
       );
 
       if (!response || !response.tx || !response.tx.msgs) {
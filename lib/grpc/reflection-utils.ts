@@ -1,7 +1,7 @@
 // lib/grpc/reflection-utils.ts
 // Utility functions for gRPC reflection matching the old API from utils/grpcReflection.ts
 
-import { ReflectionClient } from './reflection-client';
+import { ReflectionClient, type ReflectionOptions } from './reflection-client';
 import { errorMessage } from '@/lib/utils';
 
 // Re-export types for convenience
@@ -15,6 +15,20 @@ export type {
 
 import { saveToCache, getFromCache } from '@/lib/utils/client-cache';
 
+/** Transport, TLS, auth and proxy settings forwarded to every ReflectionClient */
+type ReflectionConnectionOptions = Pick<ReflectionOptions, 'transport' | 'tlsOptions' | 'metadata' | 'clientCert' | 'clientKey' | 'proxy'>;
+
+function connectionOptions(options: ReflectionConnectionOptions): ReflectionConnectionOptions {
+  return {
+    transport: options.transport,
+    tlsOptions: options.tlsOptions,
+    metadata: options.metadata,
+    clientCert: options.clientCert,
+    clientKey: options.clientKey,
+    proxy: options.proxy,
+  };
+}
+
 /**
  * Fetch all services and their methods using gRPC reflection
  * Drop-in replacement for utils/grpcReflection.ts fetchServicesViaReflection
@@ -23,13 +37,14 @@ import { saveToCache, getFromCache } from '@/lib/utils/client-cache';
  * @returns Array of services with full type definitions
  */
 export async function fetchServicesViaReflection(
-  options: { endpoint: string; tls: boolean; timeout?: number; additionalEndpoints?: Array<{ address: string; tls: boolean }> }
+  options: { endpoint: string; tls: boolean; timeout?: number; additionalEndpoints?: Array<{ address: string; tls: boolean }> } & ReflectionConnectionOptions
 ): Promise<import('./reflection-client').GrpcService[]> {
   const client = new ReflectionClient({
     endpoint: options.endpoint,
     tls: options.tls,
     timeout: options.timeout || 10000,
     additionalEndpoints: options.additionalEndpoints || [],
+    ...connectionOptions(options),
   });
 
   try {
@@ -40,6 +55,35 @@ export async function fetchServicesViaReflection(
   }
 }
 
+/**
+ * Load every service over reflection and serialize the descriptors the server
+ * returned as a FileDescriptorSet, for offline reuse as a `.protoset` file
+ *
+ * @param options - Reflection options (endpoint, tls, timeout)
+ * @returns Serialized set plus the files it contains and any the server did not return
+ */
+export async function fetchFileDescriptorSet(
+  options: { endpoint: string; tls: boolean; timeout?: number } & ReflectionConnectionOptions
+): Promise<{ data: Buffer; files: string[]; missingDependencies: string[]; serviceCount: number }> {
+  const client = new ReflectionClient({
+    endpoint: options.endpoint,
+    tls: options.tls,
+    timeout: options.timeout || 10000,
+    ...connectionOptions(options),
+  });
+
+  try {
+    await client.initialize();
+    const serviceCount = client.getServices().length;
+    if (serviceCount === 0) {
+      throw new Error(`No services could be loaded from ${options.endpoint}`);
+    }
+    return { ...client.toFileDescriptorSet(), serviceCount };
+  } finally {
+    client.close();
+  }
+}
+
 /**
  * Fetch services using optimized Cosmos v2alpha1 reflection when available,
  * with fallback to standard gRPC reflection
@@ -55,13 +99,14 @@ export async function fetchServicesViaReflection(
  * @returns Array of services with full type definitions
  */
 export async function fetchServicesWithCosmosOptimization(
-  options: { endpoint: string; tls: boolean; timeout?: number; additionalEndpoints?: Array<{ address: string; tls: boolean }> }
+  options: { endpoint: string; tls: boolean; timeout?: number; additionalEndpoints?: Array<{ address: string; tls: boolean }> } & ReflectionConnectionOptions
 ): Promise<import('./reflection-client').GrpcService[]> {
   const client = new ReflectionClient({
     endpoint: options.endpoint,
     tls: options.tls,
     timeout: options.timeout || 10000,
     additionalEndpoints: options.additionalEndpoints || [],
+    ...connectionOptions(options),
   });
 
   try {
@@ -157,7 +202,7 @@ export async function fetchServicesWithCosmosOptimization(
  * Throws an error if loading fails so callers can handle appropriately
  */
 export async function loadServiceDescriptor(
-  options: { endpoint: string; tls: boolean; timeout?: number },
+  options: { endpoint: string; tls: boolean; timeout?: number } & ReflectionConnectionOptions,
   serviceName: string
 ): Promise<import('./reflection-client').GrpcService | null> {
   if (!options?.endpoint || typeof options.tls !== 'boolean') {
@@ -167,7 +212,7 @@ export async function loadServiceDescriptor(
     throw new Error('Service name is required');
   }
 
-  const cacheKey = `descriptor:${options.endpoint}:${options.tls}:${serviceName}`;
+  const cacheKey = `descriptor:${options.endpoint}:${options.tls}:${options.transport ?? 'grpc'}:${serviceName}`;
 
   try {
     const cached = getFromCache<import('./reflection-client').GrpcService>(cacheKey);
@@ -197,6 +242,7 @@ export async function loadServiceDescriptor(
       endpoint: options.endpoint,
       tls: options.tls,
       timeout: options.timeout || 10000,
+      ...connectionOptions(options),
     });
 
     try {
@@ -0,0 +1,115 @@
+// lib/grpc/rich-error-details.ts
+// google.rpc.Status and the standard error detail messages (google/rpc/error_details.proto)
+// bundled so `grpc-status-details-bin` can be decoded without reflection.
+
+import * as protobuf from 'protobufjs';
+
+/** Trailer carrying a serialized google.rpc.Status */
+export const STATUS_DETAILS_TRAILER = 'grpc-status-details-bin';
+
+const RPC_STATUS_PROTO_SOURCE = `
+syntax = "proto3";
+package google.rpc;
+
+import "google/protobuf/any.proto";
+import "google/protobuf/duration.proto";
+
+message Status {
+  int32 code = 1;
+  string message = 2;
+  repeated google.protobuf.Any details = 3;
+}
+
+message ErrorInfo {
+  string reason = 1;
+  string domain = 2;
+  map<string, string> metadata = 3;
+}
+
+message RetryInfo {
+  google.protobuf.Duration retry_delay = 1;
+}
+
+message DebugInfo {
+  repeated string stack_entries = 1;
+  string detail = 2;
+}
+
+message QuotaFailure {
+  message Violation {
+    string subject = 1;
+    string description = 2;
+  }
+  repeated Violation violations = 1;
+}
+
+message PreconditionFailure {
+  message Violation {
+    string type = 1;
+    string subject = 2;
+    string description = 3;
+  }
+  repeated Violation violations = 1;
+}
+
+message BadRequest {
+  message FieldViolation {
+    string field = 1;
+    string description = 2;
+    string reason = 3;
+  }
+  repeated FieldViolation field_violations = 1;
+}
+
+message RequestInfo {
+  string request_id = 1;
+  string serving_data = 2;
+}
+
+message ResourceInfo {
+  string resource_type = 1;
+  string resource_name = 2;
+  string owner = 3;
+  string description = 4;
+}
+
+message Help {
+  message Link {
+    string description = 1;
+    string url = 2;
+  }
+  repeated Link links = 1;
+}
+
+message LocalizedMessage {
+  string locale = 1;
+  string message = 2;
+}
+`;
+
+let richErrorRoot: protobuf.Root | null = null;
+
+/** Root holding google.rpc.* plus the google.protobuf types they depend on */
+export function getRichErrorRoot(): protobuf.Root {
+  if (!richErrorRoot) {
+    const root = new protobuf.Root();
+    for (const file of ['google/protobuf/any.proto', 'google/protobuf/duration.proto']) {
+      const common = protobuf.common.get(file);
+      if (common?.nested) root.addJSON(common.nested);
+    }
+    protobuf.parse(RPC_STATUS_PROTO_SOURCE, root);
+    root.resolveAll();
+    richErrorRoot = root;
+  }
+  return richErrorRoot;
+}
+
+/** Look up a bundled google.rpc type, or null if `typeName` is not one of them */
+export function lookupRichErrorType(typeName: string): protobuf.Type | null {
+  if (!typeName.startsWith('google.rpc.')) return null;
+  try {
+    return getRichErrorRoot().lookupType(typeName);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,431 @@
+// lib/grpc/schema-diff.ts
+// Compare two FileDescriptorSets and classify each change. A change is
+// breaking when existing clients would fail over gRPC, JSON or REST (roughly
+// buf's WIRE_JSON rules); wire-incompatible changes are the subset where old
+// and new peers misread each other's binary messages.
+
+import { decodeFileDescriptorSet, SCALAR_TYPES } from './proto-printer';
+import type { SchemaChange, SchemaChangeKind, SchemaDiffReport } from '@/lib/types/grpc';
+
+type Descriptor = Record<string, any>;
+
+interface FieldInfo {
+  name: string;
+  number: number;
+  type: string; // Scalar name, map<K, V> or a fully qualified type name
+  kind: 'scalar' | 'enum' | 'message' | 'map';
+  label: 'optional' | 'required' | 'repeated';
+  oneof?: string;
+  jsonName: string; // Explicit or protoc's default
+}
+
+/** Inclusive number range */
+interface NumberRange {
+  start: number;
+  end: number;
+}
+
+interface Reserved {
+  ranges: NumberRange[];
+  names: Set<string>;
+}
+
+interface MessageInfo {
+  file: string;
+  fields: Map<number, FieldInfo>;
+  reserved: Reserved;
+}
+
+interface EnumInfo {
+  file: string;
+  values: Map<number, string[]>; // Several names with allow_alias
+  reserved: Reserved;
+}
+
+interface MethodInfo {
+  input: string;
+  output: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  http?: string; // google.api.http rule as JSON
+}
+
+interface ServiceInfo {
+  file: string;
+  methods: Map<string, MethodInfo>;
+}
+
+interface SchemaIndex {
+  messages: Map<string, MessageInfo>;
+  enums: Map<string, EnumInfo>;
+  services: Map<string, ServiceInfo>;
+}
+
+const HTTP_OPTION = '.google.api.http';
+
+// Scalar types that share a wire encoding; enums encode as varints
+const WIRE_GROUPS = [
+  ['int32', 'uint32', 'int64', 'uint64', 'bool', 'enum'],
+  ['sint32', 'sint64'],
+  ['fixed32', 'sfixed32'],
+  ['fixed64', 'sfixed64'],
+  ['string', 'bytes'],
+];
+
+// Repeated fields of these types are packed, so switching to or from a singular field changes the encoding
+const PACKABLE = new Set(WIRE_GROUPS.slice(0, 4).flat());
+
+function stripDot(name: string | undefined): string {
+  return (name ?? '').replace(/^\./, '');
+}
+
+/** protoc's json_name: lowerCamelCase of the field name */
+function defaultJsonName(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function reservedOf(descriptor: Descriptor, exclusiveEnd: boolean): Reserved {
+  return {
+    ranges: (descriptor.reservedRange ?? []).map((range: Descriptor) => ({
+      start: range.start ?? 0,
+      end: (range.end ?? 0) - (exclusiveEnd ? 1 : 0),
+    })),
+    names: new Set<string>(descriptor.reservedName ?? []),
+  };
+}
+
+function isReserved(reserved: Reserved, number: number, name: string): boolean {
+  return reserved.names.has(name) || reserved.ranges.some((range) => number >= range.start && number <= range.end);
+}
+
+function indexSchema(files: Descriptor[]): SchemaIndex {
+  const rawMessages = new Map<string, { descriptor: Descriptor; file: string }>();
+  const rawEnums = new Map<string, { descriptor: Descriptor; file: string }>();
+  const mapEntries = new Map<string, Descriptor>();
+  const rawServices = new Map<string, { descriptor: Descriptor; file: string }>();
+
+  const collect = (scope: string, messages: Descriptor[], enums: Descriptor[], file: string): void => {
+    for (const message of messages) {
+      const fullName = scope ? `${scope}.${message.name}` : message.name;
+      if (message.options?.mapEntry) {
+        mapEntries.set(fullName, message);
+        continue;
+      }
+      if (!rawMessages.has(fullName)) rawMessages.set(fullName, { descriptor: message, file });
+      collect(fullName, message.nestedType ?? [], message.enumType ?? [], file);
+    }
+    for (const enumType of enums) {
+      const fullName = scope ? `${scope}.${enumType.name}` : enumType.name;
+      if (!rawEnums.has(fullName)) rawEnums.set(fullName, { descriptor: enumType, file });
+    }
+  };
+
+  for (const file of files) {
+    const scope = file.package ?? '';
+    collect(scope, file.messageType ?? [], file.enumType ?? [], file.name);
+    for (const service of file.service ?? []) {
+      const fullName = scope ? `${scope}.${service.name}` : service.name;
+      if (!rawServices.has(fullName)) rawServices.set(fullName, { descriptor: service, file: file.name });
+    }
+  }
+
+  const typeOf = (field: Descriptor): Pick<FieldInfo, 'type' | 'kind'> => {
+    if (field.type === 'TYPE_ENUM') return { type: stripDot(field.typeName), kind: 'enum' };
+    if (field.type === 'TYPE_MESSAGE' || field.type === 'TYPE_GROUP') {
+      const entry = mapEntries.get(stripDot(field.typeName));
+      if (entry) {
+        const [key, value] = entry.field ?? [];
+        return { type: `map<${typeOf(key ?? {}).type}, ${typeOf(value ?? {}).type}>`, kind: 'map' };
+      }
+      return { type: stripDot(field.typeName), kind: 'message' };
+    }
+    return { type: SCALAR_TYPES[field.type] ?? String(field.type), kind: 'scalar' };
+  };
+
+  const index: SchemaIndex = { messages: new Map(), enums: new Map(), services: new Map() };
+
+  rawMessages.forEach(({ descriptor, file }, fullName) => {
+    const fields = new Map<number, FieldInfo>();
+    for (const field of descriptor.field ?? []) {
+      const oneof = field.oneofIndex !== undefined && !field.proto3Optional
+        ? descriptor.oneofDecl?.[field.oneofIndex]?.name
+        : undefined;
+      fields.set(field.number, {
+        name: field.name,
+        number: field.number,
+        ...typeOf(field),
+        label: field.label === 'LABEL_REPEATED' ? 'repeated' : field.label === 'LABEL_REQUIRED' ? 'required' : 'optional',
+        ...(oneof ? { oneof } : {}),
+        jsonName: field.jsonName || defaultJsonName(field.name),
+      });
+    }
+    index.messages.set(fullName, { file, fields, reserved: reservedOf(descriptor, true) });
+  });
+
+  rawEnums.forEach(({ descriptor, file }, fullName) => {
+    const values = new Map<number, string[]>();
+    for (const value of descriptor.value ?? []) {
+      const number = value.number ?? 0;
+      values.set(number, [...(values.get(number) ?? []), value.name]);
+    }
+    // Enum reserved ranges are inclusive
+    index.enums.set(fullName, { file, values, reserved: reservedOf(descriptor, false) });
+  });
+
+  rawServices.forEach(({ descriptor, file }, fullName) => {
+    const methods = new Map<string, MethodInfo>();
+    for (const method of descriptor.method ?? []) {
+      const http = method.options?.[HTTP_OPTION];
+      methods.set(method.name, {
+        input: stripDot(method.inputType),
+        output: stripDot(method.outputType),
+        clientStreaming: Boolean(method.clientStreaming),
+        serverStreaming: Boolean(method.serverStreaming),
+        ...(http ? { http: JSON.stringify(http) } : {}),
+      });
+    }
+    index.services.set(fullName, { file, methods });
+  });
+
+  return index;
+}
+
+/** Enums that only moved or were renamed: same values, new name */
+function findEnumRenames(before: SchemaIndex, after: SchemaIndex): Map<string, string> {
+  const signature = (info: EnumInfo) => Array.from(info.values.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([number, names]) => `${number}=${names.join('|')}`)
+    .join(',');
+
+  const added = new Map<string, string>();
+  after.enums.forEach((info, name) => {
+    if (!before.enums.has(name) && !added.has(signature(info))) added.set(signature(info), name);
+  });
+
+  const renames = new Map<string, string>();
+  before.enums.forEach((info, name) => {
+    if (after.enums.has(name)) return;
+    const target = added.get(signature(info));
+    if (target) {
+      renames.set(name, target);
+      added.delete(signature(info));
+    }
+  });
+  return renames;
+}
+
+function wireGroup(field: FieldInfo): string {
+  return field.kind === 'enum' ? 'enum' : field.type;
+}
+
+function typesWireCompatible(before: FieldInfo, after: FieldInfo): boolean {
+  if (before.kind === 'message' || after.kind === 'message' || before.kind === 'map' || after.kind === 'map') return false;
+  return WIRE_GROUPS.some((group) => group.includes(wireGroup(before)) && group.includes(wireGroup(after)));
+}
+
+class SchemaDiffer {
+  readonly changes: SchemaChange[] = [];
+
+  constructor(
+    private readonly before: SchemaIndex,
+    private readonly after: SchemaIndex,
+    private readonly enumRenames: Map<string, string>
+  ) {}
+
+  run(): void {
+    this.diffServices();
+    this.diffMessages();
+    this.diffEnums();
+  }
+
+  private add(kind: SchemaChangeKind, breaking: boolean, wireIncompatible: boolean, element: string, description: string, file?: string): void {
+    this.changes.push({ kind, breaking, wireIncompatible, element, description, ...(file ? { file } : {}) });
+  }
+
+  /** A before-side type name as the after side would spell it */
+  private renamed(type: string): string {
+    return type.replace(/[\w.]+/g, (name) => this.enumRenames.get(name) ?? name);
+  }
+
+  private diffServices(): void {
+    this.before.services.forEach((service, name) => {
+      const next = this.after.services.get(name);
+      if (!next) {
+        this.add('service-removed', true, false, name, `Service removed with its ${service.methods.size} method${service.methods.size === 1 ? '' : 's'}`, service.file);
+        return;
+      }
+      service.methods.forEach((method, methodName) => {
+        const element = `${name}.${methodName}`;
+        const nextMethod = next.methods.get(methodName);
+        if (!nextMethod) {
+          this.add('method-removed', true, false, element, 'Method removed; calls fail with UNIMPLEMENTED', service.file);
+          return;
+        }
+        this.diffMethod(element, method, nextMethod, next.file);
+      });
+      next.methods.forEach((_, methodName) => {
+        if (!service.methods.has(methodName)) this.add('method-added', false, false, `${name}.${methodName}`, 'Method added', next.file);
+      });
+    });
+    this.after.services.forEach((service, name) => {
+      if (!this.before.services.has(name)) {
+        this.add('service-added', false, false, name, `Service added with ${service.methods.size} method${service.methods.size === 1 ? '' : 's'}`, service.file);
+      }
+    });
+  }
+
+  private diffMethod(element: string, before: MethodInfo, after: MethodInfo, file: string): void {
+    const types: string[] = [];
+    if (before.input !== after.input) types.push(`request ${before.input} → ${after.input}`);
+    if (before.output !== after.output) types.push(`response ${before.output} → ${after.output}`);
+    if (types.length > 0) this.add('method-type-changed', true, true, element, `Message type changed: ${types.join(', ')}`, file);
+
+    if (before.clientStreaming !== after.clientStreaming || before.serverStreaming !== after.serverStreaming) {
+      const kind = (method: MethodInfo) => method.clientStreaming && method.serverStreaming ? 'bidi streaming'
+        : method.clientStreaming ? 'client streaming' : method.serverStreaming ? 'server streaming' : 'unary';
+      this.add('method-streaming-changed', true, true, element, `Changed from ${kind(before)} to ${kind(after)}`, file);
+    }
+
+    if (before.http && !after.http) {
+      this.add('method-http-removed', true, false, element, 'google.api.http rule removed; its REST route is gone', file);
+    } else if (!before.http && after.http) {
+      this.add('method-http-added', false, false, element, 'google.api.http rule added', file);
+    } else if (before.http !== after.http) {
+      this.add('method-http-changed', true, false, element, `google.api.http rule changed: ${before.http} → ${after.http}`, file);
+    }
+  }
+
+  private diffMessages(): void {
+    this.before.messages.forEach((message, name) => {
+      const next = this.after.messages.get(name);
+      if (!next) {
+        this.add('message-removed', true, false, name, 'Message removed', message.file);
+        return;
+      }
+      this.diffFields(name, message, next);
+    });
+    this.after.messages.forEach((message, name) => {
+      if (!this.before.messages.has(name)) this.add('message-added', false, false, name, 'Message added', message.file);
+    });
+  }
+
+  private diffFields(messageName: string, before: MessageInfo, after: MessageInfo): void {
+    const afterByName = new Map(Array.from(after.fields.values()).map((field) => [field.name, field]));
+    const renumbered = new Set<string>();
+
+    before.fields.forEach((field, number) => {
+      const element = `${messageName}.${field.name}`;
+      const next = after.fields.get(number);
+      if (!next) {
+        const moved = afterByName.get(field.name);
+        if (moved && !before.fields.has(moved.number)) {
+          renumbered.add(field.name);
+          this.add('field-number-changed', true, true, element, `Field number changed from ${number} to ${moved.number}`, after.file);
+        } else if (isReserved(after.reserved, number, field.name)) {
+          this.add('field-removed', false, false, element, `Field ${number} removed; its number or name is reserved`, after.file);
+        } else {
+          this.add('field-removed', true, false, element, `Field ${number} removed without reserving its number or name`, after.file);
+        }
+        return;
+      }
+      this.diffField(element, field, next, after.file);
+    });
+
+    after.fields.forEach((field, number) => {
+      if (before.fields.has(number) || renumbered.has(field.name)) return;
+      const required = field.label === 'required';
+      this.add('field-added', required, false, `${messageName}.${field.name}`,
+        `Field ${number} (${field.type}) added${required ? ' as required; existing clients do not send it' : ''}`, after.file);
+    });
+  }
+
+  private diffField(element: string, before: FieldInfo, after: FieldInfo, file: string): void {
+    if (before.name !== after.name) {
+      this.add('field-renamed', true, false, element, `Field ${before.number} renamed to ${after.name}; JSON and REST clients use the old name`, file);
+    } else if (before.jsonName !== after.jsonName) {
+      this.add('field-json-name-changed', true, false, element, `json_name changed from ${before.jsonName} to ${after.jsonName}`, file);
+    }
+
+    if (this.renamed(before.type) !== after.type) {
+      this.add('field-type-changed', true, !typesWireCompatible(before, after), element, `Type changed from ${before.type} to ${after.type}`, file);
+    }
+
+    if (before.label !== after.label) {
+      const repeatedChanged = before.label === 'repeated' || after.label === 'repeated';
+      const wireIncompatible = repeatedChanged && (PACKABLE.has(wireGroup(before)) || PACKABLE.has(wireGroup(after)));
+      this.add('field-label-changed', true, wireIncompatible, element, `Label changed from ${before.label} to ${after.label}`, file);
+    }
+
+    if (before.oneof !== after.oneof) {
+      const where = (oneof?: string) => (oneof ? `oneof ${oneof}` : 'no oneof');
+      this.add('field-oneof-changed', true, false, element, `Moved from ${where(before.oneof)} to ${where(after.oneof)}`, file);
+    }
+  }
+
+  private diffEnums(): void {
+    this.before.enums.forEach((enumType, name) => {
+      const renamedTo = this.enumRenames.get(name);
+      const next = this.after.enums.get(renamedTo ?? name);
+      if (!next) {
+        this.add('enum-removed', true, false, name, 'Enum removed', enumType.file);
+        return;
+      }
+      if (renamedTo) {
+        this.add('enum-renamed', false, false, name, `Renamed to ${renamedTo} with the same values`, next.file);
+        return;
+      }
+      this.diffEnumValues(name, enumType, next);
+    });
+    const renameTargets = new Set(Array.from(this.enumRenames.values()));
+    this.after.enums.forEach((enumType, name) => {
+      if (!this.before.enums.has(name) && !renameTargets.has(name)) this.add('enum-added', false, false, name, 'Enum added', enumType.file);
+    });
+  }
+
+  private diffEnumValues(enumName: string, before: EnumInfo, after: EnumInfo): void {
+    before.values.forEach((names, number) => {
+      const element = `${enumName}.${names[0]}`;
+      const nextNames = after.values.get(number);
+      if (!nextNames) {
+        const reserved = names.some((name) => isReserved(after.reserved, number, name));
+        this.add('enum-value-removed', !reserved, false, element,
+          `Value ${number} removed${reserved ? '; its number or name is reserved' : ' without reserving it'}`, after.file);
+      } else if (!names.some((name) => nextNames.includes(name))) {
+        this.add('enum-value-renamed', true, false, element, `Value ${number} renamed to ${nextNames[0]}; JSON uses value names`, after.file);
+      }
+    });
+    after.values.forEach((names, number) => {
+      if (!before.values.has(number)) this.add('enum-value-added', false, false, `${enumName}.${names[0]}`, `Value ${number} added`, after.file);
+    });
+  }
+}
+
+/**
+ * Compare two binary FileDescriptorSets. `labels` name the two sides in the
+ * report.
+ */
+export function diffFileDescriptorSets(
+  before: Uint8Array,
+  after: Uint8Array,
+  labels: { before: string; after: string } = { before: 'before', after: 'after' }
+): SchemaDiffReport {
+  const beforeIndex = indexSchema(decodeFileDescriptorSet(before));
+  const afterIndex = indexSchema(decodeFileDescriptorSet(after));
+  const differ = new SchemaDiffer(beforeIndex, afterIndex, findEnumRenames(beforeIndex, afterIndex));
+  differ.run();
+
+  const changes = differ.changes.sort((a, b) =>
+    Number(b.breaking) - Number(a.breaking) || a.element.localeCompare(b.element) || a.kind.localeCompare(b.kind)
+  );
+  const breaking = changes.filter((change) => change.breaking).length;
+  return {
+    ...labels,
+    generatedAt: Date.now(),
+    summary: {
+      breaking,
+      nonBreaking: changes.length - breaking,
+      wireIncompatible: changes.filter((change) => change.wireIncompatible).length,
+    },
+    changes,
+  };
+}
@@ -0,0 +1,54 @@
+// lib/grpc/schema-sources.ts
+// Load a FileDescriptorSet from a schema source: server reflection, a BSR
+// module or a .protoset snapshot sent by the browser
+
+import { fetchBsrDescriptorSet } from './bsr-client';
+import { fetchFileDescriptorSet } from './reflection-utils';
+import { authorizeCall } from './call-auth';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { normalizeProxyConfig } from '@/lib/utils/proxy-config';
+import type { SchemaDiffSource } from '@/lib/types/grpc';
+
+/** Why `source` from a request body cannot be loaded; undefined when it can */
+export function invalidSchemaSource(source: any): string | undefined {
+  switch (source?.kind) {
+    case 'bsr':
+      return source.bsrSource?.module ? undefined : 'Missing required field: bsrSource.module';
+    case 'reflection':
+      return source.endpoint && typeof source.tlsEnabled === 'boolean' ? undefined : 'Missing required fields: endpoint, tlsEnabled';
+    case 'protoset':
+      return typeof source.data === 'string' && source.data ? undefined : 'Missing required field: data';
+    default:
+      return 'kind must be "reflection", "bsr" or "protoset"';
+  }
+}
+
+/**
+ * Fetch or decode the FileDescriptorSet behind `source`, with a label naming
+ * it (endpoint, module@version or snapshot file name). BSR failures throw
+ * BsrError; the rest throw plain errors.
+ */
+export async function loadSchemaDescriptorSet(
+  source: SchemaDiffSource,
+  timeoutMs: number
+): Promise<{ data: Uint8Array; label: string }> {
+  if (source.kind === 'protoset') {
+    return { data: Buffer.from(source.data, 'base64'), label: source.name || 'snapshot.protoset' };
+  }
+
+  const proxy = normalizeProxyConfig(source.proxy);
+  if (source.kind === 'bsr') {
+    const descriptorSet = await fetchBsrDescriptorSet(source.bsrSource, proxy);
+    return { data: descriptorSet.data, label: `${descriptorSet.module}@${descriptorSet.version}` };
+  }
+
+  const descriptorSet = await fetchFileDescriptorSet({
+    endpoint: source.endpoint,
+    tls: source.tlsEnabled,
+    timeout: timeoutMs,
+    transport: normalizeTransport(source.transport),
+    proxy,
+    ...await authorizeCall(undefined, source.authConfig, proxy),
+  });
+  return { data: descriptorSet.data, label: source.endpoint };
+}
@@ -0,0 +1,45 @@
+// lib/grpc/stream-sessions.ts
+// In-process registry of open client-streaming and bidi sessions
+
+import { randomUUID } from 'crypto';
+import type { StreamingCall } from './reflection-client';
+
+export interface StreamSession {
+  id: string;
+  service: string;
+  method: string;
+  call: StreamingCall;
+  createdAt: number;
+}
+
+/**
+ * Sessions live in server memory, so the route that opens a session and the
+ * route that writes to it must run in the same Node.js process (true for
+ * `next start`, Docker and the dev server; not for multi-instance serverless).
+ */
+class StreamSessionRegistry {
+  private sessions = new Map<string, StreamSession>();
+
+  register(service: string, method: string, call: StreamingCall): StreamSession {
+    const session: StreamSession = { id: randomUUID(), service, method, call, createdAt: Date.now() };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id: string): StreamSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  remove(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
+
+// Next.js may bundle each route separately; keep one registry per process.
+const globalForSessions = globalThis as typeof globalThis & { __grpcStreamSessions?: StreamSessionRegistry };
+
+export const streamSessions = globalForSessions.__grpcStreamSessions ??= new StreamSessionRegistry();
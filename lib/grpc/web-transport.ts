@@ -0,0 +1,747 @@
+// lib/grpc/web-transport.ts
+// gRPC-Web (binary and text) and Connect protocol framing over plain HTTP.
+// WebTransportClient mirrors the parts of the grpc-js Client surface that
+// ReflectionClient uses, so reflection and invocation code stays transport-agnostic.
+
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as https from 'https';
+import * as http2 from 'http2';
+import { connect as netConnect, isIP, type Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+import * as zlib from 'zlib';
+import * as grpc from '@grpc/grpc-js';
+import type { GrpcCallOptions, GrpcCompression, GrpcProxyConfig, GrpcTransport } from '@/lib/types/grpc';
+import { acceptEncodingHeader } from '@/lib/utils/call-options';
+import { splitHostPort, toHttpTarget } from '@/lib/utils/endpoint-address';
+import { getRichErrorRoot, STATUS_DETAILS_TRAILER } from './rich-error-details';
+import type { TlsOptions } from './call-auth';
+import { openProxyTunnel, proxyAuthority, resolveProxy, type ProxyRoute } from './http-proxy';
+
+export type WebTransport = Exclude<GrpcTransport, 'grpc'>;
+
+export interface WebTransportOptions {
+  transport: WebTransport;
+  tls: boolean;
+  /** PEM-encoded client certificate for mTLS */
+  clientCert?: string | undefined;
+  /** PEM-encoded client private key for mTLS */
+  clientKey?: string | undefined;
+  tlsOptions?: TlsOptions | undefined;
+  /** Compression, accepted encodings and message size limits */
+  callOptions?: GrpcCallOptions | undefined;
+  /** HTTP CONNECT proxy; the server-level proxy applies when unset */
+  proxy?: GrpcProxyConfig | undefined;
+}
+
+type CallKind = 'unary' | 'server-stream' | 'bidi';
+
+const FRAME_HEADER_BYTES = 5;
+const COMPRESSED_FLAG = 0x01;
+const CONNECT_END_STREAM_FLAG = 0x02;
+const GRPC_WEB_TRAILER_FLAG = 0x80;
+
+// Never forwarded as call metadata
+const RESERVED_HEADERS = new Set([
+  'grpc-status', 'grpc-message', 'content-length', 'content-type', 'connection',
+  'keep-alive', 'transfer-encoding', 'date', 'trailer', 'vary',
+]);
+
+const CONNECT_CODES: Record<string, grpc.status> = {
+  canceled: grpc.status.CANCELLED,
+  unknown: grpc.status.UNKNOWN,
+  invalid_argument: grpc.status.INVALID_ARGUMENT,
+  deadline_exceeded: grpc.status.DEADLINE_EXCEEDED,
+  not_found: grpc.status.NOT_FOUND,
+  already_exists: grpc.status.ALREADY_EXISTS,
+  permission_denied: grpc.status.PERMISSION_DENIED,
+  resource_exhausted: grpc.status.RESOURCE_EXHAUSTED,
+  failed_precondition: grpc.status.FAILED_PRECONDITION,
+  aborted: grpc.status.ABORTED,
+  out_of_range: grpc.status.OUT_OF_RANGE,
+  unimplemented: grpc.status.UNIMPLEMENTED,
+  internal: grpc.status.INTERNAL,
+  unavailable: grpc.status.UNAVAILABLE,
+  data_loss: grpc.status.DATA_LOSS,
+  unauthenticated: grpc.status.UNAUTHENTICATED,
+};
+
+/** Wrap a message in the 5-byte length-prefixed frame shared by gRPC-Web and Connect streaming */
+export function encodeFrame(message: Uint8Array, flags: number = 0): Buffer {
+  const frame = Buffer.alloc(FRAME_HEADER_BYTES + message.length);
+  frame.writeUInt8(flags, 0);
+  frame.writeUInt32BE(message.length, 1);
+  frame.set(message, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+export interface Frame {
+  flags: number;
+  data: Buffer;
+}
+
+/** Splits a byte stream into length-prefixed frames as chunks arrive */
+export class FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): Frame[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: Frame[] = [];
+    while (this.buffer.length >= FRAME_HEADER_BYTES) {
+      const length = this.buffer.readUInt32BE(1);
+      if (this.buffer.length < FRAME_HEADER_BYTES + length) break;
+      frames.push({
+        flags: this.buffer[0],
+        data: this.buffer.subarray(FRAME_HEADER_BYTES, FRAME_HEADER_BYTES + length),
+      });
+      this.buffer = this.buffer.subarray(FRAME_HEADER_BYTES + length);
+    }
+    return frames;
+  }
+}
+
+/**
+ * Decodes grpc-web-text bodies. Servers may send several independently
+ * padded base64 segments, and chunks can split a 4-character group.
+ */
+export class Base64ChunkDecoder {
+  private pending = '';
+
+  push(text: string): Buffer {
+    this.pending += text.replace(/\s/g, '');
+    const usable = this.pending.length - (this.pending.length % 4);
+    const parts: Buffer[] = [];
+    let start = 0;
+    for (let i = 0; i < usable; i += 4) {
+      // A padded group ends a segment; decode it separately from what follows
+      if (this.pending[i + 3] === '=') {
+        parts.push(Buffer.from(this.pending.slice(start, i + 4), 'base64'));
+        start = i + 4;
+      }
+    }
+    if (start < usable) parts.push(Buffer.from(this.pending.slice(start, usable), 'base64'));
+    this.pending = this.pending.slice(usable);
+    return Buffer.concat(parts);
+  }
+}
+
+/** Compress a message for the wire; identity returns it unchanged */
+export function compressMessage(data: Buffer, encoding: GrpcCompression): Buffer {
+  if (encoding === 'gzip') return zlib.gzipSync(data);
+  if (encoding === 'deflate') return zlib.deflateSync(data);
+  return data;
+}
+
+/**
+ * Decompress a message received with `encoding`, never producing more than
+ * `maxLength` bytes. Throws on unsupported encodings and oversized output.
+ */
+export function decompressMessage(data: Buffer, encoding: string | undefined, maxLength?: number): Buffer {
+  const options = maxLength ? { maxOutputLength: maxLength } : {};
+  if (encoding === 'gzip') return zlib.gunzipSync(data, options);
+  if (encoding === 'deflate') return zlib.inflateSync(data, options);
+  throw new Error(`Unsupported message encoding '${encoding ?? 'identity'}'`);
+}
+
+/** Parse the `key: value` lines of a gRPC-Web trailer frame */
+export function parseGrpcWebTrailers(data: Buffer): Record<string, string[]> {
+  const trailers: Record<string, string[]> = {};
+  for (const line of data.toString('utf8').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    (trailers[key] ??= []).push(line.slice(separator + 1).trim());
+  }
+  return trailers;
+}
+
+/** The gRPC code a proxy implies with a non-200 HTTP status (per the gRPC HTTP/2 spec) */
+export function httpStatusToGrpcCode(httpStatus: number): grpc.status {
+  switch (httpStatus) {
+    case 400: return grpc.status.INTERNAL;
+    case 401: return grpc.status.UNAUTHENTICATED;
+    case 403: return grpc.status.PERMISSION_DENIED;
+    case 404: return grpc.status.UNIMPLEMENTED;
+    case 429:
+    case 502:
+    case 503:
+    case 504: return grpc.status.UNAVAILABLE;
+    default: return grpc.status.UNKNOWN;
+  }
+}
+
+/** Numeric gRPC code for a Connect error code such as `not_found` */
+export function connectCodeToGrpcCode(code: unknown): grpc.status {
+  return typeof code === 'string' && code in CONNECT_CODES ? CONNECT_CODES[code] : grpc.status.UNKNOWN;
+}
+
+type HeaderValues = Record<string, string | string[] | undefined>;
+
+function firstHeader(headers: HeaderValues, key: string): string | undefined {
+  const value = headers[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Convert HTTP headers (or parsed trailers) to grpc-js metadata. Reserved and
+ * pseudo headers are dropped; `-bin` values are base64-decoded. With `prefix`,
+ * only keys carrying it are kept, with the prefix removed.
+ */
+export function headersToMetadata(headers: HeaderValues, prefix?: string): grpc.Metadata {
+  const metadata = new grpc.Metadata();
+  for (const [rawKey, rawValue] of Object.entries(headers)) {
+    if (rawValue === undefined || rawKey.startsWith(':')) continue;
+    let key = rawKey.toLowerCase();
+    if (prefix) {
+      if (!key.startsWith(prefix)) continue;
+      key = key.slice(prefix.length);
+    }
+    if (RESERVED_HEADERS.has(key)) continue;
+    for (const value of Array.isArray(rawValue) ? rawValue : [rawValue]) {
+      try {
+        if (key.endsWith('-bin')) metadata.add(key, Buffer.from(value, 'base64'));
+        else metadata.add(key, value);
+      } catch {
+        // Not a legal gRPC metadata key; leave it out
+      }
+    }
+  }
+  return metadata;
+}
+
+function metadataToHeaders(metadata: grpc.Metadata): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const key of Object.keys(metadata.getMap())) {
+    headers[key] = metadata
+      .get(key)
+      .map((value) => (Buffer.isBuffer(value) ? value.toString('base64') : String(value)))
+      .join(', ');
+  }
+  return headers;
+}
+
+function decodeGrpcMessage(value: string | undefined): string {
+  if (!value) return '';
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Status for a Connect error body (`{code, message, details}`). Error details
+ * are re-encoded as a google.rpc.Status trailer so they decode like gRPC ones.
+ */
+export function connectErrorToStatus(error: any, trailers: grpc.Metadata, fallbackCode: grpc.status): grpc.StatusObject {
+  const code = typeof error?.code === 'string' ? connectCodeToGrpcCode(error.code) : fallbackCode;
+  const details = typeof error?.message === 'string' ? error.message : '';
+
+  if (Array.isArray(error?.details) && error.details.length > 0) {
+    try {
+      const Status = getRichErrorRoot().lookupType('google.rpc.Status');
+      const encoded = Status.encode(Status.fromObject({
+        code,
+        message: details,
+        details: error.details.map((detail: { type?: string; value?: string }) => ({
+          type_url: `type.googleapis.com/${detail.type ?? ''}`,
+          value: Buffer.from(detail.value ?? '', 'base64'),
+        })),
+      })).finish();
+      trailers.set(STATUS_DETAILS_TRAILER, Buffer.from(encoded));
+    } catch {
+      // Malformed details; the code and message still stand
+    }
+  }
+
+  return { code, details, metadata: trailers };
+}
+
+function messageTooLarge(direction: 'Sent' | 'Received', maxLength: number): grpc.StatusObject {
+  return {
+    code: grpc.status.RESOURCE_EXHAUSTED,
+    details: `${direction} message larger than max of ${maxLength} bytes`,
+    metadata: new grpc.Metadata(),
+  };
+}
+
+/** Decompress and size-check a received message, or return the status that ends the call */
+function receiveMessage(data: Buffer, encoding: string | undefined, maxLength: number | undefined): Buffer | grpc.StatusObject {
+  let message = data;
+  if (encoding !== undefined) {
+    try {
+      message = decompressMessage(data, encoding, maxLength);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' && maxLength) return messageTooLarge('Received', maxLength);
+      return { code: grpc.status.INTERNAL, details: `Failed to decompress response: ${(error as Error).message}`, metadata: new grpc.Metadata() };
+    }
+  }
+  return maxLength && message.length > maxLength ? messageTooLarge('Received', maxLength) : message;
+}
+
+function toServiceError(status: grpc.StatusObject): grpc.ServiceError {
+  return Object.assign(new Error(`${status.code} ${grpc.status[status.code]}: ${status.details}`), status);
+}
+
+interface HttpResponse {
+  status: number;
+  headers: HeaderValues;
+  body: NodeJS.ReadableStream;
+}
+
+interface HttpHandlers {
+  onResponse: (response: HttpResponse) => void;
+  onError: (error: Error) => void;
+}
+
+/** An in-flight call; emits the same events grpc-js calls do */
+class WebCall extends EventEmitter {
+  private requests: Buffer[] = [];
+  private abortRequest: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private finished = false;
+  private started = false;
+
+  constructor(
+    private readonly start: (call: WebCall, requests: Buffer[]) => void,
+    private readonly serialize: (value: any) => Buffer
+  ) {
+    super();
+  }
+
+  /** Queue a request message. Web transports are half-duplex, so nothing is sent before end(). */
+  write(message: any): boolean {
+    this.requests.push(this.serialize(message));
+    return true;
+  }
+
+  end(): void {
+    if (this.started || this.finished) return;
+    this.started = true;
+    this.start(this, this.requests);
+  }
+
+  cancel(): void {
+    this.finish({ code: grpc.status.CANCELLED, details: 'Cancelled on client', metadata: new grpc.Metadata() });
+  }
+
+  attach(abortRequest: () => void, deadline: Date | undefined): void {
+    this.abortRequest = abortRequest;
+    if (deadline) {
+      this.timer = setTimeout(() => {
+        this.finish({ code: grpc.status.DEADLINE_EXCEEDED, details: 'Deadline exceeded', metadata: new grpc.Metadata() });
+      }, Math.max(0, deadline.getTime() - Date.now()));
+    }
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  finish(status: grpc.StatusObject): void {
+    if (this.finished) return;
+    this.finished = true;
+    if (this.timer) clearTimeout(this.timer);
+    if (this.abortRequest) {
+      try { this.abortRequest(); } catch { /* ignore */ }
+    }
+    this.emit('finish', status);
+  }
+}
+
+/**
+ * Speaks gRPC-Web or Connect to `endpoint` using the grpc-js Client method
+ * signatures. Each call is one HTTP request; requests are sent in full before
+ * the response is read, so client streaming is limited to a single flush.
+ */
+export class WebTransportClient {
+  constructor(private readonly endpoint: string, private readonly options: WebTransportOptions) {}
+
+  makeUnaryRequest(
+    method: string,
+    serialize: (value: any) => Buffer,
+    deserialize: (value: Buffer) => any,
+    argument: any,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    callback: (error: grpc.ServiceError | null, value?: any) => void
+  ): WebCall {
+    const call = this.createCall(method, serialize, metadata, options, 'unary');
+    let response: Buffer | undefined;
+    call.on('message', (message: Buffer) => { response = message; });
+    call.once('finish', (status: grpc.StatusObject) => {
+      if (status.code === grpc.status.OK) callback(null, deserialize(response ?? Buffer.alloc(0)));
+      else callback(toServiceError(status));
+      call.emit('status', status);
+    });
+    call.write(argument);
+    call.end();
+    return call;
+  }
+
+  makeServerStreamRequest(
+    method: string,
+    serialize: (value: any) => Buffer,
+    deserialize: (value: Buffer) => any,
+    argument: any,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions
+  ): WebCall {
+    const call = this.createStreamingCall(method, serialize, deserialize, metadata, options, 'server-stream');
+    call.write(argument);
+    call.end();
+    return call;
+  }
+
+  /** Half-duplex: writes are buffered and sent together on end() */
+  makeBidiStreamRequest(
+    method: string,
+    serialize: (value: any) => Buffer,
+    deserialize: (value: Buffer) => any,
+    metadata: grpc.Metadata = new grpc.Metadata(),
+    options: grpc.CallOptions = {}
+  ): WebCall {
+    return this.createStreamingCall(method, serialize, deserialize, metadata, options, 'bidi');
+  }
+
+  close(): void {
+    // Each call owns its HTTP request; nothing is pooled
+  }
+
+  private createStreamingCall(
+    method: string,
+    serialize: (value: any) => Buffer,
+    deserialize: (value: Buffer) => any,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    kind: CallKind
+  ): WebCall {
+    const call = this.createCall(method, serialize, metadata, options, kind);
+    call.on('message', (message: Buffer) => call.emit('data', deserialize(message)));
+    call.once('finish', (status: grpc.StatusObject) => {
+      if (status.code !== grpc.status.OK) {
+        if (call.listenerCount('error') > 0) call.emit('error', toServiceError(status));
+        call.emit('status', status);
+        return;
+      }
+      call.emit('status', status);
+      call.emit('end');
+    });
+    return call;
+  }
+
+  private createCall(
+    method: string,
+    serialize: (value: any) => Buffer,
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions,
+    kind: CallKind
+  ): WebCall {
+    const deadline = typeof options.deadline === 'number' ? new Date(options.deadline) : options.deadline;
+    return new WebCall((call, requests) => {
+      const timeoutMs = deadline ? Math.max(1, deadline.getTime() - Date.now()) : undefined;
+      const { transport, callOptions } = this.options;
+      const maxSend = callOptions?.maxSendMessageBytes;
+      const oversized = maxSend ? requests.find((request) => request.length > maxSend) : undefined;
+      if (maxSend && oversized) {
+        process.nextTick(() => call.finish(messageTooLarge('Sent', maxSend)));
+        return;
+      }
+      const compression = callOptions?.compression && callOptions.compression !== 'identity' ? callOptions.compression : undefined;
+      const acceptEncoding = acceptEncodingHeader(callOptions);
+      const frame = (request: Buffer) => compression
+        ? encodeFrame(compressMessage(request, compression), COMPRESSED_FLAG)
+        : encodeFrame(request);
+      const headers: Record<string, string> = metadataToHeaders(metadata);
+      let body: Buffer;
+
+      if (transport === 'connect') {
+        headers['connect-protocol-version'] = '1';
+        if (timeoutMs) headers['connect-timeout-ms'] = String(timeoutMs);
+        if (kind === 'unary') {
+          headers['content-type'] = 'application/proto';
+          if (compression) headers['content-encoding'] = compression;
+          if (acceptEncoding) headers['accept-encoding'] = acceptEncoding;
+          const request = requests[0] ?? Buffer.alloc(0);
+          body = compression ? compressMessage(request, compression) : request;
+        } else {
+          headers['content-type'] = 'application/connect+proto';
+          if (compression) headers['connect-content-encoding'] = compression;
+          if (acceptEncoding) headers['connect-accept-encoding'] = acceptEncoding;
+          body = Buffer.concat(requests.map(frame));
+        }
+      } else {
+        const contentType = transport === 'grpc-web-text' ? 'application/grpc-web-text' : 'application/grpc-web+proto';
+        headers['content-type'] = contentType;
+        headers['accept'] = contentType;
+        headers['x-grpc-web'] = '1';
+        if (timeoutMs) headers['grpc-timeout'] = `${timeoutMs}m`;
+        if (compression) headers['grpc-encoding'] = compression;
+        if (acceptEncoding) headers['grpc-accept-encoding'] = acceptEncoding;
+        const frames = Buffer.concat(requests.map(frame));
+        body = transport === 'grpc-web-text' ? Buffer.from(frames.toString('base64')) : frames;
+      }
+
+      // Connect refuses bidi calls over HTTP/1.1, so those go over HTTP/2
+      const abort = this.sendHttpRequest(method, headers, body, transport === 'connect' && kind === 'bidi', {
+        onResponse: (response) => this.readResponse(call, response, kind),
+        onError: (error) => call.finish({
+          code: grpc.status.UNAVAILABLE,
+          details: error.message,
+          metadata: new grpc.Metadata(),
+        }),
+      });
+      call.attach(abort, deadline);
+    }, serialize);
+  }
+
+  private sendHttpRequest(
+    path: string,
+    headers: Record<string, string>,
+    body: Buffer,
+    useHttp2: boolean,
+    handlers: HttpHandlers
+  ): () => void {
+    const authority = proxyAuthority(this.endpoint);
+    let route: ProxyRoute | null;
+    try {
+      route = authority ? resolveProxy(splitHostPort(authority).host, this.options.proxy) : null;
+    } catch (error) {
+      // Invalid proxy settings fail the call once the caller has attached
+      process.nextTick(() => handlers.onError(error as Error));
+      return () => undefined;
+    }
+    if (!authority || !route) return this.startHttpRequest(path, headers, body, useHttp2, handlers);
+
+    // Tunnel through the HTTP CONNECT proxy first; TLS runs inside the tunnel
+    let abort: (() => void) | null = null;
+    let aborted = false;
+    openProxyTunnel(route, authority).then((tunnel) => {
+      if (aborted) tunnel.destroy();
+      else abort = this.startHttpRequest(path, headers, body, useHttp2, handlers, tunnel);
+    }, handlers.onError);
+    return () => {
+      aborted = true;
+      abort?.();
+    };
+  }
+
+  private startHttpRequest(
+    path: string,
+    headers: Record<string, string>,
+    body: Buffer,
+    useHttp2: boolean,
+    handlers: HttpHandlers,
+    tunnel?: Socket
+  ): () => void {
+    const { tls, clientCert, clientKey } = this.options;
+    const { caCert, serverName, insecureSkipVerify } = this.options.tlsOptions ?? {};
+    const target = toHttpTarget(this.endpoint);
+    // Unix socket requests still need an authority; grpc-go and grpc-js use localhost
+    const socketPath = 'socketPath' in target ? target.socketPath : undefined;
+    const host = 'authority' in target ? splitHostPort(target.authority).host : 'localhost';
+    const origin = `${tls ? 'https' : 'http'}://${'authority' in target ? target.authority : 'localhost'}`;
+    const tlsOptions = tls
+      ? {
+          ...(clientCert && clientKey ? { cert: clientCert, key: clientKey } : {}),
+          ...(caCert ? { ca: caCert } : {}),
+          ...(serverName ? { servername: serverName } : {}),
+          ...(insecureSkipVerify ? { rejectUnauthorized: false } : {}),
+        }
+      : {};
+
+    // Sockets and proxy tunnels replace the default TCP connection
+    const openSocket = tunnel ? () => tunnel : socketPath !== undefined ? () => netConnect(socketPath) : undefined;
+    const createConnection = openSocket && ((alpn: string) => () => tls
+      ? tlsConnect({
+          ...(isIP(host) ? {} : { servername: host }),
+          ...tlsOptions,
+          socket: openSocket(),
+          host,
+          ALPNProtocols: [alpn],
+        })
+      : openSocket());
+
+    if (useHttp2) {
+      const session = http2.connect(origin, {
+        ...tlsOptions,
+        ...(createConnection ? { createConnection: createConnection('h2') } : {}),
+      });
+      session.on('error', handlers.onError);
+      const stream = session.request({
+        ':method': 'POST',
+        ':path': path,
+        ...(serverName ? { ':authority': serverName } : {}),
+        ...headers,
+      });
+      stream.on('response', (responseHeaders) => handlers.onResponse({
+        status: Number(responseHeaders[':status']),
+        headers: responseHeaders,
+        body: stream,
+      }));
+      stream.on('error', handlers.onError);
+      stream.on('close', () => session.close());
+      stream.end(body);
+      return () => {
+        stream.close(http2.constants.NGHTTP2_CANCEL);
+        session.destroy();
+      };
+    }
+
+    const request = (tls ? https : http).request(`${origin}${path}`, {
+      method: 'POST',
+      headers: { ...headers, ...(serverName ? { host: serverName } : {}), 'content-length': String(body.length) },
+      ...tlsOptions,
+      ...(tunnel && createConnection
+        ? { createConnection: createConnection('http/1.1') }
+        : socketPath !== undefined ? { socketPath } : {}),
+    });
+    request.on('response', (response) => handlers.onResponse({
+      status: response.statusCode ?? 0,
+      headers: response.headers,
+      body: response,
+    }));
+    request.on('error', handlers.onError);
+    request.end(body);
+    return () => request.destroy();
+  }
+
+  private readResponse(call: WebCall, response: HttpResponse, kind: CallKind): void {
+    const { transport } = this.options;
+    const maxReceive = this.options.callOptions?.maxReceiveMessageBytes;
+    const { status: httpStatus, headers } = response;
+    const contentType = firstHeader(headers, 'content-type') ?? '';
+    const chunks: Buffer[] = [];
+    let finishFromBody: () => grpc.StatusObject;
+    let onChunk: (chunk: Buffer) => void = (chunk) => { chunks.push(chunk); };
+
+    if (transport === 'connect' && (kind === 'unary' || httpStatus !== 200)) {
+      // Unary responses, and streaming requests rejected up front, are plain bodies
+      call.emit('metadata', headersToMetadata(Object.fromEntries(
+        Object.entries(headers).filter(([key]) => !key.toLowerCase().startsWith('trailer-'))
+      )));
+      finishFromBody = () => {
+        const contentEncoding = firstHeader(headers, 'content-encoding');
+        const received = receiveMessage(
+          Buffer.concat(chunks),
+          contentEncoding && contentEncoding !== 'identity' ? contentEncoding : undefined,
+          maxReceive
+        );
+        if (!Buffer.isBuffer(received)) return received;
+        const trailers = headersToMetadata(headers, 'trailer-');
+        if (httpStatus === 200) {
+          call.emit('message', received);
+          return { code: grpc.status.OK, details: '', metadata: trailers };
+        }
+        let error: any;
+        try {
+          error = JSON.parse(received.toString('utf8'));
+        } catch {
+          error = { message: `Received HTTP status code ${httpStatus}` };
+        }
+        return connectErrorToStatus(error, trailers, httpStatusToGrpcCode(httpStatus));
+      };
+    } else {
+      call.emit('metadata', headersToMetadata(headers));
+      const frames = new FrameDecoder();
+      const text = transport === 'grpc-web-text' ? new Base64ChunkDecoder() : null;
+      const encoding = firstHeader(headers, transport === 'connect' ? 'connect-content-encoding' : 'grpc-encoding');
+      let final: grpc.StatusObject | null = null;
+
+      const headerStatus = firstHeader(headers, 'grpc-status');
+      if (headerStatus !== undefined) {
+        // Trailers-only response: the status arrives in the HTTP headers
+        final = {
+          code: Number(headerStatus),
+          details: decodeGrpcMessage(firstHeader(headers, 'grpc-message')),
+          metadata: headersToMetadata(headers),
+        };
+      } else if (httpStatus !== 200) {
+        final = {
+          code: httpStatusToGrpcCode(httpStatus),
+          details: `Received HTTP status code ${httpStatus}`,
+          metadata: headersToMetadata(headers),
+        };
+      } else if (transport !== 'connect' && !contentType.startsWith('application/grpc-web')) {
+        final = {
+          code: grpc.status.UNKNOWN,
+          details: `Unexpected content-type '${contentType}' (is this a gRPC-Web endpoint?)`,
+          metadata: new grpc.Metadata(),
+        };
+      }
+
+      onChunk = (chunk) => {
+        if (final) return;
+        for (const frame of frames.push(text ? text.push(chunk.toString('ascii')) : chunk)) {
+          const trailerFrame = transport === 'connect'
+            ? (frame.flags & CONNECT_END_STREAM_FLAG) !== 0
+            : (frame.flags & GRPC_WEB_TRAILER_FLAG) !== 0;
+          const data = receiveMessage(
+            frame.data,
+            frame.flags & COMPRESSED_FLAG ? encoding ?? 'identity' : undefined,
+            trailerFrame ? undefined : maxReceive
+          );
+          if (!Buffer.isBuffer(data)) {
+            final = data;
+          } else if (trailerFrame && transport === 'connect') {
+            final = this.readConnectEndStream(data);
+          } else if (trailerFrame) {
+            const trailers = parseGrpcWebTrailers(data);
+            final = {
+              code: Number(trailers['grpc-status']?.[0] ?? grpc.status.UNKNOWN),
+              details: decodeGrpcMessage(trailers['grpc-message']?.[0]),
+              metadata: headersToMetadata(trailers),
+            };
+          } else {
+            call.emit('message', data);
+          }
+          if (final) break;
+        }
+      };
+
+      finishFromBody = () => final ?? {
+        code: grpc.status.INTERNAL,
+        details: transport === 'connect'
+          ? 'Stream closed without an end-of-stream message'
+          : 'Response closed without grpc-status (missing trailers)',
+        metadata: new grpc.Metadata(),
+      };
+    }
+
+    response.body.on('data', (chunk: Buffer) => {
+      if (!call.isFinished) onChunk(chunk);
+    });
+    response.body.on('end', () => call.finish(finishFromBody()));
+    response.body.on('error', (error: Error) => call.finish({
+      code: grpc.status.INTERNAL,
+      details: error.message,
+      metadata: new grpc.Metadata(),
+    }));
+  }
+
+  private readConnectEndStream(data: Buffer): grpc.StatusObject {
+    let endStream: { error?: any; metadata?: Record<string, string[]> } = {};
+    try {
+      endStream = JSON.parse(data.toString('utf8') || '{}');
+    } catch {
+      return { code: grpc.status.INTERNAL, details: 'Malformed end-of-stream message', metadata: new grpc.Metadata() };
+    }
+    const trailers = headersToMetadata(endStream.metadata ?? {});
+    return endStream.error
+      ? connectErrorToStatus(endStream.error, trailers, grpc.status.UNKNOWN)
+      : { code: grpc.status.OK, details: '', metadata: trailers };
+  }
+}
+
+/**
+ * Stand-in for a grpc-js generic client (e.g. the reflection stub) whose
+ * methods are all bidi streams, backed by a WebTransportClient.
+ */
+export function createWebServiceStub(definition: grpc.ServiceDefinition, client: WebTransportClient): Record<string, any> {
+  const stub: Record<string, any> = { close: () => client.close() };
+  for (const [name, method] of Object.entries(definition)) {
+    stub[name] = (metadata?: grpc.Metadata, options?: grpc.CallOptions) =>
+      client.makeBidiStreamRequest(method.path, method.requestSerialize, method.responseDeserialize, metadata, options);
+  }
+  return stub;
+}
@@ -0,0 +1,94 @@
+// lib/grpc/zip-archive.ts
+// Minimal zip reader for uploaded schema archives: stored and deflated entries
+// from the central directory, without ZIP64 or encryption.
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** End-of-central-directory record plus the longest possible archive comment */
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+export interface ZipEntry {
+  /** Path inside the archive, always with forward slashes */
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipReadOptions {
+  /** Entries to extract; others are skipped without inflating */
+  filter?: (name: string) => boolean;
+  /** Limit on the total uncompressed size of extracted entries */
+  maxTotalBytes?: number;
+}
+
+/** True when `data` starts with a zip local file header */
+export function isZipArchive(data: Uint8Array): boolean {
+  return data.length >= 4 && Buffer.from(data.buffer, data.byteOffset, 4).readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const stop = Math.max(0, data.length - MAX_EOCD_SEARCH);
+  for (let offset = data.length - 22; offset >= stop; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Invalid zip archive: end of central directory not found');
+}
+
+/**
+ * Extract file entries (directories are skipped) in central-directory order.
+ */
+export function readZipEntries(data: Buffer, options: ZipReadOptions = {}): ZipEntry[] {
+  const { filter, maxTotalBytes = Infinity } = options;
+  const eocd = findEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Invalid zip archive: ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeaderOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || (filter && !filter(name))) continue;
+    if (flags & 0x1) throw new Error(`Invalid zip archive: ${name} is encrypted`);
+
+    totalBytes += uncompressedSize;
+    if (totalBytes > maxTotalBytes) {
+      throw new Error(`Zip archive too large: more than ${maxTotalBytes} bytes uncompressed`);
+    }
+
+    if (localHeaderOffset + 30 > data.length || data.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid zip archive: missing local header for ${name}`);
+    }
+    const dataStart = localHeaderOffset + 30 + data.readUInt16LE(localHeaderOffset + 26) + data.readUInt16LE(localHeaderOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ name, data: Buffer.from(compressed) });
+    } else if (method === 8) {
+      // Bounded by the declared size, so a lying header cannot inflate past the limit
+      entries.push({ name, data: inflateRawSync(compressed, { maxOutputLength: Math.max(uncompressedSize, 1) }) });
+    } else {
+      throw new Error(`Invalid zip archive: ${name} uses unsupported compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
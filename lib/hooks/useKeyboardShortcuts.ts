@@ -35,5 +35,6 @@ export const SHORTCUTS = {
   ADD_NETWORK: { key: 'n', ctrl: true, description: 'Open connection dialog' },
   CLOSE_TAB: { key: 'w', ctrl: true, description: 'Close current tab' },
   EXECUTE: { key: 'Enter', ctrl: true, description: 'Execute method' },
+  CANCEL: { key: '.', ctrl: true, description: 'Cancel running execution' },
   SHOW_SHORTCUTS: { key: '?', ctrl: true, shift: true, description: 'Show keyboard shortcuts' },
 };
@@ -1,5 +1,9 @@
 // lib/services/chainRegistry.ts
 
+import { proxyFetch } from '@/lib/grpc/http-proxy';
+import type { GrpcProxyConfig } from '@/lib/types/grpc';
+import { joinHostPort, splitHostPort } from '@/lib/utils/endpoint-address';
+
 export interface ChainRegistryEndpoint {
   address: string;
   provider?: string;
@@ -48,7 +52,7 @@ export async function fetchChainList(): Promise<string[]> {
   try {
     // Use Next.js fetch with revalidation for CDN-level caching on Vercel
     // This persists across serverless function invocations
-    const response = await fetch(GITHUB_API_BASE, {
+    const response = await proxyFetch(GITHUB_API_BASE, {
       next: { revalidate: CACHE_REVALIDATE_SECONDS }
     });
 
@@ -94,7 +98,7 @@ export async function fetchChainList(): Promise<string[]> {
  */
 export async function fetchChainInfo(chainName: string): Promise<ChainInfo | null> {
   try {
-    const response = await fetch(`${CHAIN_REGISTRY_BASE}/${chainName}/chain.json`);
+    const response = await proxyFetch(`${CHAIN_REGISTRY_BASE}/${chainName}/chain.json`);
     if (!response.ok) {
       throw new Error(`Failed to fetch chain info for ${chainName}: ${response.statusText}`);
     }
@@ -108,11 +112,11 @@ export async function fetchChainInfo(chainName: string): Promise<ChainInfo | nul
 }
 
 /**
- * Fetch chain APIs from chain.json
+ * Fetch chain APIs from chain.json, through the source's proxy when given
  */
-export async function fetchChainApis(chainName: string): Promise<ChainApis | null> {
+export async function fetchChainApis(chainName: string, proxy?: GrpcProxyConfig): Promise<ChainApis | null> {
   try {
-    const response = await fetch(`${CHAIN_REGISTRY_BASE}/${chainName}/chain.json`);
+    const response = await proxyFetch(`${CHAIN_REGISTRY_BASE}/${chainName}/chain.json`, {}, proxy);
     if (!response.ok) {
       throw new Error(`Failed to fetch APIs for ${chainName}: ${response.statusText}`);
     }
@@ -159,17 +163,15 @@ export async function fetchChainData(chainName: string): Promise<{
  */
 export function normalizeEndpoint(endpoint: string): { address: string; tls: boolean } {
   // Remove protocol if present
-  let address = endpoint.replace(/^https?:\/\//, '');
-  const hasPort = address.includes(':');
+  const address = endpoint.replace(/^https?:\/\//, '');
+  const { host, port } = splitHostPort(address);
 
-  if (!hasPort) {
+  if (!port) {
     // No port specified - default to 9090 without TLS
-    address = `${address}:9090`;
-    return { address, tls: false };
+    return { address: joinHostPort(host, 9090), tls: false };
   }
 
-  // Extract port and determine TLS: port 443 = TLS, everything else = no TLS
-  const port = address.split(':')[1];
+  // Determine TLS from the port: 443 = TLS, everything else = no TLS
   const tls = port === '443';
 
   return { address, tls };
@@ -4,14 +4,91 @@ import { MessageTypeDefinition } from '@/components/ProtobufFormGenerator';
 /** Explorer mode: generic gRPC or Cosmos SDK-specific */
 export type ExplorerMode = 'generic' | 'cosmos';
 
+/**
+ * Wire protocol used to reach a source. `grpc` is native HTTP/2 gRPC; the
+ * others serve browsers and proxies such as Envoy, or plain Connect servers.
+ */
+export type GrpcTransport = 'grpc' | 'grpc-web' | 'grpc-web-text' | 'connect';
+
+/** Message compression algorithms understood by gRPC, gRPC-Web and Connect */
+export type GrpcCompression = 'identity' | 'gzip' | 'deflate';
+
+/** Per-call channel and call settings; unset fields keep the defaults */
+export interface GrpcCallOptions {
+	compression?: GrpcCompression; // Request message compression
+	acceptEncodings?: GrpcCompression[]; // Response encodings offered besides identity (gRPC-Web and Connect)
+	maxSendMessageBytes?: number; // Unlimited when unset
+	maxReceiveMessageBytes?: number; // Unlimited when unset
+	waitForReady?: boolean; // Queue the call until the channel connects instead of failing fast
+	keepaliveTimeMs?: number; // Interval between HTTP/2 keepalive pings
+	keepaliveTimeoutMs?: number; // Time to wait for a ping ack before closing the connection
+	retry?: GrpcRetryPolicy; // Retries for methods that are safe to repeat; defaults apply when unset
+	hedging?: GrpcHedgingPolicy; // Parallel attempts across endpoints for read-only methods; off when unset
+}
+
+/**
+ * Retry with exponential backoff, modelled on the gRPC service config
+ * retryPolicy. Only methods marked NO_SIDE_EFFECTS or IDEMPOTENT (and Cosmos
+ * Query services) are retried; each retry moves to the next endpoint.
+ */
+export interface GrpcRetryPolicy {
+	maxAttempts?: number; // Including the first attempt; 1 disables retries
+	initialBackoffMs?: number;
+	maxBackoffMs?: number;
+	backoffMultiplier?: number;
+	retryableStatusCodes?: string[]; // Status names such as UNAVAILABLE
+}
+
+/**
+ * Hedged requests for read-only methods (NO_SIDE_EFFECTS or Cosmos Query)
+ * on sources with several endpoints: when no attempt has answered within
+ * delayMs the next endpoint is called too, the first success wins and the
+ * other attempts are cancelled.
+ */
+export interface GrpcHedgingPolicy {
+	delayMs?: number; // Wait before each additional attempt; hedging is off without it
+	maxAttempts?: number; // Attempts in flight at once, including the first
+}
+
+/** `idempotency_level` from the method options; IDEMPOTENCY_UNKNOWN is left unset */
+export type IdempotencyLevel = 'NO_SIDE_EFFECTS' | 'IDEMPOTENT';
+
 /** Authentication configuration for gRPC connections */
 export interface GrpcAuthConfig {
-	type: 'none' | 'bearer' | 'api-key' | 'mtls';
+	type: 'none' | 'bearer' | 'api-key' | 'mtls' | 'oauth2' | 'jwt' | 'basic';
 	bearerToken?: string;
 	apiKeyHeader?: string;
 	apiKeyValue?: string;
 	clientCert?: string;
 	clientKey?: string;
+	// OAuth2 client credentials; the server fetches and refreshes the access token
+	oauth2TokenUrl?: string;
+	oauth2ClientId?: string;
+	oauth2ClientSecret?: string;
+	oauth2Scopes?: string[];
+	oauth2Audience?: string;
+	// Self-signed JWT, signed server-side with an RSA, EC or Ed25519 key
+	jwtPrivateKey?: string; // PEM
+	jwtKeyId?: string; // kid header
+	jwtIssuer?: string;
+	jwtAudience?: string;
+	jwtClaims?: Record<string, unknown>; // Extra claims; iss, aud, iat and exp are set from the fields above
+	jwtTtlSeconds?: number; // Defaults to 3600
+	// HTTP Basic
+	basicUsername?: string;
+	basicPassword?: string;
+	// TLS settings apply whatever the auth type
+	caCert?: string; // PEM root CA bundle instead of the system trust store
+	serverName?: string; // TLS server name (SNI) and :authority override
+	insecureSkipVerify?: boolean; // Accept any server certificate
+}
+
+/** HTTP CONNECT proxy for a source's outbound connections; overrides the server-level proxy */
+export interface GrpcProxyConfig {
+	url: string; // http://host:port; credentials may be embedded as user:pass@
+	username?: string;
+	password?: string;
+	noProxy?: string[]; // Hosts reached directly: names, .suffixes, IPs, CIDR ranges or *
 }
 
 /** BSR (buf.build Schema Registry) module source */
@@ -22,6 +99,102 @@ export interface BufBsrSource {
 	authToken?: string;
 }
 
+/** Schema parsed from uploaded .proto files; only the file names are kept */
+export interface LocalProtoSource {
+	name: string; // Uploaded file or archive name(s), shown as the source title
+	files: string[]; // Import paths of the parsed .proto files
+	missingImports?: string[]; // Imports that were neither uploaded nor bundled
+	uploadedAt: number;
+}
+
+/** Services parsed from uploaded .proto files, handed from the connect dialog to the new source */
+export interface LocalProtoSchema {
+	source: LocalProtoSource;
+	services: GrpcService[];
+}
+
+/** Method pieces a schema overlay can fill in */
+export type SchemaOverlayPiece = 'description' | 'httpRule' | 'idempotencyLevel';
+
+/** What a schema overlay holds for one method */
+export interface SchemaOverlayMethod {
+	description?: string;
+	httpRule?: HttpRule;
+	idempotencyLevel?: IdempotencyLevel;
+	requestComments?: Record<string, string>; // Field path (a.b) to its comment
+	responseComments?: Record<string, string>;
+}
+
+/**
+ * A BSR module or uploaded protos attached to a reflected source. Reflection
+ * often lacks comments and google.api.http rules; the overlay fills them in on
+ * matching methods without replacing anything reflection returned.
+ */
+export interface SchemaOverlay {
+	label: string; // Module or upload name, shown on each piece the overlay supplied
+	bsrSource?: BufBsrSource;
+	localProtoSource?: LocalProtoSource;
+	methods: Record<string, SchemaOverlayMethod>; // Keyed by package.Service.Method
+	attachedAt: number;
+}
+
+/** Where /api/protos/source reads descriptors from to rebuild .proto files */
+export type ProtoSchemaSource =
+	| {
+		kind: 'reflection';
+		endpoint: string;
+		tlsEnabled: boolean;
+		transport?: GrpcTransport;
+		authConfig?: GrpcAuthConfig;
+		proxy?: GrpcProxyConfig;
+	}
+	| { kind: 'bsr'; bsrSource: BufBsrSource; proxy?: GrpcProxyConfig };
+
+/** A FileDescriptorSet saved earlier, e.g. with Download descriptors */
+export interface ProtosetSnapshot {
+	kind: 'protoset';
+	name: string; // File name, shown as the side's label
+	data: string; // Base64
+}
+
+/** One side of a schema diff: a live source, a BSR module version or a saved snapshot */
+export type SchemaDiffSource = ProtoSchemaSource | ProtosetSnapshot;
+
+export type SchemaChangeKind =
+	| 'service-added' | 'service-removed'
+	| 'method-added' | 'method-removed' | 'method-type-changed' | 'method-streaming-changed'
+	| 'method-http-added' | 'method-http-removed' | 'method-http-changed'
+	| 'message-added' | 'message-removed'
+	| 'field-added' | 'field-removed' | 'field-renamed' | 'field-number-changed' | 'field-type-changed'
+	| 'field-label-changed' | 'field-oneof-changed' | 'field-json-name-changed'
+	| 'enum-added' | 'enum-removed' | 'enum-renamed'
+	| 'enum-value-added' | 'enum-value-removed' | 'enum-value-renamed';
+
+/** One difference between two schemas */
+export interface SchemaChange {
+	kind: SchemaChangeKind;
+	breaking: boolean; // Breaks existing clients over gRPC, JSON or REST
+	wireIncompatible: boolean; // Old and new peers would misread each other's binary messages
+	element: string; // Fully qualified, e.g. pkg.Service.Method or pkg.Message.field
+	description: string;
+	file?: string; // File declaring the element, on the side that has it
+}
+
+export interface SchemaDiffReport {
+	before: string; // Side labels
+	after: string;
+	generatedAt: number;
+	summary: { breaking: number; nonBreaking: number; wireIncompatible: number };
+	changes: SchemaChange[]; // Breaking first, then by element
+}
+
+/** A .proto file rebuilt from its FileDescriptorProto */
+export interface ReconstructedProtoFile {
+	name: string; // Import path, e.g. cosmos/bank/v1beta1/query.proto
+	content: string;
+	services: string[]; // Fully qualified names of the services it defines
+}
+
 // HTTP annotation from google.api.http option in proto files
 export interface HttpRule {
 	get?: string;
@@ -43,6 +216,8 @@ export interface GrpcMethod {
   options?: any;
   description?: string;
   httpRule?: HttpRule; // REST API path from google.api.http annotation
+  idempotencyLevel?: IdempotencyLevel;
+  overlaySources?: Partial<Record<SchemaOverlayPiece, string>>; // Overlay label of each piece the schema overlay filled in
   requestTypeDefinition: MessageTypeDefinition;
   responseTypeDefinition: MessageTypeDefinition;
 }
@@ -74,8 +249,28 @@ export interface EndpointExecutionHealth {
   lastSuccess?: number;
   retryAfter?: number;
   lastErrorKind?: 'incompatible' | 'transient';
+  hedgeWins?: number; // Hedged calls this endpoint answered first
+  lastHedgeWin?: number;
 }
 
+/** How a Cosmos network with several selected endpoints orders them for each call */
+export type EndpointSelectionStrategy = 'round-robin' | 'lowest-latency' | 'least-failures' | 'sticky-primary';
+
+/** Server-side endpoint stats, as served by /api/endpoints/stats */
+export interface EndpointStatsSnapshot {
+  address: string; // With its default port, as recorded by the routes
+  successCount: number;
+  failures: number;
+  timeouts: number;
+  averageResponseTime?: number; // EWMA of successful response times, ms
+  lastFailure?: number;
+  blacklisted: boolean;
+  blacklistExpiresAt?: number; // Cleared this long after the last failure
+}
+
+/** Actions accepted by POST /api/endpoints/stats */
+export type EndpointStatsAction = 'unblacklist' | 'reset';
+
 export interface GrpcNetwork {
   id: string;
   name: string;
@@ -83,6 +278,7 @@ export interface GrpcNetwork {
   endpoints?: string[]; // Additional fallback endpoints for this chain (legacy)
   endpointConfigs?: EndpointConfig[]; // Per-endpoint settings for round-robin
   endpointHealth?: Record<string, EndpointExecutionHealth>;
+  endpointStrategy?: EndpointSelectionStrategy; // Defaults to round-robin
   chainId?: string;
   tlsEnabled: boolean;
   services: GrpcService[];
@@ -94,7 +290,12 @@ export interface GrpcNetwork {
   cacheTimestamp?: number;
   mode?: ExplorerMode;
   bsrSource?: BufBsrSource;
+  localProtoSource?: LocalProtoSource;
+  schemaOverlay?: SchemaOverlay; // Secondary schema for reflected sources
   authConfig?: GrpcAuthConfig;
+  transport?: GrpcTransport; // Defaults to 'grpc'
+  callOptions?: GrpcCallOptions; // Defaults for methods opened from this source
+  proxy?: GrpcProxyConfig; // Falls back to the server-level proxy when unset
 }
 
 export interface MethodInstance {
@@ -108,6 +309,37 @@ export interface MethodInstance {
   params?: Record<string, any>;
   metadata?: Record<string, string>;
   authConfig?: GrpcAuthConfig;
+  callOptions?: GrpcCallOptions;
+}
+
+/** A single message on a streaming call, in timeline order */
+export interface StreamMessage {
+  index: number;
+  timestamp: number;
+  data: any;
+  direction?: 'sent' | 'received'; // Omitted for server-streaming responses
+}
+
+/** Lifecycle of an interactive client-streaming or bidi session */
+export type StreamSessionStatus = 'connecting' | 'open' | 'half-closed';
+
+export type StreamSessionAction = 'send' | 'half-close' | 'cancel';
+
+/** google.rpc.Status decoded from `grpc-status-details-bin` */
+export interface RpcStatus {
+  code: number;
+  message: string;
+  details: Array<Record<string, any>>; // Decoded Any payloads, each tagged with '@type'
+}
+
+/** Final gRPC status of a call, with the response headers and trailers */
+export interface GrpcCallStatus {
+  code: number;
+  codeName: string; // Symbolic name, e.g. 'NOT_FOUND'
+  details: string;
+  headers: Record<string, string>;
+  trailers: Record<string, string>;
+  rpcStatus?: RpcStatus | undefined;
 }
 
 export interface ExecutionResult {
@@ -118,4 +350,9 @@ export interface ExecutionResult {
   timestamp: number;
   duration?: number;
   endpoint?: string; // The endpoint used for this execution (for round-robin error reporting)
+  streaming?: boolean;
+  streamStatus?: 'streaming' | 'completed' | 'error';
+  messages?: StreamMessage[]; // Most recent messages, capped client-side
+  messageCount?: number; // Total messages received, including any dropped from `messages`
+  status?: GrpcCallStatus;
 }
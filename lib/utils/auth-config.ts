@@ -0,0 +1,22 @@
+// Auth config helpers shared by the auth forms, code generation and the
+// server-side call auth. Client-safe: no Node APIs.
+
+/**
+ * Parse the extra-claims JSON typed into the JWT form. Empty input gives
+ * undefined; anything other than a JSON object gives null.
+ */
+export function parseJwtClaims(text: string): Record<string, unknown> | undefined | null {
+  if (!text.trim()) return undefined;
+  try {
+    const value: unknown = JSON.parse(text);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/** `Basic ...` authorization value; credentials are UTF-8 encoded as RFC 7617 recommends */
+export function basicAuthorization(username: string, password = ''): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))}`;
+}
@@ -0,0 +1,118 @@
+// Per-call options shared by the method form, code generators and API routes
+
+import type { GrpcCallOptions, GrpcCompression, GrpcHedgingPolicy, GrpcRetryPolicy } from '@/lib/types/grpc';
+
+export const GRPC_COMPRESSIONS: GrpcCompression[] = ['identity', 'gzip', 'deflate'];
+
+/** grpc-js `grpc.default_compression_algorithm` values */
+export const COMPRESSION_ALGORITHM_IDS: Record<GrpcCompression, number> = {
+  identity: 0,
+  deflate: 1,
+  gzip: 2,
+};
+
+/** Status names a retry policy may list, in code order (OK is never retryable) */
+export const GRPC_STATUS_NAMES = [
+  'CANCELLED', 'UNKNOWN', 'INVALID_ARGUMENT', 'DEADLINE_EXCEEDED', 'NOT_FOUND', 'ALREADY_EXISTS',
+  'PERMISSION_DENIED', 'RESOURCE_EXHAUSTED', 'FAILED_PRECONDITION', 'ABORTED', 'OUT_OF_RANGE',
+  'UNIMPLEMENTED', 'INTERNAL', 'UNAVAILABLE', 'DATA_LOSS', 'UNAUTHENTICATED',
+];
+
+export const DEFAULT_RETRY_POLICY: Required<GrpcRetryPolicy> = {
+  maxAttempts: 3,
+  initialBackoffMs: 100,
+  maxBackoffMs: 2000,
+  backoffMultiplier: 2,
+  retryableStatusCodes: ['UNAVAILABLE', 'DEADLINE_EXCEEDED', 'RESOURCE_EXHAUSTED'],
+};
+
+/** Upper bound on attempts, as in gRPC service config retry policies */
+export const MAX_RETRY_ATTEMPTS = 5;
+
+export const DEFAULT_HEDGED_ATTEMPTS = 2;
+
+function isCompression(value: unknown): value is GrpcCompression {
+  return typeof value === 'string' && (GRPC_COMPRESSIONS as string[]).includes(value);
+}
+
+function positiveInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value > 0 ? value : undefined;
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/** Keep only valid retry fields; undefined when none are set */
+export function normalizeRetryPolicy(value: unknown): GrpcRetryPolicy | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const policy: GrpcRetryPolicy = {};
+
+  const maxAttempts = positiveInteger(raw.maxAttempts);
+  if (maxAttempts) policy.maxAttempts = Math.min(maxAttempts, MAX_RETRY_ATTEMPTS);
+  const initialBackoffMs = positiveInteger(raw.initialBackoffMs);
+  if (initialBackoffMs) policy.initialBackoffMs = initialBackoffMs;
+  const maxBackoffMs = positiveInteger(raw.maxBackoffMs);
+  if (maxBackoffMs) policy.maxBackoffMs = maxBackoffMs;
+  const backoffMultiplier = positiveNumber(raw.backoffMultiplier);
+  if (backoffMultiplier) policy.backoffMultiplier = backoffMultiplier;
+  if (Array.isArray(raw.retryableStatusCodes)) {
+    const codes = raw.retryableStatusCodes.map((code) => String(code).trim().toUpperCase());
+    policy.retryableStatusCodes = GRPC_STATUS_NAMES.filter((name) => codes.includes(name));
+  }
+
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+/** Keep only valid hedging fields; undefined unless a delay is set */
+export function normalizeHedgingPolicy(value: unknown): GrpcHedgingPolicy | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const delayMs = positiveInteger(raw.delayMs);
+  if (!delayMs) return undefined;
+  const maxAttempts = positiveInteger(raw.maxAttempts);
+  return maxAttempts ? { delayMs, maxAttempts: Math.min(maxAttempts, MAX_RETRY_ATTEMPTS) } : { delayMs };
+}
+
+/** The policy with defaults filled in */
+export function resolveRetryPolicy(policy: GrpcRetryPolicy | undefined): Required<GrpcRetryPolicy> {
+  return { ...DEFAULT_RETRY_POLICY, ...normalizeRetryPolicy(policy) };
+}
+
+/**
+ * Accept call options from request JSON or form state, dropping unknown and
+ * invalid fields. Returns undefined when nothing differs from the defaults.
+ */
+export function normalizeCallOptions(value: unknown): GrpcCallOptions | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const options: GrpcCallOptions = {};
+
+  if (isCompression(raw.compression) && raw.compression !== 'identity') options.compression = raw.compression;
+  if (Array.isArray(raw.acceptEncodings)) {
+    const accepted = raw.acceptEncodings;
+    options.acceptEncodings = GRPC_COMPRESSIONS.filter((encoding) => encoding !== 'identity' && accepted.includes(encoding));
+  }
+  const maxSendMessageBytes = positiveInteger(raw.maxSendMessageBytes);
+  if (maxSendMessageBytes) options.maxSendMessageBytes = maxSendMessageBytes;
+  const maxReceiveMessageBytes = positiveInteger(raw.maxReceiveMessageBytes);
+  if (maxReceiveMessageBytes) options.maxReceiveMessageBytes = maxReceiveMessageBytes;
+  if (raw.waitForReady === true) options.waitForReady = true;
+  const keepaliveTimeMs = positiveInteger(raw.keepaliveTimeMs);
+  if (keepaliveTimeMs) options.keepaliveTimeMs = keepaliveTimeMs;
+  const keepaliveTimeoutMs = positiveInteger(raw.keepaliveTimeoutMs);
+  if (keepaliveTimeoutMs) options.keepaliveTimeoutMs = keepaliveTimeoutMs;
+  const retry = normalizeRetryPolicy(raw.retry);
+  if (retry) options.retry = retry;
+  const hedging = normalizeHedgingPolicy(raw.hedging);
+  if (hedging) options.hedging = hedging;
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/** Value for a grpc-accept-encoding style header; identity is always accepted */
+export function acceptEncodingHeader(options: GrpcCallOptions | undefined): string | undefined {
+  if (!options?.acceptEncodings) return undefined;
+  return ['identity', ...options.acceptEncodings].join(',');
+}
@@ -1,6 +1,8 @@
 // Client-side cache using browser localStorage
 // Each user's data is stored locally in their browser
 
+import type { GrpcTransport } from '@/lib/types/grpc';
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -259,8 +261,10 @@ export function getCacheStats(): { count: number; sizeKB: number } {
 /**
  * Generate cache key for service discovery
  */
-export function getServicesCacheKey(endpoint: string, tlsEnabled: boolean): string {
-  return `services:${endpoint}:${tlsEnabled}`;
+export function getServicesCacheKey(endpoint: string, tlsEnabled: boolean, transport?: GrpcTransport): string {
+  // Native gRPC keeps the original key so existing caches stay valid
+  const base = `services:${endpoint}:${tlsEnabled}`;
+  return transport && transport !== 'grpc' ? `${base}:${transport}` : base;
 }
 
 /**
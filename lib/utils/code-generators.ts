@@ -2,7 +2,10 @@
 // Client stub code generation for multiple languages
 
 import { MessageTypeDefinition } from '@/components/ProtobufFormGenerator';
-import { GrpcAuthConfig, HttpRule } from '@/lib/types/grpc';
+import { GrpcAuthConfig, GrpcCallOptions, HttpRule } from '@/lib/types/grpc';
+import { basicAuthorization } from '@/lib/utils/auth-config';
+import { COMPRESSION_ALGORITHM_IDS } from '@/lib/utils/call-options';
+import { toHttpTarget } from '@/lib/utils/endpoint-address';
 
 export interface CodeGenContext {
 	serviceName: string;
@@ -17,6 +20,7 @@ export interface CodeGenContext {
 	params: Record<string, any>;
 	metadata: Record<string, string>;
 	authConfig?: GrpcAuthConfig;
+	callOptions?: GrpcCallOptions;
 }
 
 /** Format params as a compact JSON string (no trailing newline) */
@@ -36,14 +40,75 @@ function buildMetadata(ctx: CodeGenContext): Record<string, string> {
 		meta['authorization'] = `Bearer ${ctx.authConfig.bearerToken}`;
 	} else if (ctx.authConfig?.type === 'api-key' && ctx.authConfig.apiKeyHeader && ctx.authConfig.apiKeyValue) {
 		meta[ctx.authConfig.apiKeyHeader] = ctx.authConfig.apiKeyValue;
+	} else if (ctx.authConfig?.type === 'basic' && ctx.authConfig.basicUsername) {
+		meta['authorization'] = basicAuthorization(ctx.authConfig.basicUsername, ctx.authConfig.basicPassword);
+	} else if (ctx.authConfig?.type === 'oauth2') {
+		// Tokens are fetched server-side and short-lived, so exported code gets a placeholder
+		meta['authorization'] = 'Bearer <ACCESS_TOKEN>';
+	} else if (ctx.authConfig?.type === 'jwt') {
+		meta['authorization'] = 'Bearer <SIGNED_JWT>';
 	}
 	return meta;
 }
 
+/** A comment line explaining how to fill in a token placeholder, or '' */
+function authPlaceholderNote(ctx: CodeGenContext, prefix: string): string {
+	const auth = ctx.authConfig;
+	if (auth?.type === 'oauth2' && auth.oauth2TokenUrl) {
+		const scope = auth.oauth2Scopes?.length ? ` (scope: ${auth.oauth2Scopes.join(' ')})` : '';
+		return `${prefix} <ACCESS_TOKEN>: client_credentials token from ${auth.oauth2TokenUrl}${scope}\n`;
+	}
+	if (auth?.type === 'jwt') {
+		const claims = {
+			...(auth.jwtClaims ?? {}),
+			...(auth.jwtIssuer ? { iss: auth.jwtIssuer } : {}),
+			...(auth.jwtAudience ? { aud: auth.jwtAudience } : {}),
+		};
+		const kid = auth.jwtKeyId ? `, kid ${auth.jwtKeyId}` : '';
+		return `${prefix} <SIGNED_JWT>: JWT signed with the source's private key${kid}, claims ${JSON.stringify(claims)} plus iat and exp (iat + ${auth.jwtTtlSeconds ?? 3600}s)\n`;
+	}
+	return '';
+}
+
 // -- grpcurl --
 
+/** grpcurl flags for the TLS settings in the auth config; the CA bundle is referenced as ca.pem */
+function grpcurlTlsFlags(ctx: CodeGenContext): string {
+	const auth = ctx.authConfig;
+	const flags: string[] = [];
+	if (ctx.tlsEnabled && auth?.insecureSkipVerify) flags.push('-insecure');
+	if (ctx.tlsEnabled && auth?.caCert) flags.push('-cacert ca.pem');
+	if (ctx.tlsEnabled && auth?.serverName) flags.push(`-servername '${auth.serverName}'`);
+	if (auth?.serverName) flags.push(`-authority '${auth.serverName}'`);
+	return flags.map((flag) => `  ${flag} \\\n`).join('');
+}
+
+/** grpcurl flags for call options it supports; it has no compression or wait-for-ready flags */
+function grpcurlCallOptionFlags(ctx: CodeGenContext): string {
+	const options = ctx.callOptions;
+	const flags: string[] = [];
+	if (options?.maxReceiveMessageBytes) flags.push(`-max-msg-sz ${options.maxReceiveMessageBytes}`);
+	if (options?.keepaliveTimeMs) flags.push(`-keepalive-time ${options.keepaliveTimeMs / 1000}`);
+	return flags.map((flag) => `  ${flag} \\\n`).join('');
+}
+
+/**
+ * grpcurl dials a plain address, so unix targets become `-unix <path>` (Go
+ * spells abstract sockets `@name`) and dns:/ipv4:/ipv6: lists use their
+ * first address.
+ */
+function grpcurlAddress(endpoint: string): { flags: string; address: string } {
+	const target = toHttpTarget(endpoint);
+	if ('socketPath' in target) {
+		return { flags: '  -unix \\\n', address: `'${target.socketPath.replace(/^\0/, '@')}'` };
+	}
+	return { flags: '', address: target.authority };
+}
+
 export function generateGrpcurl(ctx: CodeGenContext): string {
 	const plaintextFlag = ctx.tlsEnabled ? '' : '  -plaintext \\\n';
+	const { flags: addressFlags, address } = grpcurlAddress(ctx.endpoint);
+	const tlsFlags = grpcurlTlsFlags(ctx) + grpcurlCallOptionFlags(ctx) + addressFlags;
 	const hasFields = ctx.requestTypeDefinition && ctx.requestTypeDefinition.fields.length > 0;
 	const data = formatParams(ctx.params);
 	const dataFlag = (hasFields || data !== '{}') ? `  -d '${data}' \\\n` : '';
@@ -53,8 +118,8 @@ export function generateGrpcurl(ctx: CodeGenContext): string {
 		.map(([k, v]) => `  -H '${k}: ${v}' \\\n`)
 		.join('');
 
-	return `grpcurl \\
-${plaintextFlag}${metaFlags}${dataFlag}  ${ctx.endpoint} \\
+	return `${authPlaceholderNote(ctx, '#')}grpcurl \\
+${plaintextFlag}${tlsFlags}${metaFlags}${dataFlag}  ${address} \\
   ${ctx.serviceName}/${ctx.methodName}`;
 }
 
@@ -83,7 +148,7 @@ export function generateCurl(
 		.map(([k, v]) => `  -H '${k}: ${v}'`)
 		.join(' \\\n');
 
-	const parts = [`curl -X ${httpMethod}`];
+	const parts = [`${authPlaceholderNote(ctx, '#')}curl -X ${httpMethod}`];
 	if (headerFlags) parts.push(headerFlags);
 
 	if (['POST', 'PUT', 'PATCH'].includes(httpMethod)) {
@@ -97,17 +162,34 @@ export function generateCurl(
 
 // -- TypeScript --
 
+/** grpc-js channel options for the call options, one `key: value` entry per line */
+function tsChannelOptions(ctx: CodeGenContext, indent: string, unlimitedReceive = false): string[] {
+	const options = ctx.callOptions ?? {};
+	const entries: string[] = [];
+	if (options.compression) entries.push(`'grpc.default_compression_algorithm': ${COMPRESSION_ALGORITHM_IDS[options.compression]}, // ${options.compression}`);
+	if (options.maxSendMessageBytes) entries.push(`'grpc.max_send_message_length': ${options.maxSendMessageBytes},`);
+	if (options.maxReceiveMessageBytes || unlimitedReceive) entries.push(`'grpc.max_receive_message_length': ${options.maxReceiveMessageBytes ?? -1},`);
+	if (options.keepaliveTimeMs) entries.push(`'grpc.keepalive_time_ms': ${options.keepaliveTimeMs},`);
+	if (options.keepaliveTimeoutMs) entries.push(`'grpc.keepalive_timeout_ms': ${options.keepaliveTimeoutMs},`);
+	return entries.map((entry) => `${indent}${entry}`);
+}
+
 export function generateTypescriptSnippet(ctx: CodeGenContext): string {
 	const meta = buildMetadata(ctx);
-	const metaLines = Object.entries(meta).map(([k, v]) => `  metadata.add('${k}', '${v}');`).join('\n');
+	const metaLines = [
+		...Object.entries(meta).map(([k, v]) => `  metadata.add('${k}', '${v}');`),
+		...(ctx.callOptions?.waitForReady ? ['  metadata.setOptions({ waitForReady: true });'] : []),
+	].join('\n');
 	const metaBlock = metaLines ? `\nconst metadata = new grpc.Metadata();\n${metaLines}\n` : '';
+	const channelOptions = tsChannelOptions(ctx, '  ');
+	const clientOptions = channelOptions.length > 0 ? `, {\n${channelOptions.join('\n')}\n}` : '';
 
-	return `import * as grpc from '@grpc/grpc-js';
+	return `${authPlaceholderNote(ctx, '//')}import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 
 const target = '${ctx.endpoint}';
 const credentials = ${ctx.tlsEnabled ? 'grpc.credentials.createSsl()' : 'grpc.credentials.createInsecure()'};
-const client = new grpc.Client(target, credentials);
+const client = new grpc.Client(target, credentials${clientOptions});
 ${metaBlock}
 const request = ${formatParams(ctx.params)};
 
@@ -126,9 +208,12 @@ client.makeUnaryRequest(
 
 export function generateTypescriptFull(ctx: CodeGenContext): string {
 	const meta = buildMetadata(ctx);
-	const metaLines = Object.entries(meta).map(([k, v]) => `  metadata.add('${k}', '${v}');`).join('\n');
+	const metaLines = [
+		...Object.entries(meta).map(([k, v]) => `  metadata.add('${k}', '${v}');`),
+		...(ctx.callOptions?.waitForReady ? ['  metadata.setOptions({ waitForReady: true });'] : []),
+	].join('\n');
 
-	return `/**
+	return `${authPlaceholderNote(ctx, '//')}/**
  * ${ctx.serviceName}.${ctx.methodName} - gRPC client
  *
  * Prerequisites:
@@ -154,7 +239,7 @@ interface ${ctx.requestType.split('.').pop() || 'Request'} ${formatParams(ctx.pa
 
 async function invoke(): Promise<void> {
   const client = new grpc.Client(TARGET, createCredentials(), {
-    'grpc.max_receive_message_length': -1,
+${tsChannelOptions(ctx, '    ', true).join('\n')}
   });
 
   const request = ${formatParams(ctx.params)};
@@ -188,6 +273,36 @@ invoke().catch(console.error);`;
 
 // -- Go --
 
+/** Extra grpc.NewClient dial options and the imports they need */
+function goDialOptions(ctx: CodeGenContext): { options: string; imports: string } {
+	const options = ctx.callOptions ?? {};
+	const callOptions: string[] = [];
+	const imports: string[] = [];
+	if (options.compression === 'gzip') {
+		callOptions.push('grpc.UseCompressor(gzip.Name)');
+		imports.push('"google.golang.org/grpc/encoding/gzip"');
+	} else if (options.compression === 'deflate') {
+		callOptions.push('grpc.UseCompressor("deflate") /* register a deflate encoding.Compressor */');
+	}
+	if (options.maxSendMessageBytes) callOptions.push(`grpc.MaxCallSendMsgSize(${options.maxSendMessageBytes})`);
+	if (options.maxReceiveMessageBytes) callOptions.push(`grpc.MaxCallRecvMsgSize(${options.maxReceiveMessageBytes})`);
+	if (options.waitForReady) callOptions.push('grpc.WaitForReady(true)');
+
+	const dialOptions = callOptions.length > 0 ? [`grpc.WithDefaultCallOptions(${callOptions.join(', ')})`] : [];
+	if (options.keepaliveTimeMs || options.keepaliveTimeoutMs) {
+		const params = [
+			...(options.keepaliveTimeMs ? [`Time: ${options.keepaliveTimeMs} * time.Millisecond`] : []),
+			...(options.keepaliveTimeoutMs ? [`Timeout: ${options.keepaliveTimeoutMs} * time.Millisecond`] : []),
+		];
+		dialOptions.push(`grpc.WithKeepaliveParams(keepalive.ClientParameters{${params.join(', ')}})`);
+		imports.push('"google.golang.org/grpc/keepalive"');
+	}
+	return {
+		options: dialOptions.map((option) => `, ${option}`).join(''),
+		imports: imports.map((path) => `\n\t${path}`).join(''),
+	};
+}
+
 export function generateGoSnippet(ctx: CodeGenContext): string {
 	const meta = buildMetadata(ctx);
 	const metaLines = Object.entries(meta)
@@ -197,22 +312,24 @@ export function generateGoSnippet(ctx: CodeGenContext): string {
 		? `\n\tmd := metadata.New(nil)\n${metaLines}\n\tctx = metadata.NewOutgoingContext(ctx, md)\n`
 		: '';
 	const metaImport = metaLines ? '\n\t"google.golang.org/grpc/metadata"' : '';
+	const dial = goDialOptions(ctx);
+	const timeImport = ctx.callOptions?.keepaliveTimeMs || ctx.callOptions?.keepaliveTimeoutMs ? '\n\t"time"' : '';
 
-	return `package main
+	return `${authPlaceholderNote(ctx, '//')}package main
 
 import (
 \t"context"
 \t"fmt"
-\t"log"
+\t"log"${timeImport}
 
-\t"google.golang.org/grpc"${metaImport}
+\t"google.golang.org/grpc"${metaImport}${dial.imports}
 \t${ctx.tlsEnabled ? '"google.golang.org/grpc/credentials"' : '"google.golang.org/grpc/credentials/insecure"'}
 )
 
 func main() {
 \t${ctx.tlsEnabled
-		? 'creds := credentials.NewTLS(nil)\n\tconn, err := grpc.NewClient("' + ctx.endpoint + '", grpc.WithTransportCredentials(creds))'
-		: 'conn, err := grpc.NewClient("' + ctx.endpoint + '", grpc.WithTransportCredentials(insecure.NewCredentials()))'}
+		? 'creds := credentials.NewTLS(nil)\n\tconn, err := grpc.NewClient("' + ctx.endpoint + '", grpc.WithTransportCredentials(creds)' + dial.options + ')'
+		: 'conn, err := grpc.NewClient("' + ctx.endpoint + '", grpc.WithTransportCredentials(insecure.NewCredentials())' + dial.options + ')'}
 \tif err != nil {
 \t\tlog.Fatal(err)
 \t}
@@ -236,8 +353,9 @@ export function generateGoFull(ctx: CodeGenContext): string {
 		.map(([k, v]) => `\tmd.Append("${k}", "${v}")`)
 		.join('\n');
 	const metaImport = Object.keys(meta).length > 0 ? '\n\t"google.golang.org/grpc/metadata"' : '';
+	const dial = goDialOptions(ctx);
 
-	return `/**
+	return `${authPlaceholderNote(ctx, '//')}/**
  * ${ctx.serviceName}.${ctx.methodName} - gRPC client (Go)
  *
  * Prerequisites:
@@ -253,7 +371,7 @@ import (
 \t"log"
 \t"time"
 
-\t"google.golang.org/grpc"${metaImport}
+\t"google.golang.org/grpc"${metaImport}${dial.imports}
 \t${ctx.tlsEnabled
 		? '"google.golang.org/grpc/credentials"'
 		: '"google.golang.org/grpc/credentials/insecure"'}
@@ -268,8 +386,8 @@ const (
 
 func main() {
 \t${ctx.tlsEnabled
-		? 'creds := credentials.NewTLS(nil)\n\tconn, err := grpc.NewClient(target, grpc.WithTransportCredentials(creds))'
-		: 'conn, err := grpc.NewClient(target, grpc.WithTransportCredentials(insecure.NewCredentials()))'}
+		? 'creds := credentials.NewTLS(nil)\n\tconn, err := grpc.NewClient(target, grpc.WithTransportCredentials(creds)' + dial.options + ')'
+		: 'conn, err := grpc.NewClient(target, grpc.WithTransportCredentials(insecure.NewCredentials())' + dial.options + ')'}
 \tif err != nil {
 \t\tlog.Fatalf("Failed to connect: %v", err)
 \t}
@@ -302,26 +420,47 @@ ${metaLines}
 
 // -- Python --
 
+/** Extra grpc.*_channel arguments (channel options and compression) */
+function pythonChannelArgs(ctx: CodeGenContext): string {
+	const options = ctx.callOptions ?? {};
+	const channelOptions = [
+		...(options.maxSendMessageBytes ? [`("grpc.max_send_message_length", ${options.maxSendMessageBytes})`] : []),
+		...(options.maxReceiveMessageBytes ? [`("grpc.max_receive_message_length", ${options.maxReceiveMessageBytes})`] : []),
+		...(options.keepaliveTimeMs ? [`("grpc.keepalive_time_ms", ${options.keepaliveTimeMs})`] : []),
+		...(options.keepaliveTimeoutMs ? [`("grpc.keepalive_timeout_ms", ${options.keepaliveTimeoutMs})`] : []),
+	];
+	const args = channelOptions.length > 0 ? [`options=[${channelOptions.join(', ')}]`] : [];
+	if (options.compression === 'gzip') args.push('compression=grpc.Compression.Gzip');
+	if (options.compression === 'deflate') args.push('compression=grpc.Compression.Deflate');
+	return args.map((arg) => `, ${arg}`).join('');
+}
+
+/** Keyword argument for the call itself */
+function pythonCallArgs(ctx: CodeGenContext): string {
+	return ctx.callOptions?.waitForReady ? ', wait_for_ready=True' : '';
+}
+
 export function generatePythonSnippet(ctx: CodeGenContext): string {
 	const meta = buildMetadata(ctx);
 	const metaTuples = Object.entries(meta)
 		.map(([k, v]) => `("${k}", "${v}")`)
 		.join(', ');
 	const metaArg = metaTuples ? `, metadata=[${metaTuples}]` : '';
+	const channelArgs = pythonChannelArgs(ctx);
 
-	return `import grpc
+	return `${authPlaceholderNote(ctx, '#')}import grpc
 import json
 
 target = "${ctx.endpoint}"
 ${ctx.tlsEnabled
-		? 'credentials = grpc.ssl_channel_credentials()\nchannel = grpc.secure_channel(target, credentials)'
-		: 'channel = grpc.insecure_channel(target)'}
+		? `credentials = grpc.ssl_channel_credentials()\nchannel = grpc.secure_channel(target, credentials${channelArgs})`
+		: `channel = grpc.insecure_channel(target${channelArgs})`}
 
 request = json.dumps(${formatParams(ctx.params)}).encode()
 
 response = channel.unary_unary(
     "/${ctx.serviceName}/${ctx.methodName}"
-)(request${metaArg})
+)(request${metaArg}${pythonCallArgs(ctx)})
 
 print(response)
 channel.close()`;
@@ -332,8 +471,9 @@ export function generatePythonFull(ctx: CodeGenContext): string {
 	const metaTuples = Object.entries(meta)
 		.map(([k, v]) => `        ("${k}", "${v}"),`)
 		.join('\n');
+	const channelArgs = pythonChannelArgs(ctx);
 
-	return `"""
+	return `${authPlaceholderNote(ctx, '#')}"""
 ${ctx.serviceName}.${ctx.methodName} - gRPC client (Python)
 
 Prerequisites:
@@ -351,8 +491,8 @@ TIMEOUT = 30  # seconds
 
 def create_channel() -> grpc.Channel:
 ${ctx.tlsEnabled
-		? '    credentials = grpc.ssl_channel_credentials()\n    return grpc.secure_channel(TARGET, credentials)'
-		: '    return grpc.insecure_channel(TARGET)'}
+		? `    credentials = grpc.ssl_channel_credentials()\n    return grpc.secure_channel(TARGET, credentials${channelArgs})`
+		: `    return grpc.insecure_channel(TARGET${channelArgs})`}
 
 
 def build_metadata():
@@ -372,7 +512,7 @@ def invoke():
             f"/{SERVICE}/{METHOD}",
         )
 
-        response = method(request, metadata=build_metadata(), timeout=TIMEOUT)
+        response = method(request, metadata=build_metadata(), timeout=TIMEOUT${pythonCallArgs(ctx)})
         print(json.dumps(json.loads(response), indent=2))
 
     except grpc.RpcError as e:
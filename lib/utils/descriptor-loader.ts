@@ -1,9 +1,13 @@
 import { errorMessage } from '@/lib/utils';
+import type { GrpcAuthConfig, GrpcProxyConfig, GrpcTransport } from '@/lib/types/grpc';
 
 type DescriptorJob = {
   networkId: string;
   endpoint: string;
   tlsEnabled: boolean;
+  transport?: GrpcTransport | undefined;
+  authConfig?: GrpcAuthConfig | undefined;
+  proxy?: GrpcProxyConfig | undefined;
   serviceName: string;
   timeoutMs?: number;
   priority: 'high' | 'normal';
@@ -133,6 +137,9 @@ class DescriptorLoaderQueue {
         body: JSON.stringify({
           endpoint: this.currentJob.endpoint,
           tlsEnabled: this.currentJob.tlsEnabled,
+          transport: this.currentJob.transport,
+          authConfig: this.currentJob.authConfig,
+          proxy: this.currentJob.proxy,
           serviceName: this.currentJob.serviceName,
           timeoutMs: this.currentJob.timeoutMs,
         }),
@@ -0,0 +1,139 @@
+// Endpoint address handling shared by the API routes and the UI. Besides
+// `host:port` (with IPv6 literals bracketed, `[2001:db8::1]:9090`), endpoints
+// may use the gRPC target syntax understood by grpc-go and grpc-js: unix:,
+// unix-abstract:, dns: and ipv4:/ipv6: address lists.
+
+export type TargetScheme = 'unix' | 'unix-abstract' | 'dns' | 'ipv4' | 'ipv6';
+
+export interface EndpointTarget {
+  scheme: TargetScheme;
+  /** Socket path for unix schemes; abstract names start with a NUL byte */
+  socketPath?: string;
+  /** `host[:port]` entries for dns, ipv4 and ipv6 targets */
+  addresses: string[];
+}
+
+export interface HostPort {
+  /** Host name or IP; IPv6 literals are returned without brackets */
+  host: string;
+  port?: string;
+}
+
+const TARGET_PATTERN = /^(unix|unix-abstract|dns|ipv4|ipv6):(.*)$/i;
+const SCHEME_PREFIX = /^(https?|grpcs?):\/\//i;
+
+/** Drop an http(s):// or grpc(s):// prefix and trailing slashes */
+export function stripEndpointScheme(address: string): string {
+  return address.trim().replace(SCHEME_PREFIX, '').replace(/\/+$/, '');
+}
+
+/**
+ * Split `host:port`, `[v6]:port`, `[v6]` or a bare IPv6 literal. A bare
+ * literal such as `2001:db8::1` has no port; it must be bracketed to carry one.
+ */
+export function splitHostPort(address: string): HostPort {
+  const value = address.trim();
+  const bracketed = /^\[([^\]]*)\](?::(\d*))?$/.exec(value);
+  if (bracketed) {
+    return { host: bracketed[1], ...(bracketed[2] ? { port: bracketed[2] } : {}) };
+  }
+  const firstColon = value.indexOf(':');
+  if (firstColon === -1) return { host: value };
+  if (value.indexOf(':', firstColon + 1) !== -1) return { host: value };
+  const port = value.slice(firstColon + 1);
+  return { host: value.slice(0, firstColon), ...(port ? { port } : {}) };
+}
+
+/** Format a host and optional port, bracketing IPv6 literals */
+export function joinHostPort(host: string, port?: string | number): string {
+  const formatted = host.includes(':') ? `[${host}]` : host;
+  return port === undefined || port === '' ? formatted : `${formatted}:${port}`;
+}
+
+/** Port of a `host:port` endpoint (scheme prefixes allowed); undefined for targets and bare hosts */
+export function endpointPort(address: string): string | undefined {
+  if (isTargetEndpoint(address)) return undefined;
+  return splitHostPort(stripEndpointScheme(address)).port;
+}
+
+/** Parse a gRPC target-syntax endpoint; null for plain `host:port` addresses */
+export function parseEndpointTarget(address: string): EndpointTarget | null {
+  const match = TARGET_PATTERN.exec(address.trim());
+  if (!match) return null;
+  const scheme = match[1].toLowerCase() as TargetScheme;
+  let rest = match[2];
+
+  if (scheme === 'unix-abstract') return { scheme, socketPath: `\0${rest}`, addresses: [] };
+  if (scheme === 'unix') {
+    // unix:relative/path, unix:/absolute/path or unix:///absolute/path
+    return { scheme, socketPath: rest.startsWith('//') ? rest.slice(2) : rest, addresses: [] };
+  }
+  if (scheme === 'dns' && rest.startsWith('//')) {
+    // dns://authority/host:port names the DNS server; only the host matters here
+    const pathStart = rest.indexOf('/', 2);
+    rest = pathStart === -1 ? '' : rest.slice(pathStart + 1);
+  }
+  return { scheme, addresses: rest.split(',').map((entry) => entry.trim()).filter(Boolean) };
+}
+
+/** True for target-syntax endpoints, which carry their own addressing and never get a default port */
+export function isTargetEndpoint(address: string): boolean {
+  return parseEndpointTarget(address) !== null;
+}
+
+/** True for unix: and unix-abstract: endpoints */
+export function isSocketEndpoint(address: string): boolean {
+  return parseEndpointTarget(address)?.socketPath !== undefined;
+}
+
+/** Append 443 (TLS) or 9090 (plaintext) to a host without a port; targets are returned as-is */
+export function withDefaultPort(address: string, tls: boolean): string {
+  if (isTargetEndpoint(address)) return address;
+  const { host, port } = splitHostPort(address);
+  return port ? address : joinHostPort(host, tls ? 443 : 9090);
+}
+
+/**
+ * Host name to check with DNS before connecting, or null when the endpoint
+ * needs no lookup (sockets and literal IP lists).
+ */
+export function endpointLookupHost(address: string): string | null {
+  const target = parseEndpointTarget(address);
+  if (!target) return splitHostPort(stripEndpointScheme(address)).host || null;
+  if (target.scheme !== 'dns') return null;
+  const [first] = target.addresses;
+  return first ? splitHostPort(first).host || null : null;
+}
+
+/**
+ * Channel target for grpc-js. It resolves unix:, dns: and ipv4:/ipv6:
+ * itself but has no unix-abstract: resolver, so abstract sockets become a
+ * unix: path with the leading NUL byte that Node uses for abstract names.
+ */
+export function toChannelTarget(address: string): string {
+  const target = parseEndpointTarget(address);
+  return target?.scheme === 'unix-abstract' ? `unix:${target.socketPath}` : address;
+}
+
+/**
+ * Where an HTTP client (gRPC-Web, Connect) should connect: a socket path, or
+ * the `host[:port]` authority of the first address in the target.
+ */
+export function toHttpTarget(address: string): { socketPath: string } | { authority: string } {
+  const target = parseEndpointTarget(address);
+  if (!target) return { authority: address };
+  if (target.socketPath !== undefined) return { socketPath: target.socketPath };
+  const { host, port } = splitHostPort(target.addresses[0] ?? '');
+  return { authority: joinHostPort(host, port) };
+}
+
+/** Short label for a source created from `address` */
+export function endpointDisplayName(address: string): string {
+  const target = parseEndpointTarget(address);
+  if (target?.socketPath !== undefined) {
+    const name = target.socketPath.replace(/^\0/, '@');
+    return name.split('/').filter(Boolean).pop() ?? name;
+  }
+  const hostPort = target ? target.addresses[0] ?? '' : stripEndpointScheme(address);
+  return splitHostPort(hostPort).host || address;
+}
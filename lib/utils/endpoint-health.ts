@@ -0,0 +1,100 @@
+// Endpoint health rows for the dashboard: server-side stats from
+// /api/endpoints/stats joined with each network's client-side endpointHealth.
+
+import type { EndpointExecutionHealth, EndpointStatsSnapshot, GrpcNetwork } from '@/lib/types/grpc';
+import { withDefaultPort } from '@/lib/utils/endpoint-address';
+
+export interface EndpointHealthRow {
+  /** Address with its default port, matching the server's stats keys */
+  address: string;
+  /** Names of the networks that use or have called this endpoint */
+  networks: string[];
+  server?: EndpointStatsSnapshot;
+  /** Client-side cooldown, while it is still in the future */
+  cooldownUntil?: number;
+  lastErrorKind?: EndpointExecutionHealth['lastErrorKind'];
+  lastSuccess?: number;
+  hedgeWins?: number;
+}
+
+/** TLS for a network's endpoint key, used to pick the default port */
+function endpointTls(network: GrpcNetwork, address: string): boolean {
+  return network.endpointConfigs?.find((config) => config.address === address)?.tlsEnabled ?? network.tlsEnabled;
+}
+
+function healthKey(network: GrpcNetwork, address: string): string {
+  return withDefaultPort(address, endpointTls(network, address));
+}
+
+/**
+ * One row per endpoint known to the server or to any network (configured or
+ * with recorded health), sorted by address.
+ */
+export function buildEndpointHealthRows(
+  snapshot: EndpointStatsSnapshot[],
+  networks: GrpcNetwork[],
+  now: number = Date.now()
+): EndpointHealthRow[] {
+  const rows = new Map<string, EndpointHealthRow>();
+  const row = (address: string): EndpointHealthRow => {
+    let existing = rows.get(address);
+    if (!existing) {
+      existing = { address, networks: [] };
+      rows.set(address, existing);
+    }
+    return existing;
+  };
+
+  for (const entry of snapshot) row(entry.address).server = entry;
+
+  for (const network of networks) {
+    if (network.bsrSource || network.localProtoSource) continue;
+    const addresses = [
+      ...(network.endpoint ? [network.endpoint] : []),
+      ...(network.endpointConfigs?.map((config) => config.address) ?? []),
+      ...Object.keys(network.endpointHealth ?? {}),
+    ].filter((address) => !address.startsWith('chain:'));
+    for (const address of addresses) {
+      const target = row(healthKey(network, address));
+      if (!target.networks.includes(network.name)) target.networks.push(network.name);
+    }
+
+    for (const [address, health] of Object.entries(network.endpointHealth ?? {})) {
+      const target = row(healthKey(network, address));
+      if (health.retryAfter && health.retryAfter > now) {
+        target.cooldownUntil = Math.max(target.cooldownUntil ?? 0, health.retryAfter);
+        if (health.lastErrorKind) target.lastErrorKind = health.lastErrorKind;
+      } else if (health.lastErrorKind && !target.lastErrorKind) {
+        target.lastErrorKind = health.lastErrorKind;
+      }
+      if (health.lastSuccess) target.lastSuccess = Math.max(target.lastSuccess ?? 0, health.lastSuccess);
+      if (health.hedgeWins) target.hedgeWins = (target.hedgeWins ?? 0) + health.hedgeWins;
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.address.localeCompare(b.address));
+}
+
+/**
+ * Drop a network's client-side health for `address`: `cooldown` lifts only
+ * the cooldown and error kind, `all` forgets the entry.
+ */
+export function clearEndpointHealth(network: GrpcNetwork, address: string, scope: 'cooldown' | 'all'): GrpcNetwork {
+  if (!network.endpointHealth) return network;
+  let changed = false;
+  const endpointHealth: Record<string, EndpointExecutionHealth> = {};
+
+  for (const [key, health] of Object.entries(network.endpointHealth)) {
+    if (healthKey(network, key) !== address) {
+      endpointHealth[key] = health;
+      continue;
+    }
+    changed = true;
+    if (scope === 'cooldown') {
+      const { retryAfter: _retryAfter, lastErrorKind: _lastErrorKind, ...kept } = health;
+      if (Object.keys(kept).length > 0) endpointHealth[key] = kept;
+    }
+  }
+
+  return changed ? { ...network, endpointHealth } : network;
+}
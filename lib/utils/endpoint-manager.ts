@@ -2,21 +2,16 @@
 // Endpoint management with failure tracking, smart timeouts, and prioritization
 
 import { errorMessage } from '@/lib/utils';
+import { isTargetEndpoint, joinHostPort, splitHostPort } from '@/lib/utils/endpoint-address';
+import type { EndpointSelectionStats } from '@/lib/utils/execution-endpoints';
+import { endpointStoreFromEnv, NoopEndpointStore, type EndpointStats, type EndpointStatsStore, type EndpointStoreState } from '@/lib/utils/endpoint-store';
+import type { EndpointStatsSnapshot } from '@/lib/types/grpc';
 
 interface EndpointConfig {
   address: string;
   tls: boolean;
 }
 
-interface EndpointStats {
-  address: string;
-  failures: number;
-  timeouts: number;
-  lastFailure?: number;
-  averageResponseTime?: number;
-  successCount: number;
-}
-
 interface FetchResult {
   endpoint: string;
   data: any;
@@ -24,11 +19,43 @@ interface FetchResult {
   tls: boolean;
 }
 
-class EndpointManager {
+export class EndpointManager {
   private stats: Map<string, EndpointStats> = new Map();
   private blacklist: Set<string> = new Set();
-  private readonly BLACKLIST_THRESHOLD = 5; // Blacklist after 5 failures
-  private readonly BLACKLIST_DURATION = 3600000; // 1 hour in ms
+  readonly BLACKLIST_THRESHOLD = 5; // Blacklist after 5 failures
+  readonly BLACKLIST_DURATION = 3600000; // 1 hour in ms
+  private readonly LATENCY_EWMA_WEIGHT = 0.5; // Weight of the newest sample
+
+  constructor(private readonly store: EndpointStatsStore = new NoopEndpointStore()) {
+    const { stats, blacklist } = store.load();
+    for (const entry of stats) this.stats.set(entry.address, entry);
+    // Expired entries were dropped on load; the rest lapse lastFailure + BLACKLIST_DURATION
+    for (const { address } of blacklist) this.blacklist.add(address);
+  }
+
+  /**
+   * Stats and unexpired blacklist entries in the store's format
+   */
+  private toStoreState(): EndpointStoreState {
+    const now = Date.now();
+    return {
+      stats: Array.from(this.stats.values(), (stats) => ({ ...stats })),
+      blacklist: Array.from(this.blacklist)
+        .map((address) => ({ address, expiresAt: (this.stats.get(address)?.lastFailure ?? now) + this.BLACKLIST_DURATION }))
+        .filter(({ expiresAt }) => expiresAt > now),
+    };
+  }
+
+  private persist(): void {
+    this.store.save(this.toStoreState());
+  }
+
+  /**
+   * Wait for pending writes to the persistence store
+   */
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
 
   /**
    * Normalize endpoint URL and detect TLS requirement
@@ -38,6 +65,11 @@ class EndpointManager {
     let tls = false;
     let hadHttpsPrefix = false;
 
+    // unix:, dns:, ipv4: and ipv6: targets carry no port or scheme to infer TLS from
+    if (isTargetEndpoint(address)) {
+      return { address, tls: false };
+    }
+
     // Remove protocol prefix if present and remember if it was HTTPS
     if (address.startsWith('https://')) {
       address = address.replace('https://', '');
@@ -56,17 +88,17 @@ class EndpointManager {
     }
 
     // Add port if missing
-    if (!address.includes(':')) {
+    const { host, port } = splitHostPort(address);
+    if (!port) {
       // If URL had https:// prefix, use port 443, otherwise use 9090
       if (hadHttpsPrefix) {
-        address = `${address}:443`;
+        address = joinHostPort(host, 443);
         tls = true;
       } else {
-        address = `${address}:9090`; // Default gRPC port
+        address = joinHostPort(host, 9090); // Default gRPC port
       }
     } else {
       // Check if port 443 or 9091 (common TLS ports for gRPC)
-      const port = address.split(':')[1];
       if (port === '443' || port === '9091') {
         tls = true;
       }
@@ -143,9 +175,9 @@ class EndpointManager {
 
     stats.successCount++;
 
-    // Update average response time
+    // Update the moving average response time
     if (stats.averageResponseTime) {
-      stats.averageResponseTime = (stats.averageResponseTime + responseTime) / 2;
+      stats.averageResponseTime = this.LATENCY_EWMA_WEIGHT * responseTime + (1 - this.LATENCY_EWMA_WEIGHT) * stats.averageResponseTime;
     } else {
       stats.averageResponseTime = responseTime;
     }
@@ -157,6 +189,7 @@ class EndpointManager {
       this.blacklist.delete(address);
       console.log(`[EndpointManager] Removed ${address} from blacklist after recovery`);
     }
+    this.persist();
   }
 
   /**
@@ -185,6 +218,7 @@ class EndpointManager {
     } else {
       console.warn(`[EndpointManager] Failure recorded for ${address} - ${stats.failures} total failures`);
     }
+    this.persist();
   }
 
   /**
@@ -194,6 +228,19 @@ class EndpointManager {
     return this.blacklist.has(address);
   }
 
+  /**
+   * Latency, failure and blacklist state used by endpoint selection strategies
+   */
+  getSelectionStats(address: string): EndpointSelectionStats | undefined {
+    const stats = this.stats.get(address);
+    if (!stats) return this.blacklist.has(address) ? { failures: 0, blacklisted: true } : undefined;
+    return {
+      averageResponseTime: stats.averageResponseTime,
+      failures: stats.failures,
+      blacklisted: this.blacklist.has(address),
+    };
+  }
+
   /**
    * Get stats for logging/debugging
    */
@@ -201,6 +248,57 @@ class EndpointManager {
     return new Map(this.stats);
   }
 
+  /**
+   * Every tracked or blacklisted endpoint, for the endpoint health dashboard
+   */
+  getSnapshot(): EndpointStatsSnapshot[] {
+    const addresses = new Set([...Array.from(this.stats.keys()), ...Array.from(this.blacklist)]);
+    return Array.from(addresses).sort().map((address) => {
+      const stats = this.stats.get(address);
+      const blacklisted = this.blacklist.has(address);
+      return {
+        address,
+        successCount: stats?.successCount ?? 0,
+        failures: stats?.failures ?? 0,
+        timeouts: stats?.timeouts ?? 0,
+        ...(stats?.averageResponseTime !== undefined ? { averageResponseTime: Math.round(stats.averageResponseTime) } : {}),
+        ...(stats?.lastFailure !== undefined ? { lastFailure: stats.lastFailure } : {}),
+        blacklisted,
+        ...(blacklisted && stats?.lastFailure !== undefined
+          ? { blacklistExpiresAt: stats.lastFailure + this.BLACKLIST_DURATION }
+          : {}),
+      };
+    });
+  }
+
+  /**
+   * Lift a blacklist early; the failure streak restarts so one more failure
+   * does not re-blacklist the endpoint. Returns false for unknown endpoints.
+   */
+  unblacklist(address: string): boolean {
+    const stats = this.stats.get(address);
+    const known = this.blacklist.delete(address) || stats !== undefined;
+    if (stats) {
+      stats.failures = 0;
+      stats.timeouts = 0;
+    }
+    if (known) {
+      console.log(`[EndpointManager] Removed ${address} from blacklist manually`);
+      this.persist();
+    }
+    return known;
+  }
+
+  /**
+   * Forget all stats for an endpoint. Returns false for unknown endpoints.
+   */
+  resetStats(address: string): boolean {
+    const removedStats = this.stats.delete(address);
+    const removedBlacklist = this.blacklist.delete(address);
+    if (removedStats || removedBlacklist) this.persist();
+    return removedStats || removedBlacklist;
+  }
+
   /**
    * Get blacklisted endpoints
    */
@@ -213,21 +311,23 @@ class EndpointManager {
    */
   clearExpiredBlacklist(): void {
     const now = Date.now();
+    let changed = false;
     const entries = Array.from(this.stats.entries());
     for (const [address, stats] of entries) {
       if (stats.lastFailure && now - stats.lastFailure > this.BLACKLIST_DURATION) {
-        this.blacklist.delete(address);
+        changed ||= this.blacklist.delete(address) || stats.failures > 0 || stats.timeouts > 0;
         // Reset failure count
         stats.failures = 0;
         stats.timeouts = 0;
         this.stats.set(address, stats);
       }
     }
+    if (changed) this.persist();
   }
 }
 
-// Singleton instance
-export const endpointManager = new EndpointManager();
+// Singleton instance, persisted per GRPC_EXPLORER_ENDPOINT_STORE
+export const endpointManager = new EndpointManager(endpointStoreFromEnv());
 
 /**
  * Fetch services from multiple endpoints concurrently with race-to-first-success
@@ -0,0 +1,191 @@
+// lib/utils/endpoint-store.ts
+// Persistence backends for endpoint reputation, so stats and blacklist entries
+// survive server restarts on self-hosted installs
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorMessage } from '@/lib/utils';
+
+const STORE_VERSION = 1;
+const DEFAULT_SAVE_DELAY_MS = 1000;
+
+export interface EndpointStats {
+  address: string;
+  failures: number;
+  timeouts: number;
+  lastFailure?: number;
+  averageResponseTime?: number; // EWMA of successful response times
+  successCount: number;
+}
+
+export interface EndpointStoreState {
+  stats: EndpointStats[];
+  /** Blacklisted endpoints and when their blacklist lapses */
+  blacklist: Array<{ address: string; expiresAt: number }>;
+}
+
+/**
+ * Where the endpoint manager keeps its stats. `load` runs once, synchronously,
+ * when the manager is created; `save` is called after every change and may
+ * batch writes, with `flush` waiting for anything still pending.
+ */
+export interface EndpointStatsStore {
+  readonly kind: EndpointStoreKind;
+  load(): EndpointStoreState;
+  save(state: EndpointStoreState): void;
+  flush(): Promise<void>;
+}
+
+export type EndpointStoreKind = 'file' | 'none';
+
+function emptyState(): EndpointStoreState {
+  return { stats: [], blacklist: [] };
+}
+
+/**
+ * Keeps nothing: serverless instances (Vercel) have no durable disk, so every
+ * instance starts from empty stats as before.
+ */
+export class NoopEndpointStore implements EndpointStatsStore {
+  readonly kind = 'none' as const;
+
+  load(): EndpointStoreState {
+    return emptyState();
+  }
+
+  save(): void {}
+
+  async flush(): Promise<void> {}
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseStats(entry: any): EndpointStats | undefined {
+  if (!entry || typeof entry.address !== 'string' || !entry.address) return undefined;
+  return {
+    address: entry.address,
+    failures: isFiniteNumber(entry.failures) ? entry.failures : 0,
+    timeouts: isFiniteNumber(entry.timeouts) ? entry.timeouts : 0,
+    successCount: isFiniteNumber(entry.successCount) ? entry.successCount : 0,
+    ...(isFiniteNumber(entry.lastFailure) ? { lastFailure: entry.lastFailure } : {}),
+    ...(isFiniteNumber(entry.averageResponseTime) ? { averageResponseTime: entry.averageResponseTime } : {}),
+  };
+}
+
+/**
+ * Validate a stored state, dropping malformed entries and blacklist entries
+ * that have already expired.
+ */
+export function parseEndpointStoreState(raw: unknown, now: number = Date.now()): EndpointStoreState {
+  if (!raw || typeof raw !== 'object') return emptyState();
+  const data = raw as { stats?: unknown; blacklist?: unknown };
+
+  const stats = Array.isArray(data.stats)
+    ? data.stats.map(parseStats).filter((entry): entry is EndpointStats => entry !== undefined)
+    : [];
+  const blacklist = Array.isArray(data.blacklist)
+    ? data.blacklist.filter((entry: any): entry is EndpointStoreState['blacklist'][number] =>
+        typeof entry?.address === 'string' && isFiniteNumber(entry.expiresAt) && entry.expiresAt > now)
+      .map(({ address, expiresAt }) => ({ address, expiresAt }))
+    : [];
+
+  return { stats, blacklist };
+}
+
+/**
+ * JSON file on local disk. Writes are debounced and go through a temp file
+ * and rename, so a crash mid-write leaves the previous state intact.
+ */
+export class FileEndpointStore implements EndpointStatsStore {
+  readonly kind = 'file' as const;
+  private pending: EndpointStoreState | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    private readonly saveDelayMs: number = DEFAULT_SAVE_DELAY_MS
+  ) {}
+
+  load(): EndpointStoreState {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') {
+        console.warn(`[EndpointStore] Could not read ${this.filePath}: ${errorMessage(err)}`);
+      }
+      return emptyState();
+    }
+
+    try {
+      const state = parseEndpointStoreState(JSON.parse(contents));
+      console.log(`[EndpointStore] Loaded ${state.stats.length} endpoint stats, ${state.blacklist.length} blacklisted from ${this.filePath}`);
+      return state;
+    } catch (err: unknown) {
+      console.warn(`[EndpointStore] Ignoring unreadable ${this.filePath}: ${errorMessage(err)}`);
+      return emptyState();
+    }
+  }
+
+  save(state: EndpointStoreState): void {
+    this.pending = state;
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.writePending();
+    }, this.saveDelayMs);
+    // A pending save must not keep the process alive
+    this.timer.unref?.();
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.writePending();
+    }
+    await this.writing;
+  }
+
+  private writePending(): void {
+    const state = this.pending;
+    this.pending = null;
+    if (!state) return;
+    this.writing = this.writing.then(() => this.write(state));
+  }
+
+  private async write(state: EndpointStoreState): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify({ version: STORE_VERSION, savedAt: Date.now(), ...state }), 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (err: unknown) {
+      console.warn(`[EndpointStore] Could not write ${this.filePath}: ${errorMessage(err)}`);
+    }
+  }
+}
+
+/**
+ * Store chosen from the environment. GRPC_EXPLORER_ENDPOINT_STORE is `file`
+ * or `none`; it defaults to `none` on Vercel and under tests and to `file`
+ * elsewhere. GRPC_EXPLORER_ENDPOINT_STORE_PATH overrides the file location
+ * (`.cache/endpoint-stats.json` in the working directory).
+ */
+export function endpointStoreFromEnv(env: NodeJS.ProcessEnv = process.env): EndpointStatsStore {
+  const configured = env.GRPC_EXPLORER_ENDPOINT_STORE?.trim().toLowerCase();
+  if (configured && configured !== 'file' && configured !== 'none') {
+    console.warn(`[EndpointStore] Unknown GRPC_EXPLORER_ENDPOINT_STORE "${configured}", endpoint stats will not be persisted`);
+  }
+  const kind: EndpointStoreKind = configured === 'file' || configured === 'none'
+    ? configured
+    : configured || env.VERCEL || env.NODE_ENV === 'test' ? 'none' : 'file';
+
+  if (kind === 'none') return new NoopEndpointStore();
+  const filePath = env.GRPC_EXPLORER_ENDPOINT_STORE_PATH?.trim()
+    || path.join(process.cwd(), '.cache', 'endpoint-stats.json');
+  return new FileEndpointStore(path.resolve(filePath));
+}
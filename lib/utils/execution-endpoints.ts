@@ -1,4 +1,10 @@
-import type { EndpointExecutionHealth, GrpcNetwork } from '@/lib/types/grpc';
+import type {
+  EndpointExecutionHealth,
+  EndpointSelectionStrategy,
+  GrpcNetwork,
+  GrpcRetryPolicy,
+  IdempotencyLevel,
+} from '@/lib/types/grpc';
 import { errorMessage } from '@/lib/utils';
 
 export type ExecutionEndpoint = {
@@ -12,15 +18,45 @@ export type EndpointExecutionFailure = {
 };
 
 export class EndpointFailoverError extends Error {
-  constructor(public readonly failures: EndpointExecutionFailure[], deadlineExhausted: boolean = false) {
+  /** `lastError` is the final attempt's error, so callers can still report its status */
+  constructor(public readonly failures: EndpointExecutionFailure[], deadlineExhausted: boolean = false, public readonly lastError?: unknown) {
     super(`${deadlineExhausted ? 'gRPC endpoint execution deadline exhausted' : 'All selected gRPC endpoints failed'}: ${failures.map(({ endpoint, error }) => `${endpoint}: ${error}`).join('; ')}`);
     this.name = 'EndpointFailoverError';
   }
 }
 
+/** The caller aborted the execution; no further endpoints are attempted */
+export class ExecutionCancelledError extends Error {
+  constructor(message: string = 'Execution cancelled') {
+    super(message);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
 export const INCOMPATIBLE_ENDPOINT_COOLDOWN_MS = 60 * 60 * 1000;
 export const TRANSIENT_ENDPOINT_COOLDOWN_MS = 60 * 1000;
 
+export const ENDPOINT_SELECTION_STRATEGIES: Array<{ value: EndpointSelectionStrategy; label: string; description: string }> = [
+  { value: 'round-robin', label: 'Round-robin', description: 'Start each call at the next selected endpoint' },
+  { value: 'lowest-latency', label: 'Lowest latency', description: 'Prefer the endpoint with the lowest average response time' },
+  { value: 'least-failures', label: 'Least failures', description: 'Prefer the endpoint with the fewest recorded failures' },
+  { value: 'sticky-primary', label: 'Sticky primary', description: 'Always start at the first selected endpoint, falling back in order' },
+];
+
+export function normalizeEndpointStrategy(value: unknown): EndpointSelectionStrategy {
+  return ENDPOINT_SELECTION_STRATEGIES.some((strategy) => strategy.value === value)
+    ? value as EndpointSelectionStrategy
+    : 'round-robin';
+}
+
+/** Server-side stats an ordering strategy reads for one endpoint */
+export type EndpointSelectionStats = {
+  /** Exponentially weighted moving average of successful response times */
+  averageResponseTime?: number | undefined;
+  failures: number;
+  blacklisted?: boolean | undefined;
+};
+
 function isEligible(address: string, health: Record<string, EndpointExecutionHealth> | undefined, now: number): boolean {
   return !health?.[address]?.retryAfter || health[address].retryAfter <= now;
 }
@@ -29,6 +65,8 @@ function isEligible(address: string, health: Record<string, EndpointExecutionHea
  * Generic gRPC sources deliberately retain their single configured endpoint.
  * Cosmos sources rotate selected endpoints, then retain the rest as failover
  * candidates so networks with mixed SDK/provider availability stay usable.
+ * Only the round-robin strategy rotates; the others keep the configured order
+ * and leave the final ordering to the server's endpoint stats.
  */
 export function getExecutionEndpoints(network: GrpcNetwork, startIndex: number, now: number = Date.now()): ExecutionEndpoint[] {
   if (network.mode !== 'cosmos') {
@@ -40,7 +78,8 @@ export function getExecutionEndpoints(network: GrpcNetwork, startIndex: number,
     return [{ address: network.endpoint, tlsEnabled: network.tlsEnabled }];
   }
 
-  const normalizedStart = ((startIndex % selected.length) + selected.length) % selected.length;
+  const rotate = normalizeEndpointStrategy(network.endpointStrategy) === 'round-robin';
+  const normalizedStart = rotate ? ((startIndex % selected.length) + selected.length) % selected.length : 0;
   const rotated = [...selected.slice(normalizedStart), ...selected.slice(0, normalizedStart)].map(
     ({ address, tlsEnabled }) => ({ address, tlsEnabled })
   );
@@ -53,35 +92,263 @@ export function getExecutionEndpoints(network: GrpcNetwork, startIndex: number,
   return usable;
 }
 
+/**
+ * Endpoint fields of an execute, stream or session request body. The
+ * strategy travels with the attempts so the server can order them by its
+ * endpoint stats.
+ */
+export function executionRequestEndpoints(network: GrpcNetwork, endpoints: ExecutionEndpoint[]) {
+  return {
+    endpoint: endpoints[0].address,
+    tlsEnabled: endpoints[0].tlsEnabled,
+    endpointAttempts: endpoints,
+    ...(network.endpointStrategy ? { endpointStrategy: network.endpointStrategy } : {}),
+  };
+}
+
+/**
+ * Order endpoint attempts for `strategy`. Round-robin and sticky-primary keep
+ * the given order; lowest-latency tries endpoints without a latency sample
+ * first (so each gets measured) and then sorts by average response time;
+ * least-failures sorts by failure count. Every strategy except round-robin
+ * moves blacklisted endpoints to the end. Ties keep the given order.
+ */
+export function orderExecutionEndpoints<E extends ExecutionEndpoint>(
+  endpoints: E[],
+  strategy: EndpointSelectionStrategy,
+  statsFor: (endpoint: E) => EndpointSelectionStats | undefined
+): E[] {
+  if (strategy === 'round-robin' || endpoints.length < 2) return endpoints;
+
+  const ranked = endpoints.map((endpoint, index) => ({ endpoint, index, stats: statsFor(endpoint) }));
+  const score = ({ stats }: (typeof ranked)[number]): number => {
+    if (strategy === 'lowest-latency') return stats?.averageResponseTime ?? -1;
+    if (strategy === 'least-failures') return stats?.failures ?? 0;
+    return 0;
+  };
+
+  return ranked
+    .sort((a, b) =>
+      Number(a.stats?.blacklisted ?? false) - Number(b.stats?.blacklisted ?? false) ||
+      score(a) - score(b) ||
+      a.index - b.index
+    )
+    .map(({ endpoint }) => endpoint);
+}
+
+/**
+ * Whether a method may be invoked again after a failed attempt: it declares
+ * `idempotency_level` NO_SIDE_EFFECTS or IDEMPOTENT, or belongs to a Cosmos
+ * `Query` service, which only reads state.
+ */
+export function isSafeToRetry(serviceName: string, idempotencyLevel?: IdempotencyLevel | undefined): boolean {
+  return idempotencyLevel !== undefined || isCosmosQueryService(serviceName);
+}
+
+/** Methods that may run at several providers at once: NO_SIDE_EFFECTS or a Cosmos `Query` service */
+export function isReadOnlyMethod(serviceName: string, idempotencyLevel?: IdempotencyLevel | undefined): boolean {
+  return idempotencyLevel === 'NO_SIDE_EFFECTS' || isCosmosQueryService(serviceName);
+}
+
+function isCosmosQueryService(serviceName: string): boolean {
+  return /^cosmos\..+\.Query$/.test(serviceName);
+}
+
+/**
+ * Delay before retry number `retry` (1-based): uniformly random up to
+ * initialBackoff * multiplier^(retry-1), capped at maxBackoff, as in gRPC.
+ */
+export function retryBackoffMs(policy: Required<GrpcRetryPolicy>, retry: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.initialBackoffMs * policy.backoffMultiplier ** (retry - 1), policy.maxBackoffMs);
+  return Math.floor(random() * ceiling);
+}
+
+export type RetryOptions = {
+  /** Total attempts, including the first, for errors that shouldRetry accepts */
+  maxAttempts: number;
+  shouldRetry: (error: unknown, endpoint: ExecutionEndpoint) => boolean;
+  /** Delay before retry number `retry` (1-based) */
+  backoffMs: (retry: number) => number;
+  /** Test hook; defaults to an abortable timer */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
 export type FailoverOptions = {
   deadlineAt?: number;
   now?: () => number;
   shouldFailover?: (error: unknown, endpoint: ExecutionEndpoint) => boolean;
+  /** Aborting stops the loop: the current attempt's error is replaced and no other endpoint is tried */
+  signal?: AbortSignal | undefined;
+  /**
+   * Retry retryable errors after a backoff, cycling through the endpoints
+   * (back to the first once all were tried) until maxAttempts is reached.
+   * Other failover errors still try each endpoint once.
+   */
+  retry?: RetryOptions | undefined;
 };
 
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
 export async function executeWithEndpointFailover<T>(
   endpoints: ExecutionEndpoint[],
-  execute: (endpoint: ExecutionEndpoint) => Promise<T>,
+  execute: (endpoint: ExecutionEndpoint, signal?: AbortSignal) => Promise<T>,
   options: FailoverOptions = {}
 ): Promise<{ value: T; endpoint: ExecutionEndpoint; failures: EndpointExecutionFailure[] }> {
   const failures: EndpointExecutionFailure[] = [];
   const now = options.now ?? Date.now;
+  const { retry } = options;
   let deadlineExhausted = false;
+  let retries = 0;
+  let lastError: unknown;
 
-  for (const endpoint of endpoints) {
+  for (let attempt = 0; endpoints.length > 0; attempt++) {
+    const endpoint = endpoints[attempt % endpoints.length];
+    if (options.signal?.aborted) throw new ExecutionCancelledError();
     if (options.deadlineAt !== undefined && now() >= options.deadlineAt) {
       deadlineExhausted = true;
       break;
     }
     try {
-      return { value: await execute(endpoint), endpoint, failures };
+      return { value: await execute(endpoint, options.signal), endpoint, failures };
     } catch (error) {
-      if (options.shouldFailover && !options.shouldFailover(error, endpoint)) {
+      if (options.signal?.aborted) {
+        throw error instanceof ExecutionCancelledError ? error : new ExecutionCancelledError();
+      }
+      const retryable = retry?.shouldRetry(error, endpoint) ?? false;
+      if (!retryable && options.shouldFailover && !options.shouldFailover(error, endpoint)) {
         throw error;
       }
       failures.push({ endpoint: endpoint.address, error: errorMessage(error) });
+      lastError = error;
+
+      if (!retry || !retryable) {
+        // Plain failover: each endpoint once, never wrapping around
+        if (attempt + 1 >= endpoints.length) break;
+        continue;
+      }
+      if (retries + 1 >= retry.maxAttempts) break;
+      retries++;
+      const delay = retry.backoffMs(retries);
+      if (options.deadlineAt !== undefined && now() + delay >= options.deadlineAt) {
+        deadlineExhausted = true;
+        break;
+      }
+      if (delay > 0) await (retry.sleep ?? sleep)(delay, options.signal);
     }
   }
 
-  throw new EndpointFailoverError(failures, deadlineExhausted);
+  throw new EndpointFailoverError(failures, deadlineExhausted, lastError);
+}
+
+export type HedgingOptions = {
+  /** Wait this long for an answer before starting another endpoint */
+  delayMs: number;
+  /** Attempts in flight at once, including the first */
+  maxAttempts: number;
+  /** Checked each time a hedge is due; when false, the check repeats after another delay */
+  shouldHedge?: () => boolean;
+  /** Errors that start the next endpoint at once; any other error fails the call */
+  shouldFailover?: (error: unknown, endpoint: ExecutionEndpoint) => boolean;
+  deadlineAt?: number;
+  now?: () => number;
+  /** Aborting cancels every attempt in flight */
+  signal?: AbortSignal | undefined;
+};
+
+/**
+ * Start at the first endpoint and, while no attempt has answered within
+ * delayMs, call the next one as well. The first success wins and every other
+ * attempt's signal is aborted. Failover errors move on to the next endpoint
+ * immediately; each endpoint is tried at most once.
+ */
+export function executeWithHedging<T>(
+  endpoints: ExecutionEndpoint[],
+  execute: (endpoint: ExecutionEndpoint, signal: AbortSignal) => Promise<T>,
+  options: HedgingOptions
+): Promise<{ value: T; endpoint: ExecutionEndpoint; failures: EndpointExecutionFailure[]; attempted: ExecutionEndpoint[] }> {
+  const failures: EndpointExecutionFailure[] = [];
+  const attempted: ExecutionEndpoint[] = [];
+  const controllers: AbortController[] = [];
+  const now = options.now ?? Date.now;
+  const maxInFlight = Math.max(1, options.maxAttempts);
+
+  return new Promise((resolve, reject) => {
+    let inFlight = 0;
+    let settled = false;
+    let deadlineExhausted = false;
+    let lastError: unknown;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (complete: () => void, winner?: AbortController) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+      for (const controller of controllers) {
+        if (controller !== winner) controller.abort();
+      }
+      complete();
+    };
+    const cancel = () => settle(() => reject(new ExecutionCancelledError()));
+    const failIfIdle = () => {
+      if (inFlight === 0) settle(() => reject(new EndpointFailoverError(failures, deadlineExhausted, lastError)));
+    };
+
+    const scheduleHedge = () => {
+      clearTimeout(timer);
+      if (attempted.length >= endpoints.length) return;
+      timer = setTimeout(() => {
+        if (inFlight < maxInFlight && (options.shouldHedge?.() ?? true)) start();
+        else scheduleHedge();
+      }, options.delayMs);
+    };
+
+    const start = () => {
+      if (options.deadlineAt !== undefined && now() >= options.deadlineAt) {
+        deadlineExhausted = true;
+        failIfIdle();
+        return;
+      }
+      const endpoint = endpoints[attempted.length];
+      const controller = new AbortController();
+      attempted.push(endpoint);
+      controllers.push(controller);
+      inFlight++;
+      scheduleHedge();
+
+      execute(endpoint, controller.signal).then(
+        (value) => settle(() => resolve({ value, endpoint, failures, attempted }), controller),
+        (error: unknown) => {
+          inFlight--;
+          if (settled) return;
+          if (options.shouldFailover && !options.shouldFailover(error, endpoint)) {
+            settle(() => reject(error));
+            return;
+          }
+          failures.push({ endpoint: endpoint.address, error: errorMessage(error) });
+          lastError = error;
+          if (attempted.length < endpoints.length) start();
+          else failIfIdle();
+        }
+      );
+    };
+
+    if (options.signal?.aborted) {
+      reject(new ExecutionCancelledError());
+      return;
+    }
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    if (endpoints.length === 0) failIfIdle();
+    else start();
+  });
 }
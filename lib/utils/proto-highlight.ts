@@ -0,0 +1,52 @@
+// lib/utils/proto-highlight.ts
+// Line tokenizer for syntax highlighting .proto source
+
+export type ProtoTokenKind = 'keyword' | 'type' | 'name' | 'option' | 'string' | 'number' | 'comment' | 'text';
+
+export interface ProtoToken {
+  kind: ProtoTokenKind;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'syntax', 'edition', 'package', 'import', 'public', 'weak', 'option', 'message', 'enum', 'service',
+  'rpc', 'returns', 'stream', 'oneof', 'map', 'extend', 'extensions', 'reserved', 'to', 'max',
+  'optional', 'required', 'repeated', 'group', 'true', 'false',
+]);
+
+const SCALAR_TYPES = new Set([
+  'double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64',
+  'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes',
+]);
+
+/** Keywords followed by the name being declared */
+const DECLARATIONS = new Set(['message', 'enum', 'service', 'rpc', 'oneof', 'group']);
+
+const TOKEN_PATTERN = /(\/\/.*$|\/\*.*?(?:\*\/|$))|("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?)|((?<=\boption\s+|[[,]\s*)\(\s*\.?[A-Za-z_][\w.]*\s*\)|\[\s*[A-Za-z_][\w.]*\.[\w.]*\s*\](?=\s*[{:]))|(-?(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d*)?(?:[eE][+-]?\d+)?|inf|nan)\b)|([A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*)|(\s+|[^\s"'/()[\]\w-]+|.)/g;
+
+/**
+ * Split one line of .proto source into highlighting tokens. Lines are
+ * tokenized independently, so a block comment spanning lines is only
+ * recognised on its first line; printed sources use `//` comments.
+ */
+export function tokenizeProtoLine(line: string): ProtoToken[] {
+  const tokens: ProtoToken[] = [];
+  let declaring = false;
+  for (const match of Array.from(line.matchAll(TOKEN_PATTERN))) {
+    const [text, comment, string, option, number, word] = match;
+    let kind: ProtoTokenKind = 'text';
+    if (comment) kind = 'comment';
+    else if (string) kind = 'string';
+    else if (option) kind = 'option';
+    else if (number) kind = 'number';
+    else if (word) {
+      kind = declaring ? 'name' : KEYWORDS.has(word) ? 'keyword' : SCALAR_TYPES.has(word) ? 'type' : 'text';
+      declaring = kind === 'keyword' && DECLARATIONS.has(word);
+    }
+
+    const previous = tokens[tokens.length - 1];
+    if (kind === 'text' && previous?.kind === 'text') previous.text += text;
+    else tokens.push({ kind, text });
+  }
+  return tokens;
+}
@@ -0,0 +1,36 @@
+// Per-source HTTP CONNECT proxy settings shared by the connection dialog and API routes
+
+import type { GrpcProxyConfig } from '@/lib/types/grpc';
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Split a comma or whitespace separated no-proxy list such as NO_PROXY */
+export function parseNoProxyList(value: string): string[] {
+  return value.split(/[\s,]+/).map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Accept a proxy config from request JSON or form state. Returns undefined
+ * without a proxy URL, so the source falls back to the server-level proxy.
+ */
+export function normalizeProxyConfig(value: unknown): GrpcProxyConfig | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const url = nonEmptyString(raw.url);
+  if (!url) return undefined;
+
+  const username = nonEmptyString(raw.username);
+  const password = typeof raw.password === 'string' && raw.password ? raw.password : undefined;
+  const noProxy = Array.isArray(raw.noProxy)
+    ? raw.noProxy.filter((entry): entry is string => typeof entry === 'string').flatMap(parseNoProxyList)
+    : typeof raw.noProxy === 'string' ? parseNoProxyList(raw.noProxy) : [];
+
+  return {
+    url,
+    ...(username ? { username } : {}),
+    ...(password ? { password } : {}),
+    ...(noProxy.length > 0 ? { noProxy } : {}),
+  };
+}
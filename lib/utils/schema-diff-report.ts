@@ -0,0 +1,37 @@
+// lib/utils/schema-diff-report.ts
+// Markdown export of a schema diff report, for changelogs and review threads.
+
+import type { SchemaChange, SchemaDiffReport } from '@/lib/types/grpc';
+
+/** Pipes and newlines would break a Markdown table row */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function changeTable(changes: SchemaChange[]): string[] {
+  return [
+    '| Change | Element | Wire-incompatible | Details |',
+    '| --- | --- | --- | --- |',
+    ...changes.map((change) =>
+      `| ${change.kind} | \`${cell(change.element)}\` | ${change.wireIncompatible ? 'yes' : 'no'} | ${cell(change.description)} |`
+    ),
+  ];
+}
+
+export function formatSchemaDiffMarkdown(report: SchemaDiffReport): string {
+  const breaking = report.changes.filter((change) => change.breaking);
+  const nonBreaking = report.changes.filter((change) => !change.breaking);
+  const lines = [
+    `# Schema diff: ${report.before} → ${report.after}`,
+    '',
+    `Generated ${new Date(report.generatedAt).toISOString()}`,
+    '',
+    `- Breaking: ${report.summary.breaking}`,
+    `- Wire-incompatible: ${report.summary.wireIncompatible}`,
+    `- Non-breaking: ${report.summary.nonBreaking}`,
+  ];
+  if (report.changes.length === 0) lines.push('', 'No changes.');
+  if (breaking.length > 0) lines.push('', '## Breaking changes', '', ...changeTable(breaking));
+  if (nonBreaking.length > 0) lines.push('', '## Non-breaking changes', '', ...changeTable(nonBreaking));
+  return `${lines.join('\n')}\n`;
+}
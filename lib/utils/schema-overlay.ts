@@ -0,0 +1,159 @@
+// lib/utils/schema-overlay.ts
+// Schema overlays: comments, HTTP rules and idempotency levels from a BSR
+// module or uploaded protos, filled in on a reflected source's methods
+
+import type { MessageField, MessageTypeDefinition } from '@/components/ProtobufFormGenerator';
+import type { GrpcMethod, GrpcService, SchemaOverlay, SchemaOverlayMethod } from '@/lib/types/grpc';
+
+type FieldComments = Record<string, string>;
+
+function overlayKey(serviceName: string, methodName: string): string {
+  return `${serviceName}.${methodName}`;
+}
+
+function collectComments(fields: MessageField[] | undefined, prefix: string, comments: FieldComments): FieldComments {
+  for (const field of fields || []) {
+    const path = prefix + field.name;
+    if (field.comment) comments[path] = field.comment;
+    collectComments(field.nestedFields, `${path}.`, comments);
+  }
+  return comments;
+}
+
+/**
+ * Snapshot what `services` (parsed from the overlay source) know about each
+ * method. Only methods with at least one comment, HTTP rule or idempotency
+ * level are kept, so the overlay stays small enough to persist.
+ */
+export function buildSchemaOverlay(
+  services: GrpcService[],
+  source: Pick<SchemaOverlay, 'label' | 'bsrSource' | 'localProtoSource'>
+): SchemaOverlay {
+  const methods: Record<string, SchemaOverlayMethod> = {};
+  for (const service of services) {
+    for (const method of service.methods) {
+      const requestComments = collectComments(method.requestTypeDefinition?.fields, '', {});
+      const responseComments = collectComments(method.responseTypeDefinition?.fields, '', {});
+      const entry: SchemaOverlayMethod = {
+        ...(method.description ? { description: method.description } : {}),
+        ...(method.httpRule ? { httpRule: method.httpRule } : {}),
+        ...(method.idempotencyLevel ? { idempotencyLevel: method.idempotencyLevel } : {}),
+        ...(Object.keys(requestComments).length > 0 ? { requestComments } : {}),
+        ...(Object.keys(responseComments).length > 0 ? { responseComments } : {}),
+      };
+      if (Object.keys(entry).length > 0) methods[overlayKey(service.fullName, method.name)] = entry;
+    }
+  }
+  return { ...source, methods, attachedAt: Date.now() };
+}
+
+/** Fill in missing field comments; unchanged fields keep their identity */
+function overlayFields(fields: MessageField[], comments: FieldComments, label: string, prefix: string): MessageField[] {
+  let changed = false;
+  const next = fields.map(field => {
+    const path = prefix + field.name;
+    let result = field;
+    if (!field.comment && comments[path]) {
+      result = { ...result, comment: comments[path], commentSource: label };
+    }
+    if (field.nestedFields) {
+      const nestedFields = overlayFields(field.nestedFields, comments, label, `${path}.`);
+      if (nestedFields !== field.nestedFields) result = { ...result, nestedFields };
+    }
+    if (result !== field) changed = true;
+    return result;
+  });
+  return changed ? next : fields;
+}
+
+function overlayDefinition(definition: MessageTypeDefinition, comments: FieldComments | undefined, label: string): MessageTypeDefinition {
+  if (!comments || !definition?.fields) return definition;
+  const fields = overlayFields(definition.fields, comments, label, '');
+  return fields === definition.fields ? definition : { ...definition, fields };
+}
+
+/**
+ * Apply `overlay` to one method of `serviceName`. Pieces reflection already
+ * returned are kept; each filled-in piece is recorded in `overlaySources`.
+ */
+export function applySchemaOverlayToMethod(serviceName: string, method: GrpcMethod, overlay: SchemaOverlay): GrpcMethod {
+  const entry = overlay.methods[overlayKey(serviceName, method.name)];
+  if (!entry) return method;
+
+  const result: GrpcMethod = {
+    ...method,
+    requestTypeDefinition: overlayDefinition(method.requestTypeDefinition, entry.requestComments, overlay.label),
+    responseTypeDefinition: overlayDefinition(method.responseTypeDefinition, entry.responseComments, overlay.label),
+  };
+  const sources = { ...method.overlaySources };
+  if (entry.description && !method.description) {
+    result.description = entry.description;
+    sources.description = overlay.label;
+  }
+  if (entry.httpRule && !method.httpRule) {
+    result.httpRule = entry.httpRule;
+    sources.httpRule = overlay.label;
+  }
+  if (entry.idempotencyLevel && !method.idempotencyLevel) {
+    result.idempotencyLevel = entry.idempotencyLevel;
+    sources.idempotencyLevel = overlay.label;
+  }
+  if (Object.keys(sources).length > 0) result.overlaySources = sources;
+  return result;
+}
+
+export function applySchemaOverlayToService(service: GrpcService, overlay: SchemaOverlay | undefined): GrpcService {
+  if (!overlay) return service;
+  return { ...service, methods: service.methods.map(method => applySchemaOverlayToMethod(service.fullName, method, overlay)) };
+}
+
+/** Apply a source's overlay, if it has one, to freshly loaded services */
+export function applySchemaOverlay(services: GrpcService[], overlay: SchemaOverlay | undefined): GrpcService[] {
+  return overlay ? services.map(service => applySchemaOverlayToService(service, overlay)) : services;
+}
+
+function stripFields(fields: MessageField[]): MessageField[] {
+  return fields.map(field => {
+    let result = field;
+    if (field.commentSource) {
+      const { comment: _comment, commentSource: _commentSource, ...rest } = field;
+      result = rest;
+    }
+    return result.nestedFields ? { ...result, nestedFields: stripFields(result.nestedFields) } : result;
+  });
+}
+
+/** Drop every piece an overlay filled in, leaving what reflection returned */
+export function removeSchemaOverlayFromMethod(method: GrpcMethod): GrpcMethod {
+  const { overlaySources, ...rest } = method;
+  const result: GrpcMethod = {
+    ...rest,
+    requestTypeDefinition: rest.requestTypeDefinition?.fields
+      ? { ...rest.requestTypeDefinition, fields: stripFields(rest.requestTypeDefinition.fields) }
+      : rest.requestTypeDefinition,
+    responseTypeDefinition: rest.responseTypeDefinition?.fields
+      ? { ...rest.responseTypeDefinition, fields: stripFields(rest.responseTypeDefinition.fields) }
+      : rest.responseTypeDefinition,
+  };
+  if (overlaySources?.description) delete result.description;
+  if (overlaySources?.httpRule) delete result.httpRule;
+  if (overlaySources?.idempotencyLevel) delete result.idempotencyLevel;
+  return result;
+}
+
+export function removeSchemaOverlay(services: GrpcService[]): GrpcService[] {
+  return services.map(service => ({ ...service, methods: service.methods.map(removeSchemaOverlayFromMethod) }));
+}
+
+/** How many of the source's methods the overlay has an entry for */
+export function schemaOverlayCoverage(services: GrpcService[], overlay: SchemaOverlay): { matched: number; total: number } {
+  let matched = 0;
+  let total = 0;
+  for (const service of services) {
+    for (const method of service.methods) {
+      total++;
+      if (overlay.methods[overlayKey(service.fullName, method.name)]) matched++;
+    }
+  }
+  return { matched, total };
+}
@@ -0,0 +1,52 @@
+// lib/utils/stream-events.ts
+// NDJSON event framing shared by the streaming routes and the browser client
+
+import type { GrpcCallStatus } from '@/lib/types/grpc';
+import type { EndpointExecutionFailure } from '@/lib/utils/execution-endpoints';
+
+export const STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/** One line of an /api/grpc/stream or /api/grpc/session response body */
+export type StreamEvent =
+  | { type: 'open'; endpoint: string; tls: boolean; failedEndpoints: EndpointExecutionFailure[]; sessionId?: string | undefined }
+  | { type: 'message'; index: number; timestamp: number; data: any }
+  | { type: 'end'; count: number; executionTime: number; status?: GrpcCallStatus | undefined }
+  | { type: 'error'; error: string; count: number; executionTime: number; failedEndpoints?: EndpointExecutionFailure[] | undefined; status?: GrpcCallStatus | undefined };
+
+export function encodeStreamEvent(event: StreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Split buffered NDJSON text into complete events. The trailing partial line
+ * (if any) is returned as `remainder` to be prepended to the next chunk.
+ */
+export function parseStreamEvents(buffer: string): { events: StreamEvent[]; remainder: string } {
+  const lines = buffer.split('\n');
+  const remainder = lines.pop() ?? '';
+  const events: StreamEvent[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    events.push(JSON.parse(line) as StreamEvent);
+  }
+  return { events, remainder };
+}
+
+/** Read an NDJSON response body to completion, invoking `onEvent` per event */
+export async function readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const { events, remainder } = parseStreamEvents(done ? `${buffer}\n` : buffer);
+    events.forEach(onEvent);
+    buffer = remainder;
+    if (done) return;
+  }
+}
@@ -0,0 +1,17 @@
+// Transport choices shared by the source dialog and the API routes
+
+import type { GrpcTransport } from '@/lib/types/grpc';
+
+export const GRPC_TRANSPORTS: Record<GrpcTransport, { label: string; description: string }> = {
+  grpc: { label: 'gRPC', description: 'Native gRPC over HTTP/2' },
+  'grpc-web': { label: 'gRPC-Web', description: 'Binary gRPC-Web, e.g. behind Envoy' },
+  'grpc-web-text': { label: 'gRPC-Web (text)', description: 'Base64 gRPC-Web for text-only proxies' },
+  connect: { label: 'Connect', description: 'Connect protocol (connect-go, connect-es)' },
+};
+
+/** Accept a transport from request JSON, falling back to native gRPC */
+export function normalizeTransport(value: unknown): GrpcTransport {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GRPC_TRANSPORTS, value)
+    ? value as GrpcTransport
+    : 'grpc';
+}
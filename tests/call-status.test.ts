@@ -0,0 +1,64 @@
+// tests/call-status.test.ts
+// gRPC status names, response metadata flattening and GrpcCallError
+
+import { describe, it, expect } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { buildCallStatus, grpcStatusName, GrpcCallError, metadataToRecord } from '@/lib/grpc/call-status';
+
+describe('call status', () => {
+	it('maps numeric codes to symbolic names', () => {
+		expect(grpcStatusName(0)).toBe('OK');
+		expect(grpcStatusName(5)).toBe('NOT_FOUND');
+		expect(grpcStatusName(16)).toBe('UNAUTHENTICATED');
+		expect(grpcStatusName(99)).toBe('UNKNOWN_STATUS_99');
+	});
+
+	it('flattens repeated and binary metadata values', () => {
+		const metadata = new grpc.Metadata();
+		metadata.add('x-request-id', 'abc');
+		metadata.add('set-cookie', 'a=1');
+		metadata.add('set-cookie', 'b=2');
+		metadata.add('trace-bin', Buffer.from([1, 2, 3]));
+
+		expect(metadataToRecord(metadata)).toEqual({
+			'x-request-id': 'abc',
+			'set-cookie': 'a=1, b=2',
+			'trace-bin': 'AQID',
+		});
+		expect(metadataToRecord(undefined)).toEqual({});
+	});
+
+	it('builds a status with headers and trailers', () => {
+		const trailers = new grpc.Metadata();
+		trailers.add('x-next-page-token', 'cursor-2');
+
+		expect(buildCallStatus(0, 'OK', { 'content-type': 'application/grpc' }, trailers)).toEqual({
+			code: 0,
+			codeName: 'OK',
+			details: 'OK',
+			headers: { 'content-type': 'application/grpc' },
+			trailers: { 'x-next-page-token': 'cursor-2' },
+		});
+	});
+
+	it('keeps the existing error message format for service errors', () => {
+		const trailers = new grpc.Metadata();
+		trailers.add('x-request-id', 'req-1');
+		const serviceError = Object.assign(new Error('5 NOT_FOUND: user not found'), {
+			code: grpc.status.NOT_FOUND,
+			details: 'user not found',
+			metadata: trailers,
+		}) as grpc.ServiceError;
+
+		const error = GrpcCallError.fromServiceError(serviceError, { 'x-served-by': 'node-a' });
+
+		expect(error.message).toBe('gRPC Error (code 5): 5 NOT_FOUND: user not found');
+		expect(error.status).toEqual({
+			code: 5,
+			codeName: 'NOT_FOUND',
+			details: 'user not found',
+			headers: { 'x-served-by': 'node-a' },
+			trailers: { 'x-request-id': 'req-1' },
+		});
+	});
+});
@@ -0,0 +1,155 @@
+// tests/client-pool.test.ts
+// Pooled reflection clients against a local server with reflection
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protobuf from 'protobufjs';
+import { acquirePooledClient, clientPoolSize, invalidateClientPool } from '@/lib/grpc/client-pool';
+import { encodeFileDescriptor, GREETER_FILE_DESCRIPTOR } from './fixtures';
+
+const reflectionRoot = protobuf.loadSync(path.join(__dirname, '../lib/grpc/reflection.proto'));
+const ReflectionRequest = reflectionRoot.lookupType('grpc.reflection.v1alpha.ServerReflectionRequest');
+const ReflectionResponse = reflectionRoot.lookupType('grpc.reflection.v1alpha.ServerReflectionResponse');
+
+let server: grpc.Server;
+let endpoint: string;
+let ipv6Endpoint: string;
+const socketPath = path.join(os.tmpdir(), `grpc-explorer-pool-${process.pid}.sock`);
+const abstractName = `grpc-explorer-pool-${process.pid}`;
+let reflectionStreams = 0;
+let reflectionAuthorization: string[] = [];
+let fileDescriptor: Record<string, any> = GREETER_FILE_DESCRIPTOR;
+
+function reflectionHandler(call: grpc.ServerDuplexStream<Buffer, Buffer>) {
+	reflectionStreams++;
+	reflectionAuthorization.push(String(call.metadata.get('authorization')[0] ?? ''));
+	call.on('data', (buffer: Buffer) => {
+		const request = ReflectionRequest.toObject(ReflectionRequest.decode(buffer)) as any;
+		const response = request.listServices !== undefined
+			? { listServicesResponse: { service: [{ name: 'example.greeter.GreeterService' }] } }
+			: { fileDescriptorResponse: { fileDescriptorProto: [encodeFileDescriptor(fileDescriptor)] } };
+		call.write(Buffer.from(ReflectionResponse.encode(ReflectionResponse.fromObject(response)).finish()));
+	});
+	call.on('end', () => call.end());
+}
+
+beforeAll(async () => {
+	server = new grpc.Server();
+	for (const version of ['v1', 'v1alpha']) {
+		server.register(
+			`/grpc.reflection.${version}.ServerReflection/ServerReflectionInfo`,
+			reflectionHandler as any,
+			(value: Buffer) => value,
+			(value: Buffer) => value,
+			'bidi'
+		);
+	}
+	const bind = (address: string) => new Promise<number>((resolve, reject) => {
+		server.bindAsync(address, grpc.ServerCredentials.createInsecure(), (err, boundPort) => err ? reject(err) : resolve(boundPort));
+	});
+	endpoint = `127.0.0.1:${await bind('127.0.0.1:0')}`;
+	ipv6Endpoint = `[::1]:${await bind('[::1]:0')}`;
+	await bind(`unix://${socketPath}`);
+	await bind(`unix:\0${abstractName}`);
+});
+
+afterAll(() => {
+	invalidateClientPool();
+	server.forceShutdown();
+	fs.rmSync(socketPath, { force: true });
+});
+
+afterEach(() => {
+	invalidateClientPool();
+	fileDescriptor = GREETER_FILE_DESCRIPTOR;
+	reflectionAuthorization = [];
+});
+
+describe('client pool', () => {
+	it('reuses resolved descriptors for repeat calls with the same options', async () => {
+		const first = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService', 'SayHello');
+		first.release();
+		const streamsAfterFirst = reflectionStreams;
+
+		const second = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService', 'SayHello');
+		second.release();
+
+		expect(first.reused).toBe(false);
+		expect(second.reused).toBe(true);
+		expect(second.client).toBe(first.client);
+		expect(reflectionStreams).toBe(streamsAfterFirst);
+	});
+
+	it('splits entries by credentials and channel settings', async () => {
+		const first = await acquirePooledClient({ endpoint, tls: false, metadata: { authorization: 'Bearer alice' } }, 'example.greeter.GreeterService');
+		const other = await acquirePooledClient({ endpoint, tls: false, metadata: { authorization: 'Bearer bob' } }, 'example.greeter.GreeterService');
+		const anonymous = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService');
+		const limited = await acquirePooledClient({ endpoint, tls: false, metadata: { authorization: 'Bearer alice' }, callOptions: { maxReceiveMessageBytes: 1024 } }, 'example.greeter.GreeterService');
+		[first, other, anonymous, limited].forEach((pooled) => pooled.release());
+
+		expect(other.reused).toBe(false);
+		expect(anonymous.reused).toBe(false);
+		expect(new Set([first.client, other.client, anonymous.client, limited.client]).size).toBe(4);
+		expect(reflectionAuthorization).toContain('Bearer bob');
+		expect(reflectionAuthorization).toContain('');
+		expect(clientPoolSize()).toBe(4);
+	});
+
+	it('shares entries across refreshed tokens of one credential and loads with the caller\'s headers', async () => {
+		const credentialKey = 'oauth2-client';
+		const first = await acquirePooledClient({ endpoint, tls: false, credentialKey, metadata: { authorization: 'Bearer old' } }, 'example.greeter.GreeterService');
+		const refreshed = await acquirePooledClient({ endpoint, tls: false, credentialKey, metadata: { authorization: 'Bearer new' } }, 'example.greeter.GreeterService');
+		first.release();
+		refreshed.release();
+
+		expect(refreshed.client).toBe(first.client);
+		expect(refreshed.reused).toBe(true);
+		expect(reflectionAuthorization.every((value) => value === 'Bearer old')).toBe(true);
+
+		// A later load on the shared client goes out with the requesting caller's token
+		reflectionAuthorization = [];
+		await expect(acquirePooledClient({ endpoint, tls: false, credentialKey, metadata: { authorization: 'Bearer new' } }, 'example.greeter.Missing')).rejects.toThrow();
+		expect(reflectionAuthorization).toEqual(['Bearer new']);
+	});
+
+	it('re-resolves after invalidation or when the cached schema lacks the method', async () => {
+		const first = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService');
+		first.release();
+
+		expect(invalidateClientPool('other.host:9090')).toBe(0);
+		expect(invalidateClientPool(endpoint)).toBe(1);
+		const afterInvalidate = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService');
+		afterInvalidate.release();
+		expect(afterInvalidate.reused).toBe(false);
+		expect(afterInvalidate.client).not.toBe(first.client);
+
+		// The server adds a method; the pooled schema does not know it yet
+		const [greeter] = GREETER_FILE_DESCRIPTOR.service;
+		fileDescriptor = {
+			...GREETER_FILE_DESCRIPTOR,
+			service: [{ ...greeter, method: [...greeter.method, { ...greeter.method[0], name: 'SayGoodbye' }] }],
+		};
+		const reloaded = await acquirePooledClient({ endpoint, tls: false }, 'example.greeter.GreeterService', 'SayGoodbye');
+		reloaded.release();
+
+		expect(reloaded.reused).toBe(false);
+		expect(reloaded.client.findMethod('example.greeter.GreeterService', 'SayGoodbye')).toBeTruthy();
+	});
+
+	it('connects to bracketed IPv6 literals', async () => {
+		const pooled = await acquirePooledClient({ endpoint: ipv6Endpoint, tls: false }, 'example.greeter.GreeterService', 'SayHello');
+		pooled.release();
+		expect(pooled.client.findMethod('example.greeter.GreeterService', 'SayHello')).toBeTruthy();
+	});
+
+	it('connects over unix domain sockets', async () => {
+		for (const target of [`unix://${socketPath}`, `unix-abstract:${abstractName}`]) {
+			const pooled = await acquirePooledClient({ endpoint: target, tls: false }, 'example.greeter.GreeterService', 'SayHello');
+			pooled.release();
+			expect(pooled.client.findMethod('example.greeter.GreeterService', 'SayHello')).toBeTruthy();
+		}
+	});
+});
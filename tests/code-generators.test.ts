@@ -55,6 +55,19 @@ describe('generateGrpcurl', () => {
 		expect(out).toContain('-plaintext');
 	});
 
+	it('maps custom TLS settings to grpcurl flags', () => {
+		const authConfig = { type: 'none' as const, caCert: '-----BEGIN CERTIFICATE-----', serverName: 'api.internal', insecureSkipVerify: true };
+		const out = generateGrpcurl(makeCtx({ authConfig }));
+		expect(out).toContain('-insecure');
+		expect(out).toContain('-cacert ca.pem');
+		expect(out).toContain("-servername 'api.internal'");
+		expect(out).toContain("-authority 'api.internal'");
+
+		const plaintext = generateGrpcurl(makeCtx({ tlsEnabled: false, authConfig }));
+		expect(plaintext).not.toContain('-insecure');
+		expect(plaintext).toContain("-authority 'api.internal'");
+	});
+
 	it('includes metadata as -H flags', () => {
 		const out = generateGrpcurl(makeCtx({
 			metadata: { 'x-custom': 'value123' },
@@ -76,6 +89,30 @@ describe('generateGrpcurl', () => {
 		expect(out).toContain("-H 'x-api-key: secret'");
 	});
 
+	it('uses an access token placeholder for OAuth2 sources', () => {
+		const out = generateGrpcurl(makeCtx({
+			authConfig: { type: 'oauth2', oauth2TokenUrl: 'https://auth.example.com/token', oauth2ClientId: 'id', oauth2ClientSecret: 'secret' },
+		}));
+		expect(out).toContain("-H 'authorization: Bearer <ACCESS_TOKEN>'");
+		expect(out).not.toContain('secret');
+	});
+
+	it('precomputes basic auth headers', () => {
+		const out = generateGrpcurl(makeCtx({
+			authConfig: { type: 'basic', basicUsername: 'ops', basicPassword: 'pw' },
+		}));
+		expect(out).toContain(`-H 'authorization: Basic ${Buffer.from('ops:pw').toString('base64')}'`);
+	});
+
+	it('uses a signed JWT placeholder and lists the claims to sign', () => {
+		const out = generateGrpcurl(makeCtx({
+			authConfig: { type: 'jwt', jwtPrivateKey: 'PRIVATE', jwtIssuer: 'svc', jwtAudience: 'api', jwtTtlSeconds: 600 },
+		}));
+		expect(out).toContain("-H 'authorization: Bearer <SIGNED_JWT>'");
+		expect(out.split('\n')[0]).toBe(`# <SIGNED_JWT>: JWT signed with the source's private key, claims {"iss":"svc","aud":"api"} plus iat and exp (iat + 600s)`);
+		expect(out).not.toContain('PRIVATE');
+	});
+
 	it('skips data flag when no fields and empty params', () => {
 		const out = generateGrpcurl(makeCtx({
 			params: {},
@@ -83,6 +120,19 @@ describe('generateGrpcurl', () => {
 		}));
 		expect(out).not.toContain("-d");
 	});
+
+	it('dials unix sockets with -unix and target lists by their first address', () => {
+		const unix = generateGrpcurl(makeCtx({ endpoint: 'unix:///var/run/app.sock', tlsEnabled: false }));
+		expect(unix).toContain('-unix \\');
+		expect(unix).toContain("'/var/run/app.sock' \\");
+
+		const abstract = generateGrpcurl(makeCtx({ endpoint: 'unix-abstract:app', tlsEnabled: false }));
+		expect(abstract).toContain("'@app' \\");
+
+		const dns = generateGrpcurl(makeCtx({ endpoint: 'dns:///grpc.example.com:443' }));
+		expect(dns).toContain('  grpc.example.com:443 \\');
+		expect(dns).not.toContain('-unix');
+	});
 });
 
 // -- curl (REST) --
@@ -254,3 +304,49 @@ describe('auth handling across generators', () => {
 		expect(tsOut).toContain('{}');
 	});
 });
+
+// -- Call options --
+
+describe('call options across generators', () => {
+	const callOptions = {
+		compression: 'gzip' as const,
+		maxSendMessageBytes: 1024,
+		maxReceiveMessageBytes: 4096,
+		waitForReady: true,
+		keepaliveTimeMs: 30000,
+	};
+
+	it('maps supported options to grpcurl flags', () => {
+		const out = generateGrpcurl(makeCtx({ callOptions }));
+		expect(out).toContain('-max-msg-sz 4096');
+		expect(out).toContain('-keepalive-time 30');
+	});
+
+	it('sets grpc-js channel options and wait-for-ready metadata', () => {
+		const out = generateTypescriptFull(makeCtx({ callOptions }));
+		expect(out).toContain("'grpc.default_compression_algorithm': 2, // gzip");
+		expect(out).toContain("'grpc.max_send_message_length': 1024,");
+		expect(out).toContain("'grpc.max_receive_message_length': 4096,");
+		expect(out).toContain("'grpc.keepalive_time_ms': 30000,");
+		expect(out).toContain('metadata.setOptions({ waitForReady: true });');
+
+		expect(generateTypescriptFull(makeCtx())).toContain("'grpc.max_receive_message_length': -1,");
+		expect(generateTypescriptSnippet(makeCtx())).toContain('new grpc.Client(target, credentials);');
+	});
+
+	it('adds Go dial options with their imports', () => {
+		const out = generateGoSnippet(makeCtx({ callOptions }));
+		expect(out).toContain('grpc.WithDefaultCallOptions(grpc.UseCompressor(gzip.Name), grpc.MaxCallSendMsgSize(1024), grpc.MaxCallRecvMsgSize(4096), grpc.WaitForReady(true))');
+		expect(out).toContain('keepalive.ClientParameters{Time: 30000 * time.Millisecond}');
+		expect(out).toContain('"google.golang.org/grpc/encoding/gzip"');
+		expect(out).toContain('"google.golang.org/grpc/keepalive"');
+		expect(out).toContain('"time"');
+	});
+
+	it('passes Python channel options, compression and wait_for_ready', () => {
+		const out = generatePythonFull(makeCtx({ callOptions: { ...callOptions, compression: 'deflate' } }));
+		expect(out).toContain('options=[("grpc.max_send_message_length", 1024), ("grpc.max_receive_message_length", 4096), ("grpc.keepalive_time_ms", 30000)]');
+		expect(out).toContain('compression=grpc.Compression.Deflate');
+		expect(out).toContain('wait_for_ready=True');
+	});
+});
@@ -4,6 +4,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DescriptorParser } from '@/lib/grpc/descriptor-parser';
 import {
+	GREETER_FILE_DESCRIPTOR,
 	GREETER_FD_BYTES,
 	COMPLEX_FD_BYTES,
 	MULTI_SERVICE_FD_BYTES,
@@ -306,4 +307,83 @@ describe('DescriptorParser', () => {
 			expect(parser.hasFile('complex.proto')).toBe(false);
 		});
 	});
+
+	// -- toFileDescriptorSet (protoset export) --
+
+	describe('toFileDescriptorSet', () => {
+		const TYPES_FILE = {
+			name: 'example/types.proto',
+			package: 'example.types',
+			messageType: [{ name: 'Empty' }],
+		};
+		const API_FILE = {
+			name: 'example/api.proto',
+			package: 'example.api',
+			dependency: ['example/types.proto', 'google/protobuf/empty.proto'],
+			service: [{ name: 'Api', method: [{ name: 'Ping', inputType: '.example.types.Empty', outputType: '.example.types.Empty' }] }],
+		};
+
+		it('writes dependencies before dependents and reports the ones never loaded', () => {
+			// Reflection commonly returns the requested file before its imports
+			parser.processFileDescriptor(encodeFileDescriptor(API_FILE));
+			parser.processFileDescriptor(encodeFileDescriptor(TYPES_FILE));
+
+			const exported = parser.toFileDescriptorSet();
+			expect(exported.files).toEqual(['example/types.proto', 'example/api.proto']);
+			expect(exported.missingDependencies).toEqual(['google/protobuf/empty.proto']);
+			expect(exported.data.equals(encodeFileDescriptorSet([TYPES_FILE, API_FILE]))).toBe(true);
+		});
+
+		it('round-trips a FileDescriptorSet byte for byte', () => {
+			parser.loadFileDescriptorSet(MULTI_FDS_BYTES);
+			const exported = parser.toFileDescriptorSet();
+			expect(exported.data.equals(MULTI_FDS_BYTES)).toBe(true);
+
+			const reloaded = new DescriptorParser();
+			reloaded.loadFileDescriptorSet(exported.data);
+			expect(reloaded.getServices()).toEqual(parser.getServices());
+		});
+
+		it('leaves out descriptors loaded from decoded objects', () => {
+			parser.loadFileDescriptors([GREETER_FILE_DESCRIPTOR]);
+			expect(parser.toFileDescriptorSet()).toEqual({ data: Buffer.alloc(0), files: [], missingDependencies: [] });
+		});
+	});
+
+	describe('getIdempotencyLevel', () => {
+		const withLevels = encodeFileDescriptor({
+			name: 'ledger.proto',
+			package: 'example.ledger',
+			messageType: [{ name: 'Entry', field: [{ name: 'id', number: 1, type: 9, label: 1 }] }],
+			service: [{
+				name: 'LedgerService',
+				method: [
+					{ name: 'GetEntry', inputType: '.example.ledger.Entry', outputType: '.example.ledger.Entry', options: { idempotencyLevel: 1 } },
+					{ name: 'PutEntry', inputType: '.example.ledger.Entry', outputType: '.example.ledger.Entry', options: { idempotencyLevel: 2 } },
+					{ name: 'AppendEntry', inputType: '.example.ledger.Entry', outputType: '.example.ledger.Entry', options: { deprecated: true } },
+					{ name: 'Reset', inputType: '.example.ledger.Entry', outputType: '.example.ledger.Entry' },
+				],
+			}],
+		});
+
+		it('reads idempotency_level from method options', () => {
+			parser.processFileDescriptor(withLevels);
+			expect(parser.getIdempotencyLevel('example.ledger.LedgerService.GetEntry')).toBe('NO_SIDE_EFFECTS');
+			expect(parser.getIdempotencyLevel('example.ledger.LedgerService.PutEntry')).toBe('IDEMPOTENT');
+			expect(parser.getIdempotencyLevel('example.ledger.LedgerService.AppendEntry')).toBeUndefined();
+			expect(parser.getIdempotencyLevel('example.ledger.LedgerService.Reset')).toBeUndefined();
+		});
+
+		it('exposes the level on parsed methods', () => {
+			parser.processFileDescriptor(withLevels);
+			const methods = parser.getServices()[0].methods;
+			expect(Object.fromEntries(methods.map(m => [m.name, m.idempotencyLevel]))).toEqual({
+				GetEntry: 'NO_SIDE_EFFECTS',
+				PutEntry: 'IDEMPOTENT',
+				AppendEntry: undefined,
+				Reset: undefined,
+			});
+			expect(methods.find(m => m.name === 'Reset')).not.toHaveProperty('idempotencyLevel');
+		});
+	});
 });
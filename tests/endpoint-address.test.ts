@@ -0,0 +1,104 @@
+// tests/endpoint-address.test.ts
+// host:port, bracketed IPv6 and gRPC target-syntax endpoint parsing
+
+import { describe, it, expect } from 'vitest';
+import {
+	endpointDisplayName,
+	endpointLookupHost,
+	endpointPort,
+	isTargetEndpoint,
+	joinHostPort,
+	parseEndpointTarget,
+	splitHostPort,
+	stripEndpointScheme,
+	toChannelTarget,
+	toHttpTarget,
+	withDefaultPort,
+} from '@/lib/utils/endpoint-address';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { normalizeEndpoint as normalizeRegistryEndpoint } from '@/lib/services/chainRegistry';
+
+describe('host:port endpoints', () => {
+	it('splits host names, IPv4 and bracketed IPv6', () => {
+		expect(splitHostPort('grpc.example.com:443')).toEqual({ host: 'grpc.example.com', port: '443' });
+		expect(splitHostPort('10.0.0.1')).toEqual({ host: '10.0.0.1' });
+		expect(splitHostPort('[2001:db8::1]:9090')).toEqual({ host: '2001:db8::1', port: '9090' });
+		expect(splitHostPort('[::1]')).toEqual({ host: '::1' });
+		// Unbracketed literals cannot carry a port
+		expect(splitHostPort('2001:db8::1')).toEqual({ host: '2001:db8::1' });
+	});
+
+	it('brackets IPv6 literals when formatting', () => {
+		expect(joinHostPort('2001:db8::1', 9090)).toBe('[2001:db8::1]:9090');
+		expect(joinHostPort('::1')).toBe('[::1]');
+		expect(joinHostPort('grpc.example.com', '443')).toBe('grpc.example.com:443');
+	});
+
+	it('adds default ports and reads ports without splitting IPv6 literals', () => {
+		expect(withDefaultPort('2001:db8::1', true)).toBe('[2001:db8::1]:443');
+		expect(withDefaultPort('[::1]', false)).toBe('[::1]:9090');
+		expect(withDefaultPort('[::1]:50051', false)).toBe('[::1]:50051');
+		expect(endpointPort('https://[2001:db8::1]:443/')).toBe('443');
+		expect(endpointPort('2001:db8::443')).toBeUndefined();
+		expect(stripEndpointScheme('grpcs://grpc.example.com:443/')).toBe('grpc.example.com:443');
+		expect(endpointLookupHost('[2001:db8::1]:9090')).toBe('2001:db8::1');
+	});
+
+	it('normalizes IPv6 endpoints for the services route and chain registry', () => {
+		expect(endpointManager.normalizeEndpoint('[2001:db8::1]:443')).toEqual({ address: '[2001:db8::1]:443', tls: true });
+		expect(endpointManager.normalizeEndpoint('https://[2001:db8::1]')).toEqual({ address: '[2001:db8::1]:443', tls: true });
+		expect(endpointManager.normalizeEndpoint('2001:db8::1')).toEqual({ address: '[2001:db8::1]:9090', tls: false });
+		expect(normalizeRegistryEndpoint('[2001:db8::1]:443')).toEqual({ address: '[2001:db8::1]:443', tls: true });
+		expect(normalizeRegistryEndpoint('2001:db8::1')).toEqual({ address: '[2001:db8::1]:9090', tls: false });
+	});
+});
+
+describe('endpoint targets', () => {
+	it('parses unix, dns and address-list targets', () => {
+		expect(parseEndpointTarget('unix:///var/run/app.sock')).toEqual({ scheme: 'unix', socketPath: '/var/run/app.sock', addresses: [] });
+		expect(parseEndpointTarget('unix:relative.sock')?.socketPath).toBe('relative.sock');
+		expect(parseEndpointTarget('unix-abstract:app')?.socketPath).toBe('\0app');
+		expect(parseEndpointTarget('dns://8.8.8.8/grpc.example.com:443')).toEqual({ scheme: 'dns', addresses: ['grpc.example.com:443'] });
+		expect(parseEndpointTarget('ipv4:10.0.0.1:9090, 10.0.0.2:9090')?.addresses).toEqual(['10.0.0.1:9090', '10.0.0.2:9090']);
+		expect(parseEndpointTarget('grpc.example.com:443')).toBeNull();
+		expect(parseEndpointTarget('localhost')).toBeNull();
+	});
+
+	it('only defaults the port of plain hosts', () => {
+		expect(withDefaultPort('grpc.example.com', true)).toBe('grpc.example.com:443');
+		expect(withDefaultPort('localhost', false)).toBe('localhost:9090');
+		expect(withDefaultPort('unix-abstract:app', false)).toBe('unix-abstract:app');
+		expect(withDefaultPort('dns:///grpc.example.com', true)).toBe('dns:///grpc.example.com');
+		expect(isTargetEndpoint('ipv6:[::1]:50051')).toBe(true);
+	});
+
+	it('skips DNS for sockets and literal address lists', () => {
+		expect(endpointLookupHost('grpc.example.com:443')).toBe('grpc.example.com');
+		expect(endpointLookupHost('dns:///grpc.example.com:443')).toBe('grpc.example.com');
+		expect(endpointLookupHost('unix:///tmp/app.sock')).toBeNull();
+		expect(endpointLookupHost('ipv4:127.0.0.1:9090')).toBeNull();
+	});
+
+	it('maps targets to channel and HTTP addresses', () => {
+		expect(toChannelTarget('unix-abstract:app')).toBe('unix:\0app');
+		expect(toChannelTarget('unix:///tmp/app.sock')).toBe('unix:///tmp/app.sock');
+		expect(toHttpTarget('unix:///tmp/app.sock')).toEqual({ socketPath: '/tmp/app.sock' });
+		expect(toHttpTarget('ipv4:127.0.0.1:8080,127.0.0.2:8080')).toEqual({ authority: '127.0.0.1:8080' });
+		expect(toHttpTarget('ipv6:::1')).toEqual({ authority: '[::1]' });
+		expect(toHttpTarget('ipv6:[::1]:8080')).toEqual({ authority: '[::1]:8080' });
+		expect(toHttpTarget('localhost:8080')).toEqual({ authority: 'localhost:8080' });
+	});
+
+	it('names sources after the socket or first host', () => {
+		expect(endpointDisplayName('unix:///var/run/app.sock')).toBe('app.sock');
+		expect(endpointDisplayName('unix-abstract:app')).toBe('@app');
+		expect(endpointDisplayName('dns:///grpc.example.com:443')).toBe('grpc.example.com');
+		expect(endpointDisplayName('https://grpc.example.com:443')).toBe('grpc.example.com');
+		expect(endpointDisplayName('[2001:db8::1]:9090')).toBe('2001:db8::1');
+	});
+
+	it('passes targets through endpoint normalization', () => {
+		expect(endpointManager.normalizeEndpoint('unix:///tmp/app.sock')).toEqual({ address: 'unix:///tmp/app.sock', tls: false });
+		expect(endpointManager.normalizeEndpoint('grpc.example.com')).toEqual({ address: 'grpc.example.com:9090', tls: false });
+	});
+});
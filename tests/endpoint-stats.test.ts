@@ -0,0 +1,120 @@
+// tests/endpoint-stats.test.ts
+// Endpoint stats route handlers and the health rows the dashboard builds from them
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GET, POST } from '@/app/api/endpoints/stats/route';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
+import { buildEndpointHealthRows, clearEndpointHealth } from '@/lib/utils/endpoint-health';
+import type { GrpcNetwork } from '@/lib/types/grpc';
+
+function makeRequest(body: unknown): Request {
+	return new Request('http://localhost/api/endpoints/stats', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+}
+
+beforeEach(() => {
+	for (const { address } of endpointManager.getSnapshot()) endpointManager.resetStats(address);
+});
+
+describe('endpoint stats route', () => {
+	it('lists recorded stats with blacklist expiry', async () => {
+		endpointManager.recordSuccess('good.example:443', 120);
+		endpointManager.recordSuccess('good.example:443', 80);
+		for (let i = 0; i < endpointManager.BLACKLIST_THRESHOLD; i++) endpointManager.recordFailure('bad.example:443', i === 0);
+
+		const data = await (await GET()).json();
+		expect(data.blacklistThreshold).toBe(5);
+		expect(data.endpoints).toEqual([
+			expect.objectContaining({ address: 'bad.example:443', failures: 5, timeouts: 1, blacklisted: true, successCount: 0 }),
+			{ address: 'good.example:443', successCount: 2, failures: 0, timeouts: 0, averageResponseTime: 100, blacklisted: false },
+		]);
+		const bad = data.endpoints[0];
+		expect(bad.blacklistExpiresAt - bad.lastFailure).toBe(data.blacklistDurationMs);
+	});
+
+	it('un-blacklists an endpoint and restarts its failure streak', async () => {
+		for (let i = 0; i < 5; i++) endpointManager.recordFailure('bad.example:443');
+		endpointManager.recordSuccess('bad.example:443', 50);
+
+		const res = await POST(makeRequest({ action: 'unblacklist', address: 'bad.example:443' }));
+		expect(res.status).toBe(200);
+		const { endpoint } = await res.json();
+		expect(endpoint).toMatchObject({ blacklisted: false, failures: 0, successCount: 1 });
+
+		endpointManager.recordFailure('bad.example:443');
+		expect(endpointManager.isBlacklisted('bad.example:443')).toBe(false);
+	});
+
+	it('resets stats and reports unknown endpoints', async () => {
+		endpointManager.recordSuccess('good.example:443', 80);
+
+		const res = await POST(makeRequest({ action: 'reset', address: 'good.example:443' }));
+		expect(await res.json()).toMatchObject({ success: true, endpoint: null });
+		expect(endpointManager.getSnapshot()).toEqual([]);
+
+		expect((await POST(makeRequest({ action: 'reset', address: 'good.example:443' }))).status).toBe(404);
+	});
+
+	it('rejects unknown actions', async () => {
+		const res = await POST(makeRequest({ action: 'purge', address: 'good.example:443' }));
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toContain('unblacklist | reset');
+	});
+});
+
+describe('endpoint health rows', () => {
+	const now = 1_000_000;
+	const network: GrpcNetwork = {
+		id: 'hub',
+		name: 'cosmoshub-4',
+		endpoint: 'grpc.hub.example:443',
+		tlsEnabled: true,
+		mode: 'cosmos',
+		services: [],
+		color: '#3b82f6',
+		endpointConfigs: [
+			{ address: 'grpc.hub.example:443', tlsEnabled: true, selected: true },
+			{ address: 'plain.hub.example', tlsEnabled: false, selected: true },
+		],
+		endpointHealth: {
+			'plain.hub.example': { retryAfter: now + 60_000, lastErrorKind: 'transient', hedgeWins: 2 },
+			'grpc.hub.example:443': { lastSuccess: now - 1000, retryAfter: now - 1, lastErrorKind: 'incompatible' },
+		},
+	};
+
+	it('joins server stats with configured endpoints and client cooldowns', () => {
+		const rows = buildEndpointHealthRows([
+			{ address: 'plain.hub.example:9090', successCount: 4, failures: 1, timeouts: 0, blacklisted: false },
+			{ address: 'other.example:443', successCount: 1, failures: 0, timeouts: 0, blacklisted: false },
+		], [network], now);
+
+		expect(rows.map(({ address }) => address)).toEqual(['grpc.hub.example:443', 'other.example:443', 'plain.hub.example:9090']);
+		expect(rows[0]).toEqual({
+			address: 'grpc.hub.example:443',
+			networks: ['cosmoshub-4'],
+			lastErrorKind: 'incompatible',
+			lastSuccess: now - 1000,
+		});
+		expect(rows[1].networks).toEqual([]);
+		expect(rows[2]).toMatchObject({
+			networks: ['cosmoshub-4'],
+			server: { successCount: 4 },
+			cooldownUntil: now + 60_000,
+			lastErrorKind: 'transient',
+			hedgeWins: 2,
+		});
+	});
+
+	it('lifts a cooldown or forgets the client entry', () => {
+		const lifted = clearEndpointHealth(network, 'plain.hub.example:9090', 'cooldown');
+		expect(lifted.endpointHealth?.['plain.hub.example']).toEqual({ hedgeWins: 2 });
+
+		const reset = clearEndpointHealth(network, 'grpc.hub.example:443', 'all');
+		expect(Object.keys(reset.endpointHealth ?? {})).toEqual(['plain.hub.example']);
+
+		expect(clearEndpointHealth(network, 'unknown:443', 'all')).toBe(network);
+	});
+});
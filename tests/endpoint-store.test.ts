@@ -0,0 +1,103 @@
+// tests/endpoint-store.test.ts
+// Endpoint reputation persistence: file store round trips, expiry on load and backend selection
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EndpointManager } from '@/lib/utils/endpoint-manager';
+import {
+	endpointStoreFromEnv,
+	FileEndpointStore,
+	parseEndpointStoreState,
+} from '@/lib/utils/endpoint-store';
+
+let dir: string;
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-store-'));
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('FileEndpointStore', () => {
+	it('restores stats and blacklist entries in a new manager', async () => {
+		const filePath = path.join(dir, 'nested', 'endpoint-stats.json');
+		const manager = new EndpointManager(new FileEndpointStore(filePath));
+		manager.recordSuccess('good.example:443', 120);
+		for (let i = 0; i < manager.BLACKLIST_THRESHOLD; i++) manager.recordFailure('bad.example:443', i === 0);
+		await manager.flush();
+
+		const restored = new EndpointManager(new FileEndpointStore(filePath));
+		expect(restored.getSnapshot()).toEqual(manager.getSnapshot());
+		expect(restored.isBlacklisted('bad.example:443')).toBe(true);
+		expect(restored.getSelectionStats('good.example:443')).toMatchObject({ averageResponseTime: 120, failures: 0 });
+	});
+
+	it('batches saves and keeps the last state', async () => {
+		const filePath = path.join(dir, 'endpoint-stats.json');
+		const manager = new EndpointManager(new FileEndpointStore(filePath, 60_000));
+		manager.recordSuccess('good.example:443', 100);
+		manager.recordSuccess('good.example:443', 100);
+		expect(fs.existsSync(filePath)).toBe(false);
+
+		manager.resetStats('good.example:443');
+		manager.recordFailure('bad.example:443');
+		await manager.flush();
+
+		const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+		expect(saved.version).toBe(1);
+		expect(saved.stats.map((entry: { address: string }) => entry.address)).toEqual(['bad.example:443']);
+		expect(fs.readdirSync(dir)).toEqual(['endpoint-stats.json']);
+	});
+
+	it('starts empty from a missing or corrupt file', () => {
+		const filePath = path.join(dir, 'endpoint-stats.json');
+		expect(new FileEndpointStore(filePath).load()).toEqual({ stats: [], blacklist: [] });
+
+		fs.writeFileSync(filePath, '{ not json');
+		expect(new EndpointManager(new FileEndpointStore(filePath)).getSnapshot()).toEqual([]);
+	});
+});
+
+describe('parseEndpointStoreState', () => {
+	it('drops expired blacklist entries and malformed stats', () => {
+		const now = 1_000_000;
+		const state = parseEndpointStoreState({
+			stats: [
+				{ address: 'a.example:443', failures: 5, timeouts: 'x', successCount: 2, lastFailure: now - 10 },
+				{ failures: 1 },
+			],
+			blacklist: [
+				{ address: 'a.example:443', expiresAt: now + 1000 },
+				{ address: 'b.example:443', expiresAt: now - 1 },
+			],
+		}, now);
+
+		expect(state).toEqual({
+			stats: [{ address: 'a.example:443', failures: 5, timeouts: 0, successCount: 2, lastFailure: now - 10 }],
+			blacklist: [{ address: 'a.example:443', expiresAt: now + 1000 }],
+		});
+		expect(parseEndpointStoreState(null)).toEqual({ stats: [], blacklist: [] });
+	});
+});
+
+describe('endpointStoreFromEnv', () => {
+	it('persists to a file on self-hosted installs', () => {
+		const store = endpointStoreFromEnv({ NODE_ENV: 'production' });
+		expect(store.kind).toBe('file');
+		expect((store as FileEndpointStore).filePath).toBe(path.join(process.cwd(), '.cache', 'endpoint-stats.json'));
+
+		const custom = endpointStoreFromEnv({ NODE_ENV: 'production', GRPC_EXPLORER_ENDPOINT_STORE_PATH: path.join(dir, 'stats.json') });
+		expect((custom as FileEndpointStore).filePath).toBe(path.join(dir, 'stats.json'));
+	});
+
+	it('keeps nothing on Vercel, under tests or when disabled', () => {
+		expect(endpointStoreFromEnv({ NODE_ENV: 'production', VERCEL: '1' }).kind).toBe('none');
+		expect(endpointStoreFromEnv({ NODE_ENV: 'test' }).kind).toBe('none');
+		expect(endpointStoreFromEnv({ NODE_ENV: 'production', GRPC_EXPLORER_ENDPOINT_STORE: 'none' }).kind).toBe('none');
+		expect(endpointStoreFromEnv({ NODE_ENV: 'test', GRPC_EXPLORER_ENDPOINT_STORE: 'file' }).kind).toBe('file');
+	});
+});
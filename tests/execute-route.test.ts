@@ -1,31 +1,10 @@
 // tests/execute-route.test.ts
-// Tests for auth-aware execute route logic
-
-import { describe, it, expect } from 'vitest';
-import type { GrpcAuthConfig } from '@/lib/types/grpc';
-
-/** Replicate the auth enrichment logic from the execute route */
-function buildEnrichedMetadata(
-	metadata: Record<string, string>,
-	authConfig?: GrpcAuthConfig
-): { metadata: Record<string, string>; clientCert?: string; clientKey?: string } {
-	const enriched = { ...metadata };
-	let clientCert: string | undefined;
-	let clientKey: string | undefined;
-
-	if (authConfig) {
-		if (authConfig.type === 'bearer' && authConfig.bearerToken) {
-			enriched['authorization'] = `Bearer ${authConfig.bearerToken}`;
-		} else if (authConfig.type === 'api-key' && authConfig.apiKeyHeader && authConfig.apiKeyValue) {
-			enriched[authConfig.apiKeyHeader] = authConfig.apiKeyValue;
-		} else if (authConfig.type === 'mtls') {
-			clientCert = authConfig.clientCert;
-			clientKey = authConfig.clientKey;
-		}
-	}
+// Tests for auth-aware execute route logic (shared with the stream route)
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { resolveCallAuth } from '@/lib/grpc/call-auth';
 
-	return { metadata: enriched, clientCert, clientKey };
-}
+const buildEnrichedMetadata = resolveCallAuth;
 
 describe('Execute route auth enrichment', () => {
 	it('passes through metadata unchanged with no auth', () => {
@@ -74,6 +53,23 @@ describe('Execute route auth enrichment', () => {
 		expect(result.clientKey).toContain('BEGIN PRIVATE KEY');
 	});
 
+	it('carries TLS settings alongside any auth type', () => {
+		const result = buildEnrichedMetadata({}, {
+			type: 'bearer',
+			bearerToken: 'tok',
+			caCert: '-----BEGIN CERTIFICATE-----\nca\n-----END CERTIFICATE-----',
+			serverName: ' api.internal ',
+			insecureSkipVerify: true,
+		});
+		expect(result.metadata['authorization']).toBe('Bearer tok');
+		expect(result.tlsOptions).toEqual({
+			caCert: '-----BEGIN CERTIFICATE-----\nca\n-----END CERTIFICATE-----',
+			serverName: 'api.internal',
+			insecureSkipVerify: true,
+		});
+		expect(buildEnrichedMetadata({}, { type: 'none', serverName: '  ' }).tlsOptions).toBeUndefined();
+	});
+
 	it('ignores bearer with empty token', () => {
 		const result = buildEnrichedMetadata({}, { type: 'bearer', bearerToken: '' });
 		expect(result.metadata['authorization']).toBeUndefined();
@@ -88,6 +84,12 @@ describe('Execute route auth enrichment', () => {
 		// Empty header name - should not add anything
 		expect(Object.keys(result.metadata)).toHaveLength(0);
 	});
+
+	it('adds a UTF-8 Basic authorization header for basic auth', () => {
+		const result = buildEnrichedMetadata({}, { type: 'basic', basicUsername: 'ops', basicPassword: 'pässword' });
+		expect(result.metadata['authorization']).toBe(`Basic ${Buffer.from('ops:pässword').toString('base64')}`);
+		expect(buildEnrichedMetadata({}, { type: 'basic', basicUsername: '' }).metadata).toEqual({});
+	});
 });
 
 describe('Execute route endpoint parsing', () => {
@@ -116,3 +118,75 @@ describe('Execute route endpoint parsing', () => {
 		expect(endpoint.startsWith('chain:')).toBe(true);
 	});
 });
+
+describe('stream route request parsing', () => {
+	it('answers a malformed body with a JSON 400', async () => {
+		const { POST } = await import('@/app/api/grpc/stream/route');
+		const res = await POST(new Request('http://localhost/api/grpc/stream', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: '{"endpoint":',
+		}));
+		expect(res.status).toBe(400);
+		expect(await res.json()).toEqual({ error: 'Request body must be valid JSON' });
+	});
+});
+
+describe('stream route endpoint stats', () => {
+	afterEach(() => {
+		vi.doUnmock('@/lib/grpc/method-connection');
+		vi.resetModules();
+	});
+
+	const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+	async function runStream(invokeServerStream: (...args: any[]) => Promise<unknown>) {
+		vi.resetModules();
+		vi.doMock('@/lib/grpc/method-connection', () => ({
+			resolveExecutionAttempts: (endpoint: string) => [{ address: endpoint, tlsEnabled: false }],
+			// Reflection setup is slow; it must not count as call latency
+			connectForMethod: async () => {
+				await sleep(300);
+				return { client: { close: vi.fn(), invokeServerStream }, endpoint: 'localhost:9090', usedTls: false, failures: [] };
+			},
+		}));
+		const { endpointManager } = await import('@/lib/utils/endpoint-manager');
+		const recordSuccess = vi.spyOn(endpointManager, 'recordSuccess').mockImplementation(() => {});
+		const recordFailure = vi.spyOn(endpointManager, 'recordFailure').mockImplementation(() => {});
+		const { POST } = await import('@/app/api/grpc/stream/route');
+		const res = await POST(new Request('http://localhost/api/grpc/stream', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ endpoint: 'localhost:9090', service: 'feed.Feed', method: 'Watch', tlsEnabled: false }),
+		}));
+		await res.text();
+		return { recordSuccess, recordFailure };
+	}
+
+	it('records latency to the first message, not the stream lifetime', async () => {
+		const { recordSuccess, recordFailure } = await runStream(async (_service, _method, _params, onMessage) => {
+			onMessage({ n: 1 }, Date.now());
+			await sleep(300);
+			onMessage({ n: 2 }, Date.now());
+			return { status: { code: 0 } };
+		});
+
+		expect(recordSuccess).toHaveBeenCalledTimes(1);
+		expect(recordSuccess.mock.calls[0][0]).toBe('localhost:9090');
+		expect(recordSuccess.mock.calls[0][1]).toBeLessThan(250);
+		expect(recordFailure).not.toHaveBeenCalled();
+	});
+
+	it('records failed calls but not cancellations', async () => {
+		const failed = await runStream(async () => { throw new Error('Call timeout after 1000ms'); });
+		expect(failed.recordFailure).toHaveBeenCalledWith('localhost:9090', true);
+		expect(failed.recordSuccess).not.toHaveBeenCalled();
+
+		// Imported after runStream resets modules, so it is the class the route checks against
+		const cancelled = await runStream(async () => {
+			const { ExecutionCancelledError } = await import('@/lib/utils/execution-endpoints');
+			throw new ExecutionCancelledError();
+		});
+		expect(cancelled.recordFailure).not.toHaveBeenCalled();
+	});
+});
@@ -1,5 +1,20 @@
 import { describe, expect, it } from 'vitest';
-import { executeWithEndpointFailover, getExecutionEndpoints } from '@/lib/utils/execution-endpoints';
+import {
+	ExecutionCancelledError,
+	executeWithEndpointFailover,
+	executeWithHedging,
+	executionRequestEndpoints,
+	getExecutionEndpoints,
+	isReadOnlyMethod,
+	isSafeToRetry,
+	orderExecutionEndpoints,
+	retryBackoffMs,
+	type EndpointSelectionStats,
+	type RetryOptions,
+} from '@/lib/utils/execution-endpoints';
+import { DEFAULT_RETRY_POLICY, normalizeHedgingPolicy, normalizeRetryPolicy, resolveRetryPolicy } from '@/lib/utils/call-options';
+import { resolveExecutionAttempts } from '@/lib/grpc/method-connection';
+import { endpointManager } from '@/lib/utils/endpoint-manager';
 import type { GrpcNetwork } from '@/lib/types/grpc';
 
 const cosmosNetwork: GrpcNetwork = {
@@ -155,4 +170,339 @@ describe('execution endpoint selection', () => {
 
 		expect(attempts).toEqual(['first:443']);
 	});
+
+	it('stops failing over once the caller aborts', async () => {
+		const attempts: string[] = [];
+		const abort = new AbortController();
+
+		await expect(executeWithEndpointFailover(
+			[
+				{ address: 'first:443', tlsEnabled: true },
+				{ address: 'second:443', tlsEnabled: true },
+			],
+			async (endpoint) => {
+				attempts.push(endpoint.address);
+				abort.abort();
+				throw new Error('Reflection initialization failed: 1 CANCELLED');
+			},
+			{ signal: abort.signal }
+		)).rejects.toBeInstanceOf(ExecutionCancelledError);
+
+		expect(attempts).toEqual(['first:443']);
+	});
+
+	it('does not start an attempt when already aborted', async () => {
+		const abort = new AbortController();
+		abort.abort();
+		let attempted = false;
+
+		await expect(executeWithEndpointFailover(
+			[{ address: 'first:443', tlsEnabled: true }],
+			async () => { attempted = true; return 'ok'; },
+			{ signal: abort.signal }
+		)).rejects.toThrow('Execution cancelled');
+
+		expect(attempted).toBe(false);
+	});
+});
+
+describe('retrying idempotent calls', () => {
+	const endpoints = [
+		{ address: 'first:443', tlsEnabled: true },
+		{ address: 'second:443', tlsEnabled: true },
+	];
+	const unavailable = () => new Error('14 UNAVAILABLE: connection reset');
+	const retryOptions = (overrides: Partial<RetryOptions> = {}) => {
+		const delays: number[] = [];
+		const retry: RetryOptions = {
+			maxAttempts: 3,
+			shouldRetry: (error) => String(error).includes('UNAVAILABLE'),
+			backoffMs: (n) => n * 100,
+			sleep: async (ms) => { delays.push(ms); },
+			...overrides,
+		};
+		return { retry, delays };
+	};
+
+	it('retries with backoff, wrapping around the endpoints', async () => {
+		const attempts: string[] = [];
+		const { retry, delays } = retryOptions();
+
+		const result = await executeWithEndpointFailover(endpoints, async (endpoint) => {
+			attempts.push(endpoint.address);
+			if (attempts.length < 3) throw unavailable();
+			return 'ok';
+		}, { shouldFailover: () => false, retry });
+
+		expect(result.value).toBe('ok');
+		expect(result.endpoint.address).toBe('first:443');
+		expect(result.failures).toHaveLength(2);
+		expect(attempts).toEqual(['first:443', 'second:443', 'first:443']);
+		expect(delays).toEqual([100, 200]);
+	});
+
+	it('gives up after maxAttempts', async () => {
+		const attempts: string[] = [];
+		const { retry } = retryOptions({ maxAttempts: 2 });
+
+		await expect(executeWithEndpointFailover(endpoints, async (endpoint) => {
+			attempts.push(endpoint.address);
+			throw unavailable();
+		}, { shouldFailover: () => false, retry })).rejects.toMatchObject({
+			message: expect.stringContaining('All selected gRPC endpoints failed'),
+			lastError: expect.objectContaining({ message: '14 UNAVAILABLE: connection reset' }),
+		});
+
+		expect(attempts).toEqual(['first:443', 'second:443']);
+	});
+
+	it('does not retry errors the policy rejects', async () => {
+		const attempts: string[] = [];
+		const { retry } = retryOptions();
+
+		await expect(executeWithEndpointFailover(endpoints, async (endpoint) => {
+			attempts.push(endpoint.address);
+			throw new Error('3 INVALID_ARGUMENT: bad request');
+		}, { shouldFailover: () => false, retry })).rejects.toThrow('INVALID_ARGUMENT');
+
+		expect(attempts).toEqual(['first:443']);
+	});
+
+	it('stops when the backoff would pass the deadline', async () => {
+		const attempts: string[] = [];
+		const { retry, delays } = retryOptions({ backoffMs: () => 500 });
+
+		await expect(executeWithEndpointFailover(endpoints, async (endpoint) => {
+			attempts.push(endpoint.address);
+			throw unavailable();
+		}, { deadlineAt: 400, now: () => 0, retry })).rejects.toThrow('execution deadline exhausted');
+
+		expect(attempts).toEqual(['first:443']);
+		expect(delays).toEqual([]);
+	});
+
+	it('treats declared idempotency levels and Cosmos Query services as safe', () => {
+		expect(isSafeToRetry('example.Ledger', 'NO_SIDE_EFFECTS')).toBe(true);
+		expect(isSafeToRetry('example.Ledger', 'IDEMPOTENT')).toBe(true);
+		expect(isSafeToRetry('example.Ledger')).toBe(false);
+		expect(isSafeToRetry('cosmos.bank.v1beta1.Query')).toBe(true);
+		expect(isSafeToRetry('cosmos.tx.v1beta1.Service')).toBe(false);
+	});
+
+	it('draws jittered backoff below an exponential, capped ceiling', () => {
+		const policy = resolveRetryPolicy({ initialBackoffMs: 100, maxBackoffMs: 300 });
+		expect(retryBackoffMs(policy, 1, () => 0.999)).toBe(99);
+		expect(retryBackoffMs(policy, 2, () => 0.5)).toBe(100);
+		expect(retryBackoffMs(policy, 5, () => 0.999)).toBe(299);
+		expect(retryBackoffMs(policy, 3, () => 0)).toBe(0);
+	});
+
+	it('normalizes retry policies from request JSON', () => {
+		expect(normalizeRetryPolicy(undefined)).toBeUndefined();
+		expect(normalizeRetryPolicy({ maxAttempts: 0, backoffMultiplier: -1 })).toBeUndefined();
+		expect(normalizeRetryPolicy({
+			maxAttempts: 9,
+			initialBackoffMs: 50,
+			backoffMultiplier: 1.5,
+			retryableStatusCodes: ['unavailable', 'ABORTED', 'OK', 'BOGUS'],
+		})).toEqual({
+			maxAttempts: 5,
+			initialBackoffMs: 50,
+			backoffMultiplier: 1.5,
+			retryableStatusCodes: ['ABORTED', 'UNAVAILABLE'],
+		});
+		expect(resolveRetryPolicy(undefined)).toEqual(DEFAULT_RETRY_POLICY);
+	});
+});
+
+describe('hedged execution', () => {
+	const endpoints = [
+		{ address: 'slow:443', tlsEnabled: true },
+		{ address: 'fast:443', tlsEnabled: true },
+		{ address: 'spare:443', tlsEnabled: true },
+	];
+	const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+	/** Resolves after `ms`, or rejects as soon as the attempt is cancelled */
+	const answerAfter = (ms: number, value: string, signal: AbortSignal, cancelled: string[], address: string) =>
+		new Promise<string>((resolve, reject) => {
+			const timer = setTimeout(() => resolve(value), ms);
+			signal.addEventListener('abort', () => {
+				clearTimeout(timer);
+				cancelled.push(address);
+				reject(new ExecutionCancelledError());
+			});
+		});
+
+	it('calls the next endpoint after the delay, takes the first answer and cancels the rest', async () => {
+		const started: string[] = [];
+		const cancelled: string[] = [];
+		const latency: Record<string, number> = { 'slow:443': 500, 'fast:443': 10 };
+
+		const result = await executeWithHedging(endpoints, (endpoint, signal) => {
+			started.push(endpoint.address);
+			return answerAfter(latency[endpoint.address], endpoint.address, signal, cancelled, endpoint.address);
+		}, { delayMs: 20, maxAttempts: 2 });
+
+		expect(result.value).toBe('fast:443');
+		expect(result.endpoint.address).toBe('fast:443');
+		expect(result.attempted.map(({ address }) => address)).toEqual(['slow:443', 'fast:443']);
+		expect(result.failures).toEqual([]);
+		expect(started).toEqual(['slow:443', 'fast:443']);
+		expect(cancelled).toEqual(['slow:443']);
+	});
+
+	it('does not hedge when the first endpoint answers within the delay', async () => {
+		const started: string[] = [];
+		const result = await executeWithHedging(endpoints, async (endpoint) => {
+			started.push(endpoint.address);
+			return 'ok';
+		}, { delayMs: 20, maxAttempts: 3 });
+
+		await wait(40);
+		expect(result.attempted).toHaveLength(1);
+		expect(started).toEqual(['slow:443']);
+	});
+
+	it('waits to hedge until shouldHedge allows it', async () => {
+		const started: string[] = [];
+		const cancelled: string[] = [];
+		let readOnly = false;
+		setTimeout(() => { readOnly = true; }, 50);
+
+		const result = await executeWithHedging(endpoints, (endpoint, signal) => {
+			started.push(endpoint.address);
+			return answerAfter(endpoint.address === 'slow:443' ? 500 : 0, endpoint.address, signal, cancelled, endpoint.address);
+		}, { delayMs: 20, maxAttempts: 2, shouldHedge: () => readOnly });
+
+		expect(result.value).toBe('fast:443');
+		expect(started).toEqual(['slow:443', 'fast:443']);
+	});
+
+	it('moves to the next endpoint at once on a failover error', async () => {
+		const result = await executeWithHedging(endpoints, async (endpoint) => {
+			if (endpoint.address === 'slow:443') throw new Error('Reflection initialization failed: refused');
+			return endpoint.address;
+		}, { delayMs: 10_000, maxAttempts: 2, shouldFailover: (error) => String(error).includes('Reflection') });
+
+		expect(result.value).toBe('fast:443');
+		expect(result.failures).toEqual([{ endpoint: 'slow:443', error: 'Reflection initialization failed: refused' }]);
+	});
+
+	it('fails the call on other errors and cancels attempts in flight', async () => {
+		const cancelled: string[] = [];
+		await expect(executeWithHedging(endpoints, (endpoint, signal) => {
+			if (endpoint.address === 'fast:443') return Promise.reject(new Error('3 INVALID_ARGUMENT'));
+			return answerAfter(500, endpoint.address, signal, cancelled, endpoint.address);
+		}, { delayMs: 10, maxAttempts: 2, shouldFailover: () => false })).rejects.toThrow('3 INVALID_ARGUMENT');
+
+		expect(cancelled).toEqual(['slow:443']);
+	});
+
+	it('reports every failure once all endpoints have failed', async () => {
+		await expect(executeWithHedging(endpoints, async (endpoint) => {
+			throw new Error(`${endpoint.address} unavailable`);
+		}, { delayMs: 10, maxAttempts: 2 })).rejects.toMatchObject({
+			name: 'EndpointFailoverError',
+			failures: endpoints.map(({ address }) => ({ endpoint: address, error: `${address} unavailable` })),
+		});
+	});
+
+	it('cancels every attempt when the caller aborts', async () => {
+		const abort = new AbortController();
+		const cancelled: string[] = [];
+		setTimeout(() => abort.abort(), 30);
+
+		await expect(executeWithHedging(endpoints, (endpoint, signal) =>
+			answerAfter(500, endpoint.address, signal, cancelled, endpoint.address),
+		{ delayMs: 10, maxAttempts: 2, signal: abort.signal })).rejects.toBeInstanceOf(ExecutionCancelledError);
+
+		expect(cancelled.sort()).toEqual(['fast:443', 'slow:443']);
+	});
+
+	it('hedges only read-only methods', () => {
+		expect(isReadOnlyMethod('example.Ledger', 'NO_SIDE_EFFECTS')).toBe(true);
+		expect(isReadOnlyMethod('example.Ledger', 'IDEMPOTENT')).toBe(false);
+		expect(isReadOnlyMethod('cosmos.staking.v1beta1.Query')).toBe(true);
+		expect(isReadOnlyMethod('cosmos.tx.v1beta1.Service')).toBe(false);
+	});
+
+	it('turns hedging on only with a delay', () => {
+		expect(normalizeHedgingPolicy({ maxAttempts: 3 })).toBeUndefined();
+		expect(normalizeHedgingPolicy({ delayMs: 250 })).toEqual({ delayMs: 250 });
+		expect(normalizeHedgingPolicy({ delayMs: 250, maxAttempts: 9 })).toEqual({ delayMs: 250, maxAttempts: 5 });
+	});
+});
+
+describe('endpoint selection strategies', () => {
+	const endpoints = [
+		{ address: 'primary:443', tlsEnabled: true },
+		{ address: 'secondary:443', tlsEnabled: true },
+		{ address: 'tertiary:9090', tlsEnabled: false },
+	];
+	const stats: Record<string, EndpointSelectionStats> = {
+		'primary:443': { averageResponseTime: 400, failures: 3 },
+		'secondary:443': { averageResponseTime: 90, failures: 1, blacklisted: true },
+		'tertiary:9090': { averageResponseTime: 120, failures: 0 },
+	};
+	const order = (strategy: Parameters<typeof orderExecutionEndpoints>[1], lookup: Record<string, EndpointSelectionStats | undefined> = stats) =>
+		orderExecutionEndpoints(endpoints, strategy, (endpoint) => lookup[endpoint.address]).map(({ address }) => address);
+
+	it('keeps the client order for round-robin', () => {
+		expect(order('round-robin')).toEqual(['primary:443', 'secondary:443', 'tertiary:9090']);
+	});
+
+	it('prefers the lowest average latency and measures unsampled endpoints first', () => {
+		expect(order('lowest-latency')).toEqual(['tertiary:9090', 'primary:443', 'secondary:443']);
+		expect(order('lowest-latency', { ...stats, 'primary:443': undefined })).toEqual(['primary:443', 'tertiary:9090', 'secondary:443']);
+	});
+
+	it('prefers the fewest failures', () => {
+		expect(order('least-failures', { ...stats, 'secondary:443': { failures: 1 } })).toEqual(['tertiary:9090', 'secondary:443', 'primary:443']);
+	});
+
+	it('sticks to the primary unless it is blacklisted', () => {
+		expect(order('sticky-primary')).toEqual(['primary:443', 'tertiary:9090', 'secondary:443']);
+		expect(order('sticky-primary', { 'primary:443': { failures: 5, blacklisted: true } })).toEqual(['secondary:443', 'tertiary:9090', 'primary:443']);
+	});
+
+	it('does not rotate the client order for other strategies', () => {
+		const network: GrpcNetwork = { ...cosmosNetwork, endpointStrategy: 'sticky-primary' };
+		expect(getExecutionEndpoints(network, 2).map(({ address }) => address)).toEqual(['primary:443', 'secondary:443', 'tertiary:9090']);
+	});
+
+	it('orders request attempts from the endpoint manager stats', () => {
+		endpointManager.recordSuccess('primary:443', 800);
+		endpointManager.recordSuccess('primary:443', 400);
+		endpointManager.recordSuccess('secondary:443', 50);
+		endpointManager.recordSuccess('tertiary:9090', 300);
+		expect(endpointManager.getSelectionStats('primary:443')).toEqual({ averageResponseTime: 600, failures: 0, blacklisted: false });
+
+		// Attempts without a port are looked up with the default port for their TLS setting
+		const attempts = [
+			{ address: 'primary', tlsEnabled: true },
+			{ address: 'secondary:443', tlsEnabled: true },
+			{ address: 'tertiary', tlsEnabled: false },
+		];
+		expect(resolveExecutionAttempts('primary', attempts, true, 'lowest-latency').map(({ address }) => address))
+			.toEqual(['secondary:443', 'tertiary', 'primary']);
+		expect(resolveExecutionAttempts('primary', attempts, true, 'bogus').map(({ address }) => address))
+			.toEqual(['primary', 'secondary:443', 'tertiary']);
+	});
+
+	it('sends the network strategy to the server with the attempts', () => {
+		endpointManager.recordSuccess('primary:443', 900);
+		endpointManager.recordSuccess('secondary:443', 40);
+		endpointManager.recordSuccess('tertiary:9090', 200);
+		const network: GrpcNetwork = { ...cosmosNetwork, endpointStrategy: 'lowest-latency' };
+		const body = JSON.parse(JSON.stringify(executionRequestEndpoints(network, getExecutionEndpoints(network, 1))));
+		expect(body).toEqual({
+			endpoint: 'primary:443',
+			tlsEnabled: true,
+			endpointAttempts: cosmosNetwork.endpointConfigs!.map(({ address, tlsEnabled }) => ({ address, tlsEnabled })),
+			endpointStrategy: 'lowest-latency',
+		});
+		expect(resolveExecutionAttempts(body.endpoint, body.endpointAttempts, body.tlsEnabled, body.endpointStrategy).map(({ address }) => address))
+			.toEqual(['secondary:443', 'tertiary:9090', 'primary:443']);
+		expect(executionRequestEndpoints(cosmosNetwork, getExecutionEndpoints(cosmosNetwork, 0))).not.toHaveProperty('endpointStrategy');
+	});
 });
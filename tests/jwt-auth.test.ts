@@ -0,0 +1,94 @@
+// tests/jwt-auth.test.ts
+// Self-signed JWT signing for each supported key type, and signing per call
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { generateKeyPairSync, verify, type KeyObject } from 'crypto';
+import { resolveCallAuth } from '@/lib/grpc/call-auth';
+import { signServiceJwt } from '@/lib/grpc/jwt-auth';
+
+function pem(key: KeyObject): string {
+	return key.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+function decode(token: string) {
+	const [header, payload, signature] = token.split('.');
+	return {
+		header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+		payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+		input: Buffer.from(`${header}.${payload}`),
+		signature: Buffer.from(signature, 'base64url'),
+	};
+}
+
+describe('signServiceJwt', () => {
+	it('signs RS256 tokens with standard and custom claims', () => {
+		const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+		const token = signServiceJwt({
+			type: 'jwt',
+			jwtPrivateKey: pem(privateKey),
+			jwtKeyId: 'key-1',
+			jwtIssuer: 'explorer@svc',
+			jwtAudience: 'https://api.internal',
+			jwtClaims: { sub: 'explorer@svc', scope: 'read', exp: 1 },
+			jwtTtlSeconds: 600,
+		}, 1_700_000_000_000);
+
+		const { header, payload, input, signature } = decode(token);
+		expect(header).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+		expect(payload).toEqual({
+			sub: 'explorer@svc',
+			scope: 'read',
+			iss: 'explorer@svc',
+			aud: 'https://api.internal',
+			iat: 1_700_000_000,
+			exp: 1_700_000_600,
+		});
+		expect(verify('sha256', input, publicKey, signature)).toBe(true);
+	});
+
+	it('picks ES256 for P-256 keys with raw signatures', () => {
+		const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+		const { header, input, signature } = decode(signServiceJwt({ type: 'jwt', jwtPrivateKey: pem(privateKey) }));
+		expect(header.alg).toBe('ES256');
+		expect(signature).toHaveLength(64);
+		expect(verify('sha256', input, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature)).toBe(true);
+	});
+
+	it('picks EdDSA for Ed25519 keys', () => {
+		const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+		const { header, payload, input, signature } = decode(signServiceJwt({ type: 'jwt', jwtPrivateKey: pem(privateKey) }));
+		expect(header.alg).toBe('EdDSA');
+		expect(payload.exp - payload.iat).toBe(3600);
+		expect(verify(null, input, publicKey, signature)).toBe(true);
+	});
+
+	it('rejects missing, malformed and unsupported keys', () => {
+		expect(() => signServiceJwt({ type: 'jwt' })).toThrow('JWT: a private key is required');
+		expect(() => signServiceJwt({ type: 'jwt', jwtPrivateKey: 'not a key' })).toThrow('JWT: invalid private key');
+		const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+		expect(() => signServiceJwt({ type: 'jwt', jwtPrivateKey: pem(privateKey) })).toThrow('JWT: unsupported EC curve secp256k1');
+	});
+});
+
+describe('jwt call auth', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('signs a fresh bearer token for every call', () => {
+		vi.useFakeTimers({ now: Date.UTC(2024, 0, 1) });
+		const { privateKey } = generateKeyPairSync('ed25519');
+		const authConfig = { type: 'jwt' as const, jwtPrivateKey: pem(privateKey), jwtIssuer: 'per-call' };
+		const first = resolveCallAuth({ 'x-trace': '1' }, authConfig).metadata;
+		expect(first['x-trace']).toBe('1');
+		expect(first['authorization']).toBe(`Bearer ${signServiceJwt(authConfig)}`);
+
+		vi.advanceTimersByTime(5000);
+		const second = decode(resolveCallAuth(undefined, authConfig).metadata['authorization'].slice('Bearer '.length));
+		expect(second.payload.iat).toBe(Date.UTC(2024, 0, 1) / 1000 + 5);
+
+		// Changed claims apply to the next call, not once an earlier token expires
+		const changed = decode(resolveCallAuth(undefined, { ...authConfig, jwtIssuer: 'changed' }).metadata['authorization'].slice('Bearer '.length));
+		expect(changed.payload.iss).toBe('changed');
+	});
+});
@@ -0,0 +1,143 @@
+// tests/oauth2.test.ts
+// OAuth2 client-credentials token fetching, caching and refresh against a local token endpoint
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { authorizeCall, callCredentialKey } from '@/lib/grpc/call-auth';
+import { clearOAuth2Tokens, getOAuth2Token, oauth2Credentials } from '@/lib/grpc/oauth2';
+
+interface TokenRequest {
+	authorization?: string;
+	form: URLSearchParams;
+}
+
+let server: http.Server;
+let tokenUrl: string;
+let requests: TokenRequest[] = [];
+let expiresIn = 3600;
+
+beforeAll(async () => {
+	server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => { body += chunk; });
+		req.on('end', () => {
+			const form = new URLSearchParams(body);
+			requests.push({ ...(req.headers.authorization ? { authorization: req.headers.authorization } : {}), form });
+			if (req.headers.authorization !== `Basic ${Buffer.from('explorer:s3cret').toString('base64')}`) {
+				res.writeHead(401, { 'content-type': 'application/json' });
+				res.end(JSON.stringify({ error: 'invalid_client', error_description: 'Client authentication failed' }));
+				return;
+			}
+			res.writeHead(200, { 'content-type': 'application/json' });
+			res.end(JSON.stringify({ access_token: `token-${requests.length}`, token_type: 'Bearer', expires_in: expiresIn }));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oauth/token`;
+});
+
+afterAll(async () => {
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+	requests = [];
+	expiresIn = 3600;
+	clearOAuth2Tokens();
+});
+
+const authConfig = () => ({
+	type: 'oauth2' as const,
+	oauth2TokenUrl: tokenUrl,
+	oauth2ClientId: 'explorer',
+	oauth2ClientSecret: 's3cret',
+	oauth2Scopes: ['grpc.read', 'grpc.write'],
+	oauth2Audience: 'https://api.example.com',
+});
+
+describe('oauth2Credentials', () => {
+	it('requires a token URL and client ID', () => {
+		expect(oauth2Credentials({ type: 'oauth2', oauth2ClientId: 'explorer' })).toBeNull();
+		expect(oauth2Credentials({ type: 'bearer', bearerToken: 'tok' })).toBeNull();
+		expect(oauth2Credentials({ type: 'oauth2', oauth2TokenUrl: ' https://auth/token ', oauth2ClientId: 'id', oauth2Scopes: ['a', ' '] })).toEqual({
+			tokenUrl: 'https://auth/token',
+			clientId: 'id',
+			clientSecret: '',
+			scopes: ['a'],
+		});
+	});
+});
+
+describe('getOAuth2Token', () => {
+	it('sends a client_credentials grant with scopes and audience', async () => {
+		const token = await getOAuth2Token(oauth2Credentials(authConfig())!);
+		expect(token).toBe('token-1');
+		expect(requests).toHaveLength(1);
+		expect(requests[0].form.get('grant_type')).toBe('client_credentials');
+		expect(requests[0].form.get('scope')).toBe('grpc.read grpc.write');
+		expect(requests[0].form.get('audience')).toBe('https://api.example.com');
+	});
+
+	it('reuses cached tokens and shares concurrent requests', async () => {
+		const credentials = oauth2Credentials(authConfig())!;
+		const tokens = await Promise.all([getOAuth2Token(credentials), getOAuth2Token(credentials)]);
+		expect(tokens).toEqual(['token-1', 'token-1']);
+		expect(await getOAuth2Token(credentials)).toBe('token-1');
+		expect(requests).toHaveLength(1);
+	});
+
+	it('refreshes tokens before they expire', async () => {
+		// A 1s token is refreshed after half its lifetime
+		expiresIn = 1;
+		const credentials = oauth2Credentials(authConfig())!;
+		expect(await getOAuth2Token(credentials)).toBe('token-1');
+		await new Promise((resolve) => setTimeout(resolve, 600));
+		expect(await getOAuth2Token(credentials)).toBe('token-2');
+		expect(requests).toHaveLength(2);
+	});
+
+	it('caps the token cache, dropping the oldest client first', async () => {
+		const credentials = (index: number) => oauth2Credentials({ ...authConfig(), oauth2Audience: `https://api-${index}.example.com` })!;
+		for (let index = 0; index <= 100; index++) await getOAuth2Token(credentials(index));
+		expect(requests).toHaveLength(101);
+
+		expect(await getOAuth2Token(credentials(100))).toBe('token-101');
+		expect(await getOAuth2Token(credentials(0))).toBe('token-102');
+		expect(clearOAuth2Tokens()).toBe(100);
+	});
+
+	it('reports the token endpoint error', async () => {
+		const credentials = oauth2Credentials({ ...authConfig(), oauth2ClientSecret: 'wrong' })!;
+		await expect(getOAuth2Token(credentials)).rejects.toThrow(
+			`OAuth2: token request to ${tokenUrl} failed with HTTP 401 (invalid_client: Client authentication failed)`
+		);
+		// Failures are not cached
+		await expect(getOAuth2Token(credentials)).rejects.toThrow('HTTP 401');
+		expect(requests).toHaveLength(2);
+	});
+});
+
+describe('authorizeCall', () => {
+	it('injects the access token as authorization metadata', async () => {
+		const resolved = await authorizeCall({ 'x-request-id': 'r1', authorization: 'Bearer stale' }, authConfig());
+		expect(resolved.metadata).toEqual({ 'x-request-id': 'r1', authorization: 'Bearer token-1' });
+	});
+
+	it('leaves other auth types to resolveCallAuth', async () => {
+		const resolved = await authorizeCall({}, { type: 'bearer', bearerToken: 'tok' });
+		expect(resolved.metadata).toEqual({ authorization: 'Bearer tok' });
+		expect(requests).toHaveLength(0);
+	});
+});
+
+describe('callCredentialKey', () => {
+	it('identifies the client and headers, not the fetched token', () => {
+		const key = callCredentialKey({ 'x-tenant': 'a', 'x-trace': '1' }, authConfig());
+
+		expect(callCredentialKey({ 'x-trace': '1', 'x-tenant': 'a' }, authConfig())).toBe(key);
+		expect(callCredentialKey({ 'x-tenant': 'b', 'x-trace': '1' }, authConfig())).not.toBe(key);
+		expect(callCredentialKey({ 'x-tenant': 'a', 'x-trace': '1' }, { ...authConfig(), oauth2ClientId: 'other' })).not.toBe(key);
+		expect(callCredentialKey({ 'x-tenant': 'a', 'x-trace': '1' })).not.toBe(key);
+	});
+});
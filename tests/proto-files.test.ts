@@ -0,0 +1,256 @@
+// tests/proto-files.test.ts
+// Uploaded .proto parsing: import resolution, descriptor conversion, zip archives and protosets
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { DescriptorParser } from '@/lib/grpc/descriptor-parser';
+import { parseProtoFiles } from '@/lib/grpc/proto-files';
+import { isZipArchive, readZipEntries } from '@/lib/grpc/zip-archive';
+import { createZipArchive } from '@/lib/utils/zip-writer';
+import { POST } from '@/app/api/protos/descriptor/route';
+import { MULTI_FDS_BYTES } from './fixtures';
+
+const BANK_PROTO = `
+syntax = "proto3";
+package demo.bank.v1;
+
+import "google/protobuf/timestamp.proto";
+import "google/api/annotations.proto";
+import "demo/bank/v1/bank.proto";
+
+option go_package = "example.com/demo/bank";
+
+// Query exposes balances.
+service Query {
+  // Balance returns one denom's balance.
+  rpc Balance(QueryBalanceRequest) returns (QueryBalanceResponse) {
+    option (google.api.http) = {
+      get: "/demo/bank/v1/balances/{address}"
+      additional_bindings { post: "/demo/bank/v1/balances" body: "*" }
+    };
+    option idempotency_level = NO_SIDE_EFFECTS;
+  }
+  rpc Watch(QueryBalanceRequest) returns (stream Coin);
+}
+
+message QueryBalanceRequest {
+  // Bech32 account address
+  string address = 1;
+  oneof filter {
+    string denom = 2;
+    Kind kind = 3;
+  }
+  optional uint32 limit = 4;
+  map<string, Coin> by_denom = 5;
+  google.protobuf.Timestamp at = 6;
+  reserved 8 to 10;
+  reserved "legacy";
+}
+
+message QueryBalanceResponse {
+  Coin balance = 1;
+}
+`;
+
+const COIN_PROTO = `
+syntax = "proto3";
+package demo.bank.v1;
+
+message Coin {
+  string denom = 1;
+  string amount = 2;
+}
+
+enum Kind {
+  KIND_UNSPECIFIED = 0;
+  KIND_NATIVE = 1;
+}
+`;
+
+/** Build a zip archive with deflated entries */
+function makeZip(files: Record<string, string>): Buffer {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const [name, content] of Object.entries(files)) {
+		const nameBytes = Buffer.from(name);
+		const raw = Buffer.from(content);
+		const data = deflateRawSync(raw);
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(8, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(raw.length, 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt32LE(data.length, 20);
+		central.writeUInt32LE(raw.length, 24);
+		central.writeUInt16LE(nameBytes.length, 28);
+		central.writeUInt32LE(offset, 42);
+		locals.push(local, nameBytes, data);
+		centrals.push(central, nameBytes);
+		offset += local.length + nameBytes.length + data.length;
+	}
+	const directory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(Object.keys(files).length, 8);
+	end.writeUInt16LE(Object.keys(files).length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+}
+
+describe('parseProtoFiles', () => {
+	it('resolves imports under an archive import root and bundled well-known types', () => {
+		const parsed = parseProtoFiles([
+			{ name: 'proto/demo/bank/v1/query.proto', content: BANK_PROTO },
+			{ name: 'proto/demo/bank/v1/bank.proto', content: COIN_PROTO },
+		]);
+
+		expect(parsed.files).toEqual(['demo/bank/v1/bank.proto', 'demo/bank/v1/query.proto']);
+		expect(parsed.missingImports).toEqual(['google/api/annotations.proto']);
+		expect(parsed.fileDescriptors.map((file) => file.name)).toEqual([
+			'google/protobuf/timestamp.proto',
+			'demo/bank/v1/bank.proto',
+			'demo/bank/v1/query.proto',
+		]);
+
+		const query = parsed.fileDescriptors[2];
+		expect(query.dependency).toEqual(['google/protobuf/timestamp.proto', 'google/api/annotations.proto', 'demo/bank/v1/bank.proto']);
+		expect(query.options).toEqual({ goPackage: 'example.com/demo/bank' });
+		expect(query.syntax).toBe('proto3');
+	});
+
+	it('converts oneofs, proto3 optional, maps and reserved ranges', () => {
+		const { fileDescriptors } = parseProtoFiles([
+			{ name: 'query.proto', content: BANK_PROTO },
+			{ name: 'bank.proto', content: COIN_PROTO },
+		]);
+		// Flat uploads keep their own name unless another file imports them
+		expect(fileDescriptors.map((file) => file.name)).toEqual(['google/protobuf/timestamp.proto', 'demo/bank/v1/bank.proto', 'query.proto']);
+		const request = fileDescriptors[2].messageType[0];
+
+		expect(request.oneofDecl).toEqual([{ name: 'filter' }, { name: '_limit' }]);
+		expect(request.field.find((field: any) => field.name === 'kind')).toMatchObject({ type: 14, typeName: '.demo.bank.v1.Kind', oneofIndex: 0 });
+		expect(request.field.find((field: any) => field.name === 'limit')).toMatchObject({ oneofIndex: 1, proto3Optional: true });
+		expect(request.field.find((field: any) => field.name === 'by_denom')).toMatchObject({ label: 3, type: 11, typeName: '.demo.bank.v1.QueryBalanceRequest.ByDenomEntry' });
+		expect(request.nestedType).toEqual([{
+			name: 'ByDenomEntry',
+			field: [
+				{ name: 'key', number: 1, label: 1, type: 9 },
+				{ name: 'value', number: 2, label: 1, type: 11, typeName: '.demo.bank.v1.Coin' },
+			],
+			options: { mapEntry: true },
+		}]);
+		expect(request.reservedRange).toEqual([{ start: 8, end: 11 }]);
+		expect(request.reservedName).toEqual(['legacy']);
+	});
+
+	it('feeds DescriptorParser with http rules, idempotency and comments', () => {
+		const parser = new DescriptorParser();
+		parser.loadFileDescriptors(parseProtoFiles([
+			{ name: 'query.proto', content: BANK_PROTO },
+			{ name: 'bank.proto', content: COIN_PROTO },
+		]).fileDescriptors);
+
+		const [service] = parser.getServices();
+		expect(service.fullName).toBe('demo.bank.v1.Query');
+		const [balance, watch] = service.methods;
+		expect(balance).toMatchObject({
+			description: 'Balance returns one denom\'s balance.',
+			idempotencyLevel: 'NO_SIDE_EFFECTS',
+			httpRule: {
+				get: '/demo/bank/v1/balances/{address}',
+				additionalBindings: [expect.objectContaining({ post: '/demo/bank/v1/balances', body: '*' })],
+			},
+		});
+		expect(balance.requestTypeDefinition.fields[0]).toMatchObject({ name: 'address', comment: 'Bech32 account address' });
+		expect(balance.requestTypeDefinition.fields.find((field) => field.name === 'at')?.nestedFields?.map((field) => field.name)).toEqual(['seconds', 'nanos']);
+		expect(watch).toMatchObject({ responseStreaming: true, responseType: 'demo.bank.v1.Coin' });
+	});
+
+	it('reports unresolved types with the missing imports', () => {
+		expect(() => parseProtoFiles([{ name: 'query.proto', content: BANK_PROTO }]))
+			.toThrow(/no such type: Coin\. Missing imports: google\/api\/annotations\.proto, demo\/bank\/v1\/bank\.proto/);
+		expect(() => parseProtoFiles([{ name: 'broken.proto', content: 'message {' }])).toThrow(/Failed to parse broken\.proto/);
+	});
+});
+
+describe('readZipEntries', () => {
+	it('extracts matching entries and enforces the size limit', () => {
+		const zip = makeZip({ 'proto/a.proto': COIN_PROTO, 'README.md': '# readme' });
+		expect(isZipArchive(zip)).toBe(true);
+		expect(isZipArchive(Buffer.from(COIN_PROTO))).toBe(false);
+
+		const entries = readZipEntries(zip, { filter: (name) => name.endsWith('.proto') });
+		expect(entries.map(({ name, data }) => [name, data.toString('utf8')])).toEqual([['proto/a.proto', COIN_PROTO]]);
+		expect(() => readZipEntries(zip, { maxTotalBytes: 10 })).toThrow(/too large/);
+	});
+});
+
+describe('createZipArchive', () => {
+	it('writes stored entries that readZipEntries reads back', () => {
+		const zip = Buffer.from(createZipArchive([
+			{ name: 'demo/bank/v1/bank.proto', data: COIN_PROTO },
+			{ name: 'check.bin', data: new TextEncoder().encode('123456789') },
+		]));
+		expect(isZipArchive(zip)).toBe(true);
+		expect(readZipEntries(zip).map(({ name, data }) => [name, data.toString('utf8')])).toEqual([
+			['demo/bank/v1/bank.proto', COIN_PROTO],
+			['check.bin', '123456789'],
+		]);
+		// CRC-32 check value of "123456789", from the second local header
+		const second = zip.indexOf(Buffer.from('check.bin')) - 30;
+		expect(zip.readUInt32LE(second + 14)).toBe(0xcbf43926);
+	});
+});
+
+describe('proto upload route', () => {
+	const upload = (...files: File[]) => {
+		const form = new FormData();
+		for (const file of files) form.append('files', file);
+		return POST(new Request('http://localhost/api/protos/descriptor', { method: 'POST', body: form }));
+	};
+
+	it('parses a zip with an import root alongside loose files', async () => {
+		const zip = makeZip({ 'proto/demo/bank/v1/bank.proto': COIN_PROTO, '__MACOSX/proto/._bank.proto': 'junk' });
+		const res = await upload(
+			new File([new Uint8Array(zip)], 'bank.zip'),
+			new File([BANK_PROTO], 'query.proto'),
+		);
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data).toMatchObject({
+			files: ['demo/bank/v1/bank.proto', 'query.proto'],
+			missingImports: ['google/api/annotations.proto'],
+			serviceCount: 1,
+		});
+		expect(data.services[0].methods.map((method: { name: string }) => method.name)).toEqual(['Balance', 'Watch']);
+	});
+
+	it('loads a protoset alongside .proto files', async () => {
+		const res = await upload(
+			new File([new Uint8Array(MULTI_FDS_BYTES)], 'server.protoset'),
+			new File([COIN_PROTO], 'bank.proto'),
+		);
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.files).toEqual(['greeter.proto', 'complex.proto', 'multi.proto', 'bank.proto']);
+		expect(data.services.map((service: { fullName: string }) => service.fullName)).toContain('example.greeter.GreeterService');
+
+		const garbage = await upload(new File([new Uint8Array([0x0a, 0xff])], 'broken.pb'));
+		expect(garbage.status).toBe(400);
+		expect((await garbage.json()).error).toMatch(/^Failed to read broken\.pb as a FileDescriptorSet/);
+	});
+
+	it('rejects unsupported and unparseable uploads', async () => {
+		expect((await upload()).status).toBe(400);
+		const unsupported = await upload(new File(['{}'], 'schema.json'));
+		expect((await unsupported.json()).error).toContain('Unsupported file: schema.json');
+		const broken = await upload(new File(['message {'], 'broken.proto'));
+		expect(broken.status).toBe(400);
+	});
+});
@@ -0,0 +1,331 @@
+// tests/proto-printer.test.ts
+// .proto reconstruction from binary descriptors: syntax coverage, custom options, round trips and highlighting
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as protobuf from 'protobufjs';
+import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+import { parseProtoFiles, type FileDescriptorObject } from '@/lib/grpc/proto-files';
+import { printFileDescriptorSet } from '@/lib/grpc/proto-printer';
+import { tokenizeProtoLine } from '@/lib/utils/proto-highlight';
+import { GREETER_FDS_BYTES } from './fixtures';
+
+const HTTP_PROTO = `
+syntax = "proto3";
+package google.api;
+
+message HttpRule {
+  string selector = 1;
+  oneof pattern {
+    string get = 2;
+    string put = 3;
+    string post = 4;
+    string delete = 5;
+    string patch = 6;
+    CustomHttpPattern custom = 8;
+  }
+  string body = 7;
+  string response_body = 12;
+  repeated HttpRule additional_bindings = 11;
+}
+
+message CustomHttpPattern {
+  string kind = 1;
+  string path = 2;
+}
+`;
+
+const ANNOTATIONS_PROTO = `
+syntax = "proto3";
+package google.api;
+
+import "google/api/http.proto";
+import "google/protobuf/descriptor.proto";
+
+extend google.protobuf.MethodOptions {
+  HttpRule http = 72295728;
+}
+`;
+
+const QUERY_PROTO = `
+syntax = "proto3";
+package demo.bank.v1;
+
+import "google/api/annotations.proto";
+import "google/protobuf/timestamp.proto";
+
+option go_package = "example.com/demo/bank";
+option java_multiple_files = true;
+
+// Query exposes balances.
+service Query {
+  // Balance returns one denom's balance.
+  rpc Balance(QueryBalanceRequest) returns (QueryBalanceResponse) {
+    option (google.api.http) = {
+      get: "/demo/bank/v1/balances/{address}"
+      additional_bindings { post: "/demo/bank/v1/balances" body: "*" }
+    };
+    option idempotency_level = NO_SIDE_EFFECTS;
+  }
+  rpc Watch(stream QueryBalanceRequest) returns (stream Coin);
+}
+
+message QueryBalanceRequest {
+  // Bech32 account address
+  string address = 1;
+  oneof filter {
+    string denom = 2;
+    Kind kind = 3;
+  }
+  optional uint32 limit = 4;
+  map<string, Coin> by_denom = 5;
+  google.protobuf.Timestamp at = 6;
+  string legacy_id = 7 [deprecated = true, json_name = "legacy"];
+  Page page = 11;
+  reserved 8 to 10, 20 to max;
+  reserved "legacy_name";
+
+  message Page {
+    bytes key = 1;
+    Order order = 2;
+
+    enum Order {
+      ORDER_UNSPECIFIED = 0;
+      ORDER_DESC = 1;
+    }
+  }
+}
+
+message QueryBalanceResponse {
+  Coin balance = 1;
+}
+
+message Coin {
+  string denom = 1;
+  string amount = 2;
+}
+
+enum Kind {
+  option allow_alias = true;
+  KIND_UNSPECIFIED = 0;
+  KIND_NATIVE = 1;
+  KIND_DEFAULT = 1 [deprecated = true];
+  reserved 5 to 7;
+  reserved "KIND_OLD";
+}
+`;
+
+const LEGACY_PROTO = `
+syntax = "proto2";
+package demo.legacy;
+
+message Envelope {
+  required string id = 1;
+  optional int32 retries = 2 [default = 3];
+  optional string note = 3 [default = "n/a"];
+  repeated int64 ids = 4 [packed = true];
+  extensions 100 to max;
+}
+
+extend Envelope {
+  optional string trace = 100;
+}
+`;
+
+/** Parse sources and encode them as protoc would, with custom options as extension fields */
+function encodeSources(sources: Record<string, string>): Uint8Array {
+	const { fileDescriptors } = parseProtoFiles(Object.entries(sources).map(([name, content]) => ({ name, content })));
+	const root = protobuf.Root.fromJSON(descriptorJson);
+	protobuf.parse(HTTP_PROTO, root);
+	protobuf.parse('syntax = "proto3"; package google.api; extend google.protobuf.MethodOptions { HttpRule http = 72295728; }', root);
+	const extensionKeys = (value: unknown): unknown => {
+		if (Array.isArray(value)) return value.map(extensionKeys);
+		if (!value || typeof value !== 'object') return value;
+		return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key.replace(/^\((.+)\)$/, '.$1'), extensionKeys(entry)]));
+	};
+	const FileDescriptorSet = root.lookupType('google.protobuf.FileDescriptorSet');
+	return FileDescriptorSet.encode(FileDescriptorSet.fromObject({ file: extensionKeys(fileDescriptors) })).finish();
+}
+
+const SOURCES = {
+	'google/api/http.proto': HTTP_PROTO,
+	'google/api/annotations.proto': ANNOTATIONS_PROTO,
+	'demo/bank/v1/query.proto': QUERY_PROTO,
+	'demo/legacy/envelope.proto': LEGACY_PROTO,
+};
+
+function printed(name: string): string {
+	const file = printFileDescriptorSet(encodeSources(SOURCES)).find((entry) => entry.name === name);
+	if (!file) throw new Error(`${name} not printed`);
+	return file.content;
+}
+
+/** Descriptor fields that survive printing; source spans and option key spelling differ */
+function comparable(file: FileDescriptorObject): FileDescriptorObject {
+	const { sourceCodeInfo: _sourceCodeInfo, ...rest } = file;
+	return JSON.parse(JSON.stringify(rest));
+}
+
+describe('printFileDescriptorSet', () => {
+	it('prints services with http rules, streaming and comments', () => {
+		const content = printed('demo/bank/v1/query.proto');
+		expect(content).toContain([
+			'syntax = "proto3";',
+			'',
+			'package demo.bank.v1;',
+			'',
+			'import "google/api/annotations.proto";',
+			'import "google/protobuf/timestamp.proto";',
+			'',
+			'option java_multiple_files = true;',
+			'option go_package = "example.com/demo/bank";',
+		].join('\n'));
+		expect(content).toContain([
+			'// Query exposes balances.',
+			'service Query {',
+			'  // Balance returns one denom\'s balance.',
+			'  rpc Balance(QueryBalanceRequest) returns (QueryBalanceResponse) {',
+			'    option idempotency_level = NO_SIDE_EFFECTS;',
+			'    option (google.api.http) = {',
+			'      get: "/demo/bank/v1/balances/{address}"',
+			'      additional_bindings {',
+			'        post: "/demo/bank/v1/balances"',
+			'        body: "*"',
+			'      }',
+			'    };',
+			'  }',
+			'  rpc Watch(stream QueryBalanceRequest) returns (stream Coin);',
+			'}',
+		].join('\n'));
+	});
+
+	it('prints oneofs, proto3 optional, maps, reserved ranges and nested types', () => {
+		const content = printed('demo/bank/v1/query.proto');
+		expect(content).toContain([
+			'message QueryBalanceRequest {',
+			'  message Page {',
+			'    enum Order {',
+			'      ORDER_UNSPECIFIED = 0;',
+			'      ORDER_DESC = 1;',
+			'    }',
+			'',
+			'    bytes key = 1;',
+			'    Order order = 2;',
+			'  }',
+			'',
+			'  // Bech32 account address',
+			'  string address = 1;',
+			'  oneof filter {',
+			'    string denom = 2;',
+			'    Kind kind = 3;',
+			'  }',
+			'  optional uint32 limit = 4;',
+			'  map<string, Coin> by_denom = 5;',
+			'  google.protobuf.Timestamp at = 6;',
+			'  string legacy_id = 7 [json_name = "legacy", deprecated = true];',
+			'  Page page = 11;',
+			'  reserved 8 to 10, 20 to max;',
+			'  reserved "legacy_name";',
+			'}',
+		].join('\n'));
+		expect(content).toContain([
+			'enum Kind {',
+			'  option allow_alias = true;',
+			'  KIND_UNSPECIFIED = 0;',
+			'  KIND_NATIVE = 1;',
+			'  KIND_DEFAULT = 1 [deprecated = true];',
+			'  reserved 5 to 7;',
+			'  reserved "KIND_OLD";',
+			'}',
+		].join('\n'));
+	});
+
+	it('prints proto2 labels, defaults, extension ranges and extend blocks', () => {
+		expect(printed('demo/legacy/envelope.proto')).toBe([
+			'syntax = "proto2";',
+			'',
+			'package demo.legacy;',
+			'',
+			'message Envelope {',
+			'  required string id = 1;',
+			'  optional int32 retries = 2 [default = 3];',
+			'  optional string note = 3 [default = "n/a"];',
+			'  repeated int64 ids = 4 [packed = true];',
+			'  extensions 100 to max;',
+			'}',
+			'',
+			'extend Envelope {',
+			'  optional string trace = 100;',
+			'}',
+			'',
+		].join('\n'));
+		expect(printed('google/api/annotations.proto')).toContain('extend google.protobuf.MethodOptions {\n  HttpRule http = 72295728;\n}');
+	});
+
+	it('parses back to the same descriptors', () => {
+		const files = printFileDescriptorSet(encodeSources(SOURCES));
+		expect(files.find((file) => file.name === 'demo/bank/v1/query.proto')?.services).toEqual(['demo.bank.v1.Query']);
+
+		const original = parseProtoFiles(Object.entries(SOURCES).map(([name, content]) => ({ name, content })));
+		const reparsed = parseProtoFiles(files
+			.filter((file) => !file.name.startsWith('google/protobuf/'))
+			.map(({ name, content }) => ({ name, content })));
+		expect(reparsed.fileDescriptors.map(comparable)).toEqual(original.fileDescriptors.map(comparable));
+	});
+});
+
+describe('tokenizeProtoLine', () => {
+	const kinds = (line: string) => tokenizeProtoLine(line)
+		.filter((token) => token.kind !== 'text')
+		.map((token) => `${token.kind}:${token.text}`);
+
+	it('marks declared names, option names and literals', () => {
+		expect(kinds('  rpc Watch(stream QueryBalanceRequest) returns (stream Coin) {'))
+			.toEqual(['keyword:rpc', 'name:Watch', 'keyword:stream', 'keyword:returns', 'keyword:stream']);
+		expect(kinds('  string legacy_id = 7 [(gogoproto.nullable) = false, json_name = "legacy"]; // old'))
+			.toEqual(['type:string', 'number:7', 'option:(gogoproto.nullable)', 'keyword:false', 'string:"legacy"', 'comment:// old']);
+		expect(kinds('  reserved 8 to 10, 20 to max;'))
+			.toEqual(['keyword:reserved', 'number:8', 'keyword:to', 'number:10', 'number:20', 'keyword:to', 'keyword:max']);
+	});
+
+	it('keeps the line text intact', () => {
+		const line = '    option (google.api.http) = { get: "/a/{b}" };';
+		expect(tokenizeProtoLine(line).map((token) => token.text).join('')).toBe(line);
+	});
+});
+
+describe('proto source route', () => {
+	const source = async (body: unknown) => {
+		const { POST } = await import('@/app/api/protos/source/route');
+		return POST(new Request('http://localhost/api/protos/source', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		}));
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.resetModules();
+	});
+
+	it('rebuilds the files of a BSR module', async () => {
+		const mockFetch = vi.fn().mockResolvedValueOnce(new Response(new Uint8Array(GREETER_FDS_BYTES), { status: 200 }));
+		vi.stubGlobal('fetch', mockFetch);
+
+		const res = await source({ kind: 'bsr', bsrSource: { module: 'buf.build/test/greeter', version: 'v1' } });
+		expect(res.status).toBe(200);
+		expect(mockFetch.mock.calls[0][0]).toBe('https://buf.build/test/greeter/descriptor/v1?imports=true');
+		const { files } = await res.json();
+		expect(files).toHaveLength(1);
+		expect(files[0].services).toEqual(['example.greeter.GreeterService']);
+		expect(files[0].content).toContain('service GreeterService {');
+	});
+
+	it('rejects unknown kinds and BSR errors with their status', async () => {
+		expect((await source({ kind: 'local' })).status).toBe(400);
+		vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('', { status: 404 })));
+		const res = await source({ kind: 'bsr', bsrSource: { module: 'test/missing' } });
+		expect(res.status).toBe(404);
+		expect((await res.json()).error).toBe('Module not found: test/missing@main');
+	});
+});
@@ -0,0 +1,114 @@
+// tests/reflection-auth.test.ts
+// Services and descriptor routes forward auth to reflection
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+const reflection = vi.hoisted(() => ({
+	fetchServicesViaReflection: vi.fn(),
+	fetchServicesWithCosmosOptimization: vi.fn(),
+	loadServiceDescriptor: vi.fn(),
+}));
+
+vi.mock('@/lib/grpc/reflection-utils', () => reflection);
+
+import { POST as servicesPOST } from '@/app/api/grpc/services/route';
+import { POST as descriptorPOST } from '@/app/api/grpc/descriptor/route';
+
+function makeRequest(path: string, body: any): any {
+	return new Request(`http://localhost${path}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+}
+
+const service = {
+	name: 'Greeter',
+	fullName: 'example.Greeter',
+	methods: [{ name: 'SayHello' }],
+};
+
+describe('auth-aware reflection routes', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('passes bearer metadata and TLS settings to service discovery', async () => {
+		reflection.fetchServicesViaReflection.mockResolvedValue([service]);
+
+		const res = await servicesPOST(makeRequest('/api/grpc/services', {
+			endpoint: 'auth-reflection.test:443',
+			tlsEnabled: true,
+			mode: 'generic',
+			authConfig: { type: 'bearer', bearerToken: 'secret', serverName: 'api.internal' },
+		}));
+
+		expect(res.status).toBe(200);
+		expect(reflection.fetchServicesViaReflection).toHaveBeenCalledWith(expect.objectContaining({
+			metadata: { authorization: 'Bearer secret' },
+			tlsOptions: { serverName: 'api.internal' },
+		}));
+	});
+
+	it('passes API-key metadata and client certs to descriptor loading', async () => {
+		reflection.loadServiceDescriptor.mockResolvedValue(service);
+
+		const res = await descriptorPOST(makeRequest('/api/grpc/descriptor', {
+			endpoint: 'localhost:9090',
+			tlsEnabled: false,
+			serviceName: 'example.Greeter',
+			authConfig: { type: 'api-key', apiKeyHeader: 'x-api-key', apiKeyValue: 'k1' },
+		}));
+
+		expect(res.status).toBe(200);
+		expect(reflection.loadServiceDescriptor).toHaveBeenCalledWith(
+			expect.objectContaining({ metadata: { 'x-api-key': 'k1' } }),
+			'example.Greeter'
+		);
+
+		await descriptorPOST(makeRequest('/api/grpc/descriptor', {
+			endpoint: 'localhost:9090',
+			tlsEnabled: true,
+			serviceName: 'example.Greeter',
+			authConfig: { type: 'mtls', clientCert: 'CERT', clientKey: 'KEY' },
+		}));
+
+		expect(reflection.loadServiceDescriptor).toHaveBeenLastCalledWith(
+			expect.objectContaining({ metadata: {}, clientCert: 'CERT', clientKey: 'KEY' }),
+			'example.Greeter'
+		);
+	});
+
+	it('fetches an OAuth2 client-credentials token for reflection', async () => {
+		reflection.loadServiceDescriptor.mockResolvedValue(service);
+		const tokenServer = http.createServer((_req, res) => {
+			res.writeHead(200, { 'content-type': 'application/json' });
+			res.end(JSON.stringify({ access_token: 'cc-token', expires_in: 3600 }));
+		});
+		await new Promise<void>((resolve) => tokenServer.listen(0, '127.0.0.1', resolve));
+
+		try {
+			const res = await descriptorPOST(makeRequest('/api/grpc/descriptor', {
+				endpoint: 'localhost:9090',
+				tlsEnabled: false,
+				serviceName: 'example.Greeter',
+				authConfig: {
+					type: 'oauth2',
+					oauth2TokenUrl: `http://127.0.0.1:${(tokenServer.address() as AddressInfo).port}/token`,
+					oauth2ClientId: 'reflection-auth-test',
+					oauth2ClientSecret: 'secret',
+				},
+			}));
+
+			expect(res.status).toBe(200);
+			expect(reflection.loadServiceDescriptor).toHaveBeenCalledWith(
+				expect.objectContaining({ metadata: { authorization: 'Bearer cc-token' } }),
+				'example.Greeter'
+			);
+		} finally {
+			await new Promise<void>((resolve) => tokenServer.close(() => resolve()));
+		}
+	});
+});
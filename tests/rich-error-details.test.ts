@@ -0,0 +1,79 @@
+// tests/rich-error-details.test.ts
+// Decoding google.rpc.Status from the grpc-status-details-bin trailer
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { ReflectionClient } from '@/lib/grpc/reflection-client';
+import { getRichErrorRoot, lookupRichErrorType, STATUS_DETAILS_TRAILER } from '@/lib/grpc/rich-error-details';
+
+function packAny(typeName: string, value: Record<string, any>) {
+	const type = getRichErrorRoot().lookupType(typeName);
+	return {
+		type_url: `type.googleapis.com/${typeName}`,
+		value: type.encode(type.fromObject(value)).finish(),
+	};
+}
+
+function encodeStatus(code: number, message: string, details: ReturnType<typeof packAny>[]): Buffer {
+	const Status = getRichErrorRoot().lookupType('google.rpc.Status');
+	return Buffer.from(Status.encode(Status.fromObject({ code, message, details })).finish());
+}
+
+describe('rich error details', () => {
+	let client: ReflectionClient | null = null;
+
+	afterEach(() => {
+		client?.close();
+		client = null;
+	});
+
+	it('only resolves bundled google.rpc types', () => {
+		expect(lookupRichErrorType('google.rpc.BadRequest')?.fullName).toBe('.google.rpc.BadRequest');
+		expect(lookupRichErrorType('google.rpc.DoesNotExist')).toBeNull();
+		expect(lookupRichErrorType('cosmos.bank.v1beta1.MsgSend')).toBeNull();
+	});
+
+	it('attaches decoded details to service errors', async () => {
+		const trailers = new grpc.Metadata();
+		trailers.set(STATUS_DETAILS_TRAILER, encodeStatus(3, 'invalid transfer', [
+			packAny('google.rpc.ErrorInfo', { reason: 'INSUFFICIENT_FUNDS', domain: 'bank', metadata: { denom: 'uatom' } }),
+			packAny('google.rpc.BadRequest', { fieldViolations: [{ field: 'amount', description: 'must be positive' }] }),
+			packAny('google.rpc.RetryInfo', { retryDelay: { seconds: 2, nanos: 500_000_000 } }),
+		]));
+		const serviceError = Object.assign(new Error('3 INVALID_ARGUMENT: invalid transfer'), {
+			code: grpc.status.INVALID_ARGUMENT,
+			details: 'invalid transfer',
+			metadata: trailers,
+		}) as grpc.ServiceError;
+
+		client = new ReflectionClient({ endpoint: 'localhost:1', tls: false });
+		const error = await (client as any).toCallError(serviceError, {});
+
+		expect(error.status.code).toBe(3);
+		expect(error.status.rpcStatus).toMatchObject({
+			code: 3,
+			message: 'invalid transfer',
+			details: [
+				{ '@type': 'google.rpc.ErrorInfo', reason: 'INSUFFICIENT_FUNDS', domain: 'bank', metadata: { denom: 'uatom' } },
+				{ '@type': 'google.rpc.BadRequest', fieldViolations: [{ field: 'amount', description: 'must be positive' }] },
+				{ '@type': 'google.rpc.RetryInfo', retryDelay: { nanos: 500_000_000 } },
+			],
+		});
+	});
+
+	it('leaves rpcStatus unset when the trailer is absent or malformed', async () => {
+		const trailers = new grpc.Metadata();
+		trailers.set(STATUS_DETAILS_TRAILER, Buffer.from([0xff, 0xff, 0xff]));
+		const serviceError = Object.assign(new Error('13 INTERNAL: boom'), {
+			code: grpc.status.INTERNAL,
+			details: 'boom',
+			metadata: trailers,
+		}) as grpc.ServiceError;
+
+		client = new ReflectionClient({ endpoint: 'localhost:1', tls: false });
+		const error = await (client as any).toCallError(serviceError, {});
+
+		expect(error.status.codeName).toBe('INTERNAL');
+		expect(error.status.rpcStatus).toBeUndefined();
+	});
+});
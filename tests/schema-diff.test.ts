@@ -0,0 +1,249 @@
+// tests/schema-diff.test.ts
+// Breaking-change classification between two descriptor sets and the diff route
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as protobuf from 'protobufjs';
+import descriptorJson from 'protobufjs/google/protobuf/descriptor.json';
+import { parseProtoFiles } from '@/lib/grpc/proto-files';
+import { diffFileDescriptorSets } from '@/lib/grpc/schema-diff';
+import { formatSchemaDiffMarkdown } from '@/lib/utils/schema-diff-report';
+
+const HTTP_PROTO = `
+syntax = "proto3";
+package google.api;
+
+import "google/protobuf/descriptor.proto";
+
+message HttpRule {
+  oneof pattern {
+    string get = 2;
+    string post = 4;
+  }
+  string body = 7;
+}
+
+extend google.protobuf.MethodOptions {
+  HttpRule http = 72295728;
+}
+`;
+
+const BEFORE = `
+syntax = "proto3";
+package demo.bank.v1;
+
+import "google/api/http.proto";
+
+service Query {
+  rpc Balance(BalanceRequest) returns (BalanceResponse) {
+    option (google.api.http).get = "/bank/v1/balances/{address}";
+  }
+  rpc Params(ParamsRequest) returns (ParamsResponse);
+  rpc Watch(BalanceRequest) returns (stream BalanceResponse);
+}
+
+service Legacy {
+  rpc Ping(ParamsRequest) returns (ParamsResponse);
+}
+
+message BalanceRequest {
+  string address = 1;
+  string denom = 2;
+  int32 limit = 3;
+  string note = 4;
+  string memo = 5;
+  uint64 height = 6;
+  map<string, int64> labels = 7;
+}
+
+message BalanceResponse {
+  string amount = 1;
+  Status status = 2;
+  repeated uint32 ids = 3;
+  oneof extra {
+    string detail = 4;
+  }
+}
+
+message ParamsRequest {}
+message ParamsResponse {
+  Level level = 1;
+}
+
+enum Status {
+  STATUS_UNSPECIFIED = 0;
+  STATUS_OK = 1;
+  STATUS_FROZEN = 2;
+  STATUS_GONE = 3;
+}
+
+enum Level {
+  LEVEL_UNSPECIFIED = 0;
+  LEVEL_HIGH = 1;
+}
+`;
+
+const AFTER = `
+syntax = "proto3";
+package demo.bank.v1;
+
+import "google/api/http.proto";
+
+service Query {
+  rpc Balance(BalanceRequest) returns (BalanceResponse) {
+    option (google.api.http).get = "/bank/v2/balances/{address}";
+  }
+  rpc Params(ParamsRequest) returns (ParamsResponse) {
+    option (google.api.http).get = "/bank/v1/params";
+  }
+  rpc Watch(BalanceRequest) returns (BalanceResponse);
+  rpc Supply(ParamsRequest) returns (ParamsResponse);
+}
+
+message BalanceRequest {
+  reserved 5;
+  string address = 1;
+  string denom_id = 2;
+  int64 limit = 3;
+  bytes height = 6;
+  map<string, string> labels = 7;
+  string note = 8;
+  bool spendable = 9;
+}
+
+message BalanceResponse {
+  string amount = 1;
+  Status status = 2;
+  uint32 ids = 3;
+  string detail = 4;
+}
+
+message ParamsRequest {}
+message ParamsResponse {
+  Tier level = 1;
+}
+
+message SupplyResponse {}
+
+enum Status {
+  reserved 3;
+  STATUS_UNSPECIFIED = 0;
+  STATUS_ACTIVE = 1;
+  STATUS_FROZEN = 2;
+  STATUS_CLOSED = 4;
+}
+
+enum Tier {
+  LEVEL_UNSPECIFIED = 0;
+  LEVEL_HIGH = 1;
+}
+`;
+
+/** Parse a schema and encode it as protoc would, with google.api.http as an extension field */
+function encodeSchema(content: string): Uint8Array {
+	const { fileDescriptors } = parseProtoFiles([
+		{ name: 'google/api/http.proto', content: HTTP_PROTO },
+		{ name: 'demo/bank/v1/query.proto', content },
+	]);
+	const root = protobuf.Root.fromJSON(descriptorJson);
+	protobuf.parse(HTTP_PROTO, root);
+	const extensionKeys = (value: unknown): unknown => {
+		if (Array.isArray(value)) return value.map(extensionKeys);
+		if (!value || typeof value !== 'object') return value;
+		return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key.replace(/^\((.+)\)$/, '.$1'), extensionKeys(entry)]));
+	};
+	const FileDescriptorSet = root.lookupType('google.protobuf.FileDescriptorSet');
+	return FileDescriptorSet.encode(FileDescriptorSet.fromObject({ file: extensionKeys(fileDescriptors) })).finish();
+}
+
+const report = diffFileDescriptorSets(encodeSchema(BEFORE), encodeSchema(AFTER), { before: 'v1', after: 'v2' });
+
+function change(element: string, kind?: string) {
+	const found = report.changes.find((entry) => entry.element === element && (!kind || entry.kind === kind));
+	if (!found) throw new Error(`No ${kind ?? 'change'} for ${element}`);
+	return found;
+}
+
+describe('diffFileDescriptorSets', () => {
+	it('reports added and removed services and methods', () => {
+		expect(change('demo.bank.v1.Legacy')).toMatchObject({ kind: 'service-removed', breaking: true });
+		expect(change('demo.bank.v1.Query.Supply')).toMatchObject({ kind: 'method-added', breaking: false });
+		expect(change('demo.bank.v1.Query.Watch')).toMatchObject({ kind: 'method-streaming-changed', breaking: true, wireIncompatible: true });
+		expect(change('demo.bank.v1.Query.Balance')).toMatchObject({ kind: 'method-http-changed', breaking: true, wireIncompatible: false });
+		expect(change('demo.bank.v1.Query.Params')).toMatchObject({ kind: 'method-http-added', breaking: false });
+		expect(change('demo.bank.v1.SupplyResponse')).toMatchObject({ kind: 'message-added', breaking: false });
+	});
+
+	it('classifies field changes by their effect on the wire and JSON', () => {
+		expect(change('demo.bank.v1.BalanceRequest.denom')).toMatchObject({ kind: 'field-renamed', breaking: true, wireIncompatible: false });
+		expect(change('demo.bank.v1.BalanceRequest.limit')).toMatchObject({ kind: 'field-type-changed', breaking: true, wireIncompatible: false });
+		expect(change('demo.bank.v1.BalanceRequest.height')).toMatchObject({ kind: 'field-type-changed', wireIncompatible: true });
+		expect(change('demo.bank.v1.BalanceRequest.labels')).toMatchObject({
+			kind: 'field-type-changed',
+			description: 'Type changed from map<string, int64> to map<string, string>',
+			wireIncompatible: true,
+		});
+		expect(change('demo.bank.v1.BalanceRequest.note')).toMatchObject({ kind: 'field-number-changed', breaking: true, wireIncompatible: true });
+		expect(change('demo.bank.v1.BalanceRequest.memo')).toMatchObject({ kind: 'field-removed', breaking: false });
+		expect(change('demo.bank.v1.BalanceRequest.spendable')).toMatchObject({ kind: 'field-added', breaking: false });
+		expect(change('demo.bank.v1.BalanceResponse.ids')).toMatchObject({ kind: 'field-label-changed', breaking: true, wireIncompatible: true });
+		expect(change('demo.bank.v1.BalanceResponse.detail')).toMatchObject({ kind: 'field-oneof-changed', breaking: true, wireIncompatible: false });
+		expect(report.changes.filter((entry) => entry.element.startsWith('demo.bank.v1.BalanceRequest.note'))).toHaveLength(1);
+	});
+
+	it('follows renamed enums and classifies value changes', () => {
+		expect(change('demo.bank.v1.Level')).toMatchObject({ kind: 'enum-renamed', breaking: false, description: 'Renamed to demo.bank.v1.Tier with the same values' });
+		expect(report.changes.some((entry) => entry.element === 'demo.bank.v1.ParamsResponse.level')).toBe(false);
+		expect(report.changes.some((entry) => entry.element === 'demo.bank.v1.Tier')).toBe(false);
+		expect(change('demo.bank.v1.Status.STATUS_OK')).toMatchObject({ kind: 'enum-value-renamed', breaking: true, wireIncompatible: false });
+		expect(change('demo.bank.v1.Status.STATUS_GONE')).toMatchObject({ kind: 'enum-value-removed', breaking: false });
+		expect(change('demo.bank.v1.Status.STATUS_CLOSED')).toMatchObject({ kind: 'enum-value-added', breaking: false });
+	});
+
+	it('lists breaking changes first and counts them', () => {
+		const firstNonBreaking = report.changes.findIndex((entry) => !entry.breaking);
+		expect(report.changes.slice(firstNonBreaking).every((entry) => !entry.breaking)).toBe(true);
+		expect(report.summary.breaking).toBe(firstNonBreaking);
+		expect(report.summary.breaking + report.summary.nonBreaking).toBe(report.changes.length);
+		expect(report.summary.wireIncompatible).toBe(5);
+		expect(diffFileDescriptorSets(encodeSchema(BEFORE), encodeSchema(BEFORE)).changes).toEqual([]);
+	});
+
+	it('exports a markdown report', () => {
+		const markdown = formatSchemaDiffMarkdown(report);
+		expect(markdown).toContain('# Schema diff: v1 → v2');
+		expect(markdown).toContain('| field-number-changed | `demo.bank.v1.BalanceRequest.note` | yes | Field number changed from 4 to 8 |');
+	});
+});
+
+describe('proto diff route', () => {
+	const diff = async (body: unknown) => {
+		const { POST } = await import('@/app/api/protos/diff/route');
+		return POST(new Request('http://localhost/api/protos/diff', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		}));
+	};
+	const snapshot = (name: string, content: string) => ({
+		kind: 'protoset',
+		name,
+		data: Buffer.from(encodeSchema(content)).toString('base64'),
+	});
+
+	afterEach(() => {
+		vi.resetModules();
+	});
+
+	it('diffs two protoset snapshots', async () => {
+		const res = await diff({ before: snapshot('v1.protoset', BEFORE), after: snapshot('v2.protoset', AFTER) });
+		expect(res.status).toBe(200);
+		const body = await res.json();
+		expect(body).toMatchObject({ before: 'v1.protoset', after: 'v2.protoset', summary: report.summary });
+	});
+
+	it('names the side with an invalid source', async () => {
+		const res = await diff({ before: snapshot('v1.protoset', BEFORE), after: { kind: 'bsr' } });
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toBe('after: Missing required field: bsrSource.module');
+	});
+});
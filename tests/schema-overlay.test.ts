@@ -0,0 +1,100 @@
+// tests/schema-overlay.test.ts
+// Overlaying comments, HTTP rules and idempotency levels from a secondary schema onto reflected services
+
+import { describe, it, expect } from 'vitest';
+import {
+	applySchemaOverlay,
+	buildSchemaOverlay,
+	removeSchemaOverlay,
+	schemaOverlayCoverage,
+} from '@/lib/utils/schema-overlay';
+import type { GrpcMethod, GrpcService } from '@/lib/types/grpc';
+
+function balanceMethod(overrides: Partial<GrpcMethod> = {}, comments = false): GrpcMethod {
+	return {
+		name: 'Balance',
+		fullName: 'cosmos.bank.v1beta1.Query.Balance',
+		requestType: 'cosmos.bank.v1beta1.QueryBalanceRequest',
+		responseType: 'cosmos.bank.v1beta1.QueryBalanceResponse',
+		requestStreaming: false,
+		responseStreaming: false,
+		requestTypeDefinition: {
+			name: 'QueryBalanceRequest',
+			fullName: 'cosmos.bank.v1beta1.QueryBalanceRequest',
+			fields: [
+				{ name: 'address', type: 'string', ...(comments ? { comment: 'address to query balances for' } : {}) },
+				{
+					name: 'pagination',
+					type: 'cosmos.base.query.v1beta1.PageRequest',
+					nested: true,
+					nestedFields: [{ name: 'limit', type: 'uint64', ...(comments ? { comment: 'page size' } : {}) }],
+				},
+			],
+		},
+		responseTypeDefinition: {
+			name: 'QueryBalanceResponse',
+			fullName: 'cosmos.bank.v1beta1.QueryBalanceResponse',
+			fields: [{ name: 'balance', type: 'cosmos.base.v1beta1.Coin', comment: 'balance is the balance of the coin' }],
+		},
+		...overrides,
+	};
+}
+
+function queryService(methods: GrpcMethod[]): GrpcService {
+	return { name: 'Query', fullName: 'cosmos.bank.v1beta1.Query', methods, descriptorStatus: 'loaded' };
+}
+
+const SCHEMA_SERVICES: GrpcService[] = [queryService([
+	balanceMethod({
+		description: 'Balance queries the balance of a single coin for a single account.',
+		httpRule: { get: '/cosmos/bank/v1beta1/balances/{address}/by_denom' },
+		idempotencyLevel: 'NO_SIDE_EFFECTS',
+	}, true),
+	balanceMethod({ name: 'Params' }),
+])];
+
+const REFLECTED: GrpcService[] = [queryService([
+	balanceMethod({ httpRule: { get: '/cosmos/bank/v1beta1/balances/{address}' } }),
+	balanceMethod({ name: 'TotalSupply' }),
+])];
+
+describe('schema overlay', () => {
+	const overlay = buildSchemaOverlay(SCHEMA_SERVICES, { label: 'cosmos/cosmos-sdk' });
+
+	it('keeps only methods the schema says something about', () => {
+		expect(Object.keys(overlay.methods)).toEqual(['cosmos.bank.v1beta1.Query.Balance', 'cosmos.bank.v1beta1.Query.Params']);
+		expect(overlay.methods['cosmos.bank.v1beta1.Query.Balance']).toMatchObject({
+			idempotencyLevel: 'NO_SIDE_EFFECTS',
+			requestComments: { address: 'address to query balances for', 'pagination.limit': 'page size' },
+			responseComments: { balance: 'balance is the balance of the coin' },
+		});
+		expect(overlay.methods['cosmos.bank.v1beta1.Query.Params']).toEqual({
+			responseComments: { balance: 'balance is the balance of the coin' },
+		});
+	});
+
+	it('fills in what reflection left out and marks where it came from', () => {
+		const [service] = applySchemaOverlay(REFLECTED, overlay);
+		const [balance, totalSupply] = service.methods;
+
+		expect(balance.httpRule).toEqual({ get: '/cosmos/bank/v1beta1/balances/{address}' });
+		expect(balance.description).toBe('Balance queries the balance of a single coin for a single account.');
+		expect(balance.idempotencyLevel).toBe('NO_SIDE_EFFECTS');
+		expect(balance.overlaySources).toEqual({ description: 'cosmos/cosmos-sdk', idempotencyLevel: 'cosmos/cosmos-sdk' });
+		expect(balance.requestTypeDefinition.fields[0]).toMatchObject({ comment: 'address to query balances for', commentSource: 'cosmos/cosmos-sdk' });
+		expect(balance.requestTypeDefinition.fields[1].nestedFields?.[0]).toMatchObject({ comment: 'page size', commentSource: 'cosmos/cosmos-sdk' });
+		expect(balance.responseTypeDefinition.fields[0]).not.toHaveProperty('commentSource');
+		expect(totalSupply).toBe(REFLECTED[0].methods[1]);
+
+		expect(applySchemaOverlay(applySchemaOverlay(REFLECTED, overlay), overlay)).toEqual(applySchemaOverlay(REFLECTED, overlay));
+	});
+
+	it('detaches back to the reflected services', () => {
+		expect(removeSchemaOverlay(applySchemaOverlay(REFLECTED, overlay))).toEqual(REFLECTED);
+		expect(applySchemaOverlay(REFLECTED, undefined)).toBe(REFLECTED);
+	});
+
+	it('reports how many methods the overlay covers', () => {
+		expect(schemaOverlayCoverage(REFLECTED, overlay)).toEqual({ matched: 1, total: 2 });
+	});
+});
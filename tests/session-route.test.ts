@@ -0,0 +1,98 @@
+// tests/session-route.test.ts
+// Direct tests for the interactive stream session routes
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { POST } from '@/app/api/grpc/session/send/route';
+import { streamSessions } from '@/lib/grpc/stream-sessions';
+
+function makeRequest(body: any): Request {
+	return new Request('http://localhost/api/grpc/session/send', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+}
+
+function registerFakeSession() {
+	const call = { send: vi.fn(), halfClose: vi.fn(), cancel: vi.fn() };
+	const session = streamSessions.register('chat.Chat', 'Talk', call);
+	return { session, call };
+}
+
+describe('session send route handler', () => {
+	const opened: string[] = [];
+
+	afterEach(() => {
+		opened.splice(0).forEach((id) => streamSessions.remove(id));
+	});
+
+	it('returns 400 for an unknown action', async () => {
+		const res = await POST(makeRequest({ sessionId: 'abc', action: 'close' }));
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.error).toContain('send | half-close | cancel');
+	});
+
+	it('returns 404 when the session is not open', async () => {
+		const res = await POST(makeRequest({ sessionId: 'missing', action: 'send', message: {} }));
+		expect(res.status).toBe(404);
+	});
+
+	it('forwards send, half-close and cancel to the open call', async () => {
+		const { session, call } = registerFakeSession();
+		opened.push(session.id);
+
+		await POST(makeRequest({ sessionId: session.id, action: 'send', message: { text: 'hi' } }));
+		await POST(makeRequest({ sessionId: session.id, action: 'half-close' }));
+		const res = await POST(makeRequest({ sessionId: session.id, action: 'cancel' }));
+
+		expect(res.status).toBe(200);
+		expect(call.send).toHaveBeenCalledWith({ text: 'hi' });
+		expect(call.halfClose).toHaveBeenCalledTimes(1);
+		expect(call.cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports encoding failures from the call as 400', async () => {
+		const { session, call } = registerFakeSession();
+		opened.push(session.id);
+		call.send.mockImplementation(() => { throw new Error('Stream is already closed'); });
+
+		const res = await POST(makeRequest({ sessionId: session.id, action: 'send', message: {} }));
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.error).toBe('Stream is already closed');
+	});
+});
+
+describe('session open route handler', () => {
+	afterEach(() => {
+		vi.doUnmock('@/lib/grpc/method-connection');
+		vi.resetModules();
+	});
+
+	it('does not open a call when the browser disconnects while connecting', async () => {
+		const client = { close: vi.fn(), openStreamingCall: vi.fn() };
+		let connected!: () => void;
+		vi.doMock('@/lib/grpc/method-connection', () => ({
+			resolveExecutionAttempts: (endpoint: string) => [{ address: endpoint, tlsEnabled: false }],
+			connectForMethod: () => new Promise((resolve) => {
+				connected = () => resolve({ client, endpoint: 'localhost:9090', usedTls: false, failures: [] });
+			}),
+		}));
+		const register = vi.spyOn(streamSessions, 'register');
+		const { POST: open } = await import('@/app/api/grpc/session/route');
+
+		const res = await open(new Request('http://localhost/api/grpc/session', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ endpoint: 'localhost:9090', service: 'chat.Chat', method: 'Talk', tlsEnabled: false }),
+		}));
+		await res.body!.cancel();
+		connected();
+		await vi.waitFor(() => expect(client.close).toHaveBeenCalledTimes(1));
+
+		expect(client.openStreamingCall).not.toHaveBeenCalled();
+		expect(register).not.toHaveBeenCalled();
+		register.mockRestore();
+	});
+});
@@ -0,0 +1,61 @@
+// tests/stream-events.test.ts
+// NDJSON framing for server-streaming execution events
+
+import { describe, it, expect } from 'vitest';
+import {
+	encodeStreamEvent,
+	parseStreamEvents,
+	readStreamEvents,
+	type StreamEvent,
+} from '@/lib/utils/stream-events';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+			controller.close();
+		},
+	});
+}
+
+describe('stream events', () => {
+	it('encodes one event per line', () => {
+		const line = encodeStreamEvent({ type: 'end', count: 2, executionTime: 15 });
+		expect(line).toBe('{"type":"end","count":2,"executionTime":15}\n');
+	});
+
+	it('keeps a partial trailing line as the remainder', () => {
+		const first = encodeStreamEvent({ type: 'message', index: 0, timestamp: 1, data: { n: 1 } });
+		const { events, remainder } = parseStreamEvents(`${first}{"type":"mess`);
+
+		expect(events).toEqual([{ type: 'message', index: 0, timestamp: 1, data: { n: 1 } }]);
+		expect(remainder).toBe('{"type":"mess');
+	});
+
+	it('reassembles events split across chunks, in order', async () => {
+		const body = [
+			encodeStreamEvent({ type: 'open', endpoint: 'localhost:9090', tls: false, failedEndpoints: [] }),
+			encodeStreamEvent({ type: 'message', index: 0, timestamp: 10, data: { value: 'a' } }),
+			encodeStreamEvent({ type: 'message', index: 1, timestamp: 20, data: { value: 'b' } }),
+			encodeStreamEvent({ type: 'end', count: 2, executionTime: 25 }),
+		].join('');
+		const chunks = [body.slice(0, 7), body.slice(7, 90), body.slice(90)];
+
+		const events: StreamEvent[] = [];
+		await readStreamEvents(streamOf(chunks), (event) => events.push(event));
+
+		expect(events.map((event) => event.type)).toEqual(['open', 'message', 'message', 'end']);
+		expect(events[2]).toMatchObject({ index: 1, data: { value: 'b' } });
+	});
+
+	it('parses a final event without a trailing newline', async () => {
+		const events: StreamEvent[] = [];
+		await readStreamEvents(
+			streamOf(['{"type":"error","error":"boom","count":0,"executionTime":3}']),
+			(event) => events.push(event)
+		);
+
+		expect(events).toEqual([{ type: 'error', error: 'boom', count: 0, executionTime: 3 }]);
+	});
+});
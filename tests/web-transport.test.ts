@@ -0,0 +1,272 @@
+// tests/web-transport.test.ts
+// gRPC-Web / Connect framing, status mapping and calls against a local HTTP server
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as grpc from '@grpc/grpc-js';
+import {
+	Base64ChunkDecoder,
+	connectCodeToGrpcCode,
+	connectErrorToStatus,
+	encodeFrame,
+	FrameDecoder,
+	headersToMetadata,
+	httpStatusToGrpcCode,
+	parseGrpcWebTrailers,
+	WebTransportClient,
+} from '@/lib/grpc/web-transport';
+import { getRichErrorRoot, STATUS_DETAILS_TRAILER } from '@/lib/grpc/rich-error-details';
+import { normalizeTransport } from '@/lib/utils/transport';
+import { normalizeCallOptions } from '@/lib/utils/call-options';
+
+const identity = (value: Buffer) => value;
+
+let server: http.Server | null = null;
+
+afterEach(async () => {
+	if (server) await new Promise<void>((resolve) => server!.close(() => resolve()));
+	server = null;
+});
+
+/** Serve on a loopback port, or on a unix socket when `socketPath` is given */
+async function listen(handler: (req: http.IncomingMessage, body: Buffer, res: http.ServerResponse) => void, socketPath?: string): Promise<string> {
+	server = http.createServer((req, res) => {
+		const chunks: Buffer[] = [];
+		req.on('data', (chunk: Buffer) => chunks.push(chunk));
+		req.on('end', () => handler(req, Buffer.concat(chunks), res));
+	});
+	if (socketPath) {
+		await new Promise<void>((resolve) => server!.listen(socketPath, resolve));
+		return `unix://${socketPath}`;
+	}
+	await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+	return `127.0.0.1:${(server!.address() as AddressInfo).port}`;
+}
+
+describe('web transport framing', () => {
+	it('reassembles frames split across chunks', () => {
+		const stream = Buffer.concat([encodeFrame(Buffer.from('hello')), encodeFrame(Buffer.from('x-trailer'), 0x80)]);
+		const decoder = new FrameDecoder();
+
+		expect(decoder.push(stream.subarray(0, 3))).toEqual([]);
+		const frames = [...decoder.push(stream.subarray(3, 12)), ...decoder.push(stream.subarray(12))];
+
+		expect(frames.map((f) => [f.flags, f.data.toString()])).toEqual([[0, 'hello'], [0x80, 'x-trailer']]);
+	});
+
+	it('decodes grpc-web-text bodies made of separately padded segments', () => {
+		const body = Buffer.from('ab').toString('base64') + Buffer.from('cde').toString('base64') + Buffer.from('f').toString('base64');
+		const decoder = new Base64ChunkDecoder();
+
+		const decoded = Buffer.concat([decoder.push(body.slice(0, 6)), decoder.push(body.slice(6))]);
+
+		expect(decoded.toString()).toBe('abcdef');
+	});
+
+	it('parses trailer frames and maps status codes', () => {
+		expect(parseGrpcWebTrailers(Buffer.from('grpc-status: 5\r\ngrpc-message: not%20found\r\nX-Extra: a\r\nx-extra: b\r\n'))).toEqual({
+			'grpc-status': ['5'],
+			'grpc-message': ['not%20found'],
+			'x-extra': ['a', 'b'],
+		});
+		expect(connectCodeToGrpcCode('not_found')).toBe(grpc.status.NOT_FOUND);
+		expect(connectCodeToGrpcCode('bogus')).toBe(grpc.status.UNKNOWN);
+		expect(httpStatusToGrpcCode(404)).toBe(grpc.status.UNIMPLEMENTED);
+		expect(httpStatusToGrpcCode(503)).toBe(grpc.status.UNAVAILABLE);
+		expect(normalizeTransport('connect')).toBe('connect');
+		expect(normalizeTransport('toString')).toBe('grpc');
+	});
+
+	it('converts headers to metadata, honouring prefixes and binary keys', () => {
+		const metadata = headersToMetadata({
+			'trailer-x-request-id': 'req-1',
+			'trailer-trace-bin': Buffer.from([1, 2]).toString('base64'),
+			'content-type': 'application/proto',
+			'x-other': 'ignored',
+		}, 'trailer-');
+
+		expect(metadata.get('x-request-id')).toEqual(['req-1']);
+		expect(metadata.get('trace-bin')).toEqual([Buffer.from([1, 2])]);
+		expect(metadata.get('x-other')).toEqual([]);
+	});
+
+	it('re-encodes Connect error details as a google.rpc.Status trailer', () => {
+		const ErrorInfo = getRichErrorRoot().lookupType('google.rpc.ErrorInfo');
+		const value = Buffer.from(ErrorInfo.encode(ErrorInfo.fromObject({ reason: 'QUOTA', domain: 'example.com' })).finish());
+
+		const status = connectErrorToStatus(
+			{ code: 'resource_exhausted', message: 'slow down', details: [{ type: 'google.rpc.ErrorInfo', value: value.toString('base64') }] },
+			new grpc.Metadata(),
+			grpc.status.UNKNOWN
+		);
+
+		expect(status.code).toBe(grpc.status.RESOURCE_EXHAUSTED);
+		expect(status.details).toBe('slow down');
+		const [encoded] = status.metadata.get(STATUS_DETAILS_TRAILER) as Buffer[];
+		const decoded = getRichErrorRoot().lookupType('google.rpc.Status').decode(encoded) as any;
+		expect(decoded.details[0].type_url).toBe('type.googleapis.com/google.rpc.ErrorInfo');
+	});
+});
+
+describe('WebTransportClient', () => {
+	it('makes a gRPC-Web unary call and reads the trailer frame', async () => {
+		let seen: { headers: http.IncomingHttpHeaders; body: Buffer } | null = null;
+		const endpoint = await listen((req, body, res) => {
+			seen = { headers: req.headers, body };
+			res.writeHead(200, { 'content-type': 'application/grpc-web+proto', 'x-served-by': 'test' });
+			res.end(Buffer.concat([
+				encodeFrame(Buffer.from('pong')),
+				encodeFrame(Buffer.from('grpc-status: 0\r\nx-request-id: r1\r\n'), 0x80),
+			]));
+		});
+		const client = new WebTransportClient(endpoint, { transport: 'grpc-web', tls: false });
+		const metadata = new grpc.Metadata();
+		metadata.add('authorization', 'Bearer t');
+
+		const headers: grpc.Metadata[] = [];
+		const result = await new Promise<{ value: Buffer; status?: grpc.StatusObject }>((resolve, reject) => {
+			const call = client.makeUnaryRequest('/test.Svc/Ping', identity, identity, Buffer.from('ping'), metadata, {}, (err, value) => {
+				if (err) reject(err);
+				else call.once('status', (status) => resolve({ value, status }));
+			});
+			call.on('metadata', (m: grpc.Metadata) => headers.push(m));
+		});
+
+		expect(result.value.toString()).toBe('pong');
+		expect(result.status?.metadata.get('x-request-id')).toEqual(['r1']);
+		expect(headers[0].get('x-served-by')).toEqual(['test']);
+		expect(seen!.headers['content-type']).toBe('application/grpc-web+proto');
+		expect(seen!.headers['x-grpc-web']).toBe('1');
+		expect(seen!.headers.authorization).toBe('Bearer t');
+		expect(seen!.body).toEqual(encodeFrame(Buffer.from('ping')));
+	});
+
+	it('calls through a unix socket endpoint', async () => {
+		let host: string | undefined;
+		const endpoint = await listen((req, _body, res) => {
+			host = req.headers.host;
+			res.writeHead(200, { 'content-type': 'application/grpc-web+proto' });
+			res.end(Buffer.concat([encodeFrame(Buffer.from('pong')), encodeFrame(Buffer.from('grpc-status: 0\r\n'), 0x80)]));
+		}, path.join(os.tmpdir(), `grpc-explorer-web-${process.pid}.sock`));
+		const client = new WebTransportClient(endpoint, { transport: 'grpc-web', tls: false });
+
+		const value = await new Promise<Buffer>((resolve, reject) => {
+			client.makeUnaryRequest('/test.Svc/Ping', identity, identity, Buffer.from('ping'), new grpc.Metadata(), {}, (err, response) => {
+				if (err) reject(err);
+				else resolve(response!);
+			});
+		});
+
+		expect(value.toString()).toBe('pong');
+		expect(host).toBe('localhost');
+	});
+
+	it('surfaces Connect unary errors and streams server messages', async () => {
+		const endpoint = await listen((req, body, res) => {
+			if (req.url === '/test.Svc/Fail') {
+				res.writeHead(404, { 'content-type': 'application/json' });
+				res.end(JSON.stringify({ code: 'not_found', message: 'no such item' }));
+				return;
+			}
+			res.writeHead(200, { 'content-type': 'application/connect+proto' });
+			res.end(Buffer.concat([
+				encodeFrame(Buffer.from('a')),
+				encodeFrame(Buffer.from('b')),
+				encodeFrame(Buffer.from(JSON.stringify({ metadata: { 'x-count': ['2'] } })), 0x02),
+			]));
+		});
+		const client = new WebTransportClient(endpoint, { transport: 'connect', tls: false });
+
+		const error = await new Promise<grpc.ServiceError>((resolve) => {
+			client.makeUnaryRequest('/test.Svc/Fail', identity, identity, Buffer.from(''), new grpc.Metadata(), {}, (err) => resolve(err!));
+		});
+		expect(error.code).toBe(grpc.status.NOT_FOUND);
+		expect(error.details).toBe('no such item');
+
+		const messages: string[] = [];
+		const status = await new Promise<grpc.StatusObject>((resolve) => {
+			const call = client.makeServerStreamRequest('/test.Svc/List', identity, identity, Buffer.from(''), new grpc.Metadata(), {});
+			call.on('data', (message: Buffer) => messages.push(message.toString()));
+			call.on('status', resolve);
+		});
+		expect(messages).toEqual(['a', 'b']);
+		expect(status.code).toBe(grpc.status.OK);
+		expect(status.metadata.get('x-count')).toEqual(['2']);
+	});
+
+	it('compresses requests, advertises accepted encodings and inflates responses', async () => {
+		let seen: { headers: http.IncomingHttpHeaders; body: Buffer } | null = null;
+		const endpoint = await listen((req, body, res) => {
+			seen = { headers: req.headers, body };
+			res.writeHead(200, { 'content-type': 'application/grpc-web+proto', 'grpc-encoding': 'deflate' });
+			res.end(Buffer.concat([
+				encodeFrame(zlib.deflateSync(Buffer.from('pong')), 0x01),
+				encodeFrame(Buffer.from('grpc-status: 0\r\n'), 0x80),
+			]));
+		});
+		const client = new WebTransportClient(endpoint, {
+			transport: 'grpc-web',
+			tls: false,
+			callOptions: { compression: 'gzip', acceptEncodings: ['deflate'] },
+		});
+
+		const value = await new Promise<Buffer>((resolve, reject) => {
+			client.makeUnaryRequest('/test.Svc/Ping', identity, identity, Buffer.from('ping'), new grpc.Metadata(), {}, (err, response) => {
+				if (err) reject(err);
+				else resolve(response);
+			});
+		});
+
+		expect(value.toString()).toBe('pong');
+		expect(seen!.headers['grpc-encoding']).toBe('gzip');
+		expect(seen!.headers['grpc-accept-encoding']).toBe('identity,deflate');
+		expect(seen!.body[0]).toBe(0x01);
+		expect(zlib.gunzipSync(seen!.body.subarray(5)).toString()).toBe('ping');
+	});
+
+	it('enforces message size limits in both directions', async () => {
+		let requests = 0;
+		const endpoint = await listen((_req, _body, res) => {
+			requests++;
+			res.writeHead(200, { 'content-type': 'application/connect+proto', 'connect-content-encoding': 'gzip' });
+			res.end(Buffer.concat([
+				encodeFrame(zlib.gzipSync(Buffer.alloc(64)), 0x01),
+				encodeFrame(Buffer.from('{}'), 0x02),
+			]));
+		});
+		const call = (maxSendMessageBytes: number) => new Promise<grpc.StatusObject>((resolve) => {
+			const client = new WebTransportClient(endpoint, {
+				transport: 'connect',
+				tls: false,
+				callOptions: { maxSendMessageBytes, maxReceiveMessageBytes: 16 },
+			});
+			const stream = client.makeServerStreamRequest('/test.Svc/List', identity, identity, Buffer.alloc(8), new grpc.Metadata(), {});
+			stream.on('status', resolve);
+		});
+
+		const sendLimited = await call(4);
+		expect(sendLimited.code).toBe(grpc.status.RESOURCE_EXHAUSTED);
+		expect(sendLimited.details).toBe('Sent message larger than max of 4 bytes');
+		expect(requests).toBe(0);
+
+		const receiveLimited = await call(1024);
+		expect(receiveLimited.code).toBe(grpc.status.RESOURCE_EXHAUSTED);
+		expect(receiveLimited.details).toBe('Received message larger than max of 16 bytes');
+	});
+
+	it('normalizes call options from request JSON', () => {
+		expect(normalizeCallOptions({ compression: 'identity', waitForReady: false })).toBeUndefined();
+		expect(normalizeCallOptions({
+			compression: 'brotli',
+			acceptEncodings: ['deflate', 'identity', 'zstd', 'gzip'],
+			maxReceiveMessageBytes: 2048,
+			maxSendMessageBytes: -1,
+			keepaliveTimeMs: 1.5,
+			waitForReady: true,
+		})).toEqual({ acceptEncodings: ['gzip', 'deflate'], maxReceiveMessageBytes: 2048, waitForReady: true });
+	});
+});